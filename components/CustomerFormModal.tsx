@@ -0,0 +1,116 @@
+import React, { useState, FormEvent } from 'react';
+import { db } from '../db';
+import { Customer } from '../types';
+import Modal from './Modal';
+import { useNotification } from '../contexts/NotificationContext';
+import { logActivity } from '../lib/activityLogger';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+
+interface CustomerFormModalProps {
+  customer: Customer | null;
+  initialName?: string; // Prefills the name of a new customer, e.g. with what was typed into a search box
+  onClose: () => void;
+  onSaved?: (customer: Customer) => void;
+}
+
+// Used from the POS as well, so a customer can also be registered offline through the sync queue.
+const CustomerFormModal: React.FC<CustomerFormModalProps> = ({ customer, initialName, onClose, onSaved }) => {
+  const [name, setName] = useState(customer?.name || initialName || '');
+  const [phone, setPhone] = useState(customer?.phone || '');
+  const [nationalId, setNationalId] = useState(customer?.nationalId || '');
+  const [notes, setNotes] = useState(customer?.notes || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const { showNotification } = useNotification();
+  const isEditing = !!customer;
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      showNotification('نام مشتری نمی‌تواند خالی باشد.', 'error');
+      return;
+    }
+    // Empty optional fields are stored as undefined so they stay out of the indexes.
+    const fields = {
+      name: name.trim(),
+      phone: phone.trim() || undefined,
+      nationalId: nationalId.trim() || undefined,
+      notes: notes.trim() || undefined,
+    };
+    if (fields.nationalId) {
+      const duplicate = await db.customers.where('nationalId').equals(fields.nationalId).first();
+      if (duplicate && duplicate.id !== customer?.id) {
+        showNotification(`کد ملی وارد شده قبلاً برای «${duplicate.name}» ثبت شده است.`, 'error');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      let saved: Customer;
+      if (!navigator.onLine || (isEditing && !customer.remoteId)) {
+        saved = await db.transaction('rw', [db.customers, db.syncQueue], async () => {
+          if (isEditing) {
+            await db.customers.update(customer.id!, fields);
+            // Only the edited fields are pushed, so the server-maintained debt is never overwritten.
+            await enqueueSyncItem('customers', 'update', customer.id!, fields);
+            return { ...customer, ...fields };
+          }
+          const newCustomer: Customer = { ...fields, totalDebt: 0 };
+          newCustomer.id = await db.customers.add(newCustomer);
+          await enqueueSyncItem('customers', 'create', newCustomer.id);
+          return newCustomer;
+        });
+        showNotification('اطلاعات مشتری به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const dataToSave = {
+          name: fields.name,
+          phone: fields.phone ?? null,
+          national_id: fields.nationalId ?? null,
+          notes: fields.notes ?? null,
+        };
+        if (isEditing) {
+          const { error } = await backend.from('customers').update(dataToSave).eq('id', customer.remoteId);
+          if (error) throw error;
+          await db.customers.update(customer.id!, fields);
+          await logActivity('UPDATE', 'Customer', customer.remoteId!, { old: customer, new: dataToSave });
+          saved = { ...customer, ...fields };
+          showNotification('اطلاعات مشتری با موفقیت ویرایش شد.', 'success');
+        } else {
+          const { data, error } = await backend.from('customers').insert({ ...dataToSave, total_debt: 0 }).select().single();
+          if (error) throw error;
+          saved = { remoteId: data.id, updatedAt: data.updated_at, ...fields, totalDebt: 0 };
+          saved.id = await db.customers.add(saved);
+          await logActivity('CREATE', 'Customer', data.id, { newCustomer: data });
+          showNotification('مشتری جدید با موفقیت ثبت شد.', 'success');
+        }
+      }
+      onSaved?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to save customer:", err);
+      showNotification(`خطا در ذخیره مشتری: ${err.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={isEditing ? 'ویرایش مشتری' : 'ثبت مشتری جدید'} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="نام و نام خانوادگی" required autoFocus className="input-style" />
+        <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="شماره تماس (اختیاری)" className="input-style" />
+        <input value={nationalId} onChange={e => setNationalId(e.target.value)} placeholder="کد ملی / تذکره (اختیاری)" className="input-style" />
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="یادداشت (حساسیت دارویی، بیماری‌های مزمن و...)" rows={3} className="input-style" />
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : (isEditing ? 'ذخیره تغییرات' : 'ثبت')}</button>
+        </div>
+        <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }`}</style>
+      </form>
+    </Modal>
+  );
+};
+
+export default CustomerFormModal;
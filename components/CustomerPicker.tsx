@@ -0,0 +1,88 @@
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Customer } from '../types';
+import { Search, UserPlus, X, User } from 'lucide-react';
+import CustomerFormModal from './CustomerFormModal';
+
+interface CustomerPickerProps {
+  customerId?: number;
+  onChange: (customer: Customer | null) => void;
+}
+
+// Search-as-you-type selector for the customer of a sale or clinic ticket, with quick registration.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({ customerId, onChange }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const customers = useLiveQuery(() => db.customers.orderBy('name').toArray(), []);
+  const selected = useMemo(() => customers?.find(c => c.id === customerId), [customers, customerId]);
+
+  const matches = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term || !customers) return [];
+    return customers.filter(c =>
+      c.name.toLowerCase().includes(term) || c.phone?.includes(term) || c.nationalId?.includes(term)
+    ).slice(0, 5);
+  }, [searchTerm, customers]);
+
+  const select = (customer: Customer | null) => {
+    onChange(customer);
+    setSearchTerm('');
+  };
+
+  if (selected) {
+    return (
+      <div className="flex items-center justify-between gap-2 p-2 bg-blue-900/30 border border-blue-700 rounded-lg text-sm">
+        <div className="flex items-center gap-2 min-w-0">
+          <User size={16} className="text-blue-300 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="font-semibold text-white truncate">{selected.name}</p>
+            <p className="text-xs text-gray-400">
+              {selected.phone || 'بدون شماره'}
+              {selected.totalDebt > 0 && <span className="text-yellow-400"> | بدهی: ${selected.totalDebt.toFixed(2)}</span>}
+            </p>
+          </div>
+        </div>
+        <button type="button" onClick={() => select(null)} className="text-gray-400 hover:text-white" title="حذف مشتری"><X size={16} /></button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-grow">
+          <Search className="absolute right-2 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={e => setSearchTerm(e.target.value)}
+            placeholder="مشتری (نام، تلفن یا کد ملی)..."
+            className="w-full bg-gray-700/50 border border-gray-600 rounded-lg py-1.5 pr-8 pl-2 text-sm text-white focus:outline-none focus:border-blue-500"
+          />
+        </div>
+        <button type="button" onClick={() => setIsFormOpen(true)} className="p-2 bg-gray-600 rounded-lg hover:bg-gray-500" title="ثبت مشتری جدید"><UserPlus size={16} /></button>
+      </div>
+      {matches.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-gray-700 border border-gray-600 rounded-lg shadow-lg overflow-hidden">
+          {matches.map(c => (
+            <button type="button" key={c.id} onClick={() => select(c)} className="w-full text-right px-3 py-2 text-sm hover:bg-blue-600">
+              <span className="text-white">{c.name}</span>
+              <span className="text-xs text-gray-400 mr-2">{c.phone || c.nationalId || ''}</span>
+            </button>
+          ))}
+        </div>
+      )}
+      {isFormOpen && (
+        <CustomerFormModal
+          customer={null}
+          initialName={searchTerm.trim()}
+          onClose={() => setIsFormOpen(false)}
+          onSaved={select}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CustomerPicker;
@@ -0,0 +1,94 @@
+import React, { useState, FormEvent } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import Modal from './Modal';
+import { Permission } from '../types';
+import { backend } from '../lib/dataBackend';
+import { rememberCredentials, verifyCachedCredentials } from '../lib/offlineCredentials';
+
+interface DiscountApprovalModalProps {
+  discountPercent: number;
+  maxPercent: number;
+  onClose: () => void;
+  onApproved: (managerUsername: string) => void;
+}
+
+// A manager signs off a discount above the limit with their own credentials, without switching users.
+// When the backend cannot be reached, the credentials are checked against those cached on this device.
+const DiscountApprovalModal: React.FC<DiscountApprovalModalProps> = ({ discountPercent, maxPercent, onClose, onApproved }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsChecking(true);
+    setError(null);
+    try {
+      let manager: { username: string; permissions: Permission[] } | undefined;
+      let checkedLocally = !navigator.onLine;
+      if (!checkedLocally) {
+        try {
+          const { data, error: rpcError } = await backend.rpc('verify_user_credentials', {
+            p_username: username.trim(),
+            p_password: password,
+          });
+          if (rpcError) throw rpcError;
+          if (data?.[0]) {
+            manager = { username: data[0].username, permissions: data[0].permissions ?? [] };
+            await rememberCredentials(manager.username, password);
+          }
+        } catch (err) {
+          console.warn("Backend unreachable for discount approval, checking cached credentials:", err);
+          checkedLocally = true;
+        }
+      }
+      if (checkedLocally) manager = await verifyCachedCredentials(username.trim(), password);
+      if (!manager) {
+        setError(checkedLocally
+          ? 'اتصال به سرور برقرار نیست و این نام کاربری و رمز عبور روی این دستگاه تایید نشد. مدیر باید قبلاً روی این دستگاه وارد شده باشد.'
+          : 'نام کاربری یا رمز عبور اشتباه است.');
+        return;
+      }
+      const { permissions } = manager;
+      if (manager.username.toLowerCase() !== 'admin' && !permissions.includes('sales:discount:approve')) {
+        setError('این کاربر اجازه تایید تخفیف را ندارد.');
+        return;
+      }
+      onApproved(manager.username);
+    } catch (err: any) {
+      console.error("Discount approval failed:", err);
+      setError(`خطا در بررسی اطلاعات مدیر: ${err.message || 'خطای سرور'}`);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  return (
+    <Modal title="تایید تخفیف توسط مدیر" onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="flex items-start gap-3 p-3 bg-yellow-500/10 border border-yellow-500/30 rounded-lg text-sm text-yellow-200">
+          <ShieldCheck size={20} className="flex-shrink-0 mt-0.5" />
+          <p>تخفیف این فاکتور {discountPercent.toFixed(1)}٪ است و از سقف مجاز ({maxPercent}٪) بیشتر است. برای ادامه، مدیر باید نام کاربری و رمز عبور خود را وارد کند.</p>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">نام کاربری مدیر</label>
+          <input type="text" value={username} onChange={e => setUsername(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required autoFocus />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">رمز عبور</label>
+          <input type="password" value={password} onChange={e => setPassword(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required />
+        </div>
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="submit" disabled={isChecking} className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-500">
+            {isChecking ? 'در حال بررسی...' : 'تایید و ادامه'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default DiscountApprovalModal;
@@ -1,12 +1,15 @@
 import React, { useState, FormEvent } from 'react';
-import { Wifi, WifiOff, LogOut, UserCircle, User, KeyRound, Save } from 'lucide-react';
+import { Wifi, WifiOff, LogOut, UserCircle, User, KeyRound, Save, Clock } from 'lucide-react';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import { useAuth } from '../contexts/AuthContext';
 import Modal from './Modal';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
+import { forgetCredentials, rememberCredentials } from '../lib/offlineCredentials';
 import SyncStatus from './SyncStatus';
+import ShiftModal from './ShiftModal';
+import { useCurrentShift } from '../hooks/useCurrentShift';
 
 
 const MyProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
@@ -40,7 +43,7 @@ const MyProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
 
         try {
             if (usernameChanged) {
-                const { data, error } = await supabase.rpc('update_my_username', {
+                const { data, error } = await backend.rpc('update_my_username', {
                     p_user_id: currentUser.id,
                     p_new_username: newUsername.trim()
                 });
@@ -53,12 +56,13 @@ const MyProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     changesMade = true;
                     await logActivity('UPDATE', 'User', currentUser.id, { old: { username: currentUser.username }, new: { username: newUsername.trim() }});
                     updateCurrentUsername(newUsername.trim());
+                    await forgetCredentials(currentUser.username);
                 }
             }
 
             if (success && passwordChanged) {
                 // Here we pass the plain text password. The trigger will hash it.
-                const { error } = await supabase.rpc('update_my_password', {
+                const { error } = await backend.rpc('update_my_password', {
                     p_user_id: currentUser.id,
                     p_new_password: newPassword.trim()
                 });
@@ -68,6 +72,7 @@ const MyProfileModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
                     showNotification('خطا در تغییر رمز عبور.', 'error');
                 } else {
                     changesMade = true;
+                    await rememberCredentials(usernameChanged ? newUsername.trim() : currentUser.username, newPassword.trim());
                     // Log the action but not the password itself for security
                     await logActivity('UPDATE', 'User', currentUser.id, { details: `Password changed for user ${currentUser.username}` });
                 }
@@ -123,6 +128,8 @@ const Header: React.FC<HeaderProps> = ({ currentPageTitle }) => {
     const isOnline = useOnlineStatus();
     const { currentUser, logout } = useAuth();
     const [isProfileModalOpen, setIsProfileModalOpen] = useState(false);
+    const [isShiftModalOpen, setIsShiftModalOpen] = useState(false);
+    const currentShift = useCurrentShift();
 
 
     return (
@@ -137,6 +144,16 @@ const Header: React.FC<HeaderProps> = ({ currentPageTitle }) => {
                                 <UserCircle size={20} />
                                 <span>{currentUser.username}</span>
                             </div>
+                            {currentUser.type === 'employee' && (
+                                <button
+                                    onClick={() => setIsShiftModalOpen(true)}
+                                    className={`flex items-center gap-1 px-3 py-1 rounded-full text-xs ${currentShift ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30' : 'bg-yellow-500/20 text-yellow-300 hover:bg-yellow-500/30'}`}
+                                    title={currentShift ? 'بستن شیفت و صدور گزارش پایان شیفت' : 'باز کردن شیفت صندوق'}
+                                >
+                                    <Clock size={14} />
+                                    {currentShift ? `شیفت باز از ${new Date(currentShift.openedAt).toLocaleTimeString('fa-IR', { hour: '2-digit', minute: '2-digit' })}` : 'بدون شیفت'}
+                                </button>
+                            )}
                             {currentUser.type === 'employee' && (
                                 <button onClick={() => setIsProfileModalOpen(true)} className="p-2 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white" title="پروفایل من">
                                     <User size={18} />
@@ -150,6 +167,7 @@ const Header: React.FC<HeaderProps> = ({ currentPageTitle }) => {
                 </div>
             </header>
             {isProfileModalOpen && <MyProfileModal onClose={() => setIsProfileModalOpen(false)} />}
+            {isShiftModalOpen && <ShiftModal shift={currentShift} onClose={() => setIsShiftModalOpen(false)} />}
         </>
     );
 };
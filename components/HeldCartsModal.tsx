@@ -0,0 +1,57 @@
+import React from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Play, Trash2 } from 'lucide-react';
+import Modal from './Modal';
+import { db } from '../db';
+import { HeldCart } from '../types';
+
+interface HeldCartsModalProps {
+  onClose: () => void;
+  onResume: (heldCart: HeldCart) => void;
+}
+
+// Carts parked at this counter, newest first.
+const HeldCartsModal: React.FC<HeldCartsModalProps> = ({ onClose, onResume }) => {
+  const heldCarts = useLiveQuery(() => db.heldCarts.orderBy('heldAt').reverse().toArray(), []);
+  const customers = useLiveQuery(() => db.customers.toArray(), []);
+  const customerName = (id?: number) => (id ? customers?.find(c => c.id === id)?.name : undefined);
+
+  const handleDelete = async (heldCart: HeldCart) => {
+    if (!window.confirm(`آیا از حذف سبد نگه‌داشته‌شده "${heldCart.name}" مطمئن هستید؟`)) return;
+    await db.heldCarts.delete(heldCart.id!);
+  };
+
+  return (
+    <Modal title="سبدهای نگه‌داشته‌شده" onClose={onClose}>
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+        {heldCarts?.length === 0 && <p className="text-gray-500 text-center py-8">سبد نگه‌داشته‌شده‌ای وجود ندارد.</p>}
+        {heldCarts?.map(heldCart => {
+          const itemCount = heldCart.items.reduce((sum, item) => sum + item.quantity, 0);
+          const total = heldCart.items.reduce((sum, item) => sum + item.totalPrice, 0);
+          const customer = customerName(heldCart.customerId);
+          return (
+            <div key={heldCart.id} className="p-3 bg-gray-700/60 rounded-lg flex items-center justify-between gap-3">
+              <div className="text-sm">
+                <p className="font-semibold text-white">{heldCart.name}{customer && ` - ${customer}`}</p>
+                <p className="text-xs text-gray-400">
+                  {new Date(heldCart.heldAt).toLocaleString('fa-IR')} | {heldCart.items.length} قلم ({itemCount} عدد) | ${total.toFixed(2)}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <button onClick={() => onResume(heldCart)} className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700">
+                  <Play size={14} />
+                  <span>ادامه</span>
+                </button>
+                <button onClick={() => handleDelete(heldCart)} title="حذف" className="p-2 text-red-400 hover:text-red-300">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </Modal>
+  );
+};
+
+export default HeldCartsModal;
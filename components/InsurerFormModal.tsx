@@ -0,0 +1,175 @@
+import React, { useState, FormEvent } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Plus, Trash2 } from 'lucide-react';
+import { db } from '../db';
+import { DrugType, Insurer, InsuranceCoverageRule } from '../types';
+import Modal from './Modal';
+import { useNotification } from '../contexts/NotificationContext';
+import { logActivity } from '../lib/activityLogger';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { toRemoteRecord } from '../lib/syncMappers';
+
+interface InsurerFormModalProps {
+  insurer: Insurer | null;
+  onClose: () => void;
+}
+
+// A rule row in the editor; `target` is either "type:<DrugType>" or "drug:<local id>".
+interface RuleRow {
+  target: string;
+  percent: number | '';
+  maxPerUnit: number | '';
+}
+
+const toRow = (rule: InsuranceCoverageRule): RuleRow => ({
+  target: rule.drugId !== undefined ? `drug:${rule.drugId}` : `type:${rule.drugType}`,
+  percent: rule.percent,
+  maxPerUnit: rule.maxPerUnit ?? '',
+});
+
+const toRule = (row: RuleRow): InsuranceCoverageRule => {
+  const separator = row.target.indexOf(':');
+  const kind = row.target.slice(0, separator);
+  const value = row.target.slice(separator + 1);
+  return {
+    ...(kind === 'drug' ? { drugId: Number(value) } : { drugType: value as DrugType }),
+    percent: Number(row.percent),
+    maxPerUnit: row.maxPerUnit === '' ? undefined : Number(row.maxPerUnit),
+  };
+};
+
+const InsurerFormModal: React.FC<InsurerFormModalProps> = ({ insurer, onClose }) => {
+  const [name, setName] = useState(insurer?.name || '');
+  const [code, setCode] = useState(insurer?.code || '');
+  const [phone, setPhone] = useState(insurer?.phone || '');
+  const [maxPerInvoice, setMaxPerInvoice] = useState<number | ''>(insurer?.maxPerInvoice ?? '');
+  const [active, setActive] = useState(insurer?.active ?? true);
+  const [rules, setRules] = useState<RuleRow[]>(insurer?.rules.map(toRow) ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+  const { showNotification } = useNotification();
+  const drugs = useLiveQuery(() => db.drugs.orderBy('name').toArray(), []);
+  const isEditing = !!insurer;
+
+  const updateRule = (index: number, changes: Partial<RuleRow>) =>
+    setRules(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      showNotification('نام بیمه نمی‌تواند خالی باشد.', 'error');
+      return;
+    }
+    if (rules.some(row => row.percent === '' || row.percent < 0 || row.percent > 100)) {
+      showNotification('درصد پوشش هر قاعده باید بین ۰ تا ۱۰۰ باشد.', 'error');
+      return;
+    }
+    if (new Set(rules.map(row => row.target)).size !== rules.length) {
+      showNotification('برای هر نوع دارو یا هر دارو فقط یک قاعده پوشش می‌توان تعریف کرد.', 'error');
+      return;
+    }
+
+    const fields: Omit<Insurer, 'id' | 'remoteId' | 'updatedAt'> = {
+      name: name.trim(),
+      code: code.trim() || undefined,
+      phone: phone.trim() || undefined,
+      rules: rules.map(toRule),
+      maxPerInvoice: maxPerInvoice === '' ? undefined : Number(maxPerInvoice),
+      active,
+    };
+
+    setIsSaving(true);
+    try {
+      const ruleDrugs = fields.rules.filter(rule => rule.drugId !== undefined).map(rule => drugs?.find(d => d.id === rule.drugId));
+      if (!navigator.onLine || (isEditing && !insurer.remoteId) || ruleDrugs.some(drug => !drug?.remoteId)) {
+        await db.transaction('rw', [db.insurers, db.drugs, db.syncQueue], async () => {
+          if (isEditing) {
+            await db.insurers.update(insurer.id!, fields);
+            await enqueueSyncItem('insurers', 'update', insurer.id!, fields);
+          } else {
+            const id = await db.insurers.add(fields);
+            await enqueueSyncItem('insurers', 'create', id);
+          }
+        });
+        showNotification('اطلاعات بیمه به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const dataToSave = await toRemoteRecord('insurers', fields);
+        if (isEditing) {
+          const { data, error } = await backend.from('insurers').update(dataToSave).eq('id', insurer.remoteId).select().single();
+          if (error) throw error;
+          await db.insurers.update(insurer.id!, { ...fields, updatedAt: data.updated_at });
+          await logActivity('UPDATE', 'Insurer', insurer.remoteId!, { old: insurer, new: dataToSave });
+          showNotification('اطلاعات بیمه با موفقیت ویرایش شد.', 'success');
+        } else {
+          const { data, error } = await backend.from('insurers').insert(dataToSave).select().single();
+          if (error) throw error;
+          await db.insurers.add({ ...fields, remoteId: data.id, updatedAt: data.updated_at });
+          await logActivity('CREATE', 'Insurer', data.id, { newInsurer: data });
+          showNotification('بیمه جدید با موفقیت ثبت شد.', 'success');
+        }
+      }
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to save insurer:", err);
+      showNotification(`خطا در ذخیره بیمه: ${err.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={isEditing ? 'ویرایش بیمه' : 'ثبت بیمه جدید'} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <input value={name} onChange={e => setName(e.target.value)} placeholder="نام بیمه" required autoFocus className="input-style" />
+        <div className="grid grid-cols-2 gap-3">
+          <input value={code} onChange={e => setCode(e.target.value)} placeholder="کد قرارداد / کد موسسه (اختیاری)" className="input-style" />
+          <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="شماره تماس (اختیاری)" className="input-style" />
+        </div>
+        <div className="grid grid-cols-2 gap-3 items-center">
+          <input type="number" min="0" step="0.01" value={maxPerInvoice} onChange={e => setMaxPerInvoice(e.target.value === '' ? '' : Number(e.target.value))} placeholder="سقف سهم بیمه در هر فاکتور (اختیاری)" className="input-style" />
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input type="checkbox" checked={active} onChange={e => setActive(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-blue-500 rounded" />
+            فعال (قابل انتخاب در صندوق فروش)
+          </label>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-gray-300">قواعد پوشش</h4>
+            <button type="button" onClick={() => setRules(prev => [...prev, { target: `type:${DrugType.TABLET}`, percent: 70, maxPerUnit: '' }])} className="flex items-center gap-1 text-sm text-blue-400 hover:text-blue-300">
+              <Plus size={14} /> افزودن قاعده
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">قاعده‌ای که برای یک داروی مشخص تعریف شود بر قاعده نوع آن دارو مقدم است. داروهای بدون قاعده تحت پوشش نیستند.</p>
+          {rules.length === 0 && <p className="text-sm text-gray-500 text-center py-3">هنوز قاعده‌ای تعریف نشده است.</p>}
+          {rules.map((row, index) => (
+            <div key={index} className="grid grid-cols-[1fr_6rem_8rem_auto] gap-2 items-center">
+              <select value={row.target} onChange={e => updateRule(index, { target: e.target.value })} className="input-style">
+                <optgroup label="نوع دارو">
+                  {Object.values(DrugType).map(type => <option key={type} value={`type:${type}`}>همه {type}‌ها</option>)}
+                </optgroup>
+                <optgroup label="داروی مشخص">
+                  {drugs?.map(drug => <option key={drug.id} value={`drug:${drug.id}`}>{drug.name}</option>)}
+                </optgroup>
+              </select>
+              <input type="number" min="0" max="100" value={row.percent} onChange={e => updateRule(index, { percent: e.target.value === '' ? '' : Number(e.target.value) })} placeholder="درصد" title="درصد پوشش" className="input-style" />
+              <input type="number" min="0" step="0.01" value={row.maxPerUnit} onChange={e => updateRule(index, { maxPerUnit: e.target.value === '' ? '' : Number(e.target.value) })} placeholder="سقف هر عدد" title="سقف سهم بیمه برای هر عدد" className="input-style" />
+              <button type="button" onClick={() => setRules(prev => prev.filter((_, i) => i !== index))} title="حذف قاعده" className="p-2 text-red-400 hover:text-red-300">
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : (isEditing ? 'ذخیره تغییرات' : 'ثبت')}</button>
+        </div>
+        <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }`}</style>
+      </form>
+    </Modal>
+  );
+};
+
+export default InsurerFormModal;
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import Modal from './Modal';
+import { Customer, Tender, TenderType } from '../types';
+import { settle, Settlement, TENDER_LABELS, TENDER_TYPES } from '../lib/tenders';
+
+interface PaymentModalProps {
+  totalAmount: number;
+  insurerShare?: number; // Billed to the insurer; the patient settles the rest
+  customer: Customer | null;
+  onClose: () => void;
+  onConfirm: (settlement: Settlement) => void;
+}
+
+// The payment step of checkout: the total can be split over several tenders.
+const PaymentModal: React.FC<PaymentModalProps> = ({ totalAmount, insurerShare = 0, customer, onClose, onConfirm }) => {
+  const patientShare = Math.round((totalAmount - insurerShare) * 100) / 100;
+  const [lines, setLines] = useState<Tender[]>([{ type: 'cash', amount: patientShare }]);
+  const settlement = settle(patientShare, lines);
+  const nonCashTotal = lines.filter(t => t.type !== 'cash').reduce((sum, t) => sum + (t.amount || 0), 0);
+
+  // Credit needs an account to go on. On an insured sale the insurer's share is fixed by the coverage rules.
+  const availableTypes = TENDER_TYPES.filter(type => (type !== 'credit' || customer) && (type !== 'insurance' || insurerShare === 0));
+
+  const updateLine = (index: number, changes: Partial<Tender>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const addLine = (type: TenderType) => {
+    setLines([...lines, { type, amount: Math.max(settlement.remaining, 0) }]);
+  };
+
+  const error = nonCashTotal > patientShare + 0.005
+    ? 'مبالغ غیرنقدی نمی‌تواند بیشتر از مبلغ فاکتور باشد.'
+    : settlement.remaining > 0.005 ? `مبلغ ${settlement.remaining.toFixed(2)} هنوز پرداخت نشده است.` : null;
+
+  return (
+    <Modal title="پرداخت فاکتور" onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex justify-between items-center text-lg font-bold text-white">
+          <span>مبلغ فاکتور:</span>
+          <span>${totalAmount.toFixed(2)}</span>
+        </div>
+        {insurerShare > 0 && (
+          <div className="p-3 bg-gray-700/60 rounded-lg text-sm space-y-1 text-gray-300">
+            <p className="flex justify-between"><span>سهم بیمه:</span><span>${insurerShare.toFixed(2)}</span></p>
+            <p className="flex justify-between font-bold text-white"><span>سهم بیمار:</span><span>${patientShare.toFixed(2)}</span></p>
+          </div>
+        )}
+        <div className="space-y-2">
+          {lines.map((line, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 bg-gray-700/60 rounded-lg">
+              <select value={line.type} onChange={e => updateLine(index, { type: e.target.value as TenderType })} className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white">
+                {availableTypes.map(type => <option key={type} value={type}>{TENDER_LABELS[type]}</option>)}
+              </select>
+              <input
+                type="number"
+                min={0}
+                value={line.amount || ''}
+                onChange={e => updateLine(index, { amount: Math.max(Number(e.target.value) || 0, 0) })}
+                placeholder="0"
+                className="w-28 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-left focus:outline-none focus:border-blue-500"
+              />
+              {(line.type === 'card' || line.type === 'mobile') && (
+                <input
+                  type="text"
+                  value={line.reference || ''}
+                  onChange={e => updateLine(index, { reference: e.target.value || undefined })}
+                  placeholder="شماره پیگیری"
+                  className="flex-1 min-w-0 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500"
+                />
+              )}
+              {lines.length > 1 && (
+                <button onClick={() => setLines(lines.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300 mr-auto"><X size={16} /></button>
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {availableTypes.map(type => (
+            <button key={type} type="button" onClick={() => addLine(type)} className="flex items-center gap-1 px-3 py-1 text-xs bg-gray-700 rounded-full hover:bg-gray-600">
+              <Plus size={12} /> {TENDER_LABELS[type]}
+            </button>
+          ))}
+        </div>
+        <div className="space-y-1 text-sm border-t border-gray-700 pt-3">
+          <p className="flex justify-between text-gray-300"><span>باقی‌مانده:</span><span>${Math.max(settlement.remaining, 0).toFixed(2)}</span></p>
+          <p className="flex justify-between text-lg font-bold text-green-400"><span>باقی‌مانده پول مشتری:</span><span>${settlement.changeDue.toFixed(2)}</span></p>
+          {error && <p className="text-red-400">{error}</p>}
+        </div>
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="button" onClick={() => onConfirm(insurerShare > 0 ? { ...settlement, tenders: [...settlement.tenders, { type: 'insurance', amount: insurerShare }] } : settlement)} disabled={!!error} className="px-4 py-2 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
+            تایید پرداخت و ثبت فاکتور
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PaymentModal;
@@ -0,0 +1,239 @@
+import React, { useState, useMemo, FormEvent } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Customer, Prescription, PrescriptionItem } from '../types';
+import Modal from './Modal';
+import CustomerPicker from './CustomerPicker';
+import { Search, Trash2, Upload, X } from 'lucide-react';
+import { useNotification } from '../contexts/NotificationContext';
+import { logActivity } from '../lib/activityLogger';
+import { backend } from '../lib/dataBackend';
+import { toRemoteRecord } from '../lib/syncMappers';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+
+interface PrescriptionFormModalProps {
+  prescription: Prescription | null;
+  onClose: () => void;
+  onSaved?: (prescription: Prescription) => void;
+}
+
+const MAX_IMAGE_SIZE = 1600;
+
+// Scans are stored with the record, so they are scaled down and re-encoded as JPEG first.
+const readScannedImage = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onerror = () => reject(reader.error);
+  reader.onload = () => {
+    const image = new Image();
+    image.onerror = () => reject(new Error('فایل انتخاب شده تصویر معتبری نیست.'));
+    image.onload = () => {
+      const scale = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.8));
+    };
+    image.src = reader.result as string;
+  };
+  reader.readAsDataURL(file);
+});
+
+const toDateInput = (iso: string) => iso.slice(0, 10);
+
+const PrescriptionFormModal: React.FC<PrescriptionFormModalProps> = ({ prescription, onClose, onSaved }) => {
+  const [customerId, setCustomerId] = useState<number | undefined>(prescription?.customerId);
+  const [patientName, setPatientName] = useState(prescription?.patientName || '');
+  const [prescriberName, setPrescriberName] = useState(prescription?.prescriberName || '');
+  const [prescriberLicense, setPrescriberLicense] = useState(prescription?.prescriberLicense || '');
+  const [issueDate, setIssueDate] = useState(toDateInput(prescription?.issueDate || new Date().toISOString()));
+  const [refillsAllowed, setRefillsAllowed] = useState<number>(prescription?.refillsAllowed ?? 0);
+  const [notes, setNotes] = useState(prescription?.notes || '');
+  const [image, setImage] = useState<string | undefined>(prescription?.image);
+  const [items, setItems] = useState<PrescriptionItem[]>(prescription?.items || []);
+  const [drugSearch, setDrugSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const { showNotification } = useNotification();
+  const isEditing = !!prescription;
+
+  const drugs = useLiveQuery(() => db.drugs.toArray(), []);
+  const drugMatches = useMemo(() => {
+    const terms = drugSearch.toLowerCase().split(' ').filter(Boolean);
+    if (terms.length === 0 || !drugs) return [];
+    return drugs.filter(d => terms.every(t => d.name.toLowerCase().includes(t)) && !items.some(i => i.drugId === d.id)).slice(0, 5);
+  }, [drugSearch, drugs, items]);
+
+  const handleCustomerChange = (customer: Customer | null) => {
+    setCustomerId(customer?.id);
+    if (customer && !patientName.trim()) setPatientName(customer.name);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setImage(await readScannedImage(file));
+    } catch (err: any) {
+      showNotification(err.message || 'خطا در خواندن تصویر نسخه.', 'error');
+    }
+  };
+
+  const addItem = (drugId: number, name: string) => {
+    setItems([...items, { drugId, name, quantity: 1, dose: '', directions: '', dispensedQuantity: 0 }]);
+    setDrugSearch('');
+  };
+
+  const updateItem = (drugId: number, changes: Partial<PrescriptionItem>) => {
+    setItems(items.map(item => item.drugId === drugId ? { ...item, ...changes } : item));
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!patientName.trim() || !prescriberName.trim()) {
+      showNotification('نام بیمار و نام پزشک الزامی است.', 'error');
+      return;
+    }
+    if (items.length === 0 || items.some(item => item.quantity <= 0)) {
+      showNotification('نسخه باید حداقل یک قلم دارو با تعداد معتبر داشته باشد.', 'error');
+      return;
+    }
+
+    const fields = {
+      customerId,
+      patientName: patientName.trim(),
+      prescriberName: prescriberName.trim(),
+      prescriberLicense: prescriberLicense.trim() || undefined,
+      issueDate: new Date(issueDate).toISOString(),
+      // A shorter line no longer counts more as dispensed than it asks for.
+      items: items.map(item => ({ ...item, dose: item.dose.trim(), directions: item.directions.trim(), dispensedQuantity: Math.min(item.dispensedQuantity, item.quantity) })),
+      refillsAllowed: Math.max(0, refillsAllowed),
+      image,
+      notes: notes.trim() || undefined,
+    };
+
+    setIsSaving(true);
+    try {
+      let saved: Prescription;
+      if (!navigator.onLine || (isEditing && !prescription.remoteId)) {
+        saved = await db.transaction('rw', [db.prescriptions, db.drugs, db.customers, db.syncQueue], async () => {
+          if (isEditing) {
+            await db.prescriptions.update(prescription.id!, fields);
+            // Fill counters are kept by the sales, so only the edited fields are pushed.
+            await enqueueSyncItem('prescriptions', 'update', prescription.id!, fields);
+            return { ...prescription, ...fields };
+          }
+          const newPrescription: Prescription = { ...fields, fillsCompleted: 0, status: 'active' };
+          newPrescription.id = await db.prescriptions.add(newPrescription);
+          await enqueueSyncItem('prescriptions', 'create', newPrescription.id);
+          return newPrescription;
+        });
+        showNotification('نسخه به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const row = await toRemoteRecord('prescriptions', isEditing ? fields : { ...fields, fillsCompleted: 0, status: 'active' })
+          .catch(() => { throw new Error('برخی داروها یا مشتری این نسخه هنوز با سرور همگام‌سازی نشده‌اند. لطفاً لحظه‌ای صبر کرده و دوباره تلاش کنید.'); });
+        if (isEditing) {
+          const { data, error } = await backend.from('prescriptions').update(row).eq('id', prescription.remoteId).select('updated_at').single();
+          if (error) throw error;
+          saved = { ...prescription, ...fields, updatedAt: data.updated_at };
+          await db.prescriptions.put(saved);
+          await logActivity('UPDATE', 'Prescription', prescription.remoteId!, { old: { ...prescription, image: undefined }, new: { ...fields, image: undefined } });
+          showNotification('نسخه با موفقیت ویرایش شد.', 'success');
+        } else {
+          const { data, error } = await backend.from('prescriptions').insert(row).select('id, updated_at').single();
+          if (error) throw error;
+          saved = { remoteId: data.id, updatedAt: data.updated_at, ...fields, fillsCompleted: 0, status: 'active' };
+          saved.id = await db.prescriptions.add(saved);
+          await logActivity('CREATE', 'Prescription', data.id, { newPrescription: { ...fields, image: undefined } });
+          showNotification('نسخه جدید با موفقیت ثبت شد.', 'success');
+        }
+      }
+      onSaved?.(saved);
+      onClose();
+    } catch (err: any) {
+      console.error("Failed to save prescription:", err);
+      showNotification(`خطا در ذخیره نسخه: ${err.message}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal title={isEditing ? 'ویرایش نسخه' : 'ثبت نسخه جدید'} onClose={onClose}>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-3">
+            <CustomerPicker customerId={customerId} onChange={handleCustomerChange} />
+            <input value={patientName} onChange={e => setPatientName(e.target.value)} placeholder="نام بیمار" required className="input-style" />
+            <input value={prescriberName} onChange={e => setPrescriberName(e.target.value)} placeholder="نام پزشک تجویزکننده" required className="input-style" />
+            <input value={prescriberLicense} onChange={e => setPrescriberLicense(e.target.value)} placeholder="شماره نظام پزشکی (اختیاری)" className="input-style" />
+            <div className="grid grid-cols-2 gap-3">
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>تاریخ صدور</span>
+                <input type="date" value={issueDate} onChange={e => setIssueDate(e.target.value)} required className="input-style" />
+              </label>
+              <label className="text-xs text-gray-400 space-y-1">
+                <span>تعداد تکرار مجاز</span>
+                <input type="number" min={0} value={refillsAllowed} onChange={e => setRefillsAllowed(Number(e.target.value))} className="input-style" />
+              </label>
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            {image ? (
+              <div className="relative flex-grow">
+                <img src={image} alt="تصویر نسخه" className="w-full max-h-60 object-contain rounded-lg border border-gray-600 bg-gray-900" />
+                <button type="button" onClick={() => setImage(undefined)} className="absolute top-2 left-2 p-1 bg-red-600 rounded-full hover:bg-red-700" title="حذف تصویر"><X size={14} /></button>
+              </div>
+            ) : (
+              <label className="flex-grow flex flex-col items-center justify-center gap-2 min-h-[10rem] border-2 border-dashed border-gray-600 rounded-lg text-gray-400 cursor-pointer hover:border-blue-500 hover:text-blue-400">
+                <Upload size={24} />
+                <span className="text-sm">بارگذاری تصویر اسکن نسخه</span>
+                <input type="file" accept="image/*" capture="environment" onChange={handleImageChange} className="hidden" />
+              </label>
+            )}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="relative">
+            <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400" size={16} />
+            <input value={drugSearch} onChange={e => setDrugSearch(e.target.value)} placeholder="افزودن دارو به نسخه..." className="input-style !pr-9" />
+            {drugMatches.length > 0 && (
+              <div className="absolute z-10 mt-1 w-full bg-gray-700 border border-gray-600 rounded-lg shadow-lg overflow-hidden">
+                {drugMatches.map(d => (
+                  <button type="button" key={d.id} onClick={() => addItem(d.id!, d.name)} className="w-full text-right px-3 py-2 text-sm hover:bg-blue-600">
+                    {d.name} <span className="text-xs text-gray-400">({d.company})</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          {items.map(item => (
+            <div key={item.drugId} className="p-3 bg-gray-700/60 rounded-lg space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold text-white text-sm">{item.name}</span>
+                <button type="button" onClick={() => setItems(items.filter(i => i.drugId !== item.drugId))} className="text-red-400 hover:text-red-300"><Trash2 size={16} /></button>
+              </div>
+              <div className="grid grid-cols-4 gap-2">
+                <input type="number" min={1} value={item.quantity} onChange={e => updateItem(item.drugId, { quantity: Number(e.target.value) })} title="تعداد در هر بار پیچیدن" className="input-style" />
+                <input value={item.dose} onChange={e => updateItem(item.drugId, { dose: e.target.value })} placeholder="دوز (مثلاً ۵۰۰ میلی‌گرم)" className="input-style" />
+                <input value={item.directions} onChange={e => updateItem(item.drugId, { directions: e.target.value })} placeholder="طرز مصرف (مثلاً روزی ۳ بار بعد از غذا)" className="input-style col-span-2" />
+              </div>
+            </div>
+          ))}
+          {items.length === 0 && <p className="text-center text-sm text-gray-500 py-2">هنوز دارویی به نسخه اضافه نشده است.</p>}
+        </div>
+
+        <textarea value={notes} onChange={e => setNotes(e.target.value)} placeholder="یادداشت (اختیاری)" rows={2} className="input-style" />
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : (isEditing ? 'ذخیره تغییرات' : 'ثبت نسخه')}</button>
+        </div>
+        <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }`}</style>
+      </form>
+    </Modal>
+  );
+};
+
+export default PrescriptionFormModal;
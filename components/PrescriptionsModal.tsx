@@ -0,0 +1,147 @@
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Prescription, PrescriptionStatus } from '../types';
+import Modal from './Modal';
+import PrescriptionFormModal from './PrescriptionFormModal';
+import { Plus, Edit, ShoppingCart, Image as ImageIcon, Ban, History } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { logActivity } from '../lib/activityLogger';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { PRESCRIPTION_STATUS_LABELS, remainingRefills, isPartiallyFilled } from '../lib/prescriptions';
+
+interface PrescriptionsModalProps {
+  onClose: () => void;
+  onDispense: (prescription: Prescription) => void;
+}
+
+const STATUS_COLORS: Record<PrescriptionStatus, string> = {
+  active: 'bg-green-500/20 text-green-300',
+  completed: 'bg-gray-500/20 text-gray-300',
+  cancelled: 'bg-red-500/20 text-red-300',
+};
+
+// Prescription register of the POS: find, record and edit prescriptions and open one for dispensing.
+const PrescriptionsModal: React.FC<PrescriptionsModalProps> = ({ onClose, onDispense }) => {
+  const [searchTerm, setSearchTerm] = useState('');
+  const [statusFilter, setStatusFilter] = useState<PrescriptionStatus | 'all'>('active');
+  const [editing, setEditing] = useState<Prescription | null | undefined>(undefined); // null = new prescription
+  const [viewingImage, setViewingImage] = useState<Prescription | null>(null);
+  const [viewingHistory, setViewingHistory] = useState<Prescription | null>(null);
+  const { hasPermission } = useAuth();
+  const { showNotification } = useNotification();
+  const canManage = hasPermission('sales:prescriptions:manage');
+
+  const prescriptions = useLiveQuery(() => db.prescriptions.orderBy('issueDate').reverse().toArray(), []);
+  const filtered = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return prescriptions?.filter(p =>
+      (statusFilter === 'all' || p.status === statusFilter) &&
+      (!term || p.patientName.toLowerCase().includes(term) || p.prescriberName.toLowerCase().includes(term) || String(p.remoteId || p.id) === term)
+    );
+  }, [prescriptions, searchTerm, statusFilter]);
+
+  const handleCancel = async (prescription: Prescription) => {
+    if (!window.confirm(`آیا از لغو نسخه "${prescription.patientName}" مطمئن هستید؟`)) return;
+    try {
+      if (!navigator.onLine || !prescription.remoteId) {
+        await db.transaction('rw', [db.prescriptions, db.drugs, db.customers, db.syncQueue], async () => {
+          await db.prescriptions.update(prescription.id!, { status: 'cancelled' });
+          await enqueueSyncItem('prescriptions', 'update', prescription.id!, { status: 'cancelled' });
+        });
+        processSyncQueue();
+      } else {
+        const { error } = await backend.from('prescriptions').update({ status: 'cancelled' }).eq('id', prescription.remoteId);
+        if (error) throw error;
+        await db.prescriptions.update(prescription.id!, { status: 'cancelled' });
+        await logActivity('UPDATE', 'Prescription', prescription.remoteId, { cancelled: true, patientName: prescription.patientName });
+      }
+      showNotification('نسخه لغو شد.', 'success');
+    } catch (err: any) {
+      console.error("Failed to cancel prescription:", err);
+      showNotification(`خطا در لغو نسخه: ${err.message}`, 'error');
+    }
+  };
+
+  return (
+    <Modal title="نسخه‌ها" onClose={onClose}>
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="جستجو (بیمار، پزشک یا شماره نسخه)..." className="flex-grow bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500" />
+          <select value={statusFilter} onChange={e => setStatusFilter(e.target.value as PrescriptionStatus | 'all')} className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white">
+            <option value="all">همه</option>
+            {(Object.keys(PRESCRIPTION_STATUS_LABELS) as PrescriptionStatus[]).map(status => <option key={status} value={status}>{PRESCRIPTION_STATUS_LABELS[status]}</option>)}
+          </select>
+          {canManage && (
+            <button onClick={() => setEditing(null)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700">
+              <Plus size={16} /> نسخه جدید
+            </button>
+          )}
+        </div>
+        <div className="max-h-[60vh] overflow-y-auto space-y-2">
+          {filtered?.map(p => (
+            <div key={p.id} className="p-3 bg-gray-700/60 rounded-lg flex justify-between items-start gap-4">
+              <div className="text-sm space-y-1 min-w-0">
+                <p className="font-semibold text-white">
+                  #{p.remoteId || p.id} - {p.patientName}
+                  <span className={`mr-2 text-xs px-2 py-0.5 rounded-full ${STATUS_COLORS[p.status]}`}>{PRESCRIPTION_STATUS_LABELS[p.status]}</span>
+                  {p.status === 'active' && isPartiallyFilled(p) && <span className="mr-1 text-xs px-2 py-0.5 rounded-full bg-yellow-500/20 text-yellow-300">ناقص پیچیده شده</span>}
+                </p>
+                <p className="text-gray-400">دکتر {p.prescriberName} - {new Date(p.issueDate).toLocaleDateString('fa-IR')}</p>
+                <p className="text-gray-400 truncate">{p.items.map(i => `${i.name} (${i.dispensedQuantity}/${i.quantity})`).join('، ')}</p>
+                <p className="text-xs text-gray-500">دفعات پیچیده شده: {p.fillsCompleted} از {p.refillsAllowed + 1} | تکرار باقی‌مانده: {remainingRefills(p)}</p>
+              </div>
+              <div className="flex items-center gap-3 flex-shrink-0">
+                {p.status === 'active' && (
+                  <button onClick={() => onDispense(p)} className="flex items-center gap-1 text-sm px-3 py-1.5 bg-green-600 text-white rounded-md hover:bg-green-700" title="باز کردن در سبد خرید">
+                    <ShoppingCart size={14} /> پیچیدن
+                  </button>
+                )}
+                {p.image && <button onClick={() => setViewingImage(p)} className="text-gray-300 hover:text-white" title="تصویر نسخه"><ImageIcon size={16} /></button>}
+                <button onClick={() => setViewingHistory(p)} className="text-purple-400 hover:text-purple-300" title="سابقه پیچیدن"><History size={16} /></button>
+                {canManage && p.status === 'active' && (
+                  <>
+                    <button onClick={() => setEditing(p)} className="text-blue-400 hover:text-blue-300" title="ویرایش"><Edit size={16} /></button>
+                    <button onClick={() => handleCancel(p)} className="text-red-400 hover:text-red-300" title="لغو نسخه"><Ban size={16} /></button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+          {filtered?.length === 0 && <p className="text-center py-8 text-gray-500">هیچ نسخه‌ای یافت نشد.</p>}
+        </div>
+      </div>
+      {editing !== undefined && <PrescriptionFormModal prescription={editing} onClose={() => setEditing(undefined)} />}
+      {viewingImage && (
+        <Modal title={`تصویر نسخه: ${viewingImage.patientName}`} onClose={() => setViewingImage(null)}>
+          <img src={viewingImage.image} alt="تصویر نسخه" className="w-full object-contain rounded-lg" />
+        </Modal>
+      )}
+      {viewingHistory && <PrescriptionHistoryModal prescription={viewingHistory} onClose={() => setViewingHistory(null)} />}
+    </Modal>
+  );
+};
+
+const PrescriptionHistoryModal: React.FC<{ prescription: Prescription; onClose: () => void }> = ({ prescription, onClose }) => {
+  const invoices = useLiveQuery(() => db.saleInvoices.where('prescriptionId').equals(prescription.id!).sortBy('date'), [prescription.id]);
+  return (
+    <Modal title={`سابقه پیچیدن نسخه #${prescription.remoteId || prescription.id}`} onClose={onClose}>
+      <div className="space-y-2 max-h-[60vh] overflow-y-auto">
+        {invoices?.map(inv => (
+          <div key={inv.id} className="p-3 bg-gray-700/50 rounded-lg text-sm">
+            <div className="flex justify-between text-gray-300">
+              <span className="font-semibold">فاکتور #{inv.remoteId || inv.id}</span>
+              <span>{new Date(inv.date).toLocaleString('fa-IR')}</span>
+            </div>
+            <p className="text-xs text-gray-400 mt-1">{inv.items.map(item => `${item.name} × ${item.quantity}`).join('، ')}</p>
+          </div>
+        ))}
+        {invoices?.length === 0 && <p className="text-center py-6 text-gray-500">این نسخه هنوز پیچیده نشده است.</p>}
+      </div>
+    </Modal>
+  );
+};
+
+export default PrescriptionsModal;
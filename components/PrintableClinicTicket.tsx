@@ -35,6 +35,7 @@ const PrintableClinicTicket = React.forwardRef<HTMLDivElement, PrintableClinicTi
           <div className="text-left">
             <p className="text-sm text-gray-500">شماره نوبت</p>
             <p className="text-4xl font-bold text-blue-600">{transaction.ticketNumber}</p>
+            {!transaction.remoteId && <p className="text-xs text-gray-500">(شماره موقت - ثبت آفلاین)</p>}
           </div>
       </div>
       
@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { DrugRegister, REGISTER_ENTRY_LABELS } from '../lib/controlledRegister';
+
+interface PrintableControlledRegisterProps {
+  registers: DrugRegister[];
+  dateRange: { start: Date; end: Date };
+}
+
+const PrintableControlledRegister = React.forwardRef<HTMLDivElement, PrintableControlledRegisterProps>(({ registers, dateRange }, ref) => {
+    const settings = useLiveQuery(() => db.settings.toArray());
+
+    const pharmacyInfo = useMemo(() => {
+        if (!settings) return { name: 'شفا-یار', logo: null };
+        const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+        const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+        return { name, logo };
+    }, [settings]);
+
+    return (
+        <div ref={ref} className="bg-white text-black p-6 printable-area">
+            <div className="text-center mb-6 flex flex-col items-center">
+                {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-20 w-auto mb-2 object-contain" />}
+                <h1 className="text-2xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+                <p className="text-gray-500">دفتر داروهای کنترل‌شده</p>
+            </div>
+
+            <div className="flex justify-between mb-4 text-sm border-b border-gray-200 pb-4 text-gray-700">
+                <p><span className="font-semibold text-gray-900">دوره:</span> {dateRange.start.toLocaleDateString('fa-IR')} تا {dateRange.end.toLocaleDateString('fa-IR')}</p>
+                <p><span className="font-semibold text-gray-900">تاریخ گزارش:</span> {new Date().toLocaleDateString('fa-IR')}</p>
+            </div>
+
+            {registers.map(register => (
+                <div key={register.drug.id} className="mb-8 drug-register">
+                    <h2 className="font-bold text-gray-900 mb-2">
+                        {register.drug.name} <span className="text-sm font-normal text-gray-500">({register.drug.company} - {register.drug.controlled})</span>
+                    </h2>
+                    <table className="w-full text-sm text-right main-table border-collapse">
+                        <thead>
+                            <tr className="bg-gray-100">
+                                <th className="p-2 border">تاریخ</th>
+                                <th className="p-2 border text-right">نوع</th>
+                                <th className="p-2 border text-right">شماره فاکتور</th>
+                                <th className="p-2 border text-right">طرف حساب / بیمار</th>
+                                <th className="p-2 border text-center">وارده</th>
+                                <th className="p-2 border text-center">صادره</th>
+                                <th className="p-2 border text-left">مانده</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            <tr className="row-item font-bold bg-gray-50">
+                                <td className="p-2 border" colSpan={6}>مانده ابتدای دوره</td>
+                                <td className="p-2 border text-left">{register.openingBalance}</td>
+                            </tr>
+                            {register.entries.map((entry, index) => (
+                                <tr key={index} className="row-item">
+                                    <td className="p-2 border whitespace-nowrap">{new Date(entry.date).toLocaleDateString('fa-IR', { year: 'numeric', month: '2-digit', day: '2-digit' })}</td>
+                                    <td className="p-2 border text-right">{REGISTER_ENTRY_LABELS[entry.type]}</td>
+                                    <td className="p-2 border text-right">{entry.reference}</td>
+                                    <td className="p-2 border text-right">
+                                        {entry.party}
+                                        {entry.detail && <span className="block text-xs text-gray-500">{entry.detail}</span>}
+                                    </td>
+                                    <td className="p-2 border text-center text-green-600">{entry.quantityIn || '-'}</td>
+                                    <td className="p-2 border text-center text-red-600">{entry.quantityOut || '-'}</td>
+                                    <td className="p-2 border text-left font-semibold">{entry.balance}</td>
+                                </tr>
+                            ))}
+                            {register.entries.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="text-center py-4 text-gray-500 border">در این دوره گردشی ثبت نشده است.</td>
+                                </tr>
+                            )}
+                            <tr className="row-item font-bold bg-gray-50">
+                                <td className="p-2 border" colSpan={6}>مانده پایان دوره</td>
+                                <td className="p-2 border text-left">{register.closingBalance}</td>
+                            </tr>
+                        </tbody>
+                    </table>
+                </div>
+            ))}
+            {registers.length === 0 && <p className="text-center py-10 text-gray-500">هیچ داروی کنترل‌شده‌ای تعریف نشده است.</p>}
+
+            <div className="mt-10 flex justify-between text-sm text-gray-700">
+                <p>امضای مسئول فنی داروخانه: ....................</p>
+                <p>مهر داروخانه</p>
+            </div>
+
+            <style>{`
+                @media print {
+                    @page {
+                        size: A4;
+                        margin: 1.5cm;
+                    }
+                    .printable-area {
+                        font-size: 9pt;
+                    }
+                    .main-table thead {
+                        display: table-header-group;
+                    }
+                    .main-table tbody tr {
+                        page-break-inside: avoid;
+                    }
+                    .bg-gray-100, .bg-gray-50 {
+                        background-color: #f9fafb !important;
+                        -webkit-print-color-adjust: exact !important;
+                        color-adjust: exact !important;
+                    }
+                }
+            `}</style>
+        </div>
+    );
+});
+
+export default PrintableControlledRegister;
@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Customer, CustomerPayment } from '../types';
+
+interface PrintableCustomerPaymentReceiptProps {
+  payment: CustomerPayment;
+  customer: Customer;
+  remainingDebt: number;
+}
+
+const PrintableCustomerPaymentReceipt = React.forwardRef<HTMLDivElement, PrintableCustomerPaymentReceiptProps>(({ payment, customer, remainingDebt }, ref) => {
+  const settings = useLiveQuery(() => db.settings.toArray());
+
+  const pharmacyInfo = useMemo(() => {
+    if (!settings) return { name: 'شفا-یار', logo: null };
+    const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+    const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+    return { name, logo };
+  }, [settings]);
+
+  return (
+    <div ref={ref} className="bg-white text-black p-6 printable-area">
+      <div className="text-center mb-8 border-b border-gray-200 pb-4 flex flex-col items-center">
+        {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-20 w-auto mb-2 object-contain" />}
+        <h1 className="text-2xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+        <p className="text-gray-500 mt-1">رسید دریافت وجه</p>
+      </div>
+      
+      <div className="space-y-3 text-sm mb-6 text-gray-800">
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">تاریخ و ساعت:</span>
+            <span>{new Date(payment.date).toLocaleString('fa-IR')}</span>
+        </div>
+         <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">دریافت از:</span>
+            <span className="font-bold">{customer.name}</span>
+        </div>
+        {payment.description && (
+          <div className="flex justify-between">
+              <span className="font-semibold text-gray-600">شرح:</span>
+              <span>{payment.description}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="my-8 p-4 bg-blue-50 border border-blue-200 rounded-lg text-center">
+        <p className="text-gray-600 text-sm">مبلغ دریافت شده</p>
+        <p className="text-2xl font-bold text-green-700 tracking-wider">${payment.amount.toFixed(2)}</p>
+        <p className="text-gray-600 text-sm mt-2">مانده بدهی: ${Math.max(remainingDebt, 0).toFixed(2)}</p>
+      </div>
+      
+      <div className="mt-16 grid grid-cols-2 gap-8 text-center text-xs text-gray-700">
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای دریافت کننده</p>
+            <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای پرداخت کننده</p>
+             <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+      </div>
+       <style>{`
+        @media print {
+          .printable-area {
+            color: black !important;
+            background: white !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+});
+
+export default PrintableCustomerPaymentReceipt;
\ No newline at end of file
@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Insurer, InsuranceClaim } from '../types';
+
+interface PrintableInsuranceClaimProps {
+  claim: InsuranceClaim;
+  insurer: Insurer;
+  invoiceNumbers: Map<number, string | number>;
+}
+
+const PrintableInsuranceClaim = React.forwardRef<HTMLDivElement, PrintableInsuranceClaimProps>(({ claim, insurer, invoiceNumbers }, ref) => {
+    const settings = useLiveQuery(() => db.settings.toArray());
+    const isReconciled = claim.status === 'reconciled';
+
+    const pharmacyInfo = useMemo(() => {
+        if (!settings) return { name: 'شفا-یار', logo: null };
+        const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+        const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+        return { name, logo };
+    }, [settings]);
+
+    return (
+        <div ref={ref} className="bg-white text-black p-6 printable-area">
+            <div className="text-center mb-6 flex flex-col items-center">
+                {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-20 w-auto mb-2 object-contain" />}
+                <h1 className="text-2xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+                <p className="text-gray-500">صورتحساب بیمه - ماه {claim.period}</p>
+            </div>
+
+            <div className="flex justify-between mb-4 text-sm border-b border-gray-200 pb-4 text-gray-700">
+                <div>
+                    <p><span className="font-semibold text-gray-900">بیمه:</span> {insurer.name}</p>
+                    {insurer.code && <p><span className="font-semibold text-gray-900">کد قرارداد:</span> {insurer.code}</p>}
+                </div>
+                <div>
+                    <p><span className="font-semibold text-gray-900">تاریخ صدور:</span> {new Date(claim.createdAt).toLocaleDateString('fa-IR')}</p>
+                    {claim.reconciledAt && <p><span className="font-semibold text-gray-900">تاریخ تسویه:</span> {new Date(claim.reconciledAt).toLocaleDateString('fa-IR')}</p>}
+                </div>
+            </div>
+
+            <table className="w-full text-sm text-right main-table border-collapse">
+                <thead>
+                    <tr className="bg-gray-100">
+                        <th className="p-2 border text-center">#</th>
+                        <th className="p-2 border">شماره فاکتور</th>
+                        <th className="p-2 border">تاریخ</th>
+                        <th className="p-2 border">شماره بیمه‌شده</th>
+                        <th className="p-2 border text-center">مبلغ درخواستی</th>
+                        {isReconciled && <th className="p-2 border text-center">مبلغ پرداختی</th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {claim.lines.map((line, index) => (
+                        <tr key={line.saleInvoiceId} className="row-item">
+                            <td className="p-2 border text-center">{index + 1}</td>
+                            <td className="p-2 border">{invoiceNumbers.get(line.saleInvoiceId) ?? line.saleInvoiceId}</td>
+                            <td className="p-2 border whitespace-nowrap">{new Date(line.date).toLocaleDateString('fa-IR')}</td>
+                            <td className="p-2 border">{line.memberId || '-'}</td>
+                            <td className="p-2 border text-center">${line.claimedAmount.toFixed(2)}</td>
+                            {isReconciled && <td className="p-2 border text-center">${(line.paidAmount ?? 0).toFixed(2)}</td>}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+
+            <div className="mt-6 flex justify-end">
+                <div className="w-full max-w-xs text-right space-y-1">
+                    <div className="flex justify-between py-2 border-t-2 border-gray-400">
+                        <span className="font-bold text-gray-900">جمع مبلغ درخواستی:</span>
+                        <span className="font-bold">${claim.claimedAmount.toFixed(2)}</span>
+                    </div>
+                    {isReconciled && (
+                        <>
+                            <div className="flex justify-between">
+                                <span className="font-semibold text-gray-900">پرداخت‌شده توسط بیمه:</span>
+                                <span className="text-green-700">${(claim.paidAmount ?? 0).toFixed(2)}</span>
+                            </div>
+                            <div className="flex justify-between">
+                                <span className="font-semibold text-gray-900">کسورات:</span>
+                                <span className="text-red-600">${(claim.claimedAmount - (claim.paidAmount ?? 0)).toFixed(2)}</span>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+            {claim.notes && <p className="mt-4 text-sm text-gray-600">توضیحات: {claim.notes}</p>}
+
+            <div className="mt-16 flex justify-between text-sm text-gray-700">
+                <p>مهر و امضای داروخانه</p>
+                <p>مهر و امضای بیمه</p>
+            </div>
+
+            <style>{`
+                @media print {
+                    @page {
+                        size: A4;
+                        margin: 1.5cm;
+                    }
+                    .printable-area {
+                        font-size: 9pt;
+                    }
+                    .main-table thead {
+                        display: table-header-group;
+                    }
+                    .main-table tbody tr {
+                        page-break-inside: avoid;
+                    }
+                    .bg-gray-100 {
+                        background-color: #f9fafb !important;
+                        -webkit-print-color-adjust: exact !important;
+                        color-adjust: exact !important;
+                    }
+                }
+            `}</style>
+        </div>
+    );
+});
+
+export default PrintableInsuranceClaim;
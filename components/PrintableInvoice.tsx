@@ -1,6 +1,9 @@
 import React, { useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
+import { remainingRefills } from '../lib/prescriptions';
+import { TENDER_LABELS } from '../lib/tenders';
+import { invoiceDiscountTotal, listSubtotal } from '../lib/discounts';
 import { SaleInvoice } from '../types';
 
 interface PrintableInvoiceProps {
@@ -17,6 +20,13 @@ const PrintableInvoice = React.forwardRef<HTMLDivElement, PrintableInvoiceProps>
     return { name, logo };
   }, [settings]);
 
+  const customer = useLiveQuery(() => invoice.customerId ? db.customers.get(invoice.customerId) : undefined, [invoice.customerId]);
+  const prescription = useLiveQuery(() => invoice.prescriptionId ? db.prescriptions.get(invoice.prescriptionId) : undefined, [invoice.prescriptionId]);
+  const insurer = useLiveQuery(() => invoice.insurerId ? db.insurers.get(invoice.insurerId) : undefined, [invoice.insurerId]);
+  const amountPaid = invoice.amountPaid ?? invoice.totalAmount;
+  const unpaid = Math.max(invoice.totalAmount - amountPaid, 0);
+  const totalDiscount = invoiceDiscountTotal(invoice);
+
   return (
     <div ref={ref} className="bg-white text-black p-6 printable-area">
       <div className="text-center mb-8 flex flex-col items-center border-b border-gray-200 pb-6">
@@ -27,11 +37,29 @@ const PrintableInvoice = React.forwardRef<HTMLDivElement, PrintableInvoiceProps>
       <div className="flex justify-between mb-6 text-base text-gray-700">
         <div>
           <p><span className="font-semibold text-gray-900">شماره فاکتور:</span> {invoice.remoteId || invoice.id}</p>
+          {customer && <p><span className="font-semibold text-gray-900">مشتری:</span> {customer.name}</p>}
+          {insurer && <p><span className="font-semibold text-gray-900">بیمه:</span> {insurer.name} ({invoice.insuranceMemberId})</p>}
         </div>
         <div>
           <p><span className="font-semibold text-gray-900">تاریخ:</span> {new Date(invoice.date).toLocaleString('fa-IR')}</p>
         </div>
       </div>
+      {prescription && (
+        <div className="mb-6 p-3 border border-gray-300 rounded-lg grid grid-cols-2 gap-x-6 gap-y-1 text-sm text-gray-700">
+          <p><span className="font-semibold text-gray-900">نسخه:</span> #{prescription.remoteId || prescription.id}</p>
+          <p><span className="font-semibold text-gray-900">بیمار:</span> {prescription.patientName}</p>
+          <p><span className="font-semibold text-gray-900">پزشک:</span> {prescription.prescriberName}{prescription.prescriberLicense && ` (${prescription.prescriberLicense})`}</p>
+          <p><span className="font-semibold text-gray-900">تاریخ نسخه:</span> {new Date(prescription.issueDate).toLocaleDateString('fa-IR')}</p>
+          <p><span className="font-semibold text-gray-900">تکرار باقی‌مانده:</span> {remainingRefills(prescription)}</p>
+        </div>
+      )}
+      {invoice.controlledDispensing && (
+        <div className="mb-6 p-3 border border-gray-300 rounded-lg grid grid-cols-3 gap-x-6 text-sm text-gray-700">
+          <p><span className="font-semibold text-gray-900">تحویل‌گیرنده داروی کنترل‌شده:</span> {invoice.controlledDispensing.patientName}</p>
+          <p><span className="font-semibold text-gray-900">کد ملی / تذکره:</span> {invoice.controlledDispensing.patientIdNumber}</p>
+          <p><span className="font-semibold text-gray-900">شماره نسخه:</span> {invoice.controlledDispensing.prescriptionNumber}</p>
+        </div>
+      )}
       <table className="w-full text-base text-right border-collapse">
         <thead>
           <tr className="bg-gray-100">
@@ -46,20 +74,52 @@ const PrintableInvoice = React.forwardRef<HTMLDivElement, PrintableInvoiceProps>
           {invoice.items.map((item, index) => (
             <tr key={item.drugId} className="border-b text-gray-800">
               <td className="p-3 border align-top">{index + 1}</td>
-              <td className="p-3 border align-top font-medium">{item.name}</td>
+              <td className="p-3 border align-top font-medium">
+                {item.name}
+                {item.directions && <p className="text-sm font-normal text-gray-600 mt-1">طرز مصرف: {item.directions}</p>}
+              </td>
               <td className="p-3 border align-top text-center">{item.quantity}</td>
-              <td className="p-3 border align-top text-center">${item.unitPrice.toFixed(2)}</td>
-              <td className="p-3 border align-top text-left">${item.totalPrice.toFixed(2)}</td>
+              <td className="p-3 border align-top text-center">
+                {item.listPrice !== undefined && <span className="block text-sm text-gray-500 line-through">${item.listPrice.toFixed(2)}</span>}
+                ${item.unitPrice.toFixed(2)}
+              </td>
+              <td className="p-3 border align-top text-left">
+                ${item.totalPrice.toFixed(2)}
+                {!!item.discount && <span className="block text-sm text-gray-600">تخفیف: ${item.discount.toFixed(2)}</span>}
+              </td>
             </tr>
           ))}
         </tbody>
       </table>
       <div className="mt-8 flex justify-end">
         <div className="w-full max-w-xs text-right">
+          {totalDiscount > 0 && (
+            <div className="mb-2 px-4 space-y-1 text-sm text-gray-700">
+              <div className="flex justify-between"><span>جمع به قیمت فهرست:</span><span>${listSubtotal(invoice.items).toFixed(2)}</span></div>
+              {!!invoice.discount && <div className="flex justify-between"><span>تخفیف فاکتور:</span><span>${invoice.discount.toFixed(2)}</span></div>}
+              <div className="flex justify-between font-semibold"><span>مجموع تخفیف:</span><span>${totalDiscount.toFixed(2)}</span></div>
+            </div>
+          )}
           <div className="flex justify-between items-center p-4 bg-gray-100 rounded-lg">
             <span className="font-bold text-xl text-gray-900">مبلغ کل:</span>
             <span className="font-bold text-xl text-gray-900">${invoice.totalAmount.toFixed(2)}</span>
           </div>
+          {invoice.tenders && (invoice.tenders.length > 1 || !!invoice.changeDue || unpaid > 0 || !!invoice.insurerShare) ? (
+            <div className="mt-2 px-4 space-y-1 text-sm text-gray-700">
+              {invoice.tenders.map((tender, index) => (
+                <div key={index} className="flex justify-between">
+                  <span>{TENDER_LABELS[tender.type]}{tender.reference && ` (${tender.reference})`}:</span>
+                  <span>${(tender.type === 'cash' ? tender.amount + (invoice.changeDue || 0) : tender.amount).toFixed(2)}</span>
+                </div>
+              ))}
+              {!!invoice.changeDue && <div className="flex justify-between font-semibold"><span>باقی‌مانده پول مشتری:</span><span>${invoice.changeDue.toFixed(2)}</span></div>}
+            </div>
+          ) : unpaid > 0 && (
+            <div className="mt-2 px-4 space-y-1 text-sm text-gray-700">
+              <div className="flex justify-between"><span>مبلغ دریافتی:</span><span>${amountPaid.toFixed(2)}</span></div>
+              <div className="flex justify-between font-semibold"><span>باقی‌مانده (به حساب مشتری):</span><span>${unpaid.toFixed(2)}</span></div>
+            </div>
+          )}
         </div>
       </div>
       <div className="text-center text-xs text-gray-500 mt-10">
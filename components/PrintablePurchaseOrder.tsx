@@ -0,0 +1,101 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { PurchaseOrder } from '../types';
+
+interface PrintablePurchaseOrderProps {
+  order: PurchaseOrder;
+  supplierName: string;
+}
+
+const PrintablePurchaseOrder = React.forwardRef<HTMLDivElement, PrintablePurchaseOrderProps>(({ order, supplierName }, ref) => {
+  const settings = useLiveQuery(() => db.settings.toArray());
+
+  const pharmacyInfo = useMemo(() => {
+    if (!settings) return { name: 'شفا-یار', logo: null };
+    const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+    const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+    return { name, logo };
+  }, [settings]);
+
+  return (
+    <div ref={ref} className="bg-white text-black p-6 printable-area">
+      <div className="text-center mb-8 flex flex-col items-center border-b border-gray-200 pb-6">
+        {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-24 w-auto mb-3 object-contain" />}
+        <h1 className="text-4xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+        <p className="text-gray-500 mt-1">سفارش خرید</p>
+      </div>
+      <div className="flex justify-between mb-6 text-base text-gray-700">
+        <div>
+          <p><span className="font-semibold text-gray-900">شماره سفارش:</span> #{order.remoteId || order.id}</p>
+          <p><span className="font-semibold text-gray-900">تامین‌کننده:</span> {supplierName}</p>
+        </div>
+        <div>
+          <p><span className="font-semibold text-gray-900">تاریخ:</span> {new Date(order.sentAt ?? order.createdAt).toLocaleDateString('fa-IR')}</p>
+          {order.createdBy && <p><span className="font-semibold text-gray-900">سفارش‌دهنده:</span> {order.createdBy}</p>}
+        </div>
+      </div>
+      <table className="w-full text-base text-right border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="p-3 font-bold border text-gray-700">#</th>
+            <th className="p-3 font-bold border text-gray-700 text-right">نام دارو</th>
+            <th className="p-3 font-bold border text-gray-700 text-center">تعداد</th>
+            <th className="p-3 font-bold border text-gray-700 text-center">قیمت واحد</th>
+            <th className="p-3 font-bold border text-gray-700 text-left">مبلغ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {order.items.map((item, index) => (
+            <tr key={index} className="border-b text-gray-800">
+              <td className="p-3 border align-top">{index + 1}</td>
+              <td className="p-3 border align-top font-medium text-right">{item.name}</td>
+              <td className="p-3 border align-top text-center">{item.quantity}</td>
+              <td className="p-3 border align-top text-center">${item.purchasePrice.toFixed(2)}</td>
+              <td className="p-3 border align-top text-left">${(item.quantity * item.purchasePrice).toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <div className="mt-8 flex justify-between items-start gap-8">
+        <div className="text-sm text-gray-700">
+          {order.notes && <p><span className="font-semibold text-gray-900">توضیحات:</span> {order.notes}</p>}
+        </div>
+        <div className="w-full max-w-xs text-right">
+          <div className="flex justify-between items-center p-4 bg-gray-100 rounded-lg">
+            <span className="font-bold text-xl text-gray-900">مبلغ تخمینی:</span>
+            <span className="font-bold text-xl text-gray-900">${order.totalAmount.toFixed(2)}</span>
+          </div>
+        </div>
+      </div>
+      <div className="mt-16 grid grid-cols-2 gap-8 text-center text-xs text-gray-700">
+        <div className="flex flex-col items-center justify-between">
+          <p className="mb-12 font-semibold">امضای مسئول خرید داروخانه</p>
+          <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+        <div className="flex flex-col items-center justify-between">
+          <p className="mb-12 font-semibold">تایید تامین‌کننده</p>
+          <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+      </div>
+       <style>{`
+        @media print {
+          @page {
+            size: A4;
+            margin: 1cm;
+          }
+          .printable-area {
+            font-size: 11pt;
+          }
+           .bg-gray-100 {
+            background-color: #f3f4f6 !important;
+            -webkit-print-color-adjust: exact !important;
+            color-adjust: exact !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+});
+
+export default PrintablePurchaseOrder;
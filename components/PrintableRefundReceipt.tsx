@@ -0,0 +1,113 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { SaleReturn } from '../types';
+import { REFUND_METHOD_LABELS, RETURN_CONDITION_LABELS } from '../lib/saleReturns';
+
+interface PrintableRefundReceiptProps {
+  saleReturn: SaleReturn;
+}
+
+const PrintableRefundReceipt = React.forwardRef<HTMLDivElement, PrintableRefundReceiptProps>(({ saleReturn }, ref) => {
+  const settings = useLiveQuery(() => db.settings.toArray());
+  const invoice = useLiveQuery(() => db.saleInvoices.get(saleReturn.saleInvoiceId), [saleReturn.saleInvoiceId]);
+  const customer = useLiveQuery(() => saleReturn.customerId ? db.customers.get(saleReturn.customerId) : undefined, [saleReturn.customerId]);
+
+  const pharmacyInfo = useMemo(() => {
+    if (!settings) return { name: 'شفا-یار', logo: null };
+    const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+    const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+    return { name, logo };
+  }, [settings]);
+
+  return (
+    <div ref={ref} className="bg-white text-black p-6 printable-area">
+      <div className="text-center mb-8 border-b border-gray-200 pb-4 flex flex-col items-center">
+        {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-20 w-auto mb-2 object-contain" />}
+        <h1 className="text-2xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+        <p className="text-gray-500 mt-1">رسید مرجوعی و بازپرداخت</p>
+      </div>
+
+      <div className="space-y-3 text-sm mb-6 text-gray-800">
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">شماره مرجوعی:</span>
+            <span>#{saleReturn.remoteId || saleReturn.id}</span>
+        </div>
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">فاکتور فروش مرجع:</span>
+            <span>#{invoice ? invoice.remoteId || invoice.id : saleReturn.saleInvoiceId} {invoice && `(${new Date(invoice.date).toLocaleDateString('fa-IR')})`}</span>
+        </div>
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">تاریخ و ساعت:</span>
+            <span>{new Date(saleReturn.date).toLocaleString('fa-IR')}</span>
+        </div>
+        {customer && (
+          <div className="flex justify-between">
+              <span className="font-semibold text-gray-600">مشتری:</span>
+              <span className="font-bold">{customer.name}</span>
+          </div>
+        )}
+        {saleReturn.reason && (
+          <div className="flex justify-between">
+              <span className="font-semibold text-gray-600">علت مرجوعی:</span>
+              <span>{saleReturn.reason}</span>
+          </div>
+        )}
+      </div>
+
+      <table className="w-full text-sm text-right border-collapse">
+        <thead>
+          <tr className="bg-gray-100">
+            <th className="p-2 border">نام دارو</th>
+            <th className="p-2 border text-center">تعداد</th>
+            <th className="p-2 border text-center">قیمت واحد</th>
+            <th className="p-2 border text-center">وضعیت</th>
+            <th className="p-2 border text-left">مبلغ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {saleReturn.items.map(item => (
+            <tr key={item.drugId}>
+              <td className="p-2 border">{item.name}</td>
+              <td className="p-2 border text-center">{item.quantity}</td>
+              <td className="p-2 border text-center">${item.unitPrice.toFixed(2)}</td>
+              <td className="p-2 border text-center text-xs">{RETURN_CONDITION_LABELS[item.condition]}</td>
+              <td className="p-2 border text-left">${item.totalPrice.toFixed(2)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="my-8 p-4 bg-blue-50 border border-blue-200 rounded-lg text-center">
+        <p className="text-gray-600 text-sm">مبلغ بازپرداخت ({REFUND_METHOD_LABELS[saleReturn.refundMethod]})</p>
+        <p className="text-2xl font-bold text-red-700 tracking-wider">${saleReturn.totalAmount.toFixed(2)}</p>
+      </div>
+
+      <div className="mt-16 grid grid-cols-2 gap-8 text-center text-xs text-gray-700">
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای دریافت کننده وجه</p>
+            <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای مسئول داروخانه</p>
+             <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+      </div>
+       <style>{`
+        @media print {
+          .printable-area {
+            color: black !important;
+            background: white !important;
+          }
+          .bg-gray-100 {
+            background-color: #f9fafb !important;
+            -webkit-print-color-adjust: exact !important;
+            color-adjust: exact !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+});
+
+export default PrintableRefundReceipt;
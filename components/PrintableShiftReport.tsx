@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { Shift, ShiftReport } from '../types';
+import { TENDER_LABELS, TENDER_TYPES } from '../lib/tenders';
+
+interface PrintableShiftReportProps {
+  shift: Shift;
+  report: ShiftReport;
+}
+
+const PrintableShiftReport = React.forwardRef<HTMLDivElement, PrintableShiftReportProps>(({ shift, report }, ref) => {
+  const settings = useLiveQuery(() => db.settings.toArray());
+
+  const pharmacyInfo = useMemo(() => {
+    if (!settings) return { name: 'شفا-یار', logo: null };
+    const name = settings.find(s => s.key === 'pharmacyName')?.value as string || 'شفا-یار';
+    const logo = settings.find(s => s.key === 'pharmacyLogo')?.value as string || null;
+    return { name, logo };
+  }, [settings]);
+
+  const difference = shift.countedCash !== undefined ? shift.countedCash - report.expectedCash : null;
+  const row = (label: string, amount: number, className = '') => (
+    <div className={`flex justify-between ${className}`}>
+      <span className="text-gray-600">{label}</span>
+      <span>${amount.toFixed(2)}</span>
+    </div>
+  );
+
+  return (
+    <div ref={ref} className="bg-white text-black p-6 printable-area">
+      <div className="text-center mb-8 border-b border-gray-200 pb-4 flex flex-col items-center">
+        {pharmacyInfo.logo && <img src={pharmacyInfo.logo} alt="Pharmacy Logo" className="h-20 w-auto mb-2 object-contain" />}
+        <h1 className="text-2xl font-bold text-gray-800">{pharmacyInfo.name}</h1>
+        <p className="text-gray-500 mt-1">گزارش پایان شیفت (Z)</p>
+      </div>
+
+      <div className="space-y-3 text-sm mb-6 text-gray-800">
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">شماره شیفت:</span>
+            <span>#{shift.remoteId || shift.id}</span>
+        </div>
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">کاربر:</span>
+            <span className="font-bold">{shift.username}</span>
+        </div>
+        <div className="flex justify-between">
+            <span className="font-semibold text-gray-600">شروع:</span>
+            <span>{new Date(shift.openedAt).toLocaleString('fa-IR')}</span>
+        </div>
+        {shift.closedAt && (
+          <div className="flex justify-between">
+              <span className="font-semibold text-gray-600">پایان:</span>
+              <span>{new Date(shift.closedAt).toLocaleString('fa-IR')}</span>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 text-sm text-gray-800">
+        <div className="space-y-1">
+          <p className="font-bold border-b border-gray-200 pb-1 mb-2">فروش و مرجوعی</p>
+          <div className="flex justify-between"><span className="text-gray-600">تعداد فاکتور:</span><span>{report.salesCount}</span></div>
+          {row('جمع فروش:', report.salesTotal)}
+          {row('تخفیف‌های داده‌شده:', report.discountsTotal ?? 0)}
+          <div className="flex justify-between"><span className="text-gray-600">تعداد مرجوعی:</span><span>{report.returnsCount}</span></div>
+          {row('جمع مرجوعی:', report.returnsTotal)}
+          <div className="flex justify-between"><span className="text-gray-600">نوبت‌های کلینیک:</span><span>{report.clinicCount}</span></div>
+          {row('جمع کلینیک:', report.clinicTotal)}
+        </div>
+        <div className="space-y-1">
+          <p className="font-bold border-b border-gray-200 pb-1 mb-2">تفکیک روش پرداخت</p>
+          {TENDER_TYPES.map(type => <React.Fragment key={type}>{row(`${TENDER_LABELS[type]}:`, report.tenderTotals[type])}</React.Fragment>)}
+        </div>
+      </div>
+
+      <div className="mt-6 p-4 bg-gray-100 rounded-lg space-y-1 text-sm text-gray-800">
+        {row('موجودی اول شیفت:', shift.openingFloat)}
+        {row('+ فروش نقدی:', report.tenderTotals.cash)}
+        {row('+ دریافت کلینیک:', report.clinicTotal)}
+        {row('+ دریافت از مشتریان:', report.customerPaymentsTotal ?? 0)}
+        {row('- بازپرداخت نقدی مرجوعی:', report.cashRefunds)}
+        {row('- پرداخت به تامین‌کنندگان:', report.supplierPaymentsTotal)}
+        {row('نقد مورد انتظار در صندوق:', report.expectedCash, 'font-bold border-t border-gray-300 pt-1')}
+        {shift.countedCash !== undefined && row('نقد شمارش‌شده:', shift.countedCash, 'font-bold')}
+        {difference !== null && (
+          <div className={`flex justify-between font-bold ${Math.abs(difference) < 0.005 ? 'text-green-700' : 'text-red-700'}`}>
+            <span>{difference < 0 ? 'کسری صندوق:' : 'اضافه صندوق:'}</span>
+            <span>${Math.abs(difference).toFixed(2)}</span>
+          </div>
+        )}
+      </div>
+      {shift.notes && <p className="mt-4 text-sm text-gray-700"><span className="font-semibold">توضیحات:</span> {shift.notes}</p>}
+
+      <div className="mt-16 grid grid-cols-2 gap-8 text-center text-xs text-gray-700">
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای تحویل دهنده صندوق</p>
+            <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+         <div className="flex flex-col items-center justify-between">
+            <p className="mb-12 font-semibold">امضای تحویل گیرنده صندوق</p>
+             <div className="w-full border-t border-gray-400 border-dashed"></div>
+        </div>
+      </div>
+       <style>{`
+        @media print {
+          .printable-area {
+            color: black !important;
+            background: white !important;
+          }
+          .bg-gray-100 {
+            background-color: #f3f4f6 !important;
+            -webkit-print-color-adjust: exact !important;
+            color-adjust: exact !important;
+          }
+        }
+      `}</style>
+    </div>
+  );
+});
+
+export default PrintableShiftReport;
@@ -0,0 +1,228 @@
+import React, { useState, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { db } from '../db';
+import { SaleInvoice, SaleItem, SaleReturn, SaleReturnItem, SaleReturnCondition, RefundMethod } from '../types';
+import Modal from './Modal';
+import PrintableRefundReceipt from './PrintableRefundReceipt';
+import { Printer } from 'lucide-react';
+import { useNotification } from '../contexts/NotificationContext';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useCurrentShift } from '../hooks/useCurrentShift';
+import { logActivity } from '../lib/activityLogger';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { markOwnStockWrite } from '../lib/realtimeSync';
+import { allocateReturn, returnedPerLine, REFUND_METHOD_LABELS, RETURN_CONDITION_LABELS } from '../lib/saleReturns';
+import { patientUnitPrice } from '../lib/insurance';
+
+interface SaleReturnModalProps {
+  invoice: SaleInvoice;
+  onClose: () => void;
+}
+
+type ReturnLine = { quantity: number; condition: SaleReturnCondition };
+
+// Takes goods back against a sale invoice. The invoice itself is never changed; the return is its own document.
+const SaleReturnModal: React.FC<SaleReturnModalProps> = ({ invoice, onClose }) => {
+  const [lines, setLines] = useState<Record<number, ReturnLine>>({});
+  const [refundMethod, setRefundMethod] = useState<RefundMethod>('cash');
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [completedReturn, setCompletedReturn] = useState<SaleReturn | null>(null);
+  const { showNotification } = useNotification();
+  const isOnline = useOnlineStatus();
+  const currentShift = useCurrentShift();
+
+  const previousReturns = useLiveQuery(() => db.saleReturns.where('saleInvoiceId').equals(invoice.id!).sortBy('date'), [invoice.id]);
+  const returned = useMemo(() => returnedPerLine(invoice.items, previousReturns ?? []), [invoice.items, previousReturns]);
+
+  // Lines are keyed by their position on the invoice, since a drug can be sold on more than one line.
+  const returnItems: SaleReturnItem[] = invoice.items.flatMap((item, index) => {
+    const line = lines[index];
+    if (!line || line.quantity <= 0) return [];
+    // Discounted and insured sales are refunded at what the customer actually paid per unit.
+    const unitPrice = patientUnitPrice(invoice, item);
+    return [{ lineIndex: index, drugId: item.drugId, name: item.name, quantity: line.quantity, unitPrice, totalPrice: line.quantity * unitPrice, condition: line.condition }];
+  });
+  const totalAmount = returnItems.reduce((sum, item) => sum + item.totalPrice, 0);
+
+  const setLine = (index: number, changes: Partial<ReturnLine>) => {
+    setLines(prev => ({ ...prev, [index]: { quantity: 0, condition: 'restock', ...prev[index], ...changes } }));
+  };
+
+  const setQuantity = (index: number, value: number, returnable: number) => {
+    setLine(index, { quantity: Math.max(0, Math.min(Math.floor(value) || 0, returnable)) });
+  };
+
+  // Mirrors the server: units go back to the batches the sale took them from, damaged ones into quarantine.
+  const restockLocally = async (item: SaleReturnItem) => {
+    const soldItem = invoice.items[item.lineIndex!];
+    const allocation = allocateReturn<SaleItem['deductions'][number]>(soldItem.deductions ?? [], returned[item.lineIndex!], item.quantity);
+    const unallocated = item.quantity - allocation.reduce((sum, d) => sum + d.quantity, 0);
+    if (unallocated > 0) {
+      // Invoices created online get their deductions with the next pull; until then the latest lot is used.
+      const batches = await db.drugBatches.where('drugId').equals(item.drugId).sortBy('expiryDate');
+      const latest = batches[batches.length - 1];
+      if (!latest) throw new Error(`بچی برای برگشت "${item.name}" به انبار یافت نشد.`);
+      allocation.push({ batchId: latest.id!, quantity: unallocated });
+    }
+    for (const { batchId, quantity } of allocation) {
+      await db.drugBatches.where('id').equals(batchId).modify(batch => {
+        if (item.condition === 'damaged') batch.quarantinedQuantity = (batch.quarantinedQuantity || 0) + quantity;
+        else batch.quantityInStock += quantity;
+      });
+    }
+    if (item.condition === 'restock') {
+      await db.drugs.where('id').equals(item.drugId).modify(drug => {
+        drug.totalStock += item.quantity;
+      });
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (returnItems.length === 0) {
+      showNotification('حداقل یک قلم را برای مرجوعی مشخص کنید.', 'error');
+      return;
+    }
+    setIsSaving(true);
+    const saleReturn: SaleReturn = {
+      saleInvoiceId: invoice.id!,
+      customerId: invoice.customerId,
+      date: new Date().toISOString(),
+      items: returnItems,
+      totalAmount,
+      refundMethod,
+      reason: reason.trim() || undefined,
+      shiftId: currentShift?.id,
+    };
+    try {
+      if (!isOnline || !invoice.remoteId || (currentShift && !currentShift.remoteId)) {
+        const newId = await db.transaction('rw', [db.saleReturns, db.saleInvoices, db.shifts, db.drugBatches, db.drugs, db.customers, db.syncQueue], async () => {
+          for (const item of returnItems) await restockLocally(item);
+          if (refundMethod === 'account' && invoice.customerId) {
+            await db.customers.where('id').equals(invoice.customerId).modify(c => {
+              c.totalDebt -= totalAmount;
+            });
+          }
+          const id = await db.saleReturns.add(saleReturn);
+          await enqueueSyncItem('saleReturns', 'create', id);
+          return id;
+        });
+        setCompletedReturn({ ...saleReturn, id: newId });
+        showNotification('مرجوعی به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const items = [];
+        for (const item of returnItems) {
+          const drug = await db.drugs.get(item.drugId);
+          if (!drug?.remoteId) throw new Error(`داروی "${item.name}" هنوز با سرور همگام‌سازی نشده است.`);
+          items.push({ line_index: item.lineIndex, drug_id: drug.remoteId, name: item.name, quantity: item.quantity, unit_price: item.unitPrice, condition: item.condition });
+        }
+        markOwnStockWrite(returnItems.map(item => item.drugId));
+        const { data, error } = await backend.rpc('create_sale_return_transaction', {
+          p_payload: {
+            p_sale_invoice_id: invoice.remoteId,
+            p_items: items,
+            p_date: saleReturn.date,
+            p_refund_method: refundMethod,
+            p_reason: saleReturn.reason ?? null,
+            p_shift_id: currentShift?.remoteId ?? null,
+          },
+        });
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.message);
+
+        // Stock comes back through the realtime subscription; the return and the debt are mirrored right away.
+        const created = { ...saleReturn, remoteId: data.new_return_id };
+        const id = await db.saleReturns.add(created);
+        if (refundMethod === 'account' && invoice.customerId) {
+          await db.customers.where('id').equals(invoice.customerId).modify(c => {
+            c.totalDebt -= totalAmount;
+          });
+        }
+        await logActivity('CREATE', 'SaleReturn', data.new_return_id, { saleInvoiceId: invoice.remoteId, items: returnItems, totalAmount, refundMethod });
+        setCompletedReturn({ ...created, id });
+        showNotification(data.message, 'success');
+      }
+    } catch (error: any) {
+      console.error("Failed to record sale return:", error);
+      showNotification(`خطا در ثبت مرجوعی: ${error.message || 'خطای سرور'}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (completedReturn) {
+    return (
+      <Modal title={`رسید مرجوعی #${completedReturn.remoteId || completedReturn.id}`} onClose={onClose}>
+        <div className="space-y-4">
+          <PrintableRefundReceipt saleReturn={completedReturn} />
+          <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+            <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+            <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700">
+              <Printer size={18} />
+              <span>چاپ</span>
+            </button>
+          </div>
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal title={`مرجوعی فاکتور #${invoice.remoteId || invoice.id}`} onClose={onClose}>
+      <div className="space-y-4">
+        <div className="space-y-2 max-h-[45vh] overflow-y-auto">
+          {invoice.items.map((item, index) => {
+            const returnable = item.quantity - returned[index];
+            const line = lines[index];
+            return (
+              <div key={index} className="p-3 bg-gray-700/60 rounded-lg flex flex-wrap items-center justify-between gap-3">
+                <div className="text-sm">
+                  <p className="font-semibold text-white">{item.name}</p>
+                  <p className="text-xs text-gray-400">فروخته شده: {item.quantity} | قابل برگشت: {returnable} | ${patientUnitPrice(invoice, item).toFixed(2)}</p>
+                </div>
+                {returnable > 0 ? (
+                  <div className="flex items-center gap-2">
+                    <input type="number" min={0} max={returnable} value={line?.quantity || ''} onChange={e => setQuantity(index, Number(e.target.value), returnable)} placeholder="0" className="w-20 bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-white text-center" />
+                    <select value={line?.condition || 'restock'} onChange={e => setLine(index, { condition: e.target.value as SaleReturnCondition })} className="bg-gray-800 border border-gray-600 rounded-lg px-2 py-1 text-sm text-white">
+                      {(Object.keys(RETURN_CONDITION_LABELS) as SaleReturnCondition[]).map(c => <option key={c} value={c}>{RETURN_CONDITION_LABELS[c]}</option>)}
+                    </select>
+                  </div>
+                ) : (
+                  <span className="text-xs text-gray-500">به طور کامل مرجوع شده</span>
+                )}
+              </div>
+            );
+          })}
+        </div>
+        {previousReturns && previousReturns.length > 0 && (
+          <div className="text-xs text-gray-400 space-y-1">
+            <p className="font-semibold text-gray-300">مرجوعی‌های قبلی این فاکتور:</p>
+            {previousReturns.map(r => (
+              <p key={r.id}>#{r.remoteId || r.id} - {new Date(r.date).toLocaleDateString('fa-IR')} - {r.items.map(i => `${i.name} × ${i.quantity}`).join('، ')} - ${r.totalAmount.toFixed(2)}</p>
+            ))}
+          </div>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <select value={refundMethod} onChange={e => setRefundMethod(e.target.value as RefundMethod)} className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white">
+            <option value="cash">{REFUND_METHOD_LABELS.cash}</option>
+            {invoice.customerId && <option value="account">{REFUND_METHOD_LABELS.account}</option>}
+          </select>
+          <input type="text" value={reason} onChange={e => setReason(e.target.value)} placeholder="علت مرجوعی (اختیاری)" className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500" />
+        </div>
+        <div className="flex justify-between items-center pt-4 border-t border-gray-700">
+          <p className="text-lg font-bold text-white">مبلغ بازپرداخت: <span className="text-red-400">${totalAmount.toFixed(2)}</span></p>
+          <div className="flex gap-3">
+            <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+            <button type="button" onClick={handleSubmit} disabled={isSaving || returnItems.length === 0} className="px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
+              {isSaving ? 'در حال ثبت...' : 'ثبت مرجوعی'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default SaleReturnModal;
@@ -0,0 +1,180 @@
+import React, { useState, FormEvent } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { Printer } from 'lucide-react';
+import Modal from './Modal';
+import PrintableShiftReport from './PrintableShiftReport';
+import { db } from '../db';
+import { Shift, ShiftReport } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useNotification } from '../contexts/NotificationContext';
+import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { backend } from '../lib/dataBackend';
+import { logActivity } from '../lib/activityLogger';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { buildShiftReport } from '../lib/shifts';
+
+interface ShiftModalProps {
+  shift?: Shift; // The open shift to close; without it a new shift is opened
+  onClose: () => void;
+}
+
+const ShiftModal: React.FC<ShiftModalProps> = ({ shift, onClose }) => {
+  const { currentUser } = useAuth();
+  const { showNotification } = useNotification();
+  const isOnline = useOnlineStatus();
+  const [amount, setAmount] = useState<number | ''>('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [closedShift, setClosedShift] = useState<{ shift: Shift; report: ShiftReport } | null>(null);
+
+  // Re-evaluated as sales come in while the modal is open.
+  const liveReport = useLiveQuery(() => (shift ? buildShiftReport(shift) : undefined), [shift]);
+
+  if (!currentUser || currentUser.type !== 'employee') return null;
+
+  const handleOpen = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    const newShift: Shift = {
+      userId: currentUser.id,
+      username: currentUser.username,
+      openedAt: new Date().toISOString(),
+      openingFloat: Number(amount) || 0,
+      status: 'open',
+      notes: notes.trim() || undefined,
+    };
+    try {
+      if (!isOnline) {
+        await db.transaction('rw', [db.shifts, db.syncQueue], async () => {
+          newShift.id = await db.shifts.add(newShift);
+          await enqueueSyncItem('shifts', 'create', newShift.id);
+        });
+        showNotification('شیفت به صورت آفلاین باز و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const { data, error } = await backend.from('shifts').insert({
+          user_id: newShift.userId,
+          username: newShift.username,
+          opened_at: newShift.openedAt,
+          opening_float: newShift.openingFloat,
+          status: newShift.status,
+          notes: newShift.notes ?? null,
+        }).select().single();
+        if (error) throw error;
+        await db.shifts.add({ ...newShift, remoteId: data.id, updatedAt: data.updated_at });
+        await logActivity('CREATE', 'Shift', data.id, { openingFloat: newShift.openingFloat });
+        showNotification('شیفت با موفقیت باز شد.', 'success');
+      }
+      onClose();
+    } catch (error: any) {
+      console.error("Failed to open shift:", error);
+      showNotification(`خطا در باز کردن شیفت: ${error.message || 'خطای سرور'}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleClose = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!shift || amount === '') {
+      showNotification('مبلغ نقد شمارش‌شده در صندوق را وارد کنید.', 'error');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const report = await buildShiftReport(shift);
+      const fields = {
+        status: 'closed' as const,
+        closedAt: new Date().toISOString(),
+        countedCash: Number(amount),
+        report,
+        notes: [shift.notes, notes.trim()].filter(Boolean).join(' | ') || undefined,
+      };
+      if (!isOnline || !shift.remoteId) {
+        await db.transaction('rw', [db.shifts, db.syncQueue], async () => {
+          await db.shifts.update(shift.id!, fields);
+          await enqueueSyncItem('shifts', 'update', shift.id!, fields);
+        });
+        showNotification('شیفت به صورت آفلاین بسته و در صف همگام‌سازی قرار گرفت.', 'success');
+        processSyncQueue();
+      } else {
+        const { error } = await backend.from('shifts').update({
+          status: fields.status,
+          closed_at: fields.closedAt,
+          counted_cash: fields.countedCash,
+          report: fields.report,
+          notes: fields.notes ?? null,
+        }).eq('id', shift.remoteId);
+        if (error) throw error;
+        await db.shifts.update(shift.id!, fields);
+        showNotification('شیفت با موفقیت بسته شد.', 'success');
+      }
+      await logActivity('UPDATE', 'Shift', shift.remoteId || shift.id!, {
+        action: 'close', openingFloat: shift.openingFloat, countedCash: fields.countedCash,
+        expectedCash: report.expectedCash, difference: fields.countedCash - report.expectedCash, report,
+      });
+      setClosedShift({ shift: { ...shift, ...fields }, report });
+    } catch (error: any) {
+      console.error("Failed to close shift:", error);
+      showNotification(`خطا در بستن شیفت: ${error.message || 'خطای سرور'}`, 'error');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (closedShift) {
+    return (
+      <Modal title="گزارش پایان شیفت" onClose={onClose}>
+        <PrintableShiftReport shift={closedShift.shift} report={closedShift.report} />
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+          <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+          <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700">
+            <Printer size={18} />
+            <span>چاپ</span>
+          </button>
+        </div>
+      </Modal>
+    );
+  }
+
+  return (
+    <Modal title={shift ? 'بستن شیفت' : 'باز کردن شیفت'} onClose={onClose}>
+      <form onSubmit={shift ? handleClose : handleOpen} className="space-y-4">
+        {shift && (
+          <div className="p-3 bg-gray-700/60 rounded-lg text-sm space-y-1 text-gray-300">
+            <p className="flex justify-between"><span>شروع شیفت:</span><span>{new Date(shift.openedAt).toLocaleString('fa-IR')}</span></p>
+            <p className="flex justify-between"><span>موجودی اول شیفت:</span><span>${shift.openingFloat.toFixed(2)}</span></p>
+            {liveReport && (
+              <>
+                <p className="flex justify-between"><span>فروش ({liveReport.salesCount} فاکتور):</span><span>${liveReport.salesTotal.toFixed(2)}</span></p>
+                {liveReport.discountsTotal > 0 && <p className="flex justify-between"><span>تخفیف‌های داده‌شده:</span><span>${liveReport.discountsTotal.toFixed(2)}</span></p>}
+                <p className="flex justify-between font-bold text-white"><span>نقد مورد انتظار در صندوق:</span><span>${liveReport.expectedCash.toFixed(2)}</span></p>
+              </>
+            )}
+          </div>
+        )}
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-400">{shift ? 'نقد شمارش‌شده در صندوق' : 'موجودی نقد اول شیفت'}</label>
+          <input type="number" min={0} step="0.01" value={amount} onChange={e => setAmount(e.target.value === '' ? '' : Number(e.target.value))} required={!!shift} placeholder="0" className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" />
+        </div>
+        {shift && liveReport && amount !== '' && (
+          <p className={`text-sm font-semibold ${Math.abs(Number(amount) - liveReport.expectedCash) < 0.005 ? 'text-green-400' : 'text-red-400'}`}>
+            اختلاف: ${(Number(amount) - liveReport.expectedCash).toFixed(2)}
+          </p>
+        )}
+        <div>
+          <label className="block mb-2 text-sm font-medium text-gray-400">توضیحات (اختیاری)</label>
+          <input type="text" value={notes} onChange={e => setNotes(e.target.value)} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" />
+        </div>
+        <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+          <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+          <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-500">
+            {isSaving ? 'در حال ثبت...' : shift ? 'بستن شیفت و صدور گزارش' : 'باز کردن شیفت'}
+          </button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default ShiftModal;
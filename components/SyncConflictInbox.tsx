@@ -0,0 +1,128 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { GitMerge } from 'lucide-react';
+import Modal from './Modal';
+import { db } from '../db';
+import { SyncConflict } from '../types';
+import { resolveConflict, ConflictResolution } from '../lib/syncService';
+import { TABLE_MAPPINGS, SYNC_TABLE_LABELS, isSyncedTable } from '../lib/syncMappers';
+import { useNotification } from '../contexts/NotificationContext';
+
+const formatValue = (value: any) => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const ConflictDetail: React.FC<{ conflict: SyncConflict; onResolved: () => void }> = ({ conflict, onResolved }) => {
+    const { showNotification } = useNotification();
+    const [fieldChoices, setFieldChoices] = useState<Record<string, 'mine' | 'theirs'>>({});
+    const [isSaving, setIsSaving] = useState(false);
+
+    // Only the fields that actually differ between the two versions are offered for merging.
+    const differingFields = useMemo(() => {
+        const fields = isSyncedTable(conflict.table) ? TABLE_MAPPINGS[conflict.table].fields : Object.keys(conflict.localData ?? {});
+        return fields.filter(f =>
+            conflict.localData && f in conflict.localData &&
+            formatValue(conflict.localData[f]) !== formatValue(conflict.remoteData?.[f])
+        );
+    }, [conflict]);
+
+    useEffect(() => {
+        setFieldChoices(Object.fromEntries(differingFields.map(f => [f, 'mine' as const])));
+    }, [differingFields]);
+
+    const handleResolve = async (resolution: ConflictResolution) => {
+        setIsSaving(true);
+        try {
+            await resolveConflict(conflict.id!, resolution, fieldChoices);
+            showNotification('تعارض با موفقیت حل شد.', 'success');
+            onResolved();
+        } catch (error: any) {
+            console.error("Failed to resolve sync conflict:", error);
+            showNotification(`خطا در حل تعارض: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="p-3 bg-gray-700/50 rounded-lg text-sm">
+                <p><strong>موجودیت:</strong> {SYNC_TABLE_LABELS[conflict.table] ?? conflict.table} (ID: {conflict.remoteId})</p>
+                <p><strong>زمان تشخیص:</strong> {new Date(conflict.detectedAt).toLocaleString('fa-IR')}</p>
+                {conflict.remoteVersion && <p><strong>آخرین تغییر در سرور:</strong> {new Date(conflict.remoteVersion).toLocaleString('fa-IR')}</p>}
+            </div>
+            {differingFields.length > 0 ? (
+                <table className="w-full text-sm text-right">
+                    <thead className="border-b border-gray-600">
+                        <tr className="text-gray-400"><th className="p-2">فیلد</th><th className="p-2">نسخه من</th><th className="p-2">نسخه سرور</th></tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {differingFields.map(field => (
+                            <tr key={field}>
+                                <td className="p-2 font-semibold text-gray-300">{field}</td>
+                                <td className="p-2">
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input type="radio" name={field} checked={fieldChoices[field] === 'mine'} onChange={() => setFieldChoices(p => ({ ...p, [field]: 'mine' }))} />
+                                        <span className="text-yellow-300 break-all">{formatValue(conflict.localData[field])}</span>
+                                    </label>
+                                </td>
+                                <td className="p-2">
+                                    <label className="flex items-center gap-2 cursor-pointer">
+                                        <input type="radio" name={field} checked={fieldChoices[field] === 'theirs'} onChange={() => setFieldChoices(p => ({ ...p, [field]: 'theirs' }))} />
+                                        <span className="text-blue-300 break-all">{formatValue(conflict.remoteData?.[field])}</span>
+                                    </label>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            ) : (
+                <p className="text-gray-400 text-center py-4">مقادیر فیلدها یکسان هستند؛ فقط نسخه رکورد در سرور تغییر کرده است.</p>
+            )}
+            <div className="flex flex-wrap justify-end gap-3 pt-4 border-t border-gray-700">
+                <button disabled={isSaving} onClick={() => handleResolve('theirs')} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500 disabled:opacity-50">نگه داشتن نسخه سرور</button>
+                <button disabled={isSaving || differingFields.length === 0} onClick={() => handleResolve('merge')} className="px-4 py-2 bg-purple-600 rounded-lg hover:bg-purple-500 disabled:opacity-50">ادغام فیلدهای انتخاب شده</button>
+                <button disabled={isSaving} onClick={() => handleResolve('mine')} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-500 disabled:opacity-50">نگه داشتن نسخه من</button>
+            </div>
+        </div>
+    );
+};
+
+const SyncConflictInbox: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const conflicts = useLiveQuery(() => db.syncConflicts.orderBy('detectedAt').toArray(), []);
+    const [selectedId, setSelectedId] = useState<number | null>(null);
+    const selected = conflicts?.find(c => c.id === selectedId) ?? null;
+
+    return (
+        <Modal title="صندوق تعارض‌های همگام‌سازی" onClose={onClose}>
+            {selected ? (
+                <div className="space-y-3">
+                    <button onClick={() => setSelectedId(null)} className="text-sm text-blue-400 hover:text-blue-300">بازگشت به فهرست</button>
+                    <ConflictDetail conflict={selected} onResolved={() => setSelectedId(null)} />
+                </div>
+            ) : conflicts && conflicts.length > 0 ? (
+                <div className="space-y-2">
+                    <p className="text-sm text-gray-400 mb-3">این تغییرات روی نسخه قدیمی رکورد انجام شده‌اند و رکورد در سرور توسط کاربر دیگری تغییر کرده است.</p>
+                    {conflicts.map(conflict => (
+                        <div key={conflict.id} className="flex justify-between items-center bg-gray-700/50 p-3 rounded-lg hover:bg-gray-700 transition-colors">
+                            <div className="flex items-center gap-3">
+                                <GitMerge className="text-orange-400" size={20} />
+                                <div>
+                                    <p className="text-white text-sm">{SYNC_TABLE_LABELS[conflict.table] ?? conflict.table} #{conflict.remoteId} {conflict.localData?.name ? `(${conflict.localData.name})` : ''}</p>
+                                    <p className="text-xs text-gray-400">{new Date(conflict.detectedAt).toLocaleString('fa-IR')}</p>
+                                </div>
+                            </div>
+                            <button onClick={() => setSelectedId(conflict.id!)} className="text-sm text-blue-400 hover:text-blue-300">بررسی</button>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-gray-500 text-center py-8">هیچ تعارضی وجود ندارد.</p>
+            )}
+        </Modal>
+    );
+};
+
+export default SyncConflictInbox;
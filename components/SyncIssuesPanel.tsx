@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { useLiveQuery } from 'dexie-react-hooks';
+import { AlertTriangle, Clock, RotateCw, Edit, Trash2, Save } from 'lucide-react';
+import Modal from './Modal';
+import { db } from '../db';
+import { SyncQueueItem, SyncDeadLetter } from '../types';
+import { retryQueueItemNow, requeueDeadLetter, findDependentItems, discardSyncItems, SyncItemSource, MAX_ATTEMPTS } from '../lib/syncService';
+import { SYNC_TABLE_LABELS } from '../lib/syncMappers';
+import { useNotification } from '../contexts/NotificationContext';
+import { logActivity } from '../lib/activityLogger';
+
+const actionLabels: Record<SyncQueueItem['action'], string> = {
+    create: 'ایجاد',
+    update: 'ویرایش',
+    delete: 'حذف',
+};
+
+const IssueRow: React.FC<{ item: SyncQueueItem | SyncDeadLetter; source: SyncItemSource }> = ({ item, source }) => {
+    const { showNotification } = useNotification();
+    const [isEditing, setIsEditing] = useState(false);
+    const [payloadText, setPayloadText] = useState('');
+
+    const handleRetry = async () => {
+        if (source === 'queue') await retryQueueItemNow(item.id!);
+        else await requeueDeadLetter(item.id!);
+        showNotification('آیتم دوباره در صف ارسال قرار گرفت.', 'info');
+    };
+
+    // Create handlers push the local record itself, so for creates the record is what gets edited.
+    const editsRecord = item.action === 'create';
+
+    const startEditing = async () => {
+        if (editsRecord) {
+            const record = await db.table(item.table).get(item.recordId);
+            if (!record) {
+                showNotification('رکورد محلی این آیتم دیگر وجود ندارد.', 'error');
+                return;
+            }
+            const { id, remoteId, updatedAt, ...fields } = record;
+            setPayloadText(JSON.stringify(fields, null, 2));
+        } else {
+            setPayloadText(JSON.stringify(item.payload ?? {}, null, 2));
+        }
+        setIsEditing(true);
+    };
+
+    const handleSavePayload = async () => {
+        let payload: any;
+        try {
+            payload = JSON.parse(payloadText);
+        } catch {
+            showNotification('محتوای وارد شده JSON معتبر نیست.', 'error');
+            return;
+        }
+        if (editsRecord) {
+            await db.table(item.table).update(item.recordId, payload);
+            if (source === 'queue') await retryQueueItemNow(item.id!);
+            else await requeueDeadLetter(item.id!);
+        } else if (source === 'queue') {
+            await db.syncQueue.update(item.id!, { payload });
+            await retryQueueItemNow(item.id!);
+        } else {
+            await requeueDeadLetter(item.id!, payload);
+        }
+        setIsEditing(false);
+        showNotification('محتوای آیتم ذخیره شد و دوباره ارسال می‌شود.', 'success');
+    };
+
+    // Items waiting on a discarded create could never be pushed, so they are discarded with it.
+    const handleDiscard = async () => {
+        const dependents = item.action === 'create' ? await findDependentItems({ source, item }) : [];
+        const message = dependents.length > 0
+            ? [
+                `این تغییر هرگز به سرور ارسال نخواهد شد. ${dependents.length} تغییر دیگر به آن وابسته است و همراه آن از صف حذف می‌شود:`,
+                ...dependents.map(({ item: d }) => `- ${actionLabels[d.action]} ${SYNC_TABLE_LABELS[d.table] ?? d.table} (ID محلی: ${d.recordId})`),
+                'رکوردهای محلی روی این دستگاه باقی می‌مانند. آیا از حذف اطمینان دارید؟',
+            ].join('\n')
+            : 'این تغییر هرگز به سرور ارسال نخواهد شد. آیا از حذف آن اطمینان دارید؟';
+        if (!window.confirm(message)) return;
+        await discardSyncItems([{ source, item }, ...dependents]);
+        await logActivity('DELETE', 'SyncQueueItem', `${item.table}:${item.recordId}`, { discardedItem: item, discardedDependents: dependents.map(d => d.item) });
+        showNotification(dependents.length > 0 ? `آیتم و ${dependents.length} تغییر وابسته از صف همگام‌سازی حذف شدند.` : 'آیتم از صف همگام‌سازی حذف شد.', 'success');
+    };
+
+    return (
+        <div className="bg-gray-700/50 p-3 rounded-lg space-y-2">
+            <div className="flex justify-between items-start gap-4">
+                <div className="space-y-1">
+                    <p className="text-white text-sm font-semibold">
+                        {actionLabels[item.action]} {SYNC_TABLE_LABELS[item.table] ?? item.table} <span className="text-gray-400">(ID محلی: {item.recordId})</span>
+                    </p>
+                    <p className="text-xs text-red-300 break-all">{item.lastError || 'خطای نامشخص'}</p>
+                    <p className="text-xs text-gray-400">
+                        تلاش‌ها: {item.attempts ?? 0} از {MAX_ATTEMPTS}
+                        {source === 'queue' && item.nextAttemptAt && ` — تلاش بعدی: ${new Date(item.nextAttemptAt).toLocaleTimeString('fa-IR')}`}
+                        {source === 'deadLetter' && ` — قرنطینه از: ${new Date((item as SyncDeadLetter).failedAt).toLocaleString('fa-IR')}`}
+                    </p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                    <button onClick={handleRetry} className="text-blue-400 hover:text-blue-300" title="تلاش مجدد"><RotateCw size={18} /></button>
+                    <button onClick={startEditing} className="text-yellow-400 hover:text-yellow-300" title={editsRecord ? 'ویرایش رکورد محلی' : 'ویرایش محتوا'}><Edit size={18} /></button>
+                    <button onClick={handleDiscard} className="text-red-400 hover:text-red-300" title="حذف از صف"><Trash2 size={18} /></button>
+                </div>
+            </div>
+            {isEditing && (
+                <div className="space-y-2">
+                    <textarea value={payloadText} onChange={e => setPayloadText(e.target.value)} rows={6} dir="ltr" className="w-full bg-gray-900 border border-gray-600 rounded-lg p-2 text-xs font-mono text-gray-200" />
+                    <div className="flex justify-end gap-2">
+                        <button onClick={() => setIsEditing(false)} className="px-3 py-1 text-sm bg-gray-600 rounded-lg hover:bg-gray-500">انصراف</button>
+                        <button onClick={handleSavePayload} className="px-3 py-1 text-sm bg-blue-600 rounded-lg hover:bg-blue-500 flex items-center gap-1"><Save size={14} /> ذخیره و ارسال</button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SyncIssuesPanel: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const failingItems = useLiveQuery(() => db.syncQueue.filter(item => (item.attempts ?? 0) > 0).toArray(), []);
+    const deadLetters = useLiveQuery(() => db.syncDeadLetters.orderBy('failedAt').reverse().toArray(), []);
+
+    return (
+        <Modal title="موارد همگام‌سازی ناموفق" onClose={onClose}>
+            <div className="space-y-6">
+                <section className="space-y-2">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-red-300"><AlertTriangle size={18} /> قرنطینه شده</h3>
+                    <p className="text-xs text-gray-400">این موارد پس از {MAX_ATTEMPTS} تلاش ناموفق از صف خارج شده‌اند و دیگر به صورت خودکار ارسال نمی‌شوند.</p>
+                    {deadLetters && deadLetters.length > 0
+                        ? deadLetters.map(item => <IssueRow key={`dead-${item.id}`} item={item} source="deadLetter" />)
+                        : <p className="text-gray-500 text-center py-4 text-sm">موردی وجود ندارد.</p>}
+                </section>
+                <section className="space-y-2">
+                    <h3 className="flex items-center gap-2 text-lg font-semibold text-yellow-300"><Clock size={18} /> در انتظار تلاش مجدد</h3>
+                    {failingItems && failingItems.length > 0
+                        ? failingItems.map(item => <IssueRow key={`queue-${item.id}`} item={item} source="queue" />)
+                        : <p className="text-gray-500 text-center py-4 text-sm">موردی وجود ندارد.</p>}
+                </section>
+            </div>
+        </Modal>
+    );
+};
+
+export default SyncIssuesPanel;
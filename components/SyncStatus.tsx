@@ -1,9 +1,13 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { RotateCw, CheckCircle, AlertTriangle, UploadCloud, WifiOff } from 'lucide-react';
+import { RotateCw, CheckCircle, AlertTriangle, UploadCloud, WifiOff, GitMerge, DatabaseZap, ServerCrash } from 'lucide-react';
 import { syncStatusChannel } from '../lib/syncService';
 import { db } from '../db';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 import { useLiveQuery } from 'dexie-react-hooks';
+import SyncConflictInbox from './SyncConflictInbox';
+import SyncIssuesPanel from './SyncIssuesPanel';
+import { pullRemoteChanges } from '../lib/deltaSync';
+import { useNotification } from '../contexts/NotificationContext';
 
 type SyncState = 'syncing' | 'pending' | 'synced' | 'error' | 'offline';
 
@@ -21,6 +25,13 @@ const SyncStatus: React.FC = () => {
     const [isVisible, setIsVisible] = useState(false);
     const isOnline = useOnlineStatus();
     const syncQueueCount = useLiveQuery(() => db.syncQueue.count(), []);
+    const conflictCount = useLiveQuery(() => db.syncConflicts.count(), []);
+    const stuckCount = useLiveQuery(async () =>
+        (await db.syncDeadLetters.count()) + (await db.syncQueue.filter(item => (item.attempts ?? 0) > 0).count()), []);
+    const [isInboxOpen, setIsInboxOpen] = useState(false);
+    const [isIssuesOpen, setIsIssuesOpen] = useState(false);
+    const [isResyncing, setIsResyncing] = useState(false);
+    const { showNotification } = useNotification();
     const hideTimerRef = useRef<number | null>(null);
 
     useEffect(() => {
@@ -128,19 +139,65 @@ const SyncStatus: React.FC = () => {
         }
     };
 
-    if (!isVisible) {
-        return null;
-    }
+    const handleFullResync = async () => {
+        if (!window.confirm('تمام داده‌ها دوباره از سرور دریافت می‌شوند. این کار ممکن است چند دقیقه طول بکشد. ادامه می‌دهید؟')) return;
+        setIsResyncing(true);
+        try {
+            await pullRemoteChanges({ fullResync: true });
+            showNotification('همگام‌سازی کامل با موفقیت انجام شد.', 'success');
+        } catch (error: any) {
+            console.error("Full resync failed:", error);
+            showNotification(`خطا در همگام‌سازی کامل: ${error.message}`, 'error');
+        } finally {
+            setIsResyncing(false);
+        }
+    };
 
     const config = statusConfig[status];
 
     return (
-        <div 
-            className={`flex items-center space-x-2 px-3 py-1.5 rounded-full text-sm font-medium bg-gray-700/50 transition-all duration-300 ${config.color}`}
-            title={config.title}
-        >
-            {config.icon}
-            <span className="hidden sm:inline">{message}</span>
+        <div className="flex items-center gap-2">
+            {isVisible && (
+                <div 
+                    className={`flex items-center space-x-2 px-3 py-1.5 rounded-full text-sm font-medium bg-gray-700/50 transition-all duration-300 ${config.color}`}
+                    title={config.title}
+                >
+                    {config.icon}
+                    <span className="hidden sm:inline">{message}</span>
+                </div>
+            )}
+            {!!conflictCount && (
+                <button
+                    onClick={() => setIsInboxOpen(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-orange-500/20 text-orange-300 hover:bg-orange-500/30 transition-colors"
+                    title="برخی تغییرات با نسخه جدیدتر سرور تعارض دارند."
+                >
+                    <GitMerge size={16} />
+                    <span className="hidden sm:inline">{conflictCount} تعارض</span>
+                </button>
+            )}
+            {!!stuckCount && (
+                <button
+                    onClick={() => setIsIssuesOpen(true)}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded-full text-sm font-medium bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors"
+                    title="برخی تغییرات ارسال نشده‌اند. برای مشاهده خطا کلیک کنید."
+                >
+                    <ServerCrash size={16} />
+                    <span className="hidden sm:inline">{stuckCount} مورد ناموفق</span>
+                </button>
+            )}
+            {isOnline && (
+                <button
+                    onClick={handleFullResync}
+                    disabled={isResyncing}
+                    className="p-1.5 rounded-full text-gray-400 hover:bg-gray-700 hover:text-white transition-colors disabled:opacity-50"
+                    title="همگام‌سازی کامل (دریافت دوباره تمام داده‌ها از سرور)"
+                >
+                    <DatabaseZap size={16} className={isResyncing ? 'animate-pulse' : ''} />
+                </button>
+            )}
+            {isInboxOpen && <SyncConflictInbox onClose={() => setIsInboxOpen(false)} />}
+            {isIssuesOpen && <SyncIssuesPanel onClose={() => setIsIssuesOpen(false)} />}
         </div>
     );
 };
@@ -1,9 +1,10 @@
 import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import { Permission } from '../types';
 import { useNotification } from './NotificationContext';
 import { logActivity } from '../lib/activityLogger';
 import { db } from '../db';
+import { rememberCredentials } from '../lib/offlineCredentials';
 
 // Changed AuthenticatedUser to a discriminated union to correctly type employee vs supplier users.
 interface BaseUser {
@@ -57,7 +58,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     setIsLoading(true);
     try {
         // Step 1: Attempt to log in as an employee
-        const { data: employeeData, error: employeeError } = await supabase.rpc('verify_user_credentials', {
+        const { data: employeeData, error: employeeError } = await backend.rpc('verify_user_credentials', {
             p_username: username_param,
             p_password: password_plaintext
         });
@@ -77,6 +78,8 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
                  roleId: userData.role_id,
              };
              const userPermissions: Permission[] = userData.permissions;
+             // Lets this employee be verified on this device while the backend is unreachable (e.g. discount approval).
+             await rememberCredentials(userData.username, password_plaintext);
 
              setCurrentUser(userToStore);
              setPermissions(userPermissions);
@@ -89,7 +92,7 @@ export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
 
         // Step 2: If employee login fails, attempt to log in as a supplier
-        const { data: supplierData, error: supplierError } = await supabase.rpc('verify_supplier_credentials', {
+        const { data: supplierData, error: supplierError } = await backend.rpc('verify_supplier_credentials', {
             p_username: username_param,
             p_password: password_plaintext
         });
@@ -15,7 +15,26 @@ import {
     SimpleAccountingColumn,
     SimpleAccountingEntry,
     SyncQueueItem,
+    SyncConflict,
+    SyncState,
+    SyncDeadLetter,
     AppSetting,
+    BackupSnapshot,
+    StoredFileHandle,
+    Customer,
+    CustomerPayment,
+    Prescription,
+    SaleReturn,
+    PurchaseReturn,
+    Shift,
+    HeldCart,
+    Insurer,
+    InsuranceClaim,
+    Stocktake,
+    StockMovement,
+    StockWriteOff,
+    PurchaseOrder,
+    CachedCredential,
 } from './types';
 
 // FIX: Replaced the subclassing pattern with a direct instance creation and type assertion.
@@ -39,7 +58,26 @@ export const db = new Dexie('ShafaYarDB') as Dexie & {
     simpleAccountingColumns: Table<SimpleAccountingColumn, number>;
     simpleAccountingEntries: Table<SimpleAccountingEntry, number>;
     syncQueue: Table<SyncQueueItem, number>;
+    syncConflicts: Table<SyncConflict, number>;
+    syncState: Table<SyncState, string>;
+    syncDeadLetters: Table<SyncDeadLetter, number>;
     settings: Table<AppSetting, string>;
+    backupSnapshots: Table<BackupSnapshot, number>;
+    fileHandles: Table<StoredFileHandle, string>;
+    customers: Table<Customer, number>;
+    customerPayments: Table<CustomerPayment, number>;
+    prescriptions: Table<Prescription, number>;
+    saleReturns: Table<SaleReturn, number>;
+    purchaseReturns: Table<PurchaseReturn, number>;
+    shifts: Table<Shift, number>;
+    heldCarts: Table<HeldCart, number>;
+    insurers: Table<Insurer, number>;
+    insuranceClaims: Table<InsuranceClaim, number>;
+    stocktakes: Table<Stocktake, number>;
+    stockMovements: Table<StockMovement, number>;
+    stockWriteOffs: Table<StockWriteOff, number>;
+    purchaseOrders: Table<PurchaseOrder, number>;
+    cachedCredentials: Table<CachedCredential, string>;
 };
 
 db.version(3).stores({
@@ -61,6 +99,86 @@ db.version(3).stores({
     syncQueue: '++id, timestamp',
 });
 
+db.version(4).stores({
+    syncQueue: '++id, timestamp, table',
+    syncConflicts: '++id, table, recordId, detectedAt',
+});
+
+db.version(5).stores({
+    syncState: 'table',
+});
+
+db.version(6).stores({
+    syncDeadLetters: '++id, table, failedAt',
+});
+
+db.version(7).stores({
+    backupSnapshots: '++id, createdAt, trigger',
+    fileHandles: 'key',
+});
+
+db.version(8).stores({
+    customers: '++id, name, phone, nationalId, remoteId',
+    customerPayments: '++id, customerId, date, remoteId',
+    saleInvoices: '++id, date, customerId, remoteId',
+    clinicTransactions: '++id, date, serviceId, providerId, customerId, remoteId',
+});
+
+db.version(9).stores({
+    prescriptions: '++id, patientName, customerId, issueDate, status, remoteId',
+    saleInvoices: '++id, date, customerId, prescriptionId, remoteId',
+});
+
+db.version(10).stores({
+    saleReturns: '++id, saleInvoiceId, customerId, date, remoteId',
+});
+
+db.version(11).stores({
+    purchaseReturns: '++id, purchaseInvoiceId, supplierId, date, remoteId',
+});
+
+db.version(12).stores({
+    shifts: '++id, userId, status, openedAt, remoteId',
+    saleInvoices: '++id, date, customerId, prescriptionId, shiftId, remoteId',
+    saleReturns: '++id, saleInvoiceId, customerId, date, shiftId, remoteId',
+    payments: '++id, supplierId, date, shiftId, remoteId',
+    clinicTransactions: '++id, date, serviceId, providerId, customerId, shiftId, remoteId',
+});
+
+db.version(13).stores({
+    heldCarts: '++id, heldAt',
+});
+
+db.version(14).stores({
+    insurers: '++id, name, remoteId',
+    insuranceClaims: '++id, insurerId, period, remoteId',
+    saleInvoices: '++id, date, customerId, prescriptionId, shiftId, insurerId, remoteId',
+});
+
+db.version(15).stores({
+    stocktakes: '++id, status, startedAt, remoteId',
+});
+
+db.version(16).stores({
+    stockMovements: '++id, drugId, batchId, date, type, remoteId',
+});
+
+db.version(17).stores({
+    stockWriteOffs: '++id, date, remoteId',
+});
+
+db.version(18).stores({
+    purchaseOrders: '++id, supplierId, status, createdAt, remoteId',
+});
+
+db.version(19).stores({
+    customerPayments: '++id, customerId, date, shiftId, remoteId',
+});
+
+db.version(20).stores({
+    cachedCredentials: 'username',
+});
+
 // Use the 'populate' event to add default data to the database on creation.
 db.on('populate', (tx) => {
     tx.table('settings').bulkAdd([
@@ -0,0 +1,10 @@
+import { useLiveQuery } from 'dexie-react-hooks';
+import { useAuth } from '../contexts/AuthContext';
+import { getOpenShift } from '../lib/shifts';
+
+// The signed-in employee's open shift; undefined when no shift is open.
+export function useCurrentShift() {
+    const { currentUser } = useAuth();
+    const userId = currentUser?.type === 'employee' ? currentUser.id : undefined;
+    return useLiveQuery(() => (userId !== undefined ? getOpenShift(userId) : undefined), [userId]);
+}
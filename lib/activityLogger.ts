@@ -1,4 +1,4 @@
-import { supabase } from './supabaseClient';
+import { backend } from './dataBackend';
 import { ActivityActionType, ActivityEntityType } from '../types';
 
 interface AuthenticatedUser {
@@ -44,7 +44,7 @@ export async function logActivity(
             details: JSON.parse(JSON.stringify(details)) // Sanitize for non-serializable properties
         };
         
-        const { error } = await supabase.from('activity_log').insert(logEntry);
+        const { error } = await backend.from('activity_log').insert(logEntry);
         if (error) {
             console.error("Failed to log activity to Supabase:", error);
         }
@@ -0,0 +1,229 @@
+import { db } from '../db';
+import { AutoBackupSettings, BackupSnapshot, BackupSnapshotTrigger } from '../types';
+import { createBackup } from './backupRestore';
+import { logActivity } from './activityLogger';
+
+// ============================================================================
+// Scheduled automatic backups.
+// Snapshots are gzip-compressed backup files, kept in IndexedDB or written to a
+// folder the user picked (File System Access API). A retention pass after every
+// run keeps the newest snapshot of each of the last 7 days and of the last 4 weeks.
+// ============================================================================
+
+export const DEFAULT_AUTO_BACKUP_SETTINGS: AutoBackupSettings = {
+    enabled: false,
+    closingTime: '22:00',
+    everySales: 0,
+    destination: 'indexeddb',
+};
+
+const FOLDER_HANDLE_KEY = 'autoBackupFolder';
+const KEEP_DAILY = 7;
+const KEEP_WEEKLY = 4;
+const CHECK_INTERVAL_MS = 60000;
+const RETRY_AFTER_FAILURE_MS = 15 * 60000;
+
+export const SNAPSHOT_TRIGGER_LABELS: Record<BackupSnapshotTrigger, string> = {
+    closing: 'پایان روز',
+    sales: 'تعداد فروش',
+    manual: 'دستی',
+};
+
+export async function getAutoBackupSettings(): Promise<AutoBackupSettings> {
+    const setting = await db.settings.get('autoBackup');
+    return { ...DEFAULT_AUTO_BACKUP_SETTINGS, ...(setting?.value as AutoBackupSettings | undefined) };
+}
+
+// --- Backup folder (File System Access API) ---
+
+export const isFolderBackupSupported = () => typeof (window as any).showDirectoryPicker === 'function';
+
+/** Asks the user for a backup folder and remembers it. Must be called from a click handler. */
+export async function chooseBackupFolder(): Promise<string> {
+    const handle: FileSystemDirectoryHandle = await (window as any).showDirectoryPicker({ id: 'shafayar-backups', mode: 'readwrite' });
+    await db.fileHandles.put({ key: FOLDER_HANDLE_KEY, handle });
+    return handle.name;
+}
+
+export async function getBackupFolderName(): Promise<string | null> {
+    const stored = await db.fileHandles.get(FOLDER_HANDLE_KEY);
+    return stored?.handle.name ?? null;
+}
+
+// Permission can only be requested during a user gesture; scheduled runs just query it.
+async function getBackupFolder(requestPermission: boolean): Promise<FileSystemDirectoryHandle | null> {
+    const stored = await db.fileHandles.get(FOLDER_HANDLE_KEY);
+    if (!stored) return null;
+    const handle = stored.handle as FileSystemDirectoryHandle & {
+        queryPermission(options: { mode: 'readwrite' }): Promise<PermissionState>;
+        requestPermission(options: { mode: 'readwrite' }): Promise<PermissionState>;
+    };
+    let permission = await handle.queryPermission({ mode: 'readwrite' });
+    if (permission === 'prompt' && requestPermission) {
+        permission = await handle.requestPermission({ mode: 'readwrite' });
+    }
+    return permission === 'granted' ? handle : null;
+}
+
+// --- Compression ---
+
+const compress = (text: string) =>
+    new Response(new Blob([text]).stream().pipeThrough(new CompressionStream('gzip'))).blob();
+
+const decompress = (blob: Blob) =>
+    new Response(blob.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+
+const snapshotFileName = (date: Date) => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `shafayar-auto-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}.json.gz`;
+};
+
+// --- Snapshots ---
+
+/** Takes a snapshot now, stores it, applies the retention policy and logs the run. */
+export async function takeSnapshot(trigger: BackupSnapshotTrigger): Promise<BackupSnapshot> {
+    const settings = await getAutoBackupSettings();
+    const details: Record<string, any> = { automatic: trigger !== 'manual', trigger };
+    try {
+        const backup = await createBackup();
+        const data = await compress(JSON.stringify(backup));
+        const snapshot: BackupSnapshot = {
+            createdAt: backup.createdAt,
+            trigger,
+            schemaVersion: backup.schemaVersion,
+            destination: 'indexeddb',
+            fileName: snapshotFileName(new Date(backup.createdAt)),
+            size: data.size,
+        };
+
+        const folder = settings.destination === 'folder' ? await getBackupFolder(trigger === 'manual') : null;
+        if (folder) {
+            const file = await folder.getFileHandle(snapshot.fileName, { create: true });
+            const writable = await file.createWritable();
+            await writable.write(data);
+            await writable.close();
+            snapshot.destination = 'folder';
+        } else {
+            // Without folder access the snapshot is still kept, just in the browser.
+            if (settings.destination === 'folder') details.fallback = 'folder access not granted';
+            snapshot.data = data;
+        }
+        snapshot.id = await db.backupSnapshots.add(snapshot);
+
+        const removed = await applyRetention();
+        await logActivity('BACKUP', 'Settings', 'database', {
+            ...details, filename: snapshot.fileName, destination: snapshot.destination, size: snapshot.size, removedSnapshots: removed,
+        });
+        return snapshot;
+    } catch (error: any) {
+        await logActivity('BACKUP', 'Settings', 'database', { ...details, failed: true, error: error.message });
+        throw error;
+    }
+}
+
+/** Returns the backup JSON stored in a snapshot. */
+export async function readSnapshot(snapshot: BackupSnapshot): Promise<string> {
+    if (snapshot.destination === 'indexeddb') {
+        if (!snapshot.data) throw new Error('محتوای این نسخه پشتیبان در دسترس نیست.');
+        return decompress(snapshot.data);
+    }
+    const folder = await getBackupFolder(true);
+    if (!folder) throw new Error('دسترسی به پوشه پشتیبان داده نشد.');
+    const file = await (await folder.getFileHandle(snapshot.fileName)).getFile();
+    return decompress(file);
+}
+
+export async function deleteSnapshot(snapshot: BackupSnapshot) {
+    if (snapshot.destination === 'folder') {
+        const folder = await getBackupFolder(false);
+        try {
+            await folder?.removeEntry(snapshot.fileName);
+        } catch (error) {
+            console.warn(`[AutoBackup] Could not delete ${snapshot.fileName} from the backup folder:`, error);
+        }
+    }
+    await db.backupSnapshots.delete(snapshot.id!);
+}
+
+// The Persian week starts on Saturday.
+const weekKey = (date: Date) => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (date.getDay() + 1) % 7);
+    return start.toDateString();
+};
+
+/** Deletes snapshots outside the retention policy. Returns how many were removed. */
+export async function applyRetention(): Promise<number> {
+    const snapshots = await db.backupSnapshots.orderBy('createdAt').reverse().toArray();
+    const keep = new Set<number>();
+    const keepNewestPer = (keyOf: (date: Date) => string, limit: number) => {
+        const seen = new Set<string>();
+        for (const snapshot of snapshots) {
+            const key = keyOf(new Date(snapshot.createdAt));
+            if (seen.has(key)) continue;
+            if (seen.size >= limit) break;
+            seen.add(key);
+            keep.add(snapshot.id!);
+        }
+    };
+    keepNewestPer(date => date.toDateString(), KEEP_DAILY);
+    keepNewestPer(weekKey, KEEP_WEEKLY);
+
+    const expired = snapshots.filter(snapshot => !keep.has(snapshot.id!));
+    for (const snapshot of expired) {
+        await deleteSnapshot(snapshot);
+    }
+    return expired.length;
+}
+
+// --- Scheduler ---
+
+// The most recent closing time that has already passed (today's, or yesterday's if it is still earlier).
+const lastClosingTime = (closingTime: string, now: Date) => {
+    const [hours, minutes] = closingTime.split(':').map(Number);
+    const closing = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, minutes);
+    if (closing > now) closing.setDate(closing.getDate() - 1);
+    return closing;
+};
+
+async function getDueTrigger(settings: AutoBackupSettings): Promise<BackupSnapshotTrigger | null> {
+    if (settings.closingTime) {
+        const since = lastClosingTime(settings.closingTime, new Date()).toISOString();
+        const taken = await db.backupSnapshots.where('createdAt').aboveOrEqual(since).filter(s => s.trigger === 'closing').count();
+        if (taken === 0) return 'closing';
+    }
+    if (settings.everySales > 0) {
+        const latest = await db.backupSnapshots.orderBy('createdAt').last();
+        const newSales = latest
+            ? await db.saleInvoices.where('date').above(latest.createdAt).count()
+            : await db.saleInvoices.count();
+        if (newSales >= settings.everySales) return 'sales';
+    }
+    return null;
+}
+
+// A failing run (e.g. storage full) is not retried every minute.
+let lastFailureAt = 0;
+
+/** Takes a snapshot if the schedule says one is due. Safe to call from several tabs at once. */
+export async function runScheduledBackup() {
+    const settings = await getAutoBackupSettings();
+    if (!settings.enabled || Date.now() - lastFailureAt < RETRY_AFTER_FAILURE_MS) return;
+    await navigator.locks.request('shafayar_auto_backup', { ifAvailable: true }, async lock => {
+        if (!lock) return; // Another tab is already taking the snapshot
+        const trigger = await getDueTrigger(settings);
+        if (!trigger) return;
+        try {
+            await takeSnapshot(trigger);
+        } catch (error) {
+            lastFailureAt = Date.now();
+            console.error('[AutoBackup] Scheduled backup failed:', error);
+        }
+    });
+}
+
+/** Checks the schedule now and every minute. Returns a function that stops the scheduler. */
+export function startAutoBackupScheduler() {
+    runScheduledBackup();
+    const interval = setInterval(runScheduledBackup, CHECK_INTERVAL_MS);
+    return () => clearInterval(interval);
+}
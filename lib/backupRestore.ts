@@ -0,0 +1,280 @@
+import { db } from '../db';
+import { backend } from './dataBackend';
+import { pullRemoteChanges, PULL_ORDER } from './deltaSync';
+import { SyncedTableName, TABLE_MAPPINGS, SYNC_TABLE_LABELS, isSyncedTable, toRemoteRecord, getRemoteId } from './syncMappers';
+
+// ============================================================================
+// Backup files and restoring them.
+// A backup is a snapshot of the Dexie tables plus the schema version it was taken
+// from. Restoring replays the chosen shared tables on the server in one RPC and then
+// re-pulls everything, so Dexie is rebuilt from the restored server data.
+// ============================================================================
+
+export const BACKUP_FORMAT = 'shafayar-backup';
+
+// Files written before backups carried a version were taken from the version 3 schema.
+const LEGACY_SCHEMA_VERSION = 3;
+
+// Sync bookkeeping and the automatic snapshots themselves describe this device, not pharmacy data,
+// so they are never backed up.
+const EXCLUDED_TABLES = new Set(['syncQueue', 'syncConflicts', 'syncState', 'syncDeadLetters', 'backupSnapshots', 'fileHandles', 'heldCarts', 'cachedCredentials']);
+
+// Passwords are never stored locally, so these tables cannot be rebuilt from a backup.
+const CREDENTIAL_TABLES = new Set(['users', 'supplierAccounts']);
+
+// Tables that exist only in this browser; they are restored straight into Dexie.
+const LOCAL_ONLY_TABLES = new Set(['settings']);
+
+const LOCAL_TABLE_LABELS: Record<string, string> = { settings: 'تنظیمات' };
+
+export interface BackupFile {
+    format: typeof BACKUP_FORMAT;
+    schemaVersion: number;
+    createdAt: string;
+    tables: Record<string, any[]>;
+}
+
+export interface TableRestorePreview {
+    table: string;
+    label: string;
+    backupCount: number;
+    currentCount: number;
+    added: number;   // In the backup but not in the current data
+    removed: number; // In the current data but not in the backup
+    changed: number;
+    restorable: boolean;
+    requiresServer: boolean;
+    reason?: string;
+}
+
+export interface TableRestoreResult {
+    table: string;
+    label: string;
+    upserted: number;
+    deleted: number;
+    skipped: number; // Rows that never reached the server before the backup was taken
+}
+
+export interface RestoreReport {
+    dryRun: boolean;
+    results: TableRestoreResult[];
+}
+
+export const getTableLabel = (table: string) => SYNC_TABLE_LABELS[table] ?? LOCAL_TABLE_LABELS[table] ?? table;
+
+export async function createBackup(): Promise<BackupFile> {
+    const tables: Record<string, any[]> = {};
+    for (const table of db.tables) {
+        if (EXCLUDED_TABLES.has(table.name)) continue;
+        tables[table.name] = await table.toArray();
+    }
+    return { format: BACKUP_FORMAT, schemaVersion: db.verno, createdAt: new Date().toISOString(), tables };
+}
+
+/** Parses and validates a backup file. Throws an error with a user-facing message if it cannot be restored. */
+export function parseBackupFile(text: string): BackupFile {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error('محتوای فایل پشتیبان JSON معتبر نیست.');
+    }
+
+    const backup: BackupFile = parsed?.format === BACKUP_FORMAT
+        ? parsed
+        : { format: BACKUP_FORMAT, schemaVersion: LEGACY_SCHEMA_VERSION, createdAt: '', tables: parsed };
+
+    if (!Number.isInteger(backup.schemaVersion)) {
+        throw new Error('نسخه ساختار فایل پشتیبان مشخص نیست.');
+    }
+    if (backup.schemaVersion > db.verno) {
+        throw new Error(`این فایل با نسخه جدیدتری از برنامه (ساختار ${backup.schemaVersion}) ساخته شده و در این نسخه (ساختار ${db.verno}) قابل بازیابی نیست.`);
+    }
+    const requiredTables = ['drugs', 'suppliers', 'users', 'roles'];
+    if (!backup.tables || !requiredTables.every(table => Array.isArray(backup.tables[table]))) {
+        throw new Error('فایل پشتیبان نامعتبر است یا ساختار صحیحی ندارد.');
+    }
+    return backup;
+}
+
+// Resolves foreign keys inside the backup itself: its local ids belong to the device that made it.
+const createBackupResolver = (backup: BackupFile) => {
+    const cache = new Map<string, Map<number, number | undefined>>();
+    return async (table: SyncedTableName, localId: number) => {
+        if (!cache.has(table)) {
+            cache.set(table, new Map((backup.tables[table] ?? []).map(row => [row.id, row.remoteId])));
+        }
+        return cache.get(table)!.get(localId);
+    };
+};
+
+type RemoteIdResolver = (table: SyncedTableName, localId: number) => Promise<number | undefined>;
+
+// Identity of a row across devices: its remote id once synced, otherwise its local key.
+const rowKey = (table: string, row: any) => (isSyncedTable(table) && row.remoteId ? `remote:${row.remoteId}` : `local:${row.id ?? row.key}`);
+
+// A device-independent form of a row, used to decide whether it differs between backup and current data.
+async function comparableRow(table: string, row: any, resolve: RemoteIdResolver) {
+    if (!isSyncedTable(table)) return JSON.stringify(row);
+    let record: Record<string, any>;
+    try {
+        record = await toRemoteRecord(table, row, resolve);
+    } catch {
+        record = { ...row, id: undefined, updatedAt: undefined };
+    }
+    if (Array.isArray(row.items)) {
+        record.items = [];
+        for (const { deductions: _localOnly, ...item } of row.items) {
+            record.items.push({ ...item, drugId: (await resolve('drugs', item.drugId)) ?? `local:${item.drugId}` });
+        }
+    }
+    return JSON.stringify(record);
+}
+
+/** Compares every table in the backup with the current local data. */
+export async function previewRestore(backup: BackupFile): Promise<TableRestorePreview[]> {
+    const resolveInBackup = createBackupResolver(backup);
+    const previews: TableRestorePreview[] = [];
+
+    for (const table of Object.keys(backup.tables)) {
+        if (EXCLUDED_TABLES.has(table)) continue; // Older backups included the sync queue
+        const known = isSyncedTable(table) || LOCAL_ONLY_TABLES.has(table);
+        const backupRows = backup.tables[table] ?? [];
+        const currentRows = known ? await db.table(table).toArray() : [];
+
+        const currentByKey = new Map(currentRows.map(row => [rowKey(table, row), row]));
+        const backupKeys = new Set<string>();
+        let added = 0, changed = 0;
+        for (const row of backupRows) {
+            const key = rowKey(table, row);
+            backupKeys.add(key);
+            const current = currentByKey.get(key);
+            if (!current) {
+                added++;
+            } else if (await comparableRow(table, row, resolveInBackup) !== await comparableRow(table, current, getRemoteId)) {
+                changed++;
+            }
+        }
+        const removed = currentRows.filter(row => !backupKeys.has(rowKey(table, row))).length;
+
+        let reason: string | undefined;
+        if (!known) reason = 'این جدول در نسخه فعلی برنامه وجود ندارد.';
+        else if (CREDENTIAL_TABLES.has(table)) reason = 'رمزهای عبور در فایل پشتیبان ذخیره نمی‌شوند؛ کاربران و حساب‌ها را از بخش مربوطه مدیریت کنید.';
+
+        previews.push({
+            table,
+            label: getTableLabel(table),
+            backupCount: backupRows.length,
+            currentCount: currentRows.length,
+            added, removed, changed,
+            restorable: !reason,
+            requiresServer: isSyncedTable(table),
+            reason,
+        });
+    }
+    return previews;
+}
+
+// Sale deductions are stored against remote batch ids, as the server records them.
+async function mapDeductionRows(deductions: { batchId: number; quantity: number }[] | undefined, resolve: RemoteIdResolver) {
+    const rows = [];
+    for (const deduction of deductions ?? []) {
+        const batchRemoteId = await resolve('drugBatches', deduction.batchId);
+        if (batchRemoteId) rows.push({ batch_id: batchRemoteId, quantity: deduction.quantity });
+    }
+    return rows;
+}
+
+// Invoice lines live in their own remote tables, keyed by `invoice_id`.
+async function mapInvoiceItemRows(table: SyncedTableName, invoice: any, invoiceRemoteId: number, resolve: RemoteIdResolver) {
+    const rows = [];
+    for (const item of invoice.items ?? []) {
+        const drugRemoteId = await resolve('drugs', item.drugId);
+        if (!drugRemoteId) throw new Error(`Drug ${item.drugId} of invoice ${invoice.id} has no remoteId in the backup.`);
+        rows.push(table === 'saleInvoices'
+            ? { invoice_id: invoiceRemoteId, drug_id: drugRemoteId, name: item.name, quantity: item.quantity, unit_price: item.unitPrice, list_price: item.listPrice ?? null, discount: item.discount ?? 0, total_price: item.totalPrice, insured_amount: item.insuredAmount ?? 0, directions: item.directions ?? null, deductions: await mapDeductionRows(item.deductions, resolve) }
+            : { invoice_id: invoiceRemoteId, drug_id: drugRemoteId, name: item.name, quantity: item.quantity, purchase_price: item.purchasePrice, lot_number: item.lotNumber, expiry_date: item.expiryDate });
+    }
+    return rows;
+}
+
+/**
+ * Restores the chosen tables from a backup. With `dryRun`, everything is validated and
+ * counted but nothing is written. Shared tables are replayed on the server through the
+ * `restore_backup_tables` RPC (atomic), then Dexie is rebuilt by a full pull.
+ */
+export async function restoreBackup(backup: BackupFile, tables: string[], { dryRun }: { dryRun: boolean }): Promise<RestoreReport> {
+    const serverTables = PULL_ORDER.filter(table => tables.includes(table) && !CREDENTIAL_TABLES.has(table));
+    const localTables = tables.filter(table => LOCAL_ONLY_TABLES.has(table));
+
+    // Queued local changes were made against the data that is about to be replaced.
+    const pendingCount = await db.syncQueue.filter(item => serverTables.includes(item.table as SyncedTableName)).count()
+        + await db.syncDeadLetters.filter(item => serverTables.includes(item.table as SyncedTableName)).count();
+    if (pendingCount > 0) {
+        throw new Error(`${pendingCount} تغییر همگام‌سازی نشده برای جداول انتخاب شده وجود دارد. ابتدا آن‌ها را همگام‌سازی یا از صف حذف کنید.`);
+    }
+    if (serverTables.length > 0 && !dryRun && !navigator.onLine) {
+        throw new Error('بازیابی جداول مشترک نیاز به اتصال اینترنت دارد.');
+    }
+
+    const resolveInBackup = createBackupResolver(backup);
+    const payload: Record<string, any[]> = {};
+    const results: TableRestoreResult[] = [];
+
+    for (const table of serverTables) {
+        const result: TableRestoreResult = { table, label: getTableLabel(table), upserted: 0, deleted: 0, skipped: 0 };
+        const rows: any[] = [];
+        const itemRows: any[] = [];
+        for (const row of backup.tables[table] ?? []) {
+            if (!row.remoteId) {
+                result.skipped++;
+                continue;
+            }
+            try {
+                const record = await toRemoteRecord(table, row, resolveInBackup);
+                if (table === 'saleInvoices' || table === 'purchaseInvoices') {
+                    itemRows.push(...await mapInvoiceItemRows(table, row, row.remoteId, resolveInBackup));
+                }
+                rows.push({ ...record, id: row.remoteId });
+            } catch (error) {
+                console.warn(`[Restore] Skipping ${table} row ${row.id}:`, error);
+                result.skipped++;
+            }
+        }
+        payload[TABLE_MAPPINGS[table].remoteTable] = rows;
+        if (table === 'saleInvoices') payload.sale_invoice_items = itemRows;
+        if (table === 'purchaseInvoices') payload.purchase_invoice_items = itemRows;
+
+        const keptRemoteIds = new Set(rows.map(row => row.id));
+        result.upserted = rows.length;
+        result.deleted = (await db.table(table).toArray()).filter(row => row.remoteId && !keptRemoteIds.has(row.remoteId)).length;
+        results.push(result);
+    }
+
+    for (const table of localTables) {
+        const rows = backup.tables[table] ?? [];
+        const currentCount = await db.table(table).count();
+        results.push({ table, label: getTableLabel(table), upserted: rows.length, deleted: Math.max(currentCount - rows.length, 0), skipped: 0 });
+    }
+
+    if (dryRun) return { dryRun, results };
+
+    if (serverTables.length > 0) {
+        const { data, error } = await backend.rpc('restore_backup_tables', { p_tables: payload });
+        if (error || !data?.success) {
+            throw new Error(data?.message || error?.message || 'بازیابی اطلاعات روی سرور ناموفق بود.');
+        }
+        await db.syncConflicts.where('table').anyOf(serverTables).delete();
+        // Waits for a pull that is already running, then downloads every table again.
+        await pullRemoteChanges({ fullResync: true });
+    }
+
+    for (const table of localTables) {
+        await db.transaction('rw', db.table(table), async () => {
+            await db.table(table).clear();
+            await db.table(table).bulkPut(backup.tables[table] ?? []);
+        });
+    }
+
+    return { dryRun, results };
+}
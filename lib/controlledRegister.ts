@@ -0,0 +1,163 @@
+import { db } from '../db';
+import { Drug, StockMovementType } from '../types';
+import { ADJUSTMENT_REASONS, STOCK_MOVEMENT_LABELS } from './stockMovements';
+
+// ============================================================================
+// Controlled-substance register.
+// Lists every recorded movement of a controlled drug with a running balance.
+// The balance is worked out backwards from the drug's current stock, so the
+// closing balance of the register always matches the inventory. Purchases,
+// sales and returns come from their documents (which name the other party);
+// every other change of stock (opening stock, adjustments, stocktakes,
+// quarantine) comes from the stock movement ledger. Quarantined units are no
+// longer part of the balance, so their disposal is listed without a quantity.
+// ============================================================================
+
+export type RegisterEntryType = 'purchase' | 'sale' | 'return' | 'purchaseReturn' | 'opening' | 'adjustment' | 'stocktake' | 'quarantine' | 'writeOff';
+
+export const REGISTER_ENTRY_LABELS: Record<RegisterEntryType, string> = {
+    purchase: 'خرید',
+    sale: 'فروش',
+    return: 'مرجوعی فروش',
+    purchaseReturn: 'مرجوعی خرید',
+    opening: 'موجودی اولیه',
+    adjustment: 'اصلاح موجودی',
+    stocktake: 'شمارش انبار',
+    quarantine: 'انتقال به قرنطینه',
+    writeOff: 'امحا',
+};
+
+// Ledger movements that are already listed through their documents.
+const DOCUMENT_MOVEMENT_TYPES = new Set<StockMovementType>(['sale', 'return', 'purchase', 'purchase_return']);
+
+const registerTypeOf = (type: StockMovementType): RegisterEntryType =>
+    type === 'opening' || type === 'stocktake' || type === 'quarantine' ? type : 'adjustment';
+
+export interface RegisterEntry {
+    date: string;
+    type: RegisterEntryType;
+    reference: string; // Invoice number
+    party: string; // Supplier, or the patient the drug was dispensed to
+    detail?: string; // Patient ID and prescription number for sales
+    quantityIn: number;
+    quantityOut: number;
+    balance: number;
+}
+
+export interface DrugRegister {
+    drug: Drug;
+    openingBalance: number;
+    entries: RegisterEntry[];
+    closingBalance: number;
+}
+
+async function collectMovements(drugId: number): Promise<Omit<RegisterEntry, 'balance'>[]> {
+    const [purchases, sales, returns, purchaseReturns, suppliers, ledger, writeOffs] = await Promise.all([
+        db.purchaseInvoices.toArray(),
+        db.saleInvoices.toArray(),
+        db.saleReturns.toArray(),
+        db.purchaseReturns.toArray(),
+        db.suppliers.toArray(),
+        db.stockMovements.where('drugId').equals(drugId).toArray(),
+        db.stockWriteOffs.toArray(),
+    ]);
+    const supplierNames = new Map(suppliers.map(s => [s.id!, s.name]));
+    const movements: Omit<RegisterEntry, 'balance'>[] = [];
+
+    for (const invoice of purchases) {
+        const quantity = invoice.items.filter(item => item.drugId === drugId).reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity === 0) continue;
+        movements.push({
+            date: invoice.date, type: 'purchase', reference: invoice.invoiceNumber,
+            party: supplierNames.get(invoice.supplierId) || 'تامین‌کننده نامشخص', quantityIn: quantity, quantityOut: 0,
+        });
+    }
+    for (const invoice of sales) {
+        const quantity = invoice.items.filter(item => item.drugId === drugId).reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity === 0) continue;
+        const dispensing = invoice.controlledDispensing;
+        movements.push({
+            date: invoice.date, type: 'sale', reference: String(invoice.remoteId || invoice.id),
+            party: dispensing?.patientName || 'ثبت نشده',
+            detail: dispensing ? `شناسه: ${dispensing.patientIdNumber} | نسخه: ${dispensing.prescriptionNumber}` : undefined,
+            quantityIn: 0, quantityOut: quantity,
+        });
+    }
+    const salesById = new Map(sales.map(invoice => [invoice.id!, invoice]));
+    for (const saleReturn of returns) {
+        const items = saleReturn.items.filter(item => item.drugId === drugId);
+        if (items.length === 0) continue;
+        // Damaged units go into quarantine and are not part of the balance.
+        const restocked = items.filter(item => item.condition === 'restock').reduce((sum, item) => sum + item.quantity, 0);
+        const damaged = items.filter(item => item.condition === 'damaged').reduce((sum, item) => sum + item.quantity, 0);
+        const invoice = salesById.get(saleReturn.saleInvoiceId);
+        movements.push({
+            date: saleReturn.date, type: 'return', reference: String(saleReturn.remoteId || saleReturn.id),
+            party: invoice?.controlledDispensing?.patientName || 'ثبت نشده',
+            detail: [invoice && `فاکتور فروش #${invoice.remoteId || invoice.id}`, damaged > 0 && `قرنطینه: ${damaged}`].filter(Boolean).join(' | ') || undefined,
+            quantityIn: restocked, quantityOut: 0,
+        });
+    }
+    const purchasesById = new Map(purchases.map(invoice => [invoice.id!, invoice]));
+    for (const purchaseReturn of purchaseReturns) {
+        const quantity = purchaseReturn.items.filter(item => item.drugId === drugId).reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity === 0) continue;
+        const invoice = purchasesById.get(purchaseReturn.purchaseInvoiceId);
+        movements.push({
+            date: purchaseReturn.date, type: 'purchaseReturn', reference: String(purchaseReturn.remoteId || purchaseReturn.id),
+            party: supplierNames.get(purchaseReturn.supplierId) || 'تامین‌کننده نامشخص',
+            detail: [invoice && `فاکتور خرید #${invoice.invoiceNumber}`, purchaseReturn.fromQuarantine && `از قرنطینه: ${quantity}`].filter(Boolean).join(' | ') || undefined,
+            // Units returned from quarantine already left the balance when they were quarantined.
+            quantityIn: 0, quantityOut: purchaseReturn.fromQuarantine ? 0 : quantity,
+        });
+    }
+    for (const movement of ledger) {
+        if (DOCUMENT_MOVEMENT_TYPES.has(movement.type)) continue;
+        const type = registerTypeOf(movement.type);
+        // Breakage, expiry and transfers are listed as adjustments under their own name.
+        const kind = type === 'adjustment' && movement.type !== 'adjustment' && STOCK_MOVEMENT_LABELS[movement.type];
+        const reason = movement.reason && ADJUSTMENT_REASONS[movement.reason]?.label;
+        movements.push({
+            date: movement.date, type,
+            reference: movement.referenceId ? String(movement.referenceId) : String(movement.remoteId || movement.id),
+            party: movement.username || '-',
+            detail: [kind, reason, movement.note].filter(Boolean).join(' | ') || undefined,
+            quantityIn: Math.max(movement.quantity, 0), quantityOut: Math.max(-movement.quantity, 0),
+        });
+    }
+    for (const writeOff of writeOffs) {
+        const quantity = writeOff.items.filter(item => item.drugId === drugId).reduce((sum, item) => sum + item.quantity, 0);
+        if (quantity === 0) continue;
+        movements.push({
+            date: writeOff.date, type: 'writeOff', reference: String(writeOff.remoteId || writeOff.id),
+            party: writeOff.username || '-',
+            detail: [`از قرنطینه: ${quantity}`, writeOff.notes].filter(Boolean).join(' | '),
+            quantityIn: 0, quantityOut: 0,
+        });
+    }
+    return movements.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+}
+
+/** Builds the register of one drug for a date range. */
+export async function buildDrugRegister(drug: Drug, range: { start: Date; end: Date }): Promise<DrugRegister> {
+    const movements = await collectMovements(drug.id!);
+    const netChange = (items: typeof movements) => items.reduce((sum, m) => sum + m.quantityIn - m.quantityOut, 0);
+
+    const afterRange = movements.filter(m => new Date(m.date) > range.end);
+    const inRange = movements.filter(m => new Date(m.date) >= range.start && new Date(m.date) <= range.end);
+    const closingBalance = drug.totalStock - netChange(afterRange);
+    const openingBalance = closingBalance - netChange(inRange);
+
+    let balance = openingBalance;
+    const entries = inRange.map(m => {
+        balance += m.quantityIn - m.quantityOut;
+        return { ...m, balance };
+    });
+    return { drug, openingBalance, entries, closingBalance };
+}
+
+/** Builds the registers of all controlled drugs for a date range. */
+export async function buildControlledRegisters(range: { start: Date; end: Date }): Promise<DrugRegister[]> {
+    const drugs = await db.drugs.filter(drug => !!drug.controlled).sortBy('name');
+    return Promise.all(drugs.map(drug => buildDrugRegister(drug, range)));
+}
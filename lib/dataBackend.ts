@@ -0,0 +1,110 @@
+import { createSupabaseBackend } from './supabaseBackend';
+import { createLocalBackend } from './localBackend';
+
+// ============================================================================
+// Pluggable data backend.
+// Pages and sync code talk to `backend` instead of the Supabase client directly,
+// so the app can also run against a local stand-in (demos, staff training,
+// automated tests) that reproduces the tables and RPCs in IndexedDB.
+// ============================================================================
+
+export type DataBackendKind = 'supabase' | 'local';
+
+export interface BackendError {
+    message: string;
+    code?: string;
+    details?: any;
+}
+
+export interface BackendResponse<T = any> {
+    data: T | null;
+    error: BackendError | null;
+}
+
+/**
+ * The subset of the supabase-js query builder the app uses. Calls are chained in the
+ * same order as with supabase-js: `from(t).select().eq()`, `from(t).update(v).eq()`,
+ * `from(t).insert(v).select().single()`, `from(t).delete().eq()`.
+ */
+export interface QueryBuilder<T = any> extends PromiseLike<BackendResponse<T[]>> {
+    select(columns?: string): QueryBuilder<T>;
+    insert(values: Partial<T> | Partial<T>[]): QueryBuilder<T>;
+    update(values: Partial<T>): QueryBuilder<T>;
+    delete(): QueryBuilder<T>;
+    eq(column: string, value: any): QueryBuilder<T>;
+    gt(column: string, value: any): QueryBuilder<T>;
+    gte(column: string, value: any): QueryBuilder<T>;
+    lt(column: string, value: any): QueryBuilder<T>;
+    order(column: string, options?: { ascending?: boolean }): QueryBuilder<T>;
+    limit(count: number): QueryBuilder<T>;
+    range(from: number, to: number): QueryBuilder<T>;
+    single(): PromiseLike<BackendResponse<T>>;
+    maybeSingle(): PromiseLike<BackendResponse<T>>;
+}
+
+export type RealtimeEventType = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface RealtimeChangePayload {
+    eventType: RealtimeEventType;
+    table: string;
+    new: any;
+    old: any;
+}
+
+export interface RealtimeChannel {
+    on(
+        type: 'postgres_changes',
+        filter: { event: RealtimeEventType | '*'; schema: string; table: string },
+        callback: (payload: RealtimeChangePayload) => void
+    ): RealtimeChannel;
+    subscribe(): RealtimeChannel;
+}
+
+// Every database function the app calls. The local backend implements each of them.
+export type RpcName =
+    | 'verify_user_credentials'
+    | 'verify_supplier_credentials'
+    | 'update_my_username'
+    | 'update_my_password'
+    | 'create_sale_invoice_transaction'
+    | 'update_sale_invoice_transaction'
+    | 'create_sale_return_transaction'
+    | 'create_purchase_invoice_transaction'
+    | 'update_purchase_invoice_transaction'
+    | 'receive_purchase_order_transaction'
+    | 'create_purchase_return_transaction'
+    | 'post_stocktake_transaction'
+    | 'create_stock_adjustment_transaction'
+    | 'quarantine_expired_stock_transaction'
+    | 'create_stock_write_off_transaction'
+    | 'create_supplier_payment_transaction'
+    | 'create_customer_payment_transaction'
+    | 'create_clinic_transaction'
+    | 'create_new_user'
+    | 'admin_update_user'
+    | 'delete_user'
+    | 'create_or_update_supplier_account'
+    | 'delete_supplier_account'
+    | 'restore_backup_tables';
+
+export interface DataBackend {
+    readonly kind: DataBackendKind;
+    from<T = any>(table: string): QueryBuilder<T>;
+    rpc<T = any>(fn: RpcName, params?: Record<string, any>): PromiseLike<BackendResponse<T>>;
+    channel(name: string): RealtimeChannel;
+    removeChannel(channel: RealtimeChannel): void;
+}
+
+// A per-browser override lets a demo or training machine use the local backend
+// without a separate build. Takes effect after a reload.
+export const DATA_BACKEND_OVERRIDE_KEY = 'shafayar_data_backend';
+
+export const getConfiguredBackendKind = (): DataBackendKind => {
+    const override = localStorage.getItem(DATA_BACKEND_OVERRIDE_KEY);
+    if (override === 'local' || override === 'supabase') return override;
+    return process.env.DATA_BACKEND === 'local' ? 'local' : 'supabase';
+};
+
+export const backend: DataBackend = getConfiguredBackendKind() === 'local'
+    ? createLocalBackend()
+    : createSupabaseBackend();
@@ -0,0 +1,219 @@
+import { db } from '../db';
+import { backend } from './dataBackend';
+import { SyncedTableName, TABLE_MAPPINGS, toLocalRecord, getLocalId } from './syncMappers';
+
+// ============================================================================
+// Incremental (delta) pull from Supabase into Dexie.
+// Each table keeps a high-water mark in `db.syncState`; only rows whose `updated_at`
+// is newer than the mark are fetched. Deletions are read from the server's
+// `sync_tombstones` table (filled by delete triggers) so local rows get removed too.
+// ============================================================================
+
+const PAGE_SIZE = 1000;
+const TOMBSTONES_KEY = '__tombstones';
+
+// Pulled in dependency order so that foreign keys can be resolved to local ids.
+export const PULL_ORDER: SyncedTableName[] = [
+    'roles', 'users', 'shifts', 'suppliers', 'supplierAccounts', 'customers', 'drugs', 'drugBatches', 'insurers',
+    'clinicServices', 'serviceProviders', 'simpleAccountingColumns', 'simpleAccountingEntries', 'prescriptions',
+    'purchaseInvoices', 'purchaseReturns', 'saleInvoices', 'saleReturns', 'payments', 'customerPayments', 'clinicTransactions',
+    'insuranceClaims', 'stocktakes', 'stockMovements', 'stockWriteOffs', 'purchaseOrders',
+];
+
+// Tables that must not be pulled with `select('*')` (credentials) or that need their items.
+const REMOTE_COLUMNS: Partial<Record<SyncedTableName, string>> = {
+    users: 'id, username, role_id, updated_at',
+    supplierAccounts: 'id, supplier_id, username, updated_at',
+    saleInvoices: '*, sale_invoice_items(*)',
+    purchaseInvoices: '*, purchase_invoice_items(*)',
+};
+
+let runningPull: Promise<void> | null = null;
+
+const getMark = async (key: string) => (await db.syncState.get(key))?.lastPulledAt;
+
+export const hasCompletedInitialPull = async () => (await db.syncState.count()) > 0;
+
+// Sale deductions point at remote batches; sale returns need them to restock the same batches offline.
+const mapDeductions = async (deductions: { batch_id: number; quantity: number }[] | null | undefined) => {
+    const mapped = [];
+    for (const deduction of deductions ?? []) {
+        const batchId = await getLocalId('drugBatches', deduction.batch_id);
+        if (batchId) mapped.push({ batchId, quantity: deduction.quantity });
+    }
+    return mapped;
+};
+
+// Maps nested invoice items (remote drug ids -> local drug ids). Items whose drug is not
+// in the local cache are skipped, as before.
+const mapInvoiceItems = async (table: SyncedTableName, row: any) => {
+    if (table === 'saleInvoices') {
+        const items = [];
+        for (const remoteItem of row.sale_invoice_items ?? []) {
+            const drugId = await getLocalId('drugs', remoteItem.drug_id);
+            if (!drugId) {
+                console.warn(`[Sync] Skipping sale item "${remoteItem.name}" because its drug (remoteId: ${remoteItem.drug_id}) is not found in local DB.`);
+                continue;
+            }
+            items.push({
+                drugId,
+                name: remoteItem.name,
+                quantity: remoteItem.quantity,
+                unitPrice: remoteItem.unit_price,
+                listPrice: remoteItem.list_price ?? undefined,
+                discount: remoteItem.discount || undefined,
+                insuredAmount: remoteItem.insured_amount || undefined,
+                totalPrice: remoteItem.total_price ?? remoteItem.quantity * remoteItem.unit_price,
+                deductions: await mapDeductions(remoteItem.deductions),
+                directions: remoteItem.directions ?? undefined,
+            });
+        }
+        return items;
+    }
+    const items = [];
+    for (const remoteItem of row.purchase_invoice_items ?? []) {
+        const drugId = await getLocalId('drugs', remoteItem.drug_id);
+        if (!drugId) continue;
+        items.push({
+            drugId,
+            name: remoteItem.name,
+            quantity: remoteItem.quantity,
+            purchasePrice: remoteItem.purchase_price,
+            lotNumber: remoteItem.lot_number,
+            expiryDate: remoteItem.expiry_date,
+        });
+    }
+    return items;
+};
+
+// Maps a remote row (with nested items for invoices) to the local record that should be stored.
+const mapRemoteRow = async (table: SyncedTableName, row: any) => {
+    const record = await toLocalRecord(table, row);
+    if (!record) return null;
+    if (table === 'saleInvoices' || table === 'purchaseInvoices') {
+        const existing = record.id ? await db.table(table).get(record.id) : undefined;
+        record.items = await mapInvoiceItems(table, row);
+        if (table === 'purchaseInvoices') record.amountPaid = record.amountPaid ?? existing?.amountPaid ?? 0;
+    }
+    if (table === 'stocktakes' && record.id && record.status === 'counting') {
+        // Counts are only kept on the counting device until the session is posted.
+        const existing = await db.stocktakes.get(record.id);
+        if (existing?.status === 'counting') record.lines = existing.lines;
+    }
+    return record;
+};
+
+// Local records with queued changes are not overwritten; the push side compares versions
+// and sends real conflicts to the conflict inbox.
+const getPendingRemoteIds = async (table: SyncedTableName) => {
+    const pendingItems = await db.syncQueue.where('table').equals(table).toArray();
+    const remoteIds = new Set<number>();
+    for (const item of pendingItems) {
+        const record = await db.table(table).get(item.recordId);
+        if (record?.remoteId) remoteIds.add(record.remoteId);
+    }
+    return remoteIds;
+};
+
+async function pullTable(table: SyncedTableName) {
+    const { remoteTable } = TABLE_MAPPINGS[table];
+    const mark = await getMark(table);
+    const pendingRemoteIds = await getPendingRemoteIds(table);
+    let newMark = mark;
+    // Once a row is skipped the mark stops moving, so the next pull fetches that row again
+    // (rows after it are stored anyway and simply re-applied then).
+    let markHeld = false;
+    let pulled = 0;
+
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = backend.from(remoteTable).select(REMOTE_COLUMNS[table] ?? '*');
+        if (mark) query = query.gt('updated_at', mark);
+        const { data, error } = await query.order('updated_at', { ascending: true }).range(from, from + PAGE_SIZE - 1);
+        if (error) throw error;
+        if (!data || data.length === 0) break;
+
+        const localRecords = [];
+        for (const row of data as any[]) {
+            const record = pendingRemoteIds.has(row.id) ? null : await mapRemoteRow(table, row);
+            if (!record) {
+                markHeld = true;
+                continue;
+            }
+            localRecords.push(record);
+            if (!markHeld && (!newMark || row.updated_at > newMark)) newMark = row.updated_at;
+        }
+        await db.table(table).bulkPut(localRecords);
+        pulled += localRecords.length;
+
+        if (data.length < PAGE_SIZE) break;
+    }
+
+    if (newMark && newMark !== mark) {
+        await db.syncState.put({ table, lastPulledAt: newMark });
+    }
+    console.log(`[Sync] Pulled ${pulled} changed records for ${table}.`);
+}
+
+/**
+ * Applies a single changed row pushed by the server (e.g. from a realtime event).
+ * Returns the stored local record, or null if it was skipped.
+ */
+export async function applyRemoteRow(table: SyncedTableName, row: any) {
+    const pendingRemoteIds = await getPendingRemoteIds(table);
+    if (pendingRemoteIds.has(row.id)) return null;
+    const record = await mapRemoteRow(table, row);
+    if (!record) return null;
+    record.id = await db.table(table).put(record);
+    return record;
+}
+
+export async function applyRemoteDeletion(table: SyncedTableName, remoteId: number) {
+    const localRecord = await db.table(table).where('remoteId').equals(remoteId).first();
+    if (localRecord) await db.table(table).delete(localRecord.id);
+    return localRecord ?? null;
+}
+
+async function pullTombstones() {
+    const mark = await getMark(TOMBSTONES_KEY);
+    let query = backend.from('sync_tombstones').select('table_name, record_id, deleted_at');
+    if (mark) query = query.gt('deleted_at', mark);
+    const { data, error } = await query.order('deleted_at', { ascending: true });
+    if (error) throw error;
+    if (!data || data.length === 0) return;
+
+    const localTableByRemote = new Map(Object.entries(TABLE_MAPPINGS).map(([local, m]) => [m.remoteTable, local as SyncedTableName]));
+    let newMark = mark;
+    for (const tombstone of data) {
+        if (!newMark || tombstone.deleted_at > newMark) newMark = tombstone.deleted_at;
+        const table = localTableByRemote.get(tombstone.table_name);
+        if (!table) continue;
+        await db.table(table).where('remoteId').equals(tombstone.record_id).delete();
+    }
+    await db.syncState.put({ table: TOMBSTONES_KEY, lastPulledAt: newMark! });
+    console.log(`[Sync] Applied ${data.length} remote deletions.`);
+}
+
+/**
+ * Pulls everything that changed on the server since the last pull.
+ * With `fullResync`, the high-water marks are cleared first so every table is downloaded again;
+ * a full resync requested while a pull is running waits for it instead of being dropped.
+ */
+export async function pullRemoteChanges({ fullResync = false } = {}) {
+    while (fullResync && runningPull) await runningPull.catch(() => undefined);
+    if (runningPull || !navigator.onLine) return;
+    runningPull = (async () => {
+        try {
+            if (fullResync) {
+                await db.syncState.clear();
+            }
+            for (const table of PULL_ORDER) {
+                await pullTable(table);
+            }
+            // Applied last so that a row created and deleted since the previous pull ends up removed.
+            await pullTombstones();
+        } finally {
+            runningPull = null;
+        }
+    })();
+    await runningPull;
+}
@@ -0,0 +1,59 @@
+import { DiscountInput, SaleInvoice, SaleItem } from '../types';
+
+// ============================================================================
+// Discounts and price overrides at the counter.
+// A line may get its unit price overridden (the catalogue price is kept in
+// `listPrice`) and a discount; the invoice may get a discount on top. Discounts
+// are stored as amounts, so `totalPrice` and `totalAmount` are what was actually
+// charged and every report built on them stays correct.
+// ============================================================================
+
+export const DEFAULT_MAX_DISCOUNT_PERCENT = 10;
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The discount amount an input gives on `base`; never more than the base itself. */
+export function discountAmount(input: DiscountInput | undefined, base: number) {
+    if (!input || !(input.value > 0) || base <= 0) return 0;
+    const amount = input.kind === 'percent' ? base * Math.min(input.value, 100) / 100 : input.value;
+    return round(Math.min(amount, base));
+}
+
+/** Recomputes a line's discount and total after its quantity, price or discount changed. */
+export function priceLine<T extends Omit<SaleItem, 'deductions'>>(line: T, input?: DiscountInput): T {
+    const gross = line.unitPrice * line.quantity;
+    const discount = input ? discountAmount(input, gross) : Math.min(line.discount || 0, gross);
+    return { ...line, discount: discount || undefined, totalPrice: round(gross - discount) };
+}
+
+/** Everything given off the catalogue price: price overrides below it, line discounts and the invoice discount. */
+export function totalDiscount(items: Omit<SaleItem, 'deductions'>[], invoiceDiscount = 0) {
+    const lineDiscounts = items.reduce((sum, item) => {
+        const override = item.listPrice !== undefined ? Math.max(item.listPrice - item.unitPrice, 0) * item.quantity : 0;
+        return sum + override + (item.discount || 0);
+    }, 0);
+    return round(lineDiscounts + invoiceDiscount);
+}
+
+/** Sum of the lines at catalogue prices. */
+export const listSubtotal = (items: Omit<SaleItem, 'deductions'>[]) =>
+    round(items.reduce((sum, item) => sum + (item.listPrice ?? item.unitPrice) * item.quantity, 0));
+
+/** Discount as a percentage of the catalogue value, used against the approval limit. */
+export function discountPercent(items: Omit<SaleItem, 'deductions'>[], invoiceDiscount = 0) {
+    const subtotal = listSubtotal(items);
+    return subtotal > 0 ? totalDiscount(items, invoiceDiscount) / subtotal * 100 : 0;
+}
+
+/** Total discount given on a saved invoice. */
+export const invoiceDiscountTotal = (invoice: Pick<SaleInvoice, 'items' | 'discount'>) => totalDiscount(invoice.items, invoice.discount);
+
+/**
+ * What one unit of a line actually cost the customer, after the line discount and its
+ * share of the invoice discount. Refunds of returned units are paid at this price.
+ */
+export function netUnitPrice(invoice: Pick<SaleInvoice, 'items' | 'discount'>, item: SaleItem) {
+    const linesTotal = invoice.items.reduce((sum, i) => sum + i.totalPrice, 0);
+    const invoiceShare = linesTotal > 0 ? 1 - (invoice.discount || 0) / linesTotal : 1;
+    return item.quantity > 0 ? round(item.totalPrice / item.quantity * invoiceShare) : 0;
+}
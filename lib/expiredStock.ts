@@ -0,0 +1,86 @@
+import { Drug, DrugBatch, PurchaseInvoice, PurchaseReturn, StockWriteOff } from '../types';
+
+// ============================================================================
+// Expired stock.
+// A batch past its expiry date is no longer sold: the server moves its sellable
+// units into quarantine (a 'quarantine' stock movement), and quarantined units
+// leave the store either on a write-off document or as a return to the supplier
+// they were bought from. Written-off units are a loss; returned ones are
+// credited against the supplier's debt.
+// ============================================================================
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+const dayKey = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+/** Expiry dates are the last day a batch may be sold, so it expires the day after. */
+export const isExpired = (expiryDate: string, now = new Date()) => expiryDate.slice(0, 10) < dayKey(now);
+
+export interface ExpiredStockLine {
+    batch: DrugBatch;
+    drugName: string;
+    expired: boolean; // False for a batch that only holds damaged returns
+    awaitingQuarantine: number; // Expired units still counted as sellable until the server moves them
+    quarantined: number;
+    value: number; // All of the above at the batch's purchase price
+    // The latest purchase of this lot, and how many units it can still take back.
+    source?: { invoice: PurchaseInvoice; returnable: number };
+}
+
+/** Batches that are expired or hold quarantined units, earliest expiry first. */
+export function buildExpiredStockWorklist(
+    batches: DrugBatch[], drugs: Drug[], purchaseInvoices: PurchaseInvoice[], purchaseReturns: PurchaseReturn[], now = new Date(),
+): ExpiredStockLine[] {
+    const drugNames = new Map(drugs.map(drug => [drug.id!, drug.name]));
+    const lines: ExpiredStockLine[] = [];
+    for (const batch of batches) {
+        const expired = isExpired(batch.expiryDate, now);
+        const awaitingQuarantine = expired ? Math.max(batch.quantityInStock, 0) : 0;
+        const quarantined = batch.quarantinedQuantity || 0;
+        if (awaitingQuarantine === 0 && quarantined === 0) continue;
+
+        const sameLot = (item: { drugId: number; lotNumber: string }) => item.drugId === batch.drugId && item.lotNumber === batch.lotNumber;
+        const [invoice] = purchaseInvoices
+            .filter(inv => inv.items.some(sameLot))
+            .sort((a, b) => b.date.localeCompare(a.date));
+        let source: ExpiredStockLine['source'];
+        if (invoice) {
+            const purchased = invoice.items.filter(sameLot).reduce((sum, item) => sum + item.quantity, 0);
+            const returned = purchaseReturns
+                .filter(r => r.purchaseInvoiceId === invoice.id)
+                .flatMap(r => r.items)
+                .filter(sameLot)
+                .reduce((sum, item) => sum + item.quantity, 0);
+            source = { invoice, returnable: Math.max(purchased - returned, 0) };
+        }
+
+        lines.push({
+            batch,
+            drugName: drugNames.get(batch.drugId) ?? '-',
+            expired,
+            awaitingQuarantine,
+            quarantined,
+            value: round((awaitingQuarantine + quarantined) * batch.purchasePrice),
+            source,
+        });
+    }
+    return lines.sort((a, b) => a.batch.expiryDate.localeCompare(b.batch.expiryDate) || a.drugName.localeCompare(b.drugName));
+}
+
+export interface ExpiryLossSummary {
+    writeOffs: StockWriteOff[];
+    writtenOffValue: number; // The loss of the period
+    returnedValue: number; // Quarantined units credited back by suppliers
+}
+
+/** Disposals of quarantined stock dated within the range. */
+export function summarizeExpiryLoss(writeOffs: StockWriteOff[], purchaseReturns: PurchaseReturn[], range: { start: Date; end: Date }): ExpiryLossSummary {
+    const inRange = (date: string) => new Date(date) >= range.start && new Date(date) <= range.end;
+    const writeOffsInRange = writeOffs.filter(w => inRange(w.date)).sort((a, b) => b.date.localeCompare(a.date));
+    return {
+        writeOffs: writeOffsInRange,
+        writtenOffValue: round(writeOffsInRange.reduce((sum, w) => sum + w.totalValue, 0)),
+        returnedValue: round(purchaseReturns.filter(r => r.fromQuarantine && inRange(r.date)).reduce((sum, r) => sum + r.totalAmount, 0)),
+    };
+}
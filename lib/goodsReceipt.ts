@@ -0,0 +1,104 @@
+import { Drug, DrugBatch, PurchaseOrder, PurchaseOrderItem, PurchaseOrderReceipt, ReceiptIssue, ReceiptIssueKind } from '../types';
+
+// ============================================================================
+// Goods received against a purchase order.
+// A delivery is entered as lines (drug, lot, expiry, quantity, unit price) and
+// compared with what is still outstanding on the order. Each ordered drug is
+// flagged when short or over delivered, lines priced away from the drug's
+// current purchase price are flagged as price changes, and a lot that is
+// already known with another expiry date is flagged because booking it tops up
+// (and re-dates) that batch. The delivery itself is booked as an ordinary
+// purchase invoice.
+// ============================================================================
+
+export interface ReceiptLine {
+    drugId: number;
+    name: string;
+    lotNumber: string;
+    expiryDate: string;
+    quantity: number;
+    purchasePrice: number;
+}
+
+export interface ReceiptCheckRow {
+    item: PurchaseOrderItem;
+    outstanding: number;
+    delivered: number;
+}
+
+export const outstandingQuantity = (item: PurchaseOrderItem) => Math.max(item.quantity - (item.receivedQuantity ?? 0), 0);
+
+const samePrice = (a: number, b: number) => Math.abs(a - b) < 0.005;
+
+export function checkReceipt(order: PurchaseOrder, lines: ReceiptLine[], drugs: Drug[], batches: DrugBatch[]) {
+    const drugsById = new Map(drugs.map(drug => [drug.id!, drug]));
+    const issues: ReceiptIssue[] = [];
+
+    const rows: ReceiptCheckRow[] = order.items.map(item => {
+        const outstanding = outstandingQuantity(item);
+        const delivered = lines.filter(line => line.drugId === item.drugId).reduce((sum, line) => sum + line.quantity, 0);
+        if (delivered < outstanding) issues.push({ name: item.name, kind: 'short', expected: outstanding, actual: delivered });
+        if (delivered > outstanding) issues.push({ name: item.name, kind: 'over', expected: outstanding, actual: delivered });
+        return { item, outstanding, delivered };
+    });
+
+    const expiryByLot = new Map<string, string>();
+    for (const batch of batches) expiryByLot.set(`${batch.drugId}|${batch.lotNumber}`, batch.expiryDate.slice(0, 10));
+    for (const line of lines) {
+        if (line.quantity <= 0) continue;
+        const drug = drugsById.get(line.drugId);
+        if (drug && !samePrice(drug.purchasePrice, line.purchasePrice)) {
+            issues.push({ name: line.name, kind: 'priceChange', expected: drug.purchasePrice, actual: line.purchasePrice });
+        }
+        if (!line.lotNumber || !line.expiryDate) continue;
+        const key = `${line.drugId}|${line.lotNumber}`;
+        const knownExpiry = expiryByLot.get(key);
+        if (knownExpiry && knownExpiry !== line.expiryDate.slice(0, 10)) {
+            issues.push({ name: `${line.name} (${line.lotNumber})`, kind: 'lotMismatch', expected: knownExpiry, actual: line.expiryDate.slice(0, 10) });
+        }
+        // A lot repeated within the same delivery is compared with its first line too.
+        if (!knownExpiry) expiryByLot.set(key, line.expiryDate.slice(0, 10));
+    }
+
+    return { rows, issues };
+}
+
+/**
+ * The order after a delivery: received quantities are added up and the receipt is kept with
+ * its issues. The order closes when nothing is outstanding any more, or when `closeShort`
+ * gives up on the rest.
+ */
+export function applyReceipt(
+    order: PurchaseOrder, lines: ReceiptLine[], receipt: PurchaseOrderReceipt, closeShort: boolean,
+): Pick<PurchaseOrder, 'items' | 'status' | 'receipts'> {
+    const items = order.items.map(item => ({
+        ...item,
+        receivedQuantity: (item.receivedQuantity ?? 0) + lines.filter(line => line.drugId === item.drugId).reduce((sum, line) => sum + line.quantity, 0),
+    }));
+    const complete = items.every(item => outstandingQuantity(item) === 0);
+    return {
+        items,
+        status: complete || closeShort ? 'closed' : 'partial',
+        receipts: [...(order.receipts ?? []), receipt],
+    };
+}
+
+export const RECEIPT_ISSUE_LABELS: Record<ReceiptIssueKind, string> = {
+    short: 'کسری تحویل',
+    over: 'تحویل مازاد',
+    priceChange: 'تغییر قیمت',
+    lotMismatch: 'مغایرت لات',
+};
+
+export const describeReceiptIssue = (issue: ReceiptIssue) => {
+    const label = `${RECEIPT_ISSUE_LABELS[issue.kind]} - ${issue.name}`;
+    switch (issue.kind) {
+        case 'short':
+        case 'over':
+            return `${label}: باقیمانده سفارش ${issue.expected}، تحویل ${issue.actual}`;
+        case 'priceChange':
+            return `${label}: قیمت خرید فعلی $${Number(issue.expected).toFixed(2)}، قیمت فاکتور $${Number(issue.actual).toFixed(2)}`;
+        case 'lotMismatch':
+            return `${label}: انقضای ثبت‌شده ${issue.expected}، انقضای تحویلی ${issue.actual}`;
+    }
+};
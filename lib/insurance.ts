@@ -0,0 +1,165 @@
+import { db } from '../db';
+import { Drug, Insurer, InsuranceClaim, InsuranceClaimLine, InsuranceCoverageRule, SaleInvoice, SaleItem, SaleReturn } from '../types';
+import { netUnitPrice } from './discounts';
+
+// ============================================================================
+// Insurance (third-party payer) sales.
+// An insured sale is split into the patient's share and the insurer's share. The
+// insurer's share is settled with an 'insurance' tender and billed later in a
+// monthly claim batch. What an insurer owes is worked out from the insured sales,
+// the insured part of their returns and the reconciled claims, so it always
+// agrees with the documents behind it.
+// ============================================================================
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/** The rule that covers a drug: its own rule if there is one, otherwise the rule for its type. */
+export const coverageRule = (insurer: Insurer, drug: Drug): InsuranceCoverageRule | undefined =>
+    insurer.rules.find(rule => rule.drugId === drug.id)
+    ?? insurer.rules.find(rule => rule.drugId === undefined && rule.drugType === drug.type);
+
+/**
+ * Works out the insurer's share of each cart line after discounts (the invoice discount is
+ * spread over the lines), applying the per-unit caps and then the per-invoice cap.
+ */
+export function splitInsurance<T extends Omit<SaleItem, 'deductions'>>(insurer: Insurer | undefined, items: T[], invoiceDiscount: number, drugs: Drug[]) {
+    if (!insurer) return { items: items.map(item => ({ ...item, insuredAmount: undefined })), insurerShare: 0 };
+    const linesTotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
+    const netFactor = linesTotal > 0 ? 1 - invoiceDiscount / linesTotal : 1;
+
+    let shares = items.map(item => {
+        const drug = drugs.find(d => d.id === item.drugId);
+        const rule = drug && coverageRule(insurer, drug);
+        if (!rule) return 0;
+        const share = item.totalPrice * netFactor * Math.min(Math.max(rule.percent, 0), 100) / 100;
+        return rule.maxPerUnit !== undefined ? Math.min(share, rule.maxPerUnit * item.quantity) : share;
+    });
+    const total = shares.reduce((sum, share) => sum + share, 0);
+    if (insurer.maxPerInvoice !== undefined && total > insurer.maxPerInvoice) {
+        shares = shares.map(share => share * insurer.maxPerInvoice! / total);
+    }
+    shares = shares.map(round);
+
+    return {
+        items: items.map((item, index) => ({ ...item, insuredAmount: shares[index] || undefined })),
+        insurerShare: round(shares.reduce((sum, share) => sum + share, 0)),
+    };
+}
+
+/** What the patient paid for one unit of a line; returns are refunded at this price. */
+export const patientUnitPrice = (invoice: Pick<SaleInvoice, 'items' | 'discount'>, item: SaleItem) =>
+    round(netUnitPrice(invoice, item) - (item.quantity > 0 ? (item.insuredAmount || 0) / item.quantity : 0));
+
+/** The insurer's part of the units taken back on the given returns of an invoice. */
+export function returnedInsuredAmount(invoice: SaleInvoice, returns: SaleReturn[]) {
+    let amount = 0;
+    for (const saleReturn of returns) {
+        for (const returned of saleReturn.items) {
+            const item = invoice.items.find(i => i.drugId === returned.drugId);
+            if (item?.insuredAmount && item.quantity > 0) amount += item.insuredAmount / item.quantity * returned.quantity;
+        }
+    }
+    return round(amount);
+}
+
+/** What can be billed to the insurer for an invoice once its returns are taken off. */
+export const claimableAmount = (invoice: SaleInvoice, returns: SaleReturn[]) =>
+    Math.max(round((invoice.insurerShare || 0) - returnedInsuredAmount(invoice, returns)), 0);
+
+/** The `YYYY-MM` month a date falls in, in local time. */
+export const periodOf = (date: string | Date) => {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const returnsByInvoice = (returns: SaleReturn[]) => {
+    const map = new Map<number, SaleReturn[]>();
+    for (const saleReturn of returns) map.set(saleReturn.saleInvoiceId, [...(map.get(saleReturn.saleInvoiceId) ?? []), saleReturn]);
+    return map;
+};
+
+/** Insured sales of the month that are not in any claim of the insurer yet. */
+export async function buildClaimLines(insurerId: number, period: string): Promise<InsuranceClaimLine[]> {
+    const [invoices, claims, returns] = await Promise.all([
+        db.saleInvoices.where('insurerId').equals(insurerId).toArray(),
+        db.insuranceClaims.where('insurerId').equals(insurerId).toArray(),
+        db.saleReturns.toArray(),
+    ]);
+    const claimed = new Set(claims.flatMap(claim => claim.lines.map(line => line.saleInvoiceId)));
+    const invoiceReturns = returnsByInvoice(returns);
+    return invoices
+        .filter(invoice => periodOf(invoice.date) === period && !claimed.has(invoice.id!))
+        .map(invoice => ({
+            saleInvoiceId: invoice.id!,
+            date: invoice.date,
+            memberId: invoice.insuranceMemberId,
+            claimedAmount: claimableAmount(invoice, invoiceReturns.get(invoice.id!) ?? []),
+        }))
+        .filter(line => line.claimedAmount > 0)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export interface InsurerBalance {
+    billed: number; // Insurer share of all sales, less returns
+    unclaimed: number; // Part of `billed` not in any claim yet
+    claimed: number;
+    paid: number;
+    rejected: number; // Claimed but not paid on reconciliation
+    outstanding: number; // Still owed by the insurer
+}
+
+/** Receivables of every insurer, keyed by insurer id. */
+export async function insurerBalances(): Promise<Map<number, InsurerBalance>> {
+    const [invoices, claims, returns] = await Promise.all([
+        db.saleInvoices.where('insurerId').above(0).toArray(),
+        db.insuranceClaims.toArray(),
+        db.saleReturns.toArray(),
+    ]);
+    const balances = new Map<number, InsurerBalance>();
+    const balanceOf = (insurerId: number) => {
+        if (!balances.has(insurerId)) balances.set(insurerId, { billed: 0, unclaimed: 0, claimed: 0, paid: 0, rejected: 0, outstanding: 0 });
+        return balances.get(insurerId)!;
+    };
+
+    const claimed = new Set(claims.flatMap(claim => claim.lines.map(line => line.saleInvoiceId)));
+    const invoiceReturns = returnsByInvoice(returns);
+    for (const invoice of invoices) {
+        const amount = claimableAmount(invoice, invoiceReturns.get(invoice.id!) ?? []);
+        const balance = balanceOf(invoice.insurerId!);
+        balance.billed += amount;
+        if (!claimed.has(invoice.id!)) balance.unclaimed += amount;
+    }
+    for (const claim of claims) {
+        const balance = balanceOf(claim.insurerId);
+        balance.claimed += claim.claimedAmount;
+        if (claim.status === 'reconciled') {
+            balance.paid += claim.paidAmount || 0;
+            balance.rejected += claim.claimedAmount - (claim.paidAmount || 0);
+        }
+    }
+    for (const balance of balances.values()) {
+        balance.outstanding = round(balance.billed - balance.paid - balance.rejected);
+    }
+    return balances;
+}
+
+const csvCell = (value: string | number | undefined) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** The claim as a CSV submission file. Starts with a BOM so spreadsheet programs read the Persian text correctly. */
+export function claimToCsv(claim: InsuranceClaim, insurer: Insurer, invoiceNumbers: Map<number, string | number>) {
+    const header = ['insurer', 'provider_code', 'period', 'invoice', 'date', 'member_id', 'claimed_amount', 'paid_amount'];
+    const rows = claim.lines.map(line => [
+        insurer.name,
+        insurer.code,
+        claim.period,
+        invoiceNumbers.get(line.saleInvoiceId) ?? line.saleInvoiceId,
+        line.date.split('T')[0],
+        line.memberId,
+        line.claimedAmount.toFixed(2),
+        line.paidAmount?.toFixed(2),
+    ]);
+    return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+}
@@ -0,0 +1,1059 @@
+import Dexie from 'dexie';
+import { PERMISSIONS, StockAdjustmentReason, StockMovementType, Tender } from '../types';
+import { applyPrescriptionFill } from './prescriptions';
+import { allocateReturn, returnedPerLine } from './saleReturns';
+import { rebalanceTenders } from './tenders';
+import { ADJUSTMENT_REASONS, adjustmentError } from './stockMovements';
+import { isExpired } from './expiredStock';
+import type {
+    DataBackend, QueryBuilder, RealtimeChannel, RealtimeChangePayload, RealtimeEventType,
+    BackendResponse, BackendError, RpcName,
+} from './dataBackend';
+
+// ============================================================================
+// Local stand-in for the Supabase project, stored in its own IndexedDB database.
+// Rows use the remote (snake_case) schema, every write stamps `updated_at` and
+// deletions leave a row in `sync_tombstones`, so the delta pull and realtime code
+// work unchanged. The database functions are re-implemented with the same
+// parameters, return shapes and stock/debt side effects as the server.
+// ============================================================================
+
+const LOCAL_TABLES = [
+    'roles', 'users', 'supplier_accounts', 'drugs', 'drug_batches', 'suppliers',
+    'purchase_invoices', 'purchase_invoice_items', 'sale_invoices', 'sale_invoice_items',
+    'payments', 'clinic_services', 'service_providers', 'clinic_transactions',
+    'simple_accounting_columns', 'simple_accounting_entries', 'activity_log', 'sync_tombstones',
+    'customers', 'customer_payments', 'prescriptions', 'sale_returns', 'purchase_returns', 'shifts',
+    'insurers', 'insurance_claims', 'stocktakes', 'stock_movements', 'stock_write_offs', 'purchase_orders',
+];
+
+// Nested selects like `*, sale_invoice_items(*)` join child rows on these columns.
+const CHILD_FOREIGN_KEYS: Record<string, string> = {
+    sale_invoice_items: 'invoice_id',
+    purchase_invoice_items: 'invoice_id',
+};
+
+// Deletions in these tables are not pulled by clients, so they leave no tombstone.
+const UNTRACKED_TABLES = new Set(['activity_log', 'sync_tombstones', 'sale_invoice_items', 'purchase_invoice_items']);
+
+// Login for a freshly created local backend.
+const DEFAULT_ADMIN = { username: 'admin', password: 'admin' };
+
+const ldb = new Dexie('ShafaYarLocalBackend');
+// Bump the version whenever LOCAL_TABLES changes, so existing browsers create the new tables.
+ldb.version(11).stores(Object.fromEntries(LOCAL_TABLES.map(table => [table, '++id'])));
+
+let lastTimestamp = 0;
+// Strictly increasing, so a delta pull using `updated_at > mark` never skips a row written in the same millisecond.
+const nextTimestamp = () => {
+    lastTimestamp = Math.max(Date.now(), lastTimestamp + 1);
+    return new Date(lastTimestamp).toISOString();
+};
+
+const toBackendError = (error: any): BackendError => ({
+    message: error?.message || String(error),
+    code: error?.name,
+});
+
+// Business-rule failure inside an RPC; returned as `{ success: false, message }` like the server does.
+class RpcFailure extends Error {}
+
+// ============================================================================
+// Realtime: changes are delivered to channels in this tab and, through a
+// BroadcastChannel, to the other tabs using the local backend.
+// ============================================================================
+
+const changesBroadcast = new BroadcastChannel('shafayar_local_backend_changes');
+const subscribedChannels = new Set<LocalRealtimeChannel>();
+
+class LocalRealtimeChannel implements RealtimeChannel {
+    private listeners: { event: RealtimeEventType | '*'; table: string; callback: (payload: RealtimeChangePayload) => void }[] = [];
+
+    constructor(readonly name: string) {}
+
+    on(_type: 'postgres_changes', filter: { event: RealtimeEventType | '*'; schema: string; table: string }, callback: (payload: RealtimeChangePayload) => void) {
+        this.listeners.push({ event: filter.event, table: filter.table, callback });
+        return this;
+    }
+
+    subscribe() {
+        subscribedChannels.add(this);
+        return this;
+    }
+
+    deliver(change: RealtimeChangePayload) {
+        for (const listener of this.listeners) {
+            if (listener.table === change.table && (listener.event === '*' || listener.event === change.eventType)) {
+                listener.callback(change);
+            }
+        }
+    }
+}
+
+const deliverChange = (change: RealtimeChangePayload) => subscribedChannels.forEach(channel => channel.deliver(change));
+changesBroadcast.onmessage = (event: MessageEvent<RealtimeChangePayload>) => deliverChange(event.data);
+
+// ============================================================================
+// Writes. All of them run through `inTransaction`, one at a time, and their
+// change events are only published once the transaction has committed.
+// ============================================================================
+
+let transactionChanges: RealtimeChangePayload[] = [];
+let transactionLock: Promise<unknown> = Promise.resolve();
+
+function inTransaction<T>(fn: () => Promise<T>): Promise<T> {
+    const run = transactionLock.then(async () => {
+        transactionChanges = [];
+        try {
+            const result = await ldb.transaction('rw', ldb.tables, fn);
+            for (const change of transactionChanges) {
+                changesBroadcast.postMessage(change);
+                deliverChange(change);
+            }
+            return result;
+        } finally {
+            transactionChanges = [];
+        }
+    });
+    transactionLock = run.catch(() => undefined);
+    return run;
+}
+
+// An explicit `id` is kept (backup replay); otherwise the table assigns one.
+async function insertRow(table: string, values: Record<string, any>) {
+    const row: Record<string, any> = { ...values, updated_at: nextTimestamp() };
+    if (row.id == null) delete row.id;
+    row.id = await ldb.table(table).add(row);
+    transactionChanges.push({ eventType: 'INSERT', table, new: row, old: {} });
+    return row;
+}
+
+async function updateRow(table: string, row: Record<string, any>, changes: Record<string, any>) {
+    const updated = { ...row, ...changes, id: row.id, updated_at: nextTimestamp() };
+    await ldb.table(table).put(updated);
+    transactionChanges.push({ eventType: 'UPDATE', table, new: updated, old: row });
+    return updated;
+}
+
+async function deleteRow(table: string, row: Record<string, any>) {
+    await ldb.table(table).delete(row.id);
+    if (!UNTRACKED_TABLES.has(table)) {
+        await ldb.table('sync_tombstones').add({ table_name: table, record_id: row.id, deleted_at: nextTimestamp() });
+    }
+    transactionChanges.push({ eventType: 'DELETE', table, new: {}, old: row });
+}
+
+const getRow = (table: string, id: any) => (id == null ? Promise.resolve(undefined) : ldb.table(table).get(Number(id)));
+const findRows = (table: string, predicate: (row: any) => boolean) => ldb.table(table).filter(predicate).toArray();
+
+const hashPassword = async (password: string) => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(password));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Credentials never leave the backend, also not through `select('*')`.
+const withoutSecrets = (row: Record<string, any>) => {
+    const { password_hash: _hidden, ...rest } = row;
+    return rest;
+};
+
+// ============================================================================
+// Query builder
+// ============================================================================
+
+type Operation = 'select' | 'insert' | 'update' | 'delete';
+type FilterOperator = 'eq' | 'gt' | 'gte' | 'lt';
+
+const sameValue = (a: any, b: any) => (a == null || b == null ? a == b : String(a) === String(b));
+const compareValues = (a: any, b: any) => (a < b ? -1 : a > b ? 1 : 0);
+
+const matchesFilter = (row: any, { column, operator, value }: { column: string; operator: FilterOperator; value: any }) => {
+    const cell = row[column];
+    switch (operator) {
+        case 'eq': return sameValue(cell, value);
+        case 'gt': return cell != null && compareValues(cell, value) > 0;
+        case 'gte': return cell != null && compareValues(cell, value) >= 0;
+        case 'lt': return cell != null && compareValues(cell, value) < 0;
+    }
+};
+
+// Splits "a, b, items(*)" on top-level commas only.
+const splitColumns = (columns: string) => {
+    const parts: string[] = [];
+    let depth = 0, current = '';
+    for (const char of columns) {
+        if (char === '(') depth++;
+        if (char === ')') depth--;
+        if (char === ',' && depth === 0) {
+            parts.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) parts.push(current.trim());
+    return parts;
+};
+
+async function projectRows(table: string, rows: any[], columns: string): Promise<any[]> {
+    const parts = splitColumns(columns);
+    const result = [];
+    for (const row of rows) {
+        const projected: Record<string, any> = {};
+        for (const part of parts) {
+            const nested = part.match(/^(\w+)\((.*)\)$/);
+            if (nested) {
+                const [, childTable, childColumns] = nested;
+                const foreignKey = CHILD_FOREIGN_KEYS[childTable];
+                if (!foreignKey) throw new Error(`Could not find a relationship between '${table}' and '${childTable}'`);
+                const children = await findRows(childTable, child => child[foreignKey] === row.id);
+                projected[childTable] = await projectRows(childTable, children, childColumns);
+            } else if (part === '*') {
+                Object.assign(projected, withoutSecrets(row));
+            } else {
+                projected[part] = row[part];
+            }
+        }
+        result.push(projected);
+    }
+    return result;
+}
+
+class LocalQueryBuilder<T = any> implements QueryBuilder<T> {
+    private operation: Operation = 'select';
+    private columns: string | null = null;
+    private values: any;
+    private filters: { column: string; operator: FilterOperator; value: any }[] = [];
+    private ordering: { column: string; ascending: boolean }[] = [];
+    private window: { from: number; to: number } | null = null;
+
+    constructor(private readonly table: string, private readonly ready: Promise<void>) {}
+
+    select(columns = '*') { this.columns = columns; return this; }
+    insert(values: Partial<T> | Partial<T>[]) { this.operation = 'insert'; this.values = values; return this; }
+    update(values: Partial<T>) { this.operation = 'update'; this.values = values; return this; }
+    delete() { this.operation = 'delete'; return this; }
+    eq(column: string, value: any) { return this.addFilter(column, 'eq', value); }
+    gt(column: string, value: any) { return this.addFilter(column, 'gt', value); }
+    gte(column: string, value: any) { return this.addFilter(column, 'gte', value); }
+    lt(column: string, value: any) { return this.addFilter(column, 'lt', value); }
+    order(column: string, { ascending = true }: { ascending?: boolean } = {}) { this.ordering.push({ column, ascending }); return this; }
+    limit(count: number) { this.window = { from: 0, to: count - 1 }; return this; }
+    range(from: number, to: number) { this.window = { from, to }; return this; }
+
+    single(): PromiseLike<BackendResponse<T>> {
+        return this.execute().then(({ data, error }) => {
+            if (error) return { data: null, error };
+            if (data?.length !== 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+            return { data: data[0], error: null };
+        });
+    }
+
+    maybeSingle(): PromiseLike<BackendResponse<T>> {
+        return this.execute().then(({ data, error }) => {
+            if (error) return { data: null, error };
+            if (data && data.length > 1) return { data: null, error: { message: 'JSON object requested, multiple rows returned', code: 'PGRST116' } };
+            return { data: data?.[0] ?? null, error: null };
+        });
+    }
+
+    then<TResult1 = BackendResponse<T[]>, TResult2 = never>(
+        onfulfilled?: ((value: BackendResponse<T[]>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return this.execute().then(onfulfilled, onrejected);
+    }
+
+    private addFilter(column: string, operator: FilterOperator, value: any) {
+        this.filters.push({ column, operator, value });
+        return this;
+    }
+
+    private matchingRows() {
+        return findRows(this.table, row => this.filters.every(filter => matchesFilter(row, filter)));
+    }
+
+    private async execute(): Promise<BackendResponse<T[]>> {
+        try {
+            await this.ready;
+            if (!LOCAL_TABLES.includes(this.table)) {
+                return { data: null, error: { message: `relation "public.${this.table}" does not exist`, code: '42P01' } };
+            }
+
+            let rows: any[];
+            switch (this.operation) {
+                case 'select':
+                    rows = await this.matchingRows();
+                    for (const { column, ascending } of [...this.ordering].reverse()) {
+                        rows.sort((a, b) => (ascending ? 1 : -1) * compareValues(a[column], b[column]));
+                    }
+                    if (this.window) rows = rows.slice(this.window.from, this.window.to + 1);
+                    return { data: await projectRows(this.table, rows, this.columns ?? '*'), error: null };
+                case 'insert': {
+                    const values = Array.isArray(this.values) ? this.values : [this.values];
+                    rows = await inTransaction(async () => {
+                        const inserted = [];
+                        for (const value of values) inserted.push(await insertRow(this.table, value));
+                        return inserted;
+                    });
+                    break;
+                }
+                case 'update':
+                    rows = await inTransaction(async () => {
+                        const updated = [];
+                        for (const row of await this.matchingRows()) updated.push(await updateRow(this.table, row, this.values));
+                        return updated;
+                    });
+                    break;
+                case 'delete':
+                    rows = await inTransaction(async () => {
+                        const deleted = await this.matchingRows();
+                        for (const row of deleted) await deleteRow(this.table, row);
+                        return deleted;
+                    });
+                    break;
+            }
+            // Like PostgREST, writes only return rows when `.select()` was chained.
+            return { data: this.columns ? await projectRows(this.table, rows, this.columns) : null, error: null };
+        } catch (error) {
+            console.error(`[LocalBackend] ${this.operation} on ${this.table} failed:`, error);
+            return { data: null, error: toBackendError(error) };
+        }
+    }
+}
+
+// ============================================================================
+// Stock and debt helpers shared by the invoice RPCs
+// ============================================================================
+
+interface StockDeduction { batch_id: number; quantity: number }
+
+// Why a batch changed, written to `stock_movements` with the change.
+interface MovementSource {
+    type: StockMovementType;
+    reference_id?: number;
+    reason?: string;
+    note?: string;
+    username?: string;
+}
+
+// Changes the sellable quantity of a batch and appends the change to the movement ledger.
+async function moveBatchStock(batch: Record<string, any>, change: number, source: MovementSource, extraChanges: Record<string, any> = {}) {
+    const updated = await updateRow('drug_batches', batch, { ...extraChanges, quantity_in_stock: batch.quantity_in_stock + change });
+    await recordMovement(batch, change, source);
+    return updated;
+}
+
+async function recordMovement(batch: Record<string, any>, quantity: number, source: MovementSource) {
+    await insertRow('stock_movements', {
+        drug_id: batch.drug_id,
+        batch_id: batch.id,
+        type: source.type,
+        quantity,
+        date: new Date().toISOString(),
+        reference_id: source.reference_id ?? null,
+        reason: source.reason ?? null,
+        note: source.note ?? null,
+        username: source.username ?? null,
+    });
+}
+
+// Deducts sold quantities from the batches with the earliest expiry first (FEFO); expired batches are never sold.
+async function deductStock(items: { drug_id: number; name: string; quantity: number }[], source: MovementSource) {
+    const deductionsPerItem: StockDeduction[][] = [];
+    for (const item of items) {
+        const drug = await getRow('drugs', item.drug_id);
+        if (!drug) throw new RpcFailure(`داروی "${item.name}" در سرور یافت نشد.`);
+
+        const batches = (await findRows('drug_batches', b => b.drug_id === drug.id && b.quantity_in_stock > 0 && !isExpired(b.expiry_date)))
+            .sort((a, b) => compareValues(a.expiry_date, b.expiry_date));
+        let remaining = item.quantity;
+        const deductions: StockDeduction[] = [];
+        for (const batch of batches) {
+            if (remaining === 0) break;
+            const quantity = Math.min(remaining, batch.quantity_in_stock);
+            await moveBatchStock(batch, -quantity, source);
+            deductions.push({ batch_id: batch.id, quantity });
+            remaining -= quantity;
+        }
+        if (remaining > 0) throw new RpcFailure(`موجودی برای ${item.name} کافی نیست.`);
+
+        await updateRow('drugs', drug, { total_stock: drug.total_stock - item.quantity });
+        deductionsPerItem.push(deductions);
+    }
+    return deductionsPerItem;
+}
+
+// Puts the quantities of a sale item back into the batches they were taken from.
+async function restoreStock(item: { drug_id: number; quantity: number; deductions?: StockDeduction[] }, source: MovementSource) {
+    for (const deduction of item.deductions ?? []) {
+        const batch = await getRow('drug_batches', deduction.batch_id);
+        if (batch) await moveBatchStock(batch, deduction.quantity, source);
+    }
+    const drug = await getRow('drugs', item.drug_id);
+    if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock + item.quantity });
+}
+
+// Puts returned units back into the batches the sale took them from; damaged units are quarantined
+// there instead of becoming sellable again. Units without a recorded deduction go to the latest lot.
+async function restockReturnedItem(item: { drug_id: number; name: string; quantity: number; condition: string }, deductions: StockDeduction[], source: MovementSource) {
+    const allocation = allocateReturn(deductions, 0, item.quantity);
+    const unallocated = item.quantity - allocation.reduce((sum, d) => sum + d.quantity, 0);
+    if (unallocated > 0) {
+        const [latest] = (await findRows('drug_batches', b => b.drug_id === item.drug_id))
+            .sort((a, b) => b.expiry_date.localeCompare(a.expiry_date));
+        if (!latest) throw new RpcFailure(`بچی برای برگشت "${item.name}" به انبار یافت نشد.`);
+        allocation.push({ batch_id: latest.id, quantity: unallocated });
+    }
+    for (const { batch_id, quantity } of allocation) {
+        const batch = await getRow('drug_batches', batch_id);
+        if (!batch) throw new RpcFailure(`بچ فروخته‌شده "${item.name}" دیگر وجود ندارد.`);
+        if (item.condition === 'damaged') {
+            await updateRow('drug_batches', batch, { quarantined_quantity: (batch.quarantined_quantity ?? 0) + quantity });
+        } else {
+            await moveBatchStock(batch, quantity, source);
+        }
+    }
+    if (item.condition !== 'damaged') {
+        const drug = await getRow('drugs', item.drug_id);
+        if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock + item.quantity });
+    }
+}
+
+// Adds purchased stock; the same lot of the same drug tops up the existing batch.
+async function receiveStock(item: { drug_id: number; name: string; quantity: number; purchase_price: number; lot_number: string; expiry_date: string }, source: MovementSource) {
+    const drug = await getRow('drugs', item.drug_id);
+    if (!drug) throw new RpcFailure(`داروی "${item.name}" در سرور یافت نشد.`);
+
+    const [batch] = await findRows('drug_batches', b => b.drug_id === drug.id && b.lot_number === item.lot_number);
+    if (batch) {
+        await moveBatchStock(batch, item.quantity, source, { purchase_price: item.purchase_price, expiry_date: item.expiry_date });
+    } else {
+        const newBatch = await insertRow('drug_batches', {
+            drug_id: drug.id,
+            lot_number: item.lot_number,
+            expiry_date: item.expiry_date,
+            quantity_in_stock: item.quantity,
+            purchase_price: item.purchase_price,
+        });
+        await recordMovement(newBatch, item.quantity, source);
+    }
+    await updateRow('drugs', drug, { total_stock: drug.total_stock + item.quantity });
+}
+
+// Reverses `receiveStock`; fails if part of the lot has already been sold. Units sent back out of
+// quarantine were already taken out of the sellable stock when they were quarantined.
+async function returnReceivedStock(item: { drug_id: number; quantity: number; lot_number: string }, source: MovementSource, fromQuarantine = false) {
+    const [batch] = await findRows('drug_batches', b => b.drug_id === item.drug_id && b.lot_number === item.lot_number);
+    if (fromQuarantine) {
+        if (!batch || (batch.quarantined_quantity ?? 0) < item.quantity) {
+            throw new RpcFailure(`تعداد قرنطینه‌شده بچ ${item.lot_number} کمتر از مقدار مرجوعی است.`);
+        }
+        await updateRow('drug_batches', batch, { quarantined_quantity: batch.quarantined_quantity - item.quantity });
+        return;
+    }
+    if (!batch || batch.quantity_in_stock < item.quantity) {
+        throw new RpcFailure(`موجودی بچ ${item.lot_number} کافی نیست؛ بخشی از آن فروخته شده است.`);
+    }
+    await moveBatchStock(batch, -item.quantity, source);
+    const drug = await getRow('drugs', item.drug_id);
+    if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock - item.quantity });
+}
+
+async function changeSupplierDebt(supplierId: number, change: number) {
+    const supplier = await getRow('suppliers', supplierId);
+    if (!supplier) throw new RpcFailure('تامین‌کننده در سرور یافت نشد.');
+    return updateRow('suppliers', supplier, { total_debt: (supplier.total_debt ?? 0) + change });
+}
+
+async function changeCustomerDebt(customerId: number, change: number) {
+    const customer = await getRow('customers', customerId);
+    if (!customer) throw new RpcFailure('مشتری در سرور یافت نشد.');
+    return updateRow('customers', customer, { total_debt: (customer.total_debt ?? 0) + change });
+}
+
+// Prescription lines keep their drug as a remote id, like the sale items.
+async function recordPrescriptionFill(prescriptionId: number, items: { drug_id: number; quantity: number }[]) {
+    const prescription = await getRow('prescriptions', prescriptionId);
+    if (!prescription) throw new RpcFailure('نسخه مربوط به این فروش یافت نشد.');
+    if (prescription.status !== 'active') throw new RpcFailure('این نسخه فعال نیست و قابل پیچیدن نمی‌باشد.');
+    const fill = applyPrescriptionFill(
+        { items: prescription.items, refillsAllowed: prescription.refills_allowed, fillsCompleted: prescription.fills_completed },
+        items.map(item => ({ drugId: item.drug_id, quantity: item.quantity })),
+    );
+    await updateRow('prescriptions', prescription, { items: fill.items, fills_completed: fill.fillsCompleted, status: fill.status });
+}
+
+async function containsControlledDrug(items: { drug_id: number }[]) {
+    for (const item of items) {
+        if ((await getRow('drugs', item.drug_id))?.controlled) return true;
+    }
+    return false;
+}
+
+// What a sale line charges: quantity at the unit price, less the line discount.
+const saleLineTotal = (item: Record<string, any>) =>
+    Math.round((item.quantity * item.unit_price - Math.min(item.discount ?? 0, item.quantity * item.unit_price)) * 100) / 100;
+
+// The part of a sale that was not paid at the counter.
+const unpaidAmount = (invoice: Record<string, any>) =>
+    Math.max(invoice.total_amount - (invoice.amount_paid ?? invoice.total_amount), 0);
+
+const assertUniqueInvoiceNumber = async (invoiceNumber: string, exceptId?: number) => {
+    const [duplicate] = await findRows('purchase_invoices', inv => inv.invoice_number === invoiceNumber && inv.id !== exceptId);
+    if (duplicate) throw new RpcFailure(`فاکتور خرید با شماره ${invoiceNumber} قبلاً ثبت شده است.`);
+};
+
+const assertUniqueUsername = async (table: 'users' | 'supplier_accounts', username: string, exceptId?: number) => {
+    const [duplicate] = await findRows(table, row => row.username === username && row.id !== exceptId);
+    if (duplicate) throw new RpcFailure('این نام کاربری قبلاً استفاده شده است.');
+};
+
+async function bookPurchaseInvoice(payload: Record<string, any>) {
+    const { invoice_number, supplier_id, date, total_amount, items } = payload;
+    await assertUniqueInvoiceNumber(invoice_number);
+    await changeSupplierDebt(supplier_id, total_amount);
+
+    const invoice = await insertRow('purchase_invoices', { invoice_number, supplier_id, date, total_amount, amount_paid: 0 });
+    for (const item of items) {
+        await receiveStock(item, { type: 'purchase', reference_id: invoice.id });
+        await insertRow('purchase_invoice_items', { invoice_id: invoice.id, ...item });
+    }
+    return invoice;
+}
+
+// Runs an RPC body in one transaction and adds the `success` flag the server functions return.
+async function withSuccessFlag(fn: () => Promise<Record<string, any>>) {
+    try {
+        return { success: true, ...(await inTransaction(fn)) };
+    } catch (error) {
+        if (error instanceof RpcFailure) return { success: false, message: error.message };
+        throw error;
+    }
+}
+
+// ============================================================================
+// Database functions
+// ============================================================================
+
+const RPC_HANDLERS: Record<RpcName, (params: Record<string, any>) => Promise<any>> = {
+    verify_user_credentials: async ({ p_username, p_password }) => {
+        const passwordHash = await hashPassword(p_password);
+        const [user] = await findRows('users', u => u.username === p_username && u.password_hash === passwordHash);
+        if (!user) return [];
+        const role = await getRow('roles', user.role_id);
+        return [{ id: user.id, username: user.username, role_id: user.role_id, permissions: role?.permissions ?? [] }];
+    },
+
+    verify_supplier_credentials: async ({ p_username, p_password }) => {
+        const passwordHash = await hashPassword(p_password);
+        const [account] = await findRows('supplier_accounts', a => a.username === p_username && a.password_hash === passwordHash);
+        return account ? [{ id: account.id, username: account.username, supplier_id: account.supplier_id }] : [];
+    },
+
+    update_my_username: async ({ p_user_id, p_new_username }) => [await withSuccessFlag(async () => {
+        const user = await getRow('users', p_user_id);
+        if (!user) throw new RpcFailure('کاربر یافت نشد.');
+        await assertUniqueUsername('users', p_new_username, user.id);
+        await updateRow('users', user, { username: p_new_username });
+        return { message: 'نام کاربری با موفقیت تغییر کرد.' };
+    })],
+
+    update_my_password: async ({ p_user_id, p_new_password }) => {
+        const passwordHash = await hashPassword(p_new_password);
+        await inTransaction(async () => {
+            const user = await getRow('users', p_user_id);
+            if (!user) throw new Error('User not found.');
+            await updateRow('users', user, { password_hash: passwordHash });
+        });
+        return null;
+    },
+
+    create_sale_invoice_transaction: async ({ p_payload }) => withSuccessFlag(async () => {
+        const { p_items, p_total_amount, p_date, p_customer_id, p_amount_paid, p_prescription_id, p_controlled_dispensing, p_tenders, p_change_due, p_shift_id, p_discount, p_discount_approved_by, p_insurer_id, p_insurance_member_id, p_insurer_share } = p_payload;
+        const amountPaid = p_amount_paid ?? p_total_amount;
+        const linesTotal = p_items.reduce((sum: number, item: Record<string, any>) => sum + saleLineTotal(item), 0);
+        if (Math.abs(linesTotal - (p_discount ?? 0) - p_total_amount) > 0.005) {
+            throw new RpcFailure('مبلغ فاکتور با جمع اقلام پس از تخفیف برابر نیست.');
+        }
+        const insurerShare = p_insurer_id ? (p_insurer_share ?? 0) : 0;
+        const insuranceTendered = (p_tenders ?? []).filter((t: Tender) => t.type === 'insurance').reduce((sum: number, t: Tender) => sum + t.amount, 0);
+        if (p_insurer_id && Math.abs(insuranceTendered - insurerShare) > 0.005) {
+            throw new RpcFailure('سهم بیمه با مبلغ پرداخت بیمه در فاکتور برابر نیست.');
+        }
+        if (p_insurer_id && !(await getRow('insurers', p_insurer_id))) throw new RpcFailure('بیمه انتخاب شده یافت نشد.');
+        if (p_tenders && Math.abs(p_tenders.reduce((sum: number, t: Tender) => sum + t.amount, 0) - p_total_amount) > 0.005) {
+            throw new RpcFailure('جمع مبالغ پرداختی با مبلغ فاکتور برابر نیست.');
+        }
+        if (amountPaid < p_total_amount && !p_customer_id) throw new RpcFailure('فروش نسیه فقط برای مشتری ثبت‌شده امکان‌پذیر است.');
+        if (!p_controlled_dispensing && await containsControlledDrug(p_items)) {
+            throw new RpcFailure('ثبت مشخصات بیمار و نسخه برای فروش داروهای کنترل‌شده الزامی است.');
+        }
+        const invoice = await insertRow('sale_invoices', {
+            date: p_date ?? new Date().toISOString(),
+            total_amount: p_total_amount,
+            customer_id: p_customer_id ?? null,
+            amount_paid: amountPaid,
+            prescription_id: p_prescription_id ?? null,
+            controlled_dispensing: p_controlled_dispensing ?? null,
+            tenders: p_tenders ?? null,
+            change_due: p_change_due ?? 0,
+            shift_id: p_shift_id ?? null,
+            discount: p_discount ?? 0,
+            discount_approved_by: p_discount_approved_by ?? null,
+            insurer_id: p_insurer_id ?? null,
+            insurance_member_id: p_insurance_member_id ?? null,
+            insurer_share: insurerShare,
+        });
+        const deductions = await deductStock(p_items, { type: 'sale', reference_id: invoice.id });
+        if (p_customer_id) await changeCustomerDebt(p_customer_id, unpaidAmount(invoice));
+        if (p_prescription_id) await recordPrescriptionFill(p_prescription_id, p_items);
+        for (const [index, item] of p_items.entries()) {
+            await insertRow('sale_invoice_items', {
+                invoice_id: invoice.id,
+                drug_id: item.drug_id,
+                name: item.name,
+                quantity: item.quantity,
+                unit_price: item.unit_price,
+                list_price: item.list_price ?? null,
+                discount: item.discount ?? 0,
+                total_price: saleLineTotal(item),
+                insured_amount: item.insured_amount ?? 0,
+                deductions: deductions[index],
+                directions: item.directions ?? null,
+            });
+        }
+        return { new_invoice_id: invoice.id, message: 'فاکتور فروش با موفقیت ثبت شد.' };
+    }),
+
+    // Returns a table on the server, hence the array.
+    update_sale_invoice_transaction: async ({ p_invoice_id, p_new_items, p_discount }) => [await withSuccessFlag(async () => {
+        const invoice = await getRow('sale_invoices', p_invoice_id);
+        if (!invoice) throw new RpcFailure('فاکتور فروش یافت نشد.');
+        const [existingReturn] = await findRows('sale_returns', r => r.sale_invoice_id === invoice.id);
+        if (existingReturn) throw new RpcFailure('برای این فاکتور مرجوعی ثبت شده و قابل ویرایش نیست.');
+        if (invoice.insurer_id) throw new RpcFailure('فاکتورهای بیمه‌ای قابل ویرایش نیستند؛ برای اصلاح از مرجوعی استفاده کنید.');
+
+        for (const oldItem of await findRows('sale_invoice_items', i => i.invoice_id === invoice.id)) {
+            await restoreStock(oldItem, { type: 'sale', reference_id: invoice.id, note: 'ویرایش فاکتور' });
+            await deleteRow('sale_invoice_items', oldItem);
+        }
+        const deductions = await deductStock(p_new_items, { type: 'sale', reference_id: invoice.id, note: 'ویرایش فاکتور' });
+        let linesTotal = 0;
+        for (const [index, item] of p_new_items.entries()) {
+            linesTotal += saleLineTotal(item);
+            await insertRow('sale_invoice_items', {
+                invoice_id: invoice.id,
+                drug_id: item.drug_id,
+                name: item.name,
+                quantity: item.quantity,
+                unit_price: item.unit_price,
+                list_price: item.list_price ?? null,
+                discount: item.discount ?? 0,
+                total_price: saleLineTotal(item),
+                deductions: deductions[index],
+            });
+        }
+        // The invoice discount carries over from the original sale unless a new one is given.
+        const discount = Math.min(p_discount ?? invoice.discount ?? 0, linesTotal);
+        const totalAmount = linesTotal - discount;
+        const updatedInvoice = await updateRow('sale_invoices', invoice, {
+            total_amount: totalAmount,
+            discount,
+            tenders: rebalanceTenders({ totalAmount: invoice.total_amount, amountPaid: invoice.amount_paid, tenders: invoice.tenders ?? undefined }, totalAmount),
+        });
+        if (invoice.customer_id) await changeCustomerDebt(invoice.customer_id, unpaidAmount(updatedInvoice) - unpaidAmount(invoice));
+        return { message: 'فاکتور فروش با موفقیت ویرایش شد.' };
+    })],
+
+    create_sale_return_transaction: async ({ p_payload }) => withSuccessFlag(async () => {
+        const { p_sale_invoice_id, p_items, p_date, p_refund_method, p_reason, p_shift_id } = p_payload;
+        const invoice = await getRow('sale_invoices', p_sale_invoice_id);
+        if (!invoice) throw new RpcFailure('فاکتور فروش مرجوعی یافت نشد.');
+        if (p_refund_method === 'account' && !invoice.customer_id) throw new RpcFailure('این فاکتور مشتری ندارد؛ بازپرداخت باید نقدی باشد.');
+
+        // Inserted first so the stock movements can point at it; the items are filled in below.
+        const saleReturn = await insertRow('sale_returns', {
+            sale_invoice_id: invoice.id,
+            customer_id: invoice.customer_id ?? null,
+            date: p_date ?? new Date().toISOString(),
+            items: [],
+            total_amount: 0,
+            refund_method: p_refund_method,
+            reason: p_reason ?? null,
+            shift_id: p_shift_id ?? null,
+        });
+        const soldItems = await findRows('sale_invoice_items', i => i.invoice_id === invoice.id);
+        const soldLines = soldItems.map(i => ({ drugId: i.drug_id, quantity: i.quantity }));
+        const returned = returnedPerLine(soldLines, await findRows('sale_returns', r => r.sale_invoice_id === invoice.id));
+        const items = [];
+        let totalAmount = 0;
+        for (const item of p_items) {
+            // Items without a line (queued before lines were sent) are taken from the drug's lines in order.
+            const lineIndexes = item.line_index !== undefined && item.line_index !== null
+                ? [item.line_index].filter(index => soldItems[index]?.drug_id === item.drug_id)
+                : soldItems.flatMap((sold, index) => (sold.drug_id === item.drug_id ? [index] : []));
+            const returnable = lineIndexes.reduce((sum, index) => sum + soldItems[index].quantity - returned[index], 0);
+            if (item.quantity <= 0 || item.quantity > returnable) {
+                throw new RpcFailure(`تعداد مرجوعی "${item.name}" بیشتر از مقدار قابل برگشت است.`);
+            }
+            let remaining = item.quantity;
+            for (const index of lineIndexes) {
+                const taken = Math.min(soldItems[index].quantity - returned[index], remaining);
+                if (taken <= 0) continue;
+                const allocation = allocateReturn<StockDeduction>(soldItems[index].deductions ?? [], returned[index], taken);
+                await restockReturnedItem({ ...item, quantity: taken }, allocation, { type: 'return', reference_id: saleReturn.id });
+                returned[index] += taken;
+                remaining -= taken;
+            }
+            totalAmount += item.quantity * item.unit_price;
+            items.push({ lineIndex: item.line_index ?? undefined, drugId: item.drug_id, name: item.name, quantity: item.quantity, unitPrice: item.unit_price, totalPrice: item.quantity * item.unit_price, condition: item.condition });
+        }
+        if (p_refund_method === 'account') await changeCustomerDebt(invoice.customer_id, -totalAmount);
+
+        await updateRow('sale_returns', saleReturn, { items, total_amount: totalAmount });
+        return { new_return_id: saleReturn.id, message: 'مرجوعی فروش با موفقیت ثبت شد.' };
+    }),
+
+    create_purchase_invoice_transaction: async ({ p_payload }) => withSuccessFlag(async () => {
+        const invoice = await bookPurchaseInvoice(p_payload);
+        return { new_invoice_id: invoice.id, message: 'فاکتور خرید با موفقیت ثبت شد.' };
+    }),
+
+    // Books the delivery as a purchase invoice and records it on the order in the same transaction.
+    receive_purchase_order_transaction: async ({ p_order_id, p_payload, p_order_changes }) => withSuccessFlag(async () => {
+        const order = await getRow('purchase_orders', p_order_id);
+        if (!order || (order.status !== 'sent' && order.status !== 'partial')) {
+            throw new RpcFailure('سفارش خرید یافت نشد یا دیگر باز نیست.');
+        }
+        const invoice = await bookPurchaseInvoice(p_payload);
+        const updatedOrder = await updateRow('purchase_orders', order, p_order_changes);
+        return { new_invoice_id: invoice.id, purchase_order: updatedOrder, message: 'دریافت کالا و فاکتور خرید با موفقیت ثبت شد.' };
+    }),
+
+    update_purchase_invoice_transaction: async ({ p_invoice_id, p_new_supplier_id, p_new_invoice_number, p_new_date, p_new_items }) => withSuccessFlag(async () => {
+        const invoice = await getRow('purchase_invoices', p_invoice_id);
+        if (!invoice) throw new RpcFailure('فاکتور خرید یافت نشد.');
+        await assertUniqueInvoiceNumber(p_new_invoice_number, invoice.id);
+        const [existingReturn] = await findRows('purchase_returns', r => r.purchase_invoice_id === invoice.id);
+        if (existingReturn) throw new RpcFailure('برای این فاکتور مرجوعی ثبت شده و قابل ویرایش نیست.');
+
+        for (const oldItem of await findRows('purchase_invoice_items', i => i.invoice_id === invoice.id)) {
+            await returnReceivedStock(oldItem, { type: 'purchase', reference_id: invoice.id, note: 'ویرایش فاکتور' });
+            await deleteRow('purchase_invoice_items', oldItem);
+        }
+        await changeSupplierDebt(invoice.supplier_id, -invoice.total_amount);
+
+        let totalAmount = 0;
+        for (const item of p_new_items) {
+            totalAmount += item.quantity * item.purchase_price;
+            await receiveStock(item, { type: 'purchase', reference_id: invoice.id, note: 'ویرایش فاکتور' });
+            await insertRow('purchase_invoice_items', { invoice_id: invoice.id, ...item });
+        }
+        await changeSupplierDebt(p_new_supplier_id, totalAmount);
+        await updateRow('purchase_invoices', invoice, {
+            supplier_id: p_new_supplier_id,
+            invoice_number: p_new_invoice_number,
+            date: p_new_date,
+            total_amount: totalAmount,
+        });
+        return { message: 'فاکتور خرید با موفقیت ویرایش شد.' };
+    }),
+
+    create_purchase_return_transaction: async ({ p_payload }) => withSuccessFlag(async () => {
+        const { p_purchase_invoice_id, p_items, p_date, p_reason, p_from_quarantine } = p_payload;
+        const invoice = await getRow('purchase_invoices', p_purchase_invoice_id);
+        if (!invoice) throw new RpcFailure('فاکتور خرید مرجوعی یافت نشد.');
+
+        // Inserted first so the stock movements can point at it; the items are filled in below.
+        const purchaseReturn = await insertRow('purchase_returns', {
+            purchase_invoice_id: invoice.id,
+            supplier_id: invoice.supplier_id,
+            date: p_date ?? new Date().toISOString(),
+            items: [],
+            total_amount: 0,
+            reason: p_reason ?? null,
+            from_quarantine: p_from_quarantine ?? false,
+        });
+        const purchasedItems = await findRows('purchase_invoice_items', i => i.invoice_id === invoice.id);
+        const previousItems = (await findRows('purchase_returns', r => r.purchase_invoice_id === invoice.id)).flatMap(r => r.items);
+        const items = [];
+        let totalAmount = 0;
+        for (const item of p_items) {
+            const sameLot = (i: any) => i.lot_number === item.lot_number;
+            const purchased = purchasedItems.filter(i => i.drug_id === item.drug_id && sameLot(i)).reduce((sum, i) => sum + i.quantity, 0);
+            const returned = previousItems.filter(i => i.drugId === item.drug_id && i.lotNumber === item.lot_number).reduce((sum, i) => sum + i.quantity, 0);
+            if (item.quantity <= 0 || item.quantity > purchased - returned) {
+                throw new RpcFailure(`تعداد مرجوعی "${item.name}" (لات ${item.lot_number}) بیشتر از مقدار خریداری‌شده در این فاکتور است.`);
+            }
+            await returnReceivedStock(item, { type: 'purchase_return', reference_id: purchaseReturn.id }, p_from_quarantine);
+            totalAmount += item.quantity * item.purchase_price;
+            items.push({ drugId: item.drug_id, name: item.name, lotNumber: item.lot_number, expiryDate: item.expiry_date, quantity: item.quantity, purchasePrice: item.purchase_price });
+        }
+        await changeSupplierDebt(invoice.supplier_id, -totalAmount);
+
+        await updateRow('purchase_returns', purchaseReturn, { items, total_amount: totalAmount });
+        return { new_return_id: purchaseReturn.id, message: 'مرجوعی خرید با موفقیت ثبت شد.' };
+    }),
+
+    // Variances are applied as changes to the current stock rather than overwriting it,
+    // so units sold while the count was in progress are not put back.
+    post_stocktake_transaction: async ({ p_stocktake_id, p_lines, p_posted_by }) => withSuccessFlag(async () => {
+        const stocktake = await getRow('stocktakes', p_stocktake_id);
+        if (!stocktake) throw new RpcFailure('جلسه شمارش انبار یافت نشد.');
+        if (stocktake.status !== 'counting') throw new RpcFailure('این جلسه شمارش قبلاً ثبت یا لغو شده است.');
+
+        let adjustedBatches = 0;
+        for (const line of p_lines) {
+            if (line.countedQuantity == null) continue;
+            const variance = line.countedQuantity - line.systemQuantity;
+            if (variance === 0) continue;
+            const batch = await getRow('drug_batches', line.batchId);
+            if (!batch) throw new RpcFailure(`بچ ${line.lotNumber} از "${line.name}" در سرور یافت نشد.`);
+            if (batch.quantity_in_stock + variance < 0) {
+                throw new RpcFailure(`موجودی بچ ${line.lotNumber} از "${line.name}" پس از ثبت مغایرت منفی می‌شود؛ شمارش آن را دوباره انجام دهید.`);
+            }
+            await moveBatchStock(batch, variance, { type: 'stocktake', reference_id: stocktake.id, username: p_posted_by });
+            const drug = await getRow('drugs', batch.drug_id);
+            if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock + variance });
+            adjustedBatches++;
+        }
+
+        await updateRow('stocktakes', stocktake, {
+            lines: p_lines,
+            status: 'posted',
+            posted_at: new Date().toISOString(),
+            posted_by: p_posted_by ?? null,
+        });
+        return { adjusted_batches: adjustedBatches, message: 'مغایرت‌های شمارش انبار با موفقیت ثبت شد.' };
+    }),
+
+    create_stock_adjustment_transaction: async ({ p_batch_id, p_quantity, p_reason, p_note, p_username }) => withSuccessFlag(async () => {
+        const batch = await getRow('drug_batches', p_batch_id);
+        if (!batch) throw new RpcFailure('بچ دارو در سرور یافت نشد.');
+        const reason = p_reason as StockAdjustmentReason;
+        const error = adjustmentError(reason, p_quantity, batch.quantity_in_stock, p_note);
+        if (error) throw new RpcFailure(error);
+
+        await moveBatchStock(batch, p_quantity, { type: ADJUSTMENT_REASONS[reason].type, reason, note: p_note?.trim() || undefined, username: p_username });
+        const drug = await getRow('drugs', batch.drug_id);
+        if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock + p_quantity });
+        return { message: 'اصلاح موجودی با موفقیت ثبت شد.' };
+    }),
+
+    // Moves the sellable units of every expired batch into quarantine. Safe to run repeatedly.
+    quarantine_expired_stock_transaction: async () => withSuccessFlag(async () => {
+        const expiredBatches = await findRows('drug_batches', b => b.quantity_in_stock > 0 && isExpired(b.expiry_date));
+        for (const batch of expiredBatches) {
+            const quantity = batch.quantity_in_stock;
+            await moveBatchStock(batch, -quantity, { type: 'quarantine', note: 'تاریخ‌گذشته' }, {
+                quarantined_quantity: (batch.quarantined_quantity ?? 0) + quantity,
+            });
+            const drug = await getRow('drugs', batch.drug_id);
+            if (drug) await updateRow('drugs', drug, { total_stock: drug.total_stock - quantity });
+        }
+        return { quarantined_batches: expiredBatches.length, message: `${expiredBatches.length} بچ تاریخ‌گذشته به قرنطینه منتقل شد.` };
+    }),
+
+    // Destroys quarantined units; the sellable stock already went down when they were quarantined.
+    create_stock_write_off_transaction: async ({ p_items, p_notes, p_username }) => withSuccessFlag(async () => {
+        if (!p_items?.length) throw new RpcFailure('هیچ قلمی برای امحا انتخاب نشده است.');
+        const items = [];
+        let totalValue = 0;
+        for (const item of p_items) {
+            const batch = await getRow('drug_batches', item.batch_id);
+            if (!batch) throw new RpcFailure('بچ دارو در سرور یافت نشد.');
+            const drug = await getRow('drugs', batch.drug_id);
+            if (!Number.isInteger(item.quantity) || item.quantity <= 0 || item.quantity > (batch.quarantined_quantity ?? 0)) {
+                throw new RpcFailure(`تعداد امحای بچ ${batch.lot_number} از "${drug?.name ?? ''}" بیشتر از مقدار قرنطینه‌شده است.`);
+            }
+            await updateRow('drug_batches', batch, { quarantined_quantity: batch.quarantined_quantity - item.quantity });
+            totalValue += item.quantity * batch.purchase_price;
+            items.push({
+                drugId: batch.drug_id, batchId: batch.id, name: drug?.name ?? '', lotNumber: batch.lot_number,
+                expiryDate: batch.expiry_date, quantity: item.quantity, purchasePrice: batch.purchase_price,
+            });
+        }
+        const writeOff = await insertRow('stock_write_offs', {
+            date: new Date().toISOString(),
+            items,
+            total_value: Math.round(totalValue * 100) / 100,
+            notes: p_notes?.trim() || null,
+            username: p_username ?? null,
+        });
+        return { write_off: writeOff, message: 'سند امحا با موفقیت ثبت شد.' };
+    }),
+
+    create_supplier_payment_transaction: async ({ p_supplier_id_remote, p_amount, p_recipient_name, p_description, p_shift_id }) => withSuccessFlag(async () => {
+        const updatedSupplier = await changeSupplierDebt(p_supplier_id_remote, -p_amount);
+        const payment = await insertRow('payments', {
+            supplier_id: p_supplier_id_remote,
+            amount: p_amount,
+            date: new Date().toISOString(),
+            recipient_name: p_recipient_name,
+            description: p_description,
+            shift_id: p_shift_id ?? null,
+        });
+        return { updated_supplier: updatedSupplier, new_payment: payment, message: 'پرداخت با موفقیت ثبت شد.' };
+    }),
+
+    create_customer_payment_transaction: async ({ p_customer_id_remote, p_amount, p_description, p_date, p_shift_id }) => withSuccessFlag(async () => {
+        const updatedCustomer = await changeCustomerDebt(p_customer_id_remote, -p_amount);
+        const payment = await insertRow('customer_payments', {
+            customer_id: p_customer_id_remote,
+            amount: p_amount,
+            date: p_date ?? new Date().toISOString(),
+            description: p_description,
+            shift_id: p_shift_id ?? null,
+        });
+        return { updated_customer: updatedCustomer, new_payment: payment, message: 'دریافت وجه با موفقیت ثبت شد.' };
+    }),
+
+    create_clinic_transaction: async ({ p_service_id_remote, p_provider_id_remote, p_customer_id_remote, p_patient_name, p_amount, p_shift_id }) => withSuccessFlag(async () => {
+        if (!(await getRow('clinic_services', p_service_id_remote))) throw new RpcFailure('خدمت انتخاب شده در سرور یافت نشد.');
+        if (p_provider_id_remote && !(await getRow('service_providers', p_provider_id_remote))) throw new RpcFailure('متخصص انتخاب شده در سرور یافت نشد.');
+        if (p_customer_id_remote && !(await getRow('customers', p_customer_id_remote))) throw new RpcFailure('مشتری انتخاب شده در سرور یافت نشد.');
+
+        // Ticket numbers restart every day.
+        const startOfDay = new Date();
+        startOfDay.setHours(0, 0, 0, 0);
+        const todaysCount = (await findRows('clinic_transactions', t => t.date >= startOfDay.toISOString())).length;
+        const transaction = await insertRow('clinic_transactions', {
+            service_id: p_service_id_remote,
+            provider_id: p_provider_id_remote ?? null,
+            customer_id: p_customer_id_remote ?? null,
+            patient_name: p_patient_name,
+            amount: p_amount,
+            date: new Date().toISOString(),
+            ticket_number: todaysCount + 1,
+            shift_id: p_shift_id ?? null,
+        });
+        return { new_transaction: transaction, message: `نوبت شماره ${transaction.ticket_number} ثبت شد.` };
+    }),
+
+    create_new_user: async ({ p_username, p_password, p_role_id }) => {
+        const passwordHash = await hashPassword(p_password);
+        return withSuccessFlag(async () => {
+            await assertUniqueUsername('users', p_username);
+            if (!(await getRow('roles', p_role_id))) throw new RpcFailure('نقش انتخاب شده یافت نشد.');
+            const user = await insertRow('users', { username: p_username, role_id: p_role_id, password_hash: passwordHash });
+            return { new_user_id: user.id, message: 'کاربر با موفقیت ایجاد شد.' };
+        });
+    },
+
+    admin_update_user: async ({ p_user_id, p_username, p_role_id, p_new_password }) => {
+        const passwordHash = p_new_password ? await hashPassword(p_new_password) : undefined;
+        return withSuccessFlag(async () => {
+            const user = await getRow('users', p_user_id);
+            if (!user) throw new RpcFailure('کاربر یافت نشد.');
+            await assertUniqueUsername('users', p_username, user.id);
+            await updateRow('users', user, { username: p_username, role_id: p_role_id, ...(passwordHash && { password_hash: passwordHash }) });
+            return { message: 'کاربر با موفقیت ویرایش شد.' };
+        });
+    },
+
+    delete_user: async ({ p_user_id }) => {
+        await inTransaction(async () => {
+            const user = await getRow('users', p_user_id);
+            if (user) await deleteRow('users', user);
+        });
+        return null;
+    },
+
+    create_or_update_supplier_account: async ({ p_supplier_id, p_username, p_password }) => {
+        const passwordHash = p_password ? await hashPassword(p_password) : undefined;
+        return withSuccessFlag(async () => {
+            if (!(await getRow('suppliers', p_supplier_id))) throw new RpcFailure('تامین‌کننده در سرور یافت نشد.');
+            const [existing] = await findRows('supplier_accounts', a => a.supplier_id === Number(p_supplier_id));
+            await assertUniqueUsername('supplier_accounts', p_username, existing?.id);
+
+            if (existing) {
+                await updateRow('supplier_accounts', existing, { username: p_username, ...(passwordHash && { password_hash: passwordHash }) });
+                return { remote_id: existing.id, message: 'حساب تامین‌کننده با موفقیت ویرایش شد.' };
+            }
+            if (!passwordHash) throw new RpcFailure('برای ایجاد حساب، رمز عبور الزامی است.');
+            const account = await insertRow('supplier_accounts', { supplier_id: Number(p_supplier_id), username: p_username, password_hash: passwordHash });
+            return { remote_id: account.id, message: 'حساب تامین‌کننده با موفقیت ایجاد شد.' };
+        });
+    },
+
+    delete_supplier_account: async ({ p_supplier_id }) => {
+        await inTransaction(async () => {
+            for (const account of await findRows('supplier_accounts', a => a.supplier_id === Number(p_supplier_id))) {
+                await deleteRow('supplier_accounts', account);
+            }
+        });
+        return null;
+    },
+
+    // Rebuilds whole tables from a backup. `p_tables` lists the tables parents first; rows keep
+    // their ids, rows missing from the backup are deleted, and invoice lines are replaced as a whole.
+    restore_backup_tables: async ({ p_tables }) => withSuccessFlag(async () => {
+        const tables = Object.keys(p_tables);
+        const unknownTable = tables.find(table => !LOCAL_TABLES.includes(table));
+        if (unknownTable) throw new RpcFailure(`جدول ${unknownTable} در سرور وجود ندارد.`);
+
+        const restored: Record<string, { upserted: number; deleted: number }> = {};
+        for (const table of tables) {
+            restored[table] = { upserted: 0, deleted: 0 };
+            if (CHILD_FOREIGN_KEYS[table]) {
+                for (const row of await ldb.table(table).toArray()) await deleteRow(table, row);
+                for (const { id: _newId, ...row } of p_tables[table]) await insertRow(table, row);
+                restored[table].upserted = p_tables[table].length;
+                continue;
+            }
+            for (const row of p_tables[table]) {
+                const existing = await getRow(table, row.id);
+                if (existing) await updateRow(table, existing, row);
+                else await insertRow(table, row);
+            }
+            restored[table].upserted = p_tables[table].length;
+        }
+        // Deleted children first, so no row is left pointing at a deleted parent.
+        for (const table of [...tables].reverse()) {
+            if (CHILD_FOREIGN_KEYS[table]) continue;
+            const keptIds = new Set(p_tables[table].map((row: any) => Number(row.id)));
+            for (const row of await findRows(table, r => !keptIds.has(r.id))) {
+                await deleteRow(table, row);
+                restored[table].deleted++;
+            }
+        }
+        return { restored, message: 'اطلاعات جداول انتخاب شده روی سرور بازیابی شد.' };
+    }),
+};
+
+// A new local backend starts with the protected admin role and an admin user.
+async function seedIfEmpty() {
+    if ((await ldb.table('roles').count()) > 0) return;
+    const passwordHash = await hashPassword(DEFAULT_ADMIN.password);
+    await inTransaction(async () => {
+        const role = await insertRow('roles', { name: 'Admin', permissions: Object.keys(PERMISSIONS), is_editable: false });
+        await insertRow('users', { username: DEFAULT_ADMIN.username, role_id: role.id, password_hash: passwordHash });
+    });
+    console.log(`[LocalBackend] Seeded a new local backend. Log in as "${DEFAULT_ADMIN.username}".`);
+}
+
+export function createLocalBackend(): DataBackend {
+    console.warn('[LocalBackend] Using the local IndexedDB backend instead of Supabase. Data stays in this browser.');
+    const ready = seedIfEmpty();
+
+    return {
+        kind: 'local',
+        from: <T>(table: string) => new LocalQueryBuilder<T>(table, ready),
+        rpc: <T>(fn: RpcName, params: Record<string, any> = {}): PromiseLike<BackendResponse<T>> => (async () => {
+            try {
+                await ready;
+                const handler = RPC_HANDLERS[fn];
+                if (!handler) return { data: null, error: { message: `Could not find the function public.${fn}`, code: 'PGRST202' } };
+                return { data: await handler(params), error: null };
+            } catch (error) {
+                console.error(`[LocalBackend] RPC ${fn} failed:`, error);
+                return { data: null, error: toBackendError(error) };
+            }
+        })(),
+        channel: (name: string) => new LocalRealtimeChannel(name),
+        removeChannel: (channel: RealtimeChannel) => {
+            subscribedChannels.delete(channel as LocalRealtimeChannel);
+        },
+    };
+}
@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { Permission } from '../types';
+
+// ============================================================================
+// Employee credentials checked on this device.
+// The backend remains the authority for passwords. Every time it accepts an
+// employee's credentials here, a salted PBKDF2 hash of the password is kept
+// locally, so that an employee who signed in on this device before can still be
+// verified (e.g. a manager approving a discount) while the backend cannot be
+// reached. The permissions then come from the cached user and role.
+// ============================================================================
+
+const ITERATIONS = 100000;
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) => Array.from(new Uint8Array(bytes)).map(b => b.toString(16).padStart(2, '0')).join('');
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) ?? []).map(byte => parseInt(byte, 16)));
+
+const derive = async (password: string, salt: Uint8Array) => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    return toHex(await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: ITERATIONS, hash: 'SHA-256' }, key, 256));
+};
+
+/** Keeps a verifier for credentials the backend has just accepted. */
+export async function rememberCredentials(username: string, password: string) {
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    await db.cachedCredentials.put({ username, salt: toHex(salt), hash: await derive(password, salt) });
+}
+
+/** Drops the verifier of a username that is no longer valid. */
+export const forgetCredentials = (username: string) => db.cachedCredentials.delete(username);
+
+/** The cached employee with these credentials and their role's permissions, or undefined. */
+export async function verifyCachedCredentials(username: string, password: string): Promise<{ username: string; permissions: Permission[] } | undefined> {
+    const cached = await db.cachedCredentials.get(username);
+    if (!cached || (await derive(password, fromHex(cached.salt))) !== cached.hash) return undefined;
+    const user = await db.users.where('username').equals(username).first();
+    if (!user) return undefined;
+    const role = await db.roles.get(user.roleId);
+    return { username: user.username, permissions: role?.permissions ?? [] };
+}
@@ -0,0 +1,46 @@
+import { Prescription, PrescriptionItem, PrescriptionStatus } from '../types';
+
+// ============================================================================
+// Fill and refill bookkeeping for prescriptions.
+// A prescription may be filled `refillsAllowed + 1` times. Each fill can be
+// dispensed over several sales (partial fills); `dispensedQuantity` on the
+// lines counts what the current fill has received so far.
+// ============================================================================
+
+export const PRESCRIPTION_STATUS_LABELS: Record<PrescriptionStatus, string> = {
+    active: 'فعال',
+    completed: 'تکمیل شده',
+    cancelled: 'لغو شده',
+};
+
+type FillState = Pick<Prescription, 'items' | 'refillsAllowed' | 'fillsCompleted'>;
+
+/** Refills still available after the fill that is currently open. */
+export const remainingRefills = (prescription: FillState) =>
+    Math.max(prescription.refillsAllowed - prescription.fillsCompleted, 0);
+
+/** Quantity of a line still to be dispensed in the current fill. */
+export const remainingQuantity = (item: PrescriptionItem) => Math.max(item.quantity - item.dispensedQuantity, 0);
+
+/** True when the current fill has been started but not all of it was dispensed. */
+export const isPartiallyFilled = (prescription: FillState) =>
+    prescription.items.some(item => item.dispensedQuantity > 0) && prescription.items.some(item => remainingQuantity(item) > 0);
+
+/**
+ * Records dispensed quantities against the current fill. When every line is complete the
+ * fill is closed and the next one (if any refills remain) starts from zero. Quantities
+ * beyond what the prescription calls for are ignored.
+ */
+export function applyPrescriptionFill<T extends FillState>(prescription: T, dispensed: { drugId: number; quantity: number }[]) {
+    const items = prescription.items.map(item => {
+        const quantity = dispensed.filter(d => d.drugId === item.drugId).reduce((sum, d) => sum + d.quantity, 0);
+        return { ...item, dispensedQuantity: Math.min(item.dispensedQuantity + quantity, item.quantity) };
+    });
+    let fillsCompleted = prescription.fillsCompleted;
+    if (items.every(item => remainingQuantity(item) === 0)) {
+        fillsCompleted += 1;
+        items.forEach(item => { item.dispensedQuantity = 0; });
+    }
+    const status: PrescriptionStatus = fillsCompleted > prescription.refillsAllowed ? 'completed' : 'active';
+    return { items, fillsCompleted, status };
+}
@@ -0,0 +1,87 @@
+import { backend } from './dataBackend';
+import { SyncedTableName, TABLE_MAPPINGS } from './syncMappers';
+import { applyRemoteRow, applyRemoteDeletion } from './deltaSync';
+
+// ============================================================================
+// Realtime push from Supabase into Dexie, so several terminals see each
+// other's stock and sales without waiting for the next delta pull.
+// ============================================================================
+
+export const REMOTE_CHANGES_CHANNEL = 'remote_changes';
+
+export interface RemoteStockChangeMessage {
+    drugIds: number[]; // Local drug ids whose stock or price changed on the server
+}
+
+// A separate channel instance is used for posting, because a BroadcastChannel
+// does not receive its own messages.
+const remoteChangesChannel = new BroadcastChannel(REMOTE_CHANGES_CHANNEL);
+
+// Realtime also echoes this terminal's own writes. Drugs it is about to change on the server are
+// noted here (and in its other tabs) for a short while, so their echoes are not announced as
+// changes made elsewhere.
+const OWN_WRITE_ECHO_MS = 15000;
+const ownWritesChannel = new BroadcastChannel('own_stock_writes');
+const ownWriteUntil = new Map<number, number>();
+
+const noteOwnWrites = (drugIds: number[], until: number) => {
+    for (const drugId of drugIds) ownWriteUntil.set(drugId, Math.max(ownWriteUntil.get(drugId) || 0, until));
+};
+ownWritesChannel.onmessage = (event: MessageEvent<{ drugIds: number[]; until: number }>) => noteOwnWrites(event.data.drugIds, event.data.until);
+
+/** Marks local drug ids whose stock or price this terminal is changing on the server. */
+export function markOwnStockWrite(drugIds: (number | undefined)[]) {
+    const ids = [...new Set(drugIds.filter((id): id is number => id !== undefined))];
+    if (ids.length === 0) return;
+    const until = Date.now() + OWN_WRITE_ECHO_MS;
+    noteOwnWrites(ids, until);
+    ownWritesChannel.postMessage({ drugIds: ids, until });
+}
+
+const isOwnWriteEcho = (drugId: number) => (ownWriteUntil.get(drugId) || 0) > Date.now();
+
+const REALTIME_TABLES: SyncedTableName[] = ['drugs', 'drugBatches', 'saleInvoices', 'clinicTransactions', 'suppliers', 'customers', 'prescriptions', 'saleReturns', 'stockMovements'];
+
+const handleChange = async (table: SyncedTableName, payload: any) => {
+    const record = payload.eventType === 'DELETE' ? payload.old : payload.new;
+    console.log(`[Realtime] ${table} change received: ${payload.eventType}`, record);
+    if (!record?.id) return;
+
+    let localRecord: any;
+    if (payload.eventType === 'DELETE') {
+        localRecord = await applyRemoteDeletion(table, record.id);
+    } else if (table === 'saleInvoices') {
+        // Items live in their own table, so the invoice is re-read together with them.
+        const { data, error } = await backend.from('sale_invoices').select('*, sale_invoice_items(*)').eq('id', record.id).single();
+        if (error) throw error;
+        localRecord = await applyRemoteRow(table, data);
+    } else {
+        localRecord = await applyRemoteRow(table, record);
+    }
+    if (!localRecord) return;
+
+    const drugId = table === 'drugs' ? localRecord.id : table === 'drugBatches' ? localRecord.drugId : undefined;
+    if (drugId !== undefined && !isOwnWriteEcho(drugId)) {
+        remoteChangesChannel.postMessage({ drugIds: [drugId] } as RemoteStockChangeMessage);
+    }
+};
+
+/** Subscribes to realtime changes of the shared tables. Returns a function that unsubscribes. */
+export function subscribeToRemoteChanges() {
+    console.log('[Realtime] Setting up subscriptions for keeping local cache alive...');
+
+    const channels = REALTIME_TABLES.map(table => {
+        const remoteTable = TABLE_MAPPINGS[table].remoteTable;
+        return backend
+            .channel(`public:${remoteTable}`)
+            .on('postgres_changes', { event: '*', schema: 'public', table: remoteTable }, payload => {
+                handleChange(table, payload).catch(e => console.error(`[Realtime] Error processing ${table} change:`, e));
+            })
+            .subscribe();
+    });
+
+    return () => {
+        console.log('[Realtime] Unsubscribing from channels.');
+        channels.forEach(channel => backend.removeChannel(channel));
+    };
+}
@@ -0,0 +1,120 @@
+import { Drug, PurchaseInvoice, PurchaseOrder, PurchaseOrderItem, SaleInvoice, SaleReturn, Supplier } from '../types';
+
+// ============================================================================
+// Reorder suggestions.
+// Sales of the last 30 days give each drug a daily velocity. A drug is reordered
+// when its stock plus what is already on order falls below its reorder point:
+// its minimum (safety stock) plus the units expected to sell during the
+// supplier's lead time. The suggested quantity fills it back up to its maximum,
+// or to a month of sales on top of the reorder point (at least twice the
+// minimum) when no maximum is set.
+// ============================================================================
+
+export const VELOCITY_WINDOW_DAYS = 30;
+export const REVIEW_PERIOD_DAYS = 30;
+export const DEFAULT_LEAD_TIME_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface ReorderSuggestion {
+    drug: Drug;
+    supplierId?: number; // Preferred supplier, else the one it was last bought from
+    velocity: number; // Units sold per day
+    leadTimeDays: number;
+    minStock: number;
+    reorderPoint: number;
+    targetStock: number;
+    onHand: number;
+    onOrder: number;
+    quantity: number;
+}
+
+/** Net units sold per drug since `since`; returned units are taken off again. */
+export function unitsSold(invoices: SaleInvoice[], returns: SaleReturn[], since: Date) {
+    const sold = new Map<number, number>();
+    const add = (drugId: number, quantity: number) => sold.set(drugId, (sold.get(drugId) ?? 0) + quantity);
+    for (const invoice of invoices) {
+        if (new Date(invoice.date) < since) continue;
+        for (const item of invoice.items) add(item.drugId, Number(item.quantity) || 0);
+    }
+    for (const saleReturn of returns) {
+        if (new Date(saleReturn.date) < since) continue;
+        for (const item of saleReturn.items) add(item.drugId, -(Number(item.quantity) || 0));
+    }
+    return sold;
+}
+
+/** Units of each drug still outstanding on open orders. */
+export function quantitiesOnOrder(orders: PurchaseOrder[]) {
+    const onOrder = new Map<number, number>();
+    for (const order of orders) {
+        if (order.status === 'closed') continue;
+        for (const item of order.items) {
+            const outstanding = Math.max(item.quantity - (item.receivedQuantity ?? 0), 0);
+            onOrder.set(item.drugId, (onOrder.get(item.drugId) ?? 0) + outstanding);
+        }
+    }
+    return onOrder;
+}
+
+export function buildReorderSuggestions(input: {
+    drugs: Drug[];
+    suppliers: Supplier[];
+    saleInvoices: SaleInvoice[];
+    saleReturns: SaleReturn[];
+    purchaseInvoices: PurchaseInvoice[];
+    purchaseOrders: PurchaseOrder[];
+    lowStockThreshold: number;
+    now?: Date;
+}): ReorderSuggestion[] {
+    const now = input.now ?? new Date();
+    const sold = unitsSold(input.saleInvoices, input.saleReturns, new Date(now.getTime() - VELOCITY_WINDOW_DAYS * DAY_MS));
+    const onOrderByDrug = quantitiesOnOrder(input.purchaseOrders);
+    const suppliers = new Map(input.suppliers.map(supplier => [supplier.id!, supplier]));
+
+    const lastSupplier = new Map<number, number>();
+    for (const invoice of [...input.purchaseInvoices].sort((a, b) => a.date.localeCompare(b.date))) {
+        for (const item of invoice.items) lastSupplier.set(item.drugId, invoice.supplierId);
+    }
+
+    const suggestions: ReorderSuggestion[] = [];
+    for (const drug of input.drugs) {
+        const supplierId = drug.preferredSupplierId ?? lastSupplier.get(drug.id!);
+        const leadTimeDays = (supplierId !== undefined ? suppliers.get(supplierId)?.leadTimeDays : undefined) ?? DEFAULT_LEAD_TIME_DAYS;
+        const velocity = Math.max(sold.get(drug.id!) ?? 0, 0) / VELOCITY_WINDOW_DAYS;
+        const minStock = drug.minStock ?? input.lowStockThreshold;
+        const reorderPoint = minStock + Math.ceil(velocity * leadTimeDays);
+        const targetStock = drug.maxStock !== undefined
+            ? Math.max(drug.maxStock, reorderPoint)
+            : Math.max(reorderPoint + Math.ceil(velocity * REVIEW_PERIOD_DAYS), minStock * 2);
+        const onHand = drug.totalStock;
+        const onOrder = onOrderByDrug.get(drug.id!) ?? 0;
+        if (onHand + onOrder >= reorderPoint) continue;
+
+        suggestions.push({
+            drug, supplierId, velocity: round(velocity), leadTimeDays, minStock, reorderPoint, targetStock, onHand, onOrder,
+            quantity: targetStock - onHand - onOrder,
+        });
+    }
+    return suggestions.sort((a, b) => a.drug.name.localeCompare(b.drug.name));
+}
+
+/** One draft order per supplier for the chosen suggestions, priced at each drug's latest purchase price. */
+export function draftOrdersBySupplier(lines: { drug: Drug; supplierId: number; quantity: number }[], createdBy?: string): PurchaseOrder[] {
+    const bySupplier = new Map<number, PurchaseOrderItem[]>();
+    for (const line of lines) {
+        if (line.quantity <= 0) continue;
+        if (!bySupplier.has(line.supplierId)) bySupplier.set(line.supplierId, []);
+        bySupplier.get(line.supplierId)!.push({ drugId: line.drug.id!, name: line.drug.name, quantity: line.quantity, purchasePrice: line.drug.purchasePrice });
+    }
+    const createdAt = new Date().toISOString();
+    return [...bySupplier.entries()].map(([supplierId, items]) => ({
+        supplierId,
+        createdAt,
+        createdBy,
+        items,
+        totalAmount: round(items.reduce((sum, item) => sum + item.quantity * item.purchasePrice, 0)),
+        status: 'draft',
+    }));
+}
@@ -0,0 +1,67 @@
+import { RefundMethod, SaleReturn, SaleReturnCondition, SaleReturnItem } from '../types';
+
+// ============================================================================
+// Bookkeeping for sale returns.
+// Returned units go back into the batches the sale took them from. The batches
+// are worked out from the sale's deductions rather than stored on the return:
+// earlier returns use up the deductions in order, and each new return continues
+// from where they stopped. That way the same rule works on the server (remote
+// batch ids) and offline (local batch ids).
+// ============================================================================
+
+export const RETURN_CONDITION_LABELS: Record<SaleReturnCondition, string> = {
+    restock: 'سالم (برگشت به انبار)',
+    damaged: 'آسیب‌دیده (قرنطینه)',
+};
+
+export const REFUND_METHOD_LABELS: Record<RefundMethod, string> = {
+    cash: 'پرداخت نقدی',
+    account: 'کسر از بدهی مشتری',
+};
+
+/**
+ * Quantity already returned per invoice line (by position) across the given returns.
+ * Items recorded without a line only name the drug; they are counted against that
+ * drug's lines in invoice order.
+ */
+export function returnedPerLine(lines: { drugId: number; quantity: number }[], returns: Pick<SaleReturn, 'items'>[]) {
+    const totals = lines.map(() => 0);
+    const withoutLine: SaleReturnItem[] = [];
+    for (const saleReturn of returns) {
+        for (const item of saleReturn.items) {
+            if (item.lineIndex !== undefined && item.lineIndex < lines.length) totals[item.lineIndex] += item.quantity;
+            else withoutLine.push(item);
+        }
+    }
+    for (const item of withoutLine) {
+        let remaining = item.quantity;
+        lines.forEach((line, index) => {
+            if (line.drugId !== item.drugId || remaining === 0) return;
+            const taken = Math.min(Math.max(line.quantity - totals[index], 0), remaining);
+            totals[index] += taken;
+            remaining -= taken;
+        });
+    }
+    return totals;
+}
+
+/**
+ * Picks the batches a returned quantity goes back to. `alreadyReturned` units of the
+ * deductions are skipped because earlier returns took them. Whatever cannot be matched
+ * to a deduction is left out of the result; the caller decides where it goes.
+ */
+export function allocateReturn<T extends { quantity: number }>(deductions: T[], alreadyReturned: number, quantity: number): T[] {
+    const allocation: T[] = [];
+    let skip = alreadyReturned;
+    let remaining = quantity;
+    for (const deduction of deductions) {
+        if (remaining === 0) break;
+        const available = Math.max(deduction.quantity - skip, 0);
+        skip = Math.max(skip - deduction.quantity, 0);
+        if (available === 0) continue;
+        const taken = Math.min(available, remaining);
+        allocation.push({ ...deduction, quantity: taken });
+        remaining -= taken;
+    }
+    return allocation;
+}
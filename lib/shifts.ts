@@ -0,0 +1,53 @@
+import { db } from '../db';
+import { Shift, ShiftReport } from '../types';
+import { invoiceTenders } from './tenders';
+import { invoiceDiscountTotal } from './discounts';
+
+// ============================================================================
+// Cash drawer shifts.
+// Sales, sale returns, clinic transactions, customer payments and supplier
+// payments recorded while a shift is open carry its id. The closing (Z) report
+// adds them up and works out how much cash should be in the drawer. Clinic fees
+// and customer debt payments are taken in cash; supplier payments are paid out
+// of the drawer.
+// ============================================================================
+
+/** The shift the given employee has open, if any. */
+export const getOpenShift = (userId: number) =>
+    db.shifts.where('userId').equals(userId).and(shift => shift.status === 'open').first();
+
+/** Adds up everything recorded during the shift. */
+export async function buildShiftReport(shift: Shift): Promise<ShiftReport> {
+    const [invoices, returns, clinicTransactions, payments, customerPayments] = await Promise.all([
+        db.saleInvoices.where('shiftId').equals(shift.id!).toArray(),
+        db.saleReturns.where('shiftId').equals(shift.id!).toArray(),
+        db.clinicTransactions.where('shiftId').equals(shift.id!).toArray(),
+        db.payments.where('shiftId').equals(shift.id!).toArray(),
+        db.customerPayments.where('shiftId').equals(shift.id!).toArray(),
+    ]);
+
+    const tenderTotals: ShiftReport['tenderTotals'] = { cash: 0, card: 0, mobile: 0, credit: 0, insurance: 0 };
+    for (const invoice of invoices) {
+        for (const tender of invoiceTenders(invoice)) tenderTotals[tender.type] += tender.amount;
+    }
+    const sum = <T,>(rows: T[], amount: (row: T) => number) => rows.reduce((total, row) => total + (Number(amount(row)) || 0), 0);
+    const cashRefunds = sum(returns.filter(r => r.refundMethod === 'cash'), r => r.totalAmount);
+    const clinicTotal = sum(clinicTransactions, t => t.amount);
+    const supplierPaymentsTotal = sum(payments, p => p.amount);
+    const customerPaymentsTotal = sum(customerPayments, p => p.amount);
+
+    return {
+        salesCount: invoices.length,
+        salesTotal: sum(invoices, inv => inv.totalAmount),
+        tenderTotals,
+        returnsCount: returns.length,
+        returnsTotal: sum(returns, r => r.totalAmount),
+        cashRefunds,
+        discountsTotal: sum(invoices, invoiceDiscountTotal),
+        clinicCount: clinicTransactions.length,
+        clinicTotal,
+        supplierPaymentsTotal,
+        customerPaymentsTotal,
+        expectedCash: shift.openingFloat + tenderTotals.cash + clinicTotal + customerPaymentsTotal - cashRefunds - supplierPaymentsTotal,
+    };
+}
@@ -0,0 +1,78 @@
+import { StockAdjustmentReason, StockMovement, StockMovementType } from '../types';
+
+// ============================================================================
+// Stock movement ledger.
+// Every change to `DrugBatch.quantityInStock` is appended to `stock_movements`
+// by the server together with the change itself, so the history of a batch
+// always adds up to its stock. Manual adjustments must give a reason, which
+// also decides the movement type and whether stock may go up or down.
+// ============================================================================
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+    opening: 'موجودی اولیه',
+    sale: 'فروش',
+    return: 'مرجوعی فروش',
+    purchase: 'خرید',
+    purchase_return: 'مرجوعی خرید',
+    adjustment: 'اصلاح موجودی',
+    breakage: 'ضایعات / شکستگی',
+    expiry_writeoff: 'حذف تاریخ‌گذشته',
+    transfer: 'انتقال',
+    stocktake: 'شمارش انبار',
+    quarantine: 'انتقال به قرنطینه',
+};
+
+export interface AdjustmentReasonRule {
+    label: string;
+    type: StockMovementType;
+    direction: 'in' | 'out' | 'either';
+    requiresNote?: boolean;
+}
+
+export const ADJUSTMENT_REASONS: Record<StockAdjustmentReason, AdjustmentReasonRule> = {
+    count_correction: { label: 'اصلاح شمارش', type: 'adjustment', direction: 'either' },
+    entry_error: { label: 'اصلاح خطای ثبت', type: 'adjustment', direction: 'either' },
+    damaged: { label: 'آسیب‌دیدگی / شکستگی', type: 'breakage', direction: 'out' },
+    expired: { label: 'تاریخ‌گذشته', type: 'expiry_writeoff', direction: 'out' },
+    lost: { label: 'مفقودی / سرقت', type: 'adjustment', direction: 'out' },
+    found: { label: 'پیدا شدن کالا', type: 'adjustment', direction: 'in' },
+    transfer_out: { label: 'انتقال به شعبه / انبار دیگر', type: 'transfer', direction: 'out' },
+    transfer_in: { label: 'دریافت از شعبه / انبار دیگر', type: 'transfer', direction: 'in' },
+    other: { label: 'سایر (با ذکر توضیح)', type: 'adjustment', direction: 'either', requiresNote: true },
+};
+
+/**
+ * Checks a manual adjustment against its reason; returns the problem, or null when it is valid.
+ * Shared by the adjustment form and the server so both enforce the same rules.
+ */
+export function adjustmentError(reason: StockAdjustmentReason | undefined, quantity: number, stock: number, note?: string): string | null {
+    const rule = reason && ADJUSTMENT_REASONS[reason];
+    if (!rule) return 'انتخاب دلیل اصلاح موجودی الزامی است.';
+    if (!Number.isInteger(quantity) || quantity === 0) return 'مقدار تغییر باید یک عدد صحیح غیر صفر باشد.';
+    if (rule.direction === 'in' && quantity < 0) return `«${rule.label}» فقط می‌تواند موجودی را افزایش دهد.`;
+    if (rule.direction === 'out' && quantity > 0) return `«${rule.label}» فقط می‌تواند موجودی را کاهش دهد.`;
+    if (stock + quantity < 0) return 'موجودی بچ پس از این اصلاح منفی می‌شود.';
+    if (rule.requiresNote && !note?.trim()) return 'برای این دلیل نوشتن توضیح الزامی است.';
+    return null;
+}
+
+export interface MovementHistoryRow {
+    movement: StockMovement;
+    balance: number; // Stock of the drug after the movement
+}
+
+/**
+ * The movements of a drug, oldest first, with the running stock after each one. Stock that
+ * predates the ledger (or offline changes that have not been synced yet) shows up as
+ * `untracked`, so that `untracked` plus all movements always equals the current stock.
+ */
+export function movementHistory(movements: StockMovement[], currentStock: number) {
+    const sorted = [...movements].sort((a, b) => a.date.localeCompare(b.date) || (a.id ?? 0) - (b.id ?? 0));
+    const untracked = currentStock - sorted.reduce((sum, m) => sum + m.quantity, 0);
+    let balance = untracked;
+    const rows: MovementHistoryRow[] = sorted.map(movement => {
+        balance += movement.quantity;
+        return { movement, balance };
+    });
+    return { untracked, rows };
+}
@@ -0,0 +1,82 @@
+import { db } from '../db';
+import { StocktakeLine, StocktakeScope } from '../types';
+
+// ============================================================================
+// Stocktake (physical inventory count) sessions.
+// A session takes a snapshot of the batches in its scope, the counted quantity
+// of each batch is entered against it, and posting the session adjusts every
+// counted batch by its variance. Variances are valued at the batch's
+// purchase price.
+// ============================================================================
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export const scopeLabel = (scope: StocktakeScope) => {
+    const parts = [
+        scope.shelf && `قفسه ${scope.shelf}`,
+        scope.drugType && `نوع ${scope.drugType}`,
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' / ') : 'کل انبار';
+};
+
+/** The batches with stock in the scope, sorted the way they are found on the shelves. */
+export async function buildStocktakeLines(scope: StocktakeScope): Promise<StocktakeLine[]> {
+    const drugs = (await db.drugs.toArray()).filter(drug =>
+        (!scope.shelf || drug.shelf === scope.shelf) && (!scope.drugType || drug.type === scope.drugType));
+    const drugMap = new Map(drugs.map(drug => [drug.id!, drug]));
+    const batches = await db.drugBatches.where('drugId').anyOf([...drugMap.keys()]).filter(batch => batch.quantityInStock > 0).toArray();
+
+    return batches
+        .map(batch => {
+            const drug = drugMap.get(batch.drugId)!;
+            return {
+                batchId: batch.id!,
+                drugId: batch.drugId,
+                name: drug.name,
+                lotNumber: batch.lotNumber,
+                expiryDate: batch.expiryDate,
+                systemQuantity: batch.quantityInStock,
+                purchasePrice: batch.purchasePrice,
+            };
+        })
+        .sort((a, b) => {
+            const shelfA = drugMap.get(a.drugId)!.shelf ?? '';
+            const shelfB = drugMap.get(b.drugId)!.shelf ?? '';
+            return shelfA.localeCompare(shelfB) || a.name.localeCompare(b.name) || a.expiryDate.localeCompare(b.expiryDate);
+        });
+}
+
+/** Counted minus system quantity; zero for a batch that has not been counted. */
+export const lineVariance = (line: StocktakeLine) =>
+    line.countedQuantity === undefined ? 0 : line.countedQuantity - line.systemQuantity;
+
+export interface StocktakeSummary {
+    counted: number;
+    uncounted: number;
+    varianceLines: number;
+    shortageValue: number; // Value of the missing units, as a positive amount
+    surplusValue: number;
+    netValue: number; // Surplus less shortage; negative when stock was lost
+}
+
+export function summarizeStocktake(lines: StocktakeLine[]): StocktakeSummary {
+    let shortageValue = 0;
+    let surplusValue = 0;
+    let varianceLines = 0;
+    for (const line of lines) {
+        const variance = lineVariance(line);
+        if (variance === 0) continue;
+        varianceLines++;
+        if (variance < 0) shortageValue -= variance * line.purchasePrice;
+        else surplusValue += variance * line.purchasePrice;
+    }
+    const counted = lines.filter(line => line.countedQuantity !== undefined).length;
+    return {
+        counted,
+        uncounted: lines.length - counted,
+        varianceLines,
+        shortageValue: round(shortageValue),
+        surplusValue: round(surplusValue),
+        netValue: round(surplusValue - shortageValue),
+    };
+}
@@ -0,0 +1,16 @@
+import { supabase } from './supabaseClient';
+import type { DataBackend, QueryBuilder, RealtimeChannel, BackendResponse } from './dataBackend';
+
+// The live backend: a thin adapter over the Supabase client. The supabase-js builders
+// already have the shape described by `QueryBuilder`, so calls are passed straight through.
+export function createSupabaseBackend(): DataBackend {
+    return {
+        kind: 'supabase',
+        from: <T>(table: string) => supabase.from(table) as unknown as QueryBuilder<T>,
+        rpc: <T>(fn: string, params?: Record<string, any>) => supabase.rpc(fn, params) as unknown as PromiseLike<BackendResponse<T>>,
+        channel: (name: string) => supabase.channel(name) as unknown as RealtimeChannel,
+        removeChannel: (channel: RealtimeChannel) => {
+            supabase.removeChannel(channel as any);
+        },
+    };
+}
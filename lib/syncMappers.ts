@@ -0,0 +1,219 @@
+import { db } from '../db';
+
+// ============================================================================
+// Field mappings between the local Dexie schema (camelCase, local ids) and
+// the remote Supabase schema (snake_case, remote ids).
+// ============================================================================
+
+export type SyncedTableName =
+    | 'roles' | 'users' | 'supplierAccounts' | 'drugs' | 'drugBatches' | 'suppliers'
+    | 'purchaseInvoices' | 'saleInvoices' | 'payments' | 'clinicServices' | 'serviceProviders'
+    | 'clinicTransactions' | 'simpleAccountingColumns' | 'simpleAccountingEntries'
+    | 'customers' | 'customerPayments' | 'prescriptions' | 'saleReturns' | 'purchaseReturns' | 'shifts'
+    | 'insurers' | 'insuranceClaims' | 'stocktakes' | 'stockMovements' | 'stockWriteOffs' | 'purchaseOrders';
+
+export interface TableMapping {
+    remoteTable: string;
+    fields: string[]; // Local field names; the remote column is the snake_case form
+    foreignKeys?: Record<string, SyncedTableName>; // Local FK field -> table it points to
+    itemForeignKeys?: Record<string, Record<string, SyncedTableName>>; // Array field -> FK fields inside each of its entries
+}
+
+export const TABLE_MAPPINGS: Record<SyncedTableName, TableMapping> = {
+    roles: { remoteTable: 'roles', fields: ['name', 'permissions', 'isEditable'] },
+    users: { remoteTable: 'users', fields: ['username', 'roleId'], foreignKeys: { roleId: 'roles' } },
+    supplierAccounts: { remoteTable: 'supplier_accounts', fields: ['supplierId', 'username'], foreignKeys: { supplierId: 'suppliers' } },
+    drugs: {
+        remoteTable: 'drugs',
+        fields: ['name', 'company', 'purchasePrice', 'salePrice', 'totalStock', 'type', 'internalBarcode', 'barcode', 'controlled', 'shelf', 'minStock', 'maxStock', 'preferredSupplierId'],
+        foreignKeys: { preferredSupplierId: 'suppliers' },
+    },
+    drugBatches: { remoteTable: 'drug_batches', fields: ['drugId', 'lotNumber', 'expiryDate', 'quantityInStock', 'purchasePrice', 'quarantinedQuantity'], foreignKeys: { drugId: 'drugs' } },
+    suppliers: { remoteTable: 'suppliers', fields: ['name', 'contactPerson', 'phone', 'totalDebt', 'leadTimeDays'] },
+    purchaseInvoices: { remoteTable: 'purchase_invoices', fields: ['invoiceNumber', 'supplierId', 'date', 'totalAmount', 'amountPaid'], foreignKeys: { supplierId: 'suppliers' } },
+    saleInvoices: { remoteTable: 'sale_invoices', fields: ['date', 'totalAmount', 'customerId', 'amountPaid', 'prescriptionId', 'controlledDispensing', 'tenders', 'changeDue', 'shiftId', 'discount', 'discountApprovedBy', 'insurerId', 'insuranceMemberId', 'insurerShare'], foreignKeys: { customerId: 'customers', prescriptionId: 'prescriptions', shiftId: 'shifts', insurerId: 'insurers' } },
+    payments: { remoteTable: 'payments', fields: ['supplierId', 'amount', 'date', 'recipientName', 'description', 'shiftId'], foreignKeys: { supplierId: 'suppliers', shiftId: 'shifts' } },
+    clinicServices: { remoteTable: 'clinic_services', fields: ['name', 'price', 'requiresProvider'] },
+    serviceProviders: { remoteTable: 'service_providers', fields: ['name', 'specialty'] },
+    clinicTransactions: { remoteTable: 'clinic_transactions', fields: ['serviceId', 'providerId', 'customerId', 'patientName', 'amount', 'date', 'ticketNumber', 'shiftId'], foreignKeys: { serviceId: 'clinicServices', providerId: 'serviceProviders', customerId: 'customers', shiftId: 'shifts' } },
+    simpleAccountingColumns: { remoteTable: 'simple_accounting_columns', fields: ['name', 'type', 'order'] },
+    simpleAccountingEntries: { remoteTable: 'simple_accounting_entries', fields: ['date', 'patientName', 'description', 'values'] },
+    customers: { remoteTable: 'customers', fields: ['name', 'phone', 'nationalId', 'notes', 'totalDebt'] },
+    customerPayments: { remoteTable: 'customer_payments', fields: ['customerId', 'amount', 'date', 'description', 'shiftId'], foreignKeys: { customerId: 'customers', shiftId: 'shifts' } },
+    prescriptions: {
+        remoteTable: 'prescriptions',
+        fields: ['customerId', 'patientName', 'prescriberName', 'prescriberLicense', 'issueDate', 'items', 'refillsAllowed', 'fillsCompleted', 'status', 'image', 'notes'],
+        foreignKeys: { customerId: 'customers' },
+        itemForeignKeys: { items: { drugId: 'drugs' } },
+    },
+    saleReturns: {
+        remoteTable: 'sale_returns',
+        fields: ['saleInvoiceId', 'customerId', 'date', 'items', 'totalAmount', 'refundMethod', 'reason', 'shiftId'],
+        foreignKeys: { saleInvoiceId: 'saleInvoices', customerId: 'customers', shiftId: 'shifts' },
+        itemForeignKeys: { items: { drugId: 'drugs' } },
+    },
+    purchaseReturns: {
+        remoteTable: 'purchase_returns',
+        fields: ['purchaseInvoiceId', 'supplierId', 'date', 'items', 'totalAmount', 'reason', 'fromQuarantine'],
+        foreignKeys: { purchaseInvoiceId: 'purchaseInvoices', supplierId: 'suppliers' },
+        itemForeignKeys: { items: { drugId: 'drugs' } },
+    },
+    shifts: { remoteTable: 'shifts', fields: ['userId', 'username', 'openedAt', 'openingFloat', 'status', 'closedAt', 'countedCash', 'report', 'notes'] },
+    insurers: {
+        remoteTable: 'insurers',
+        fields: ['name', 'code', 'phone', 'rules', 'maxPerInvoice', 'active'],
+        itemForeignKeys: { rules: { drugId: 'drugs' } },
+    },
+    insuranceClaims: {
+        remoteTable: 'insurance_claims',
+        fields: ['insurerId', 'period', 'createdAt', 'lines', 'claimedAmount', 'status', 'paidAmount', 'reconciledAt', 'notes'],
+        foreignKeys: { insurerId: 'insurers' },
+        itemForeignKeys: { lines: { saleInvoiceId: 'saleInvoices' } },
+    },
+    stocktakes: {
+        remoteTable: 'stocktakes',
+        fields: ['startedAt', 'startedBy', 'scope', 'lines', 'status', 'postedAt', 'postedBy', 'notes'],
+        itemForeignKeys: { lines: { batchId: 'drugBatches', drugId: 'drugs' } },
+    },
+    // Written only by the server; clients pull it and never queue changes to it.
+    stockMovements: {
+        remoteTable: 'stock_movements',
+        fields: ['drugId', 'batchId', 'type', 'quantity', 'date', 'referenceId', 'reason', 'note', 'username'],
+        foreignKeys: { drugId: 'drugs', batchId: 'drugBatches' },
+    },
+    purchaseOrders: {
+        remoteTable: 'purchase_orders',
+        fields: ['supplierId', 'createdAt', 'createdBy', 'sentAt', 'items', 'totalAmount', 'status', 'receipts', 'notes'],
+        foreignKeys: { supplierId: 'suppliers' },
+        itemForeignKeys: { items: { drugId: 'drugs' } },
+    },
+    // Created by the disposal RPC, which is only available online.
+    stockWriteOffs: {
+        remoteTable: 'stock_write_offs',
+        fields: ['date', 'items', 'totalValue', 'notes', 'username'],
+        itemForeignKeys: { items: { drugId: 'drugs', batchId: 'drugBatches' } },
+    },
+};
+
+// Persian names of the synced tables, for sync-related UI.
+export const SYNC_TABLE_LABELS: Record<string, string> = {
+    roles: 'نقش', users: 'کاربر', supplierAccounts: 'حساب تامین‌کننده', drugs: 'دارو', drugBatches: 'بچ دارو',
+    suppliers: 'تامین‌کننده', purchaseInvoices: 'فاکتور خرید', saleInvoices: 'فاکتور فروش', payments: 'پرداخت',
+    clinicServices: 'خدمت کلینیک', serviceProviders: 'ارائه‌دهنده خدمت', clinicTransactions: 'تراکنش کلینیک',
+    simpleAccountingColumns: 'ستون حسابداری', simpleAccountingEntries: 'ردیف حسابداری',
+    customers: 'مشتری', customerPayments: 'دریافت از مشتری', prescriptions: 'نسخه',
+    saleReturns: 'مرجوعی فروش', purchaseReturns: 'مرجوعی خرید', shifts: 'شیفت',
+    insurers: 'بیمه', insuranceClaims: 'صورتحساب بیمه', stocktakes: 'شمارش انبار', stockMovements: 'گردش موجودی',
+    stockWriteOffs: 'سند امحا', purchaseOrders: 'سفارش خرید',
+};
+
+export const isSyncedTable = (table: string): table is SyncedTableName => table in TABLE_MAPPINGS;
+
+export const toSnakeCase = (field: string) => field.replace(/[A-Z]/g, c => `_${c.toLowerCase()}`);
+
+export const getRemoteId = async (table: SyncedTableName, localId: number): Promise<number | undefined> => {
+    const record = await db.table(table).get(localId);
+    return record?.remoteId;
+};
+
+export const getLocalId = async (table: SyncedTableName, remoteId: number): Promise<number | undefined> => {
+    const record = await db.table(table).where('remoteId').equals(remoteId).first();
+    return record?.id;
+};
+
+// Translates the FK fields inside the entries of an array field (e.g. the drug of each
+// prescription line). Returns null if any reference cannot be translated.
+async function mapItemForeignKeys(
+    items: Record<string, any>[],
+    keys: Record<string, SyncedTableName>,
+    translate: (table: SyncedTableName, id: number) => Promise<number | undefined>
+): Promise<Record<string, any>[] | null> {
+    const mapped = [];
+    for (const item of items) {
+        const copy = { ...item };
+        for (const [key, fkTable] of Object.entries(keys)) {
+            if (copy[key] == null) continue;
+            const translated = await translate(fkTable, copy[key]);
+            if (!translated) return null;
+            copy[key] = translated;
+        }
+        mapped.push(copy);
+    }
+    return mapped;
+}
+
+/**
+ * Converts a (possibly partial) local record into a row for its remote table.
+ * Foreign keys are translated to the referenced record's remoteId; an error is thrown
+ * if a referenced record has not been synced yet, so the item stays in the queue.
+ */
+export async function toRemoteRecord(
+    table: SyncedTableName,
+    record: Record<string, any>,
+    resolveRemoteId: (table: SyncedTableName, localId: number) => Promise<number | undefined> = getRemoteId
+): Promise<Record<string, any>> {
+    const mapping = TABLE_MAPPINGS[table];
+    const row: Record<string, any> = {};
+    for (const field of mapping.fields) {
+        if (!(field in record)) continue;
+        let value = record[field];
+        const fkTable = mapping.foreignKeys?.[field];
+        if (fkTable && value != null) {
+            const remoteId = await resolveRemoteId(fkTable, value);
+            if (!remoteId) {
+                throw new Error(`Cannot map ${table}.${field}: ${fkTable} record with local ID ${value} has no remoteId.`);
+            }
+            value = remoteId;
+        }
+        const itemKeys = mapping.itemForeignKeys?.[field];
+        if (itemKeys && Array.isArray(value)) {
+            value = await mapItemForeignKeys(value, itemKeys, async (fkTable, localId) => {
+                const remoteId = await resolveRemoteId(fkTable, localId);
+                if (!remoteId) {
+                    throw new Error(`Cannot map ${table}.${field}: ${fkTable} record with local ID ${localId} has no remoteId.`);
+                }
+                return remoteId;
+            });
+        }
+        row[toSnakeCase(field)] = value === undefined ? null : value;
+    }
+    return row;
+}
+
+/**
+ * Converts a remote row into a local record, preserving the local primary key when the
+ * row is already cached. Returns null if a required foreign key cannot be resolved locally.
+ */
+export async function toLocalRecord(table: SyncedTableName, row: Record<string, any>): Promise<Record<string, any> | null> {
+    const mapping = TABLE_MAPPINGS[table];
+    const record: Record<string, any> = {
+        id: await getLocalId(table, row.id),
+        remoteId: row.id,
+    };
+    if (row.updated_at) record.updatedAt = row.updated_at;
+    for (const field of mapping.fields) {
+        const column = toSnakeCase(field);
+        if (!(column in row)) continue;
+        let value = row[column];
+        const fkTable = mapping.foreignKeys?.[field];
+        if (fkTable && value != null) {
+            const localId = await getLocalId(fkTable, value);
+            if (!localId) {
+                console.warn(`[Sync] ${table} row #${row.id} references ${fkTable} remoteId ${value}, which is not in the local DB.`);
+                return null;
+            }
+            value = localId;
+        }
+        const itemKeys = mapping.itemForeignKeys?.[field];
+        if (itemKeys && Array.isArray(value)) {
+            const items = await mapItemForeignKeys(value, itemKeys, (fkTable, remoteId) => getLocalId(fkTable, remoteId));
+            if (!items) {
+                console.warn(`[Sync] ${table} row #${row.id} has ${field} that reference records not in the local DB.`);
+                return null;
+            }
+            value = items;
+        }
+        record[field] = value ?? undefined;
+    }
+    return record;
+}
@@ -1,11 +1,157 @@
+import Dexie from 'dexie';
 import { db } from '../db';
-import { supabase } from './supabaseClient';
-import { SyncQueueItem } from '../types';
+import { backend } from './dataBackend';
+import { SyncQueueItem, SyncConflict, SyncDeadLetter, SyncDependency, SaleItem } from '../types';
+import { SyncedTableName, TABLE_MAPPINGS, isSyncedTable, toRemoteRecord, toLocalRecord, getRemoteId, getLocalId } from './syncMappers';
+import { markOwnStockWrite } from './realtimeSync';
 
 export const syncStatusChannel = new BroadcastChannel('sync_status');
 
 let isSyncing = false;
 
+/**
+ * Adds a local change to the sync queue. For updates and deletes the record's current
+ * `updatedAt` is stored as the base version, so a change made against a stale copy of the
+ * record is detected as a conflict instead of silently overwriting the server.
+ *
+ * Callers usually enqueue inside their own transaction, which only covers the tables they
+ * write. The parents are then looked up at the next sync run instead (see processSyncQueue),
+ * because reading a table outside the transaction's scope would abort the caller's write.
+ */
+export async function enqueueSyncItem(table: SyncedTableName, action: SyncQueueItem['action'], recordId: number, payload: any = {}) {
+    let baseVersion: string | undefined;
+    if (action !== 'create') {
+        const localRecord = await db.table(table).get(recordId);
+        baseVersion = localRecord?.updatedAt;
+    }
+    const item: SyncQueueItem = { table, action, recordId, payload, timestamp: Date.now(), baseVersion };
+    const transaction = Dexie.currentTransaction;
+    if (!transaction || parentTables(table).every(parent => transaction.storeNames.includes(parent))) {
+        item.dependsOn = await collectDependencies(item);
+    }
+    return db.syncQueue.add(item);
+}
+
+// ============================================================================
+// Dependencies between queue items
+// ============================================================================
+const dependencyKey = (table: string, recordId: number | string) => `${table}:${recordId}`;
+
+// Tables whose records a queue item of `table` can point to.
+const parentTables = (table: SyncedTableName): SyncedTableName[] => {
+    const mapping = TABLE_MAPPINGS[table];
+    return [...new Set([
+        ...Object.values(mapping.foreignKeys ?? {}),
+        ...Object.values(mapping.itemForeignKeys ?? {}).flatMap(keys => Object.values(keys)),
+        ...(table === 'saleInvoices' || table === 'purchaseInvoices' ? ['drugs' as const] : []),
+    ])];
+};
+
+// Finds the parent records (foreign keys, invoice line drugs) that have not reached the server yet.
+async function collectDependencies(item: SyncQueueItem): Promise<SyncDependency[]> {
+    if (item.action === 'delete' || !isSyncedTable(item.table)) return [];
+    const localRecord = await db.table(item.table).get(item.recordId);
+    const record = { ...localRecord, ...item.payload };
+
+    const refs: { table: SyncedTableName; recordId: number }[] = [];
+    for (const [field, fkTable] of Object.entries(TABLE_MAPPINGS[item.table].foreignKeys ?? {})) {
+        if (record[field] != null) refs.push({ table: fkTable, recordId: record[field] });
+    }
+    for (const [field, keys] of Object.entries(TABLE_MAPPINGS[item.table].itemForeignKeys ?? {})) {
+        for (const entry of record[field] ?? []) {
+            for (const [key, fkTable] of Object.entries(keys)) {
+                if (entry[key] != null) refs.push({ table: fkTable, recordId: entry[key] });
+            }
+        }
+    }
+    if (item.table === 'saleInvoices' || item.table === 'purchaseInvoices') {
+        for (const line of record.items ?? []) refs.push({ table: 'drugs', recordId: line.drugId });
+    }
+
+    const dependencies: SyncDependency[] = [];
+    for (const ref of refs) {
+        if (dependencies.some(d => d.table === ref.table && d.recordId === ref.recordId)) continue;
+        if (!(await getRemoteId(ref.table, ref.recordId))) dependencies.push(ref);
+    }
+    return dependencies;
+}
+
+// Orders items so that every parent create comes before the items that depend on it
+// (including later updates/deletes of the same record). Otherwise the timestamp order is kept.
+function orderByDependencies(items: SyncQueueItem[]): SyncQueueItem[] {
+    const createsByKey = new Map(items.filter(i => i.action === 'create').map(i => [dependencyKey(i.table, i.recordId), i]));
+    const ordered: SyncQueueItem[] = [];
+    const visited = new Set<number>();
+
+    const visit = (item: SyncQueueItem, path: Set<number>) => {
+        if (visited.has(item.id!) || path.has(item.id!)) return; // `path` guards against cycles
+        path.add(item.id!);
+        const parentKeys = (item.dependsOn ?? []).map(d => dependencyKey(d.table, d.recordId));
+        if (item.action !== 'create') parentKeys.push(dependencyKey(item.table, item.recordId));
+        for (const key of parentKeys) {
+            const parent = createsByKey.get(key);
+            if (parent && parent !== item) visit(parent, path);
+        }
+        path.delete(item.id!);
+        visited.add(item.id!);
+        ordered.push(item);
+    };
+    items.forEach(item => visit(item, new Set()));
+    return ordered;
+}
+
+// Once a parent has been created remotely, record its remoteId on the queued children.
+async function patchDependents(parent: SyncQueueItem, queuedItems: SyncQueueItem[]) {
+    if (parent.action !== 'create' || !isSyncedTable(parent.table)) return;
+    const remoteId = await getRemoteId(parent.table, parent.recordId as number);
+    if (!remoteId) return;
+
+    for (const child of queuedItems) {
+        const dependency = child.dependsOn?.find(d => d.table === parent.table && d.recordId === parent.recordId);
+        if (!dependency) continue;
+        dependency.remoteId = remoteId;
+        await db.syncQueue.update(child.id!, { dependsOn: child.dependsOn });
+    }
+}
+
+// After this device's own change reached the server, its later queued changes to the same record
+// are based on the version that push produced. Otherwise the second of two offline edits would
+// always be parked as a conflict against the first one.
+async function rebaseLaterChanges(pushed: SyncQueueItem, queuedItems: SyncQueueItem[]) {
+    if (pushed.action === 'delete' || !isSyncedTable(pushed.table)) return;
+    const newVersion = (await db.table(pushed.table).get(pushed.recordId))?.updatedAt;
+    if (!newVersion) return;
+
+    for (const later of queuedItems) {
+        if (later === pushed || later.table !== pushed.table || later.recordId !== pushed.recordId) continue;
+        if (later.action === 'create' || later.baseVersion !== pushed.baseVersion || later.baseVersion === newVersion) continue;
+        later.baseVersion = newVersion;
+        await db.syncQueue.update(later.id!, { baseVersion: newVersion });
+    }
+}
+
+// Drugs whose stock or price a queued change touches, so that the realtime echoes of the push
+// are recognised as this terminal's own.
+async function touchedDrugIds(item: SyncQueueItem): Promise<(number | undefined)[]> {
+    if (item.table === 'drugs') return [item.recordId as number];
+    const record = (await db.table(item.table).get(item.recordId)) ?? item.payload;
+    if (!record) return [];
+    const entries = [...(record.items ?? []), ...(record.lines ?? [])] as { drugId?: number }[];
+    return [record.drugId, ...entries.map(entry => entry.drugId)];
+}
+
+// Looks up a parent's remoteId, preferring the one patched onto the queue item.
+const parentRemoteId = async (item: SyncQueueItem, table: SyncedTableName, localId: number) =>
+    item.dependsOn?.find(d => d.table === table && d.recordId === localId)?.remoteId ?? getRemoteId(table, localId);
+
+// Backoff between attempts doubles from BASE_RETRY_DELAY up to MAX_RETRY_DELAY. After
+// MAX_ATTEMPTS failures the item is moved to the dead-letter table for manual handling.
+const BASE_RETRY_DELAY = 15 * 1000;
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+export const MAX_ATTEMPTS = 8;
+
+const getRetryDelay = (attempts: number) => Math.min(BASE_RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+
 export async function processSyncQueue() {
     if (isSyncing || !navigator.onLine) {
         return;
@@ -13,12 +159,34 @@ export async function processSyncQueue() {
 
     isSyncing = true;
     try {
-        const itemsToSync = await db.syncQueue.orderBy('timestamp').toArray();
-        if (itemsToSync.length === 0) {
+        const now = Date.now();
+        const queuedItems = await db.syncQueue.orderBy('timestamp').toArray();
+        if (queuedItems.length === 0) {
             syncStatusChannel.postMessage({ status: 'synced' });
             return;
         }
 
+        // Items queued before dependency tracking existed (or added directly) get their parents computed now.
+        for (const item of queuedItems) {
+            if (!item.dependsOn) {
+                item.dependsOn = await collectDependencies(item);
+                await db.syncQueue.update(item.id!, { dependsOn: item.dependsOn });
+            }
+        }
+
+        // Creates that cannot run in this pass (backing off or quarantined) block every item that depends on them.
+        const quarantinedCreates = await db.syncDeadLetters.filter(item => item.action === 'create').toArray();
+        const blockedKeys = new Set([
+            ...queuedItems.filter(item => item.action === 'create' && item.nextAttemptAt && item.nextAttemptAt > now),
+            ...quarantinedCreates,
+        ].map(item => dependencyKey(item.table, item.recordId)));
+        const itemsToSync = orderByDependencies(queuedItems.filter(item => !item.nextAttemptAt || item.nextAttemptAt <= now));
+        if (itemsToSync.length === 0) {
+            // Everything left is waiting for its backoff to expire.
+            syncStatusChannel.postMessage({ status: 'pending', count: queuedItems.length });
+            return;
+        }
+
         console.log(`[Sync] Starting sync for ${itemsToSync.length} items.`);
         syncStatusChannel.postMessage({ status: 'syncing', processed: 0, total: itemsToSync.length });
 
@@ -27,17 +195,27 @@ export async function processSyncQueue() {
 
         for (let i = 0; i < itemsToSync.length; i++) {
             const item = itemsToSync[i];
+            const ownKey = dependencyKey(item.table, item.recordId);
+            const waitingOn = (item.dependsOn ?? []).find(d => !d.remoteId && blockedKeys.has(dependencyKey(d.table, d.recordId)))
+                ?? (item.action !== 'create' && blockedKeys.has(ownKey) ? item : undefined);
+            if (waitingOn) {
+                // Not a failure of this item: it simply waits for its parent, without using up attempts.
+                console.log(`[Sync] Item ${item.id} waits for ${dependencyKey(waitingOn.table, waitingOn.recordId)}.`);
+                if (item.action === 'create') blockedKeys.add(ownKey);
+                syncStatusChannel.postMessage({ status: 'syncing', processed: i + 1, total: itemsToSync.length });
+                continue;
+            }
             try {
-                const success = await handleSyncItem(item);
-                if (success) {
-                    successfullySyncedIds.push(item.id!);
-                } else {
-                    console.error(`[Sync] Failed to sync item ${item.id}`, item);
-                    errorOccurred = true;
-                }
-            } catch (error) {
-                console.error(`[Sync] CRITICAL Error processing sync item ${item.id}:`, error);
+                markOwnStockWrite(await touchedDrugIds(item));
+                await handleSyncItem(item);
+                successfullySyncedIds.push(item.id!);
+                await patchDependents(item, queuedItems);
+                await rebaseLaterChanges(item, queuedItems);
+            } catch (error: any) {
+                console.error(`[Sync] Failed to sync item ${item.id}:`, error);
                 errorOccurred = true;
+                if (item.action === 'create') blockedKeys.add(ownKey);
+                await recordFailure(item, error?.message ?? String(error));
             } finally {
                 syncStatusChannel.postMessage({ status: 'syncing', processed: i + 1, total: itemsToSync.length });
             }
@@ -68,72 +246,760 @@ export async function processSyncQueue() {
     }
 }
 
+// Schedules the next attempt for a failed item, or quarantines it once it has used up its attempts.
+async function recordFailure(item: SyncQueueItem, lastError: string) {
+    const attempts = (item.attempts ?? 0) + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+        const { id, ...rest } = item;
+        await db.transaction('rw', db.syncQueue, db.syncDeadLetters, async () => {
+            await db.syncDeadLetters.add({ ...rest, attempts, lastError, nextAttemptAt: undefined, failedAt: Date.now() });
+            await db.syncQueue.delete(id!);
+        });
+        console.warn(`[Sync] Item ${id} failed ${attempts} times and was moved to the dead-letter table.`);
+        return;
+    }
+    await db.syncQueue.update(item.id!, { attempts, lastError, nextAttemptAt: Date.now() + getRetryDelay(attempts) });
+}
+
+/** Puts a queued item up for the next sync run immediately, ignoring its backoff. */
+export async function retryQueueItemNow(queueId: number) {
+    await db.syncQueue.update(queueId, { nextAttemptAt: undefined });
+    processSyncQueue();
+}
+
+/** Moves a quarantined item back into the queue with a fresh attempt budget, optionally with an edited payload. */
+export async function requeueDeadLetter(deadLetterId: number, payload?: any) {
+    const deadLetter = await db.syncDeadLetters.get(deadLetterId);
+    if (!deadLetter) return;
+    const { id, failedAt, ...item } = deadLetter;
+    await db.transaction('rw', db.syncQueue, db.syncDeadLetters, async () => {
+        await db.syncQueue.add({ ...item, payload: payload ?? item.payload, attempts: 0, nextAttemptAt: undefined });
+        await db.syncDeadLetters.delete(deadLetterId);
+    });
+    processSyncQueue();
+}
+
+export type SyncItemSource = 'queue' | 'deadLetter';
+export interface SourcedSyncItem {
+    source: SyncItemSource;
+    item: SyncQueueItem | SyncDeadLetter;
+}
+
+/**
+ * Queued or quarantined items that can only be pushed once the given create has reached the
+ * server: records pointing to it and later changes of the same record, followed transitively.
+ */
+export async function findDependentItems(create: SourcedSyncItem): Promise<SourcedSyncItem[]> {
+    const candidates: SourcedSyncItem[] = [
+        ...(await db.syncQueue.toArray()).map(item => ({ source: 'queue' as const, item })),
+        ...(await db.syncDeadLetters.toArray()).map(item => ({ source: 'deadLetter' as const, item })),
+    ].filter(c => c.source !== create.source || c.item.id !== create.item.id);
+    const dependencies = new Map<SourcedSyncItem, SyncDependency[]>();
+    for (const candidate of candidates) {
+        dependencies.set(candidate, candidate.item.dependsOn ?? await collectDependencies(candidate.item));
+    }
+
+    const dependents: SourcedSyncItem[] = [];
+    const parents = [create.item];
+    while (parents.length > 0) {
+        const parent = parents.shift()!;
+        const parentKey = dependencyKey(parent.table, parent.recordId);
+        for (const candidate of candidates) {
+            if (dependents.includes(candidate)) continue;
+            const { item } = candidate;
+            const waitsOnParent = dependencies.get(candidate)!.some(d => !d.remoteId && dependencyKey(d.table, d.recordId) === parentKey)
+                || (item.action !== 'create' && dependencyKey(item.table, item.recordId) === parentKey);
+            if (!waitsOnParent) continue;
+            dependents.push(candidate);
+            if (item.action === 'create') parents.push(item);
+        }
+    }
+    return dependents;
+}
+
+/** Removes items from the queue or the dead-letter table for good. */
+export async function discardSyncItems(items: SourcedSyncItem[]) {
+    await db.transaction('rw', db.syncQueue, db.syncDeadLetters, async () => {
+        for (const { source, item } of items) {
+            if (source === 'queue') await db.syncQueue.delete(item.id!);
+            else await db.syncDeadLetters.delete(item.id!);
+        }
+    });
+}
+
+// ============================================================================
+// Per-table sync handlers
+// Handlers return true once the item is done (pushed, skipped or parked as a conflict)
+// and throw on failure, so the error message can be stored on the queue item.
+// ============================================================================
+type SyncAction = SyncQueueItem['action'];
+
+const syncFailure = (message: string, detail: any) => {
+    const reason = detail?.message ?? (typeof detail === 'string' ? detail : JSON.stringify(detail));
+    return new Error(reason ? `${message}: ${reason}` : message);
+};
+type ActionHandler = (item: SyncQueueItem) => Promise<boolean>;
+type TableHandler = Record<SyncAction, ActionHandler>;
+
+// Resolves the remote id of the record an update/delete refers to. For deletes the local
+// record is usually gone already, so the enqueuing code is expected to put remoteId in the payload.
+const resolveRemoteId = async (table: SyncedTableName, item: SyncQueueItem): Promise<number | undefined> => {
+    if (item.payload?.remoteId) return item.payload.remoteId;
+    return getRemoteId(table, item.recordId as number);
+};
+
+// Compares the version a queued change was based on with the server's current version.
+// On mismatch the change is parked in the conflict inbox and `true` is returned, so the
+// caller removes it from the queue without pushing it.
+const detectConflict = async (table: SyncedTableName, item: SyncQueueItem, remoteId: number, localData: any): Promise<boolean> => {
+    if (!item.baseVersion) return false;
+
+    const { data: remoteRow, error } = await backend.from(TABLE_MAPPINGS[table].remoteTable).select('*').eq('id', remoteId).maybeSingle();
+    if (error) throw error;
+    if (!remoteRow || !remoteRow.updated_at || remoteRow.updated_at === item.baseVersion) return false;
+
+    const remoteData = await toLocalRecord(table, remoteRow);
+    const conflict: SyncConflict = {
+        table,
+        recordId: item.recordId as number,
+        remoteId,
+        localData,
+        remoteData: remoteData ?? remoteRow,
+        remoteVersion: remoteRow.updated_at,
+        queueItem: item,
+        detectedAt: Date.now(),
+    };
+    await db.syncConflicts.add(conflict);
+    console.warn(`[Sync] Conflict on ${table} ${item.recordId}: based on ${item.baseVersion}, server is at ${remoteRow.updated_at}.`);
+    return true;
+};
+
+const genericCreate = (table: SyncedTableName): ActionHandler => async (item) => {
+    const localRecord = await db.table(table).get(item.recordId);
+    if (!localRecord) {
+        console.warn(`[Sync] ${table} record with local ID ${item.recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localRecord.remoteId) {
+        console.log(`[Sync] ${table} record with local ID ${item.recordId} is already synced. Skipping.`);
+        return true;
+    }
+
+    const row = await toRemoteRecord(table, localRecord, (fkTable, localId) => parentRemoteId(item, fkTable, localId));
+    const { data, error } = await backend.from(TABLE_MAPPINGS[table].remoteTable).insert(row).select('id, updated_at').single();
+    if (error) {
+        throw syncFailure(`Insert into ${TABLE_MAPPINGS[table].remoteTable} for local ID ${item.recordId} failed`, error);
+    }
+
+    await db.table(table).update(item.recordId, { remoteId: data.id, updatedAt: data.updated_at });
+    console.log(`[Sync] Successfully created ${table} ${item.recordId}. New remote ID: ${data.id}`);
+    return true;
+};
+
+const genericUpdate = (table: SyncedTableName): ActionHandler => async (item) => {
+    const remoteId = await resolveRemoteId(table, item);
+    if (!remoteId) {
+        throw new Error(`Cannot update ${table} ${item.recordId}: record has no remoteId yet.`);
+    }
+
+    // The payload holds the changed fields; an empty payload means "push the whole local record".
+    const { remoteId: _ignored, ...changes } = item.payload ?? {};
+    const source = Object.keys(changes).length > 0 ? changes : await db.table(table).get(item.recordId);
+    if (!source) {
+        console.warn(`[Sync] ${table} record with local ID ${item.recordId} not found and no changes in payload. Skipping.`);
+        return true;
+    }
+
+    if (await detectConflict(table, item, remoteId, source)) return true;
+
+    const row = await toRemoteRecord(table, source, (fkTable, localId) => parentRemoteId(item, fkTable, localId));
+    const { data, error } = await backend.from(TABLE_MAPPINGS[table].remoteTable).update(row).eq('id', remoteId).select('updated_at').single();
+    if (error) {
+        throw syncFailure(`Update of ${TABLE_MAPPINGS[table].remoteTable} #${remoteId} failed`, error);
+    }
+    if (data?.updated_at) await db.table(table).update(item.recordId, { updatedAt: data.updated_at });
+    console.log(`[Sync] Successfully updated ${table} ${item.recordId} (remote ID ${remoteId}).`);
+    return true;
+};
+
+const genericDelete = (table: SyncedTableName): ActionHandler => async (item) => {
+    const remoteId = await resolveRemoteId(table, item);
+    if (!remoteId) {
+        // Never reached the server, so there is nothing to delete remotely.
+        console.log(`[Sync] ${table} ${item.recordId} was never synced. Nothing to delete remotely.`);
+        return true;
+    }
+
+    const { error } = await backend.from(TABLE_MAPPINGS[table].remoteTable).delete().eq('id', remoteId);
+    if (error) {
+        throw syncFailure(`Delete of ${TABLE_MAPPINGS[table].remoteTable} #${remoteId} failed`, error);
+    }
+    console.log(`[Sync] Successfully deleted ${table} ${item.recordId} (remote ID ${remoteId}).`);
+    return true;
+};
+
+const genericHandler = (table: SyncedTableName): TableHandler => ({
+    create: genericCreate(table),
+    update: genericUpdate(table),
+    delete: genericDelete(table),
+});
+
+// --- Tables whose writes must go through transactional RPCs ---
+
+const mapSaleItemsForRpc = async (item: SyncQueueItem, items: SaleItem[]) => {
+    const rpcItems = [];
+    for (const localItem of items) {
+        const drugRemoteId = await parentRemoteId(item, 'drugs', localItem.drugId);
+        if (!drugRemoteId) {
+            throw new Error(`Cannot sync sale: Drug "${localItem.name}" with local ID ${localItem.drugId} has no remoteId.`);
+        }
+        rpcItems.push({
+            drug_id: drugRemoteId,
+            name: localItem.name, // FIX: Added missing 'name' field required by the RPC function.
+            quantity: localItem.quantity,
+            unit_price: localItem.unitPrice,
+            list_price: localItem.listPrice ?? null,
+            discount: localItem.discount ?? 0,
+            total_price: localItem.totalPrice,
+            insured_amount: localItem.insuredAmount ?? 0,
+            directions: localItem.directions ?? null,
+        });
+    }
+    return rpcItems;
+};
+
+const mapPurchaseItemsForRpc = async (item: SyncQueueItem, items: { drugId: number; name: string; quantity: number; purchasePrice: number; lotNumber: string; expiryDate: string }[]) => {
+    const rpcItems = [];
+    for (const localItem of items) {
+        const drugRemoteId = await parentRemoteId(item, 'drugs', localItem.drugId);
+        if (!drugRemoteId) {
+            throw new Error(`Cannot sync purchase: Drug "${localItem.name}" with local ID ${localItem.drugId} has no remoteId.`);
+        }
+        rpcItems.push({
+            drug_id: drugRemoteId,
+            name: localItem.name,
+            quantity: localItem.quantity,
+            purchase_price: localItem.purchasePrice,
+            lot_number: localItem.lotNumber,
+            expiry_date: localItem.expiryDate,
+        });
+    }
+    return rpcItems;
+};
+
+const syncSaleInvoiceCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localInvoice = await db.saleInvoices.get(recordId as number);
+    if (!localInvoice) {
+        console.warn(`[Sync] SaleInvoice with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true; 
+    }
+    if (localInvoice.remoteId) {
+        console.log(`[Sync] SaleInvoice with local ID ${recordId} is already synced. Skipping.`);
+        return true;
+    }
+    
+    const customerRemoteId = localInvoice.customerId ? await parentRemoteId(item, 'customers', localInvoice.customerId) : null;
+    if (localInvoice.customerId && !customerRemoteId) {
+        throw new Error(`Cannot sync sale: Customer with local ID ${localInvoice.customerId} has no remoteId.`);
+    }
+    const prescriptionRemoteId = localInvoice.prescriptionId ? await parentRemoteId(item, 'prescriptions', localInvoice.prescriptionId) : null;
+    if (localInvoice.prescriptionId && !prescriptionRemoteId) {
+        throw new Error(`Cannot sync sale: Prescription with local ID ${localInvoice.prescriptionId} has no remoteId.`);
+    }
+    const shiftRemoteId = localInvoice.shiftId ? await parentRemoteId(item, 'shifts', localInvoice.shiftId) : null;
+    if (localInvoice.shiftId && !shiftRemoteId) {
+        throw new Error(`Cannot sync sale: Shift with local ID ${localInvoice.shiftId} has no remoteId.`);
+    }
+    const insurerRemoteId = localInvoice.insurerId ? await parentRemoteId(item, 'insurers', localInvoice.insurerId) : null;
+    if (localInvoice.insurerId && !insurerRemoteId) {
+        throw new Error(`Cannot sync sale: Insurer with local ID ${localInvoice.insurerId} has no remoteId.`);
+    }
+
+    // Construct payload for the atomic RPC function
+    const rpcPayload = {
+        p_items: await mapSaleItemsForRpc(item, localInvoice.items),
+        p_total_amount: localInvoice.totalAmount,
+        p_date: localInvoice.date, // Pass the original date from the offline invoice
+        p_customer_id: customerRemoteId,
+        p_amount_paid: localInvoice.amountPaid ?? localInvoice.totalAmount,
+        p_prescription_id: prescriptionRemoteId,
+        p_controlled_dispensing: localInvoice.controlledDispensing ?? null,
+        p_tenders: localInvoice.tenders ?? null,
+        p_change_due: localInvoice.changeDue ?? 0,
+        p_shift_id: shiftRemoteId,
+        p_discount: localInvoice.discount ?? 0,
+        p_discount_approved_by: localInvoice.discountApprovedBy ?? null,
+        p_insurer_id: insurerRemoteId,
+        p_insurance_member_id: localInvoice.insuranceMemberId ?? null,
+        p_insurer_share: localInvoice.insurerShare ?? 0,
+    };
+
+    // FIX: The RPC function expects a single JSONB argument named 'p_payload'.
+    // The entire payload must be wrapped in an object with that key.
+    const { data, error } = await backend.rpc('create_sale_invoice_transaction', { p_payload: rpcPayload });
+
+    if (error) {
+        throw syncFailure(`RPC call for SaleInvoice ${recordId} failed`, error);
+    }
+    
+    if (data && data.success) {
+        // Update local record with its new remote ID to prevent re-syncing
+        await db.saleInvoices.update(recordId as number, { remoteId: data.new_invoice_id });
+        console.log(`[Sync] Successfully synced SaleInvoice ${recordId} via RPC. New remote ID: ${data.new_invoice_id}`);
+        return true; // Success, item will be removed from queue
+    } else {
+        throw syncFailure(`RPC call for SaleInvoice ${recordId} returned failure`, data?.message);
+    }
+};
+
+const syncSaleInvoiceUpdate: ActionHandler = async (item) => {
+    const localInvoice = await db.saleInvoices.get(item.recordId as number);
+    const remoteId = await resolveRemoteId('saleInvoices', item);
+    if (!localInvoice || !remoteId) {
+        throw new Error(`Cannot update SaleInvoice ${item.recordId}: missing local record or remoteId.`);
+    }
+    if (await detectConflict('saleInvoices', item, remoteId, localInvoice)) return true;
+
+    const { data, error } = await backend.rpc('update_sale_invoice_transaction', {
+        p_invoice_id: remoteId,
+        p_new_items: await mapSaleItemsForRpc(item, localInvoice.items),
+    });
+    // The function returns a TABLE, so data is an array.
+    if (error || !data || data.length === 0 || !data[0].success) {
+        throw syncFailure(`RPC update for SaleInvoice ${item.recordId} failed`, error || data?.[0]?.message);
+    }
+    return true;
+};
+
+// The server puts the stock back using its own copy of the sale's deductions.
+const syncSaleReturnCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localReturn = await db.saleReturns.get(recordId as number);
+    if (!localReturn) {
+        console.warn(`[Sync] SaleReturn with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localReturn.remoteId) return true;
+
+    const invoiceRemoteId = await parentRemoteId(item, 'saleInvoices', localReturn.saleInvoiceId);
+    if (!invoiceRemoteId) {
+        throw new Error(`Cannot sync sale return: SaleInvoice with local ID ${localReturn.saleInvoiceId} has no remoteId.`);
+    }
+    const shiftRemoteId = localReturn.shiftId ? await parentRemoteId(item, 'shifts', localReturn.shiftId) : null;
+    if (localReturn.shiftId && !shiftRemoteId) {
+        throw new Error(`Cannot sync sale return: Shift with local ID ${localReturn.shiftId} has no remoteId.`);
+    }
+    const items = [];
+    for (const localItem of localReturn.items) {
+        const drugRemoteId = await parentRemoteId(item, 'drugs', localItem.drugId);
+        if (!drugRemoteId) {
+            throw new Error(`Cannot sync sale return: Drug "${localItem.name}" with local ID ${localItem.drugId} has no remoteId.`);
+        }
+        items.push({ line_index: localItem.lineIndex, drug_id: drugRemoteId, name: localItem.name, quantity: localItem.quantity, unit_price: localItem.unitPrice, condition: localItem.condition });
+    }
+
+    const { data, error } = await backend.rpc('create_sale_return_transaction', {
+        p_payload: {
+            p_sale_invoice_id: invoiceRemoteId,
+            p_items: items,
+            p_date: localReturn.date,
+            p_refund_method: localReturn.refundMethod,
+            p_reason: localReturn.reason ?? null,
+            p_shift_id: shiftRemoteId,
+        },
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for SaleReturn ${recordId} failed`, error || data?.message);
+    }
+    await db.saleReturns.update(recordId as number, { remoteId: data.new_return_id });
+    return true;
+};
+
+const syncPurchaseReturnCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localReturn = await db.purchaseReturns.get(recordId as number);
+    if (!localReturn) {
+        console.warn(`[Sync] PurchaseReturn with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localReturn.remoteId) return true;
+
+    const invoiceRemoteId = await parentRemoteId(item, 'purchaseInvoices', localReturn.purchaseInvoiceId);
+    if (!invoiceRemoteId) {
+        throw new Error(`Cannot sync purchase return: PurchaseInvoice with local ID ${localReturn.purchaseInvoiceId} has no remoteId.`);
+    }
+
+    const { data, error } = await backend.rpc('create_purchase_return_transaction', {
+        p_payload: {
+            p_purchase_invoice_id: invoiceRemoteId,
+            p_items: await mapPurchaseItemsForRpc(item, localReturn.items),
+            p_date: localReturn.date,
+            p_reason: localReturn.reason ?? null,
+            p_from_quarantine: localReturn.fromQuarantine ?? false,
+        },
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for PurchaseReturn ${recordId} failed`, error || data?.message);
+    }
+    await db.purchaseReturns.update(recordId as number, { remoteId: data.new_return_id });
+    return true;
+};
+
+const syncPurchaseInvoiceCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localInvoice = await db.purchaseInvoices.get(recordId as number);
+    if (!localInvoice) {
+        console.warn(`[Sync] PurchaseInvoice with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localInvoice.remoteId) return true;
+
+    const supplierRemoteId = await parentRemoteId(item, 'suppliers', localInvoice.supplierId);
+    if (!supplierRemoteId) {
+        throw new Error(`Cannot sync purchase: Supplier with local ID ${localInvoice.supplierId} has no remoteId.`);
+    }
+
+    const payload = {
+        invoice_number: localInvoice.invoiceNumber,
+        supplier_id: supplierRemoteId,
+        date: localInvoice.date,
+        total_amount: localInvoice.totalAmount,
+        items: await mapPurchaseItemsForRpc(item, localInvoice.items),
+    };
+    const { data, error } = await backend.rpc('create_purchase_invoice_transaction', { p_payload: payload });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for PurchaseInvoice ${recordId} failed`, error || data?.message);
+    }
+
+    await db.purchaseInvoices.update(recordId as number, { remoteId: data.new_invoice_id });
+    await linkProvisionalBatches(payload.items);
+    return true;
+};
+
+// Batches received offline exist only locally until the invoice RPC creates them on the server.
+// They are linked to the server rows here, otherwise the next pull would add a duplicate lot.
+const linkProvisionalBatches = async (items: { drug_id: number; lot_number: string }[]) => {
+    for (const rpcItem of items) {
+        const localDrugId = await getLocalId('drugs', rpcItem.drug_id);
+        if (!localDrugId) continue;
+        const localBatch = await db.drugBatches.where('[drugId+lotNumber]').equals([localDrugId, rpcItem.lot_number]).first();
+        if (!localBatch || localBatch.remoteId) continue;
+
+        const { data, error } = await backend.from('drug_batches').select('id').eq('drug_id', rpcItem.drug_id).eq('lot_number', rpcItem.lot_number).maybeSingle();
+        if (error || !data) {
+            console.warn(`[Sync] Could not link local batch ${localBatch.id} to its server row.`, error);
+            continue;
+        }
+        await db.drugBatches.update(localBatch.id!, { remoteId: data.id });
+    }
+};
+
+const syncPurchaseInvoiceUpdate: ActionHandler = async (item) => {
+    const localInvoice = await db.purchaseInvoices.get(item.recordId as number);
+    const remoteId = await resolveRemoteId('purchaseInvoices', item);
+    if (!localInvoice || !remoteId) {
+        throw new Error(`Cannot update PurchaseInvoice ${item.recordId}: missing local record or remoteId.`);
+    }
+    if (await detectConflict('purchaseInvoices', item, remoteId, localInvoice)) return true;
+
+    const supplierRemoteId = await parentRemoteId(item, 'suppliers', localInvoice.supplierId);
+    if (!supplierRemoteId) {
+        throw new Error(`Cannot sync purchase: Supplier with local ID ${localInvoice.supplierId} has no remoteId.`);
+    }
+
+    const { data, error } = await backend.rpc('update_purchase_invoice_transaction', {
+        p_invoice_id: remoteId,
+        p_new_supplier_id: supplierRemoteId,
+        p_new_invoice_number: localInvoice.invoiceNumber,
+        p_new_date: localInvoice.date,
+        p_new_items: await mapPurchaseItemsForRpc(item, localInvoice.items),
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC update for PurchaseInvoice ${item.recordId} failed`, error || data?.message);
+    }
+    return true;
+};
+
+const syncPaymentCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localPayment = await db.payments.get(recordId as number);
+    if (!localPayment) {
+        console.warn(`[Sync] Payment with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localPayment.remoteId) return true;
+
+    const supplierRemoteId = await parentRemoteId(item, 'suppliers', localPayment.supplierId);
+    if (!supplierRemoteId) {
+        throw new Error(`Cannot sync payment: Supplier with local ID ${localPayment.supplierId} has no remoteId.`);
+    }
+    const shiftRemoteId = localPayment.shiftId ? await parentRemoteId(item, 'shifts', localPayment.shiftId) : null;
+    if (localPayment.shiftId && !shiftRemoteId) {
+        throw new Error(`Cannot sync payment: Shift with local ID ${localPayment.shiftId} has no remoteId.`);
+    }
+
+    const { data, error } = await backend.rpc('create_supplier_payment_transaction', {
+        p_supplier_id_remote: supplierRemoteId,
+        p_amount: localPayment.amount,
+        p_recipient_name: localPayment.recipientName,
+        p_description: localPayment.description,
+        p_shift_id: shiftRemoteId,
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for Payment ${recordId} failed`, error || data?.message);
+    }
+
+    await db.payments.update(recordId as number, { remoteId: data.new_payment.id });
+    return true;
+};
+
+const syncCustomerPaymentCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localPayment = await db.customerPayments.get(recordId as number);
+    if (!localPayment) {
+        console.warn(`[Sync] CustomerPayment with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localPayment.remoteId) return true;
+
+    const customerRemoteId = await parentRemoteId(item, 'customers', localPayment.customerId);
+    if (!customerRemoteId) {
+        throw new Error(`Cannot sync customer payment: Customer with local ID ${localPayment.customerId} has no remoteId.`);
+    }
+    const shiftRemoteId = localPayment.shiftId ? await parentRemoteId(item, 'shifts', localPayment.shiftId) : null;
+    if (localPayment.shiftId && !shiftRemoteId) {
+        throw new Error(`Cannot sync customer payment: Shift with local ID ${localPayment.shiftId} has no remoteId.`);
+    }
+
+    const { data, error } = await backend.rpc('create_customer_payment_transaction', {
+        p_customer_id_remote: customerRemoteId,
+        p_amount: localPayment.amount,
+        p_description: localPayment.description,
+        p_date: localPayment.date,
+        p_shift_id: shiftRemoteId,
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for CustomerPayment ${recordId} failed`, error || data?.message);
+    }
+
+    await db.customerPayments.update(recordId as number, { remoteId: data.new_payment.id });
+    return true;
+};
+
+const syncClinicTransactionCreate: ActionHandler = async (item) => {
+    const { recordId } = item;
+    const localTx = await db.clinicTransactions.get(recordId as number);
+    if (!localTx) {
+        console.warn(`[Sync] ClinicTransaction with local ID ${recordId} not found. Assuming already processed. Skipping.`);
+        return true;
+    }
+    if (localTx.remoteId) return true;
+
+    const serviceRemoteId = await parentRemoteId(item, 'clinicServices', localTx.serviceId);
+    if (!serviceRemoteId) {
+        throw new Error(`Cannot sync clinic transaction: Service with local ID ${localTx.serviceId} has no remoteId.`);
+    }
+    const providerRemoteId = localTx.providerId ? await parentRemoteId(item, 'serviceProviders', localTx.providerId) : null;
+    if (localTx.providerId && !providerRemoteId) {
+        throw new Error(`Cannot sync clinic transaction: Provider with local ID ${localTx.providerId} has no remoteId.`);
+    }
+
+    const customerRemoteId = localTx.customerId ? await parentRemoteId(item, 'customers', localTx.customerId) : null;
+    if (localTx.customerId && !customerRemoteId) {
+        throw new Error(`Cannot sync clinic transaction: Customer with local ID ${localTx.customerId} has no remoteId.`);
+    }
+    const shiftRemoteId = localTx.shiftId ? await parentRemoteId(item, 'shifts', localTx.shiftId) : null;
+    if (localTx.shiftId && !shiftRemoteId) {
+        throw new Error(`Cannot sync clinic transaction: Shift with local ID ${localTx.shiftId} has no remoteId.`);
+    }
+
+    const { data, error } = await backend.rpc('create_clinic_transaction', {
+        p_service_id_remote: serviceRemoteId,
+        p_provider_id_remote: providerRemoteId,
+        p_customer_id_remote: customerRemoteId,
+        p_patient_name: localTx.patientName ?? '',
+        p_amount: localTx.amount,
+        p_shift_id: shiftRemoteId,
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for ClinicTransaction ${recordId} failed`, error || data?.message);
+    }
+
+    // The server assigns the authoritative ticket number.
+    await db.clinicTransactions.update(recordId as number, {
+        remoteId: data.new_transaction.id,
+        ticketNumber: data.new_transaction.ticket_number,
+    });
+    return true;
+};
+
+// Users and supplier accounts carry credentials, so they go through their RPCs.
+// Passwords are never stored locally; the enqueuing code must put them in the payload.
+const syncUserCreate: ActionHandler = async (item) => {
+    const { recordId, payload } = item;
+    const localUser = await db.users.get(recordId as number);
+    if (!localUser) return true;
+    if (localUser.remoteId) return true;
+
+    const roleRemoteId = await parentRemoteId(item, 'roles', localUser.roleId);
+    if (!roleRemoteId) throw new Error(`Cannot sync user: Role with local ID ${localUser.roleId} has no remoteId.`);
+
+    const { data, error } = await backend.rpc('create_new_user', {
+        p_username: localUser.username,
+        p_password: payload?.password ?? '',
+        p_role_id: roleRemoteId,
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for User ${recordId} failed`, error || data?.message);
+    }
+    await db.users.update(recordId as number, { remoteId: data.new_user_id });
+    return true;
+};
+
+const syncUserUpdate: ActionHandler = async (item) => {
+    const localUser = await db.users.get(item.recordId as number);
+    const remoteId = await resolveRemoteId('users', item);
+    if (!localUser || !remoteId) throw new Error(`Cannot update User ${item.recordId}: missing local record or remoteId.`);
+    if (await detectConflict('users', item, remoteId, localUser)) return true;
+
+    const roleRemoteId = await parentRemoteId(item, 'roles', localUser.roleId);
+    if (!roleRemoteId) throw new Error(`Cannot sync user: Role with local ID ${localUser.roleId} has no remoteId.`);
+
+    const { data, error } = await backend.rpc('admin_update_user', {
+        p_user_id: remoteId,
+        p_username: localUser.username,
+        p_role_id: roleRemoteId,
+        p_new_password: item.payload?.password ?? '',
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC update for User ${item.recordId} failed`, error || data?.message);
+    }
+    return true;
+};
+
+const syncUserDelete: ActionHandler = async (item) => {
+    const remoteId = await resolveRemoteId('users', item);
+    if (!remoteId) return true;
+    const { error } = await backend.rpc('delete_user', { p_user_id: remoteId });
+    if (error) {
+        throw syncFailure(`RPC delete for User ${item.recordId} failed`, error);
+    }
+    return true;
+};
+
+const syncSupplierAccountUpsert: ActionHandler = async (item) => {
+    const { recordId, payload } = item;
+    const localAccount = await db.supplierAccounts.get(recordId as number);
+    if (!localAccount) return true;
+
+    const supplierRemoteId = await parentRemoteId(item, 'suppliers', localAccount.supplierId);
+    if (!supplierRemoteId) throw new Error(`Cannot sync supplier account: Supplier with local ID ${localAccount.supplierId} has no remoteId.`);
+
+    const { data, error } = await backend.rpc('create_or_update_supplier_account', {
+        p_supplier_id: supplierRemoteId,
+        p_username: localAccount.username,
+        p_password: payload?.password ?? '',
+    });
+    if (error || !data?.success) {
+        throw syncFailure(`RPC call for SupplierAccount ${recordId} failed`, error || data?.message);
+    }
+    if (data.remote_id) await db.supplierAccounts.update(recordId as number, { remoteId: data.remote_id });
+    return true;
+};
+
+const syncSupplierAccountDelete: ActionHandler = async (item) => {
+    const { recordId, payload } = item;
+    // The RPC is keyed by the supplier, so the payload must carry the supplier's remote id.
+    const supplierRemoteId = payload?.supplierRemoteId;
+    if (!supplierRemoteId) {
+        console.warn(`[Sync] SupplierAccount delete ${recordId} has no supplierRemoteId in payload. Skipping.`);
+        return true;
+    }
+    const { error } = await backend.rpc('delete_supplier_account', { p_supplier_id: supplierRemoteId });
+    if (error) {
+        throw syncFailure(`RPC delete for SupplierAccount ${recordId} failed`, error);
+    }
+    return true;
+};
+
+const TABLE_HANDLERS: Record<SyncedTableName, TableHandler> = {
+    roles: genericHandler('roles'),
+    users: { create: syncUserCreate, update: syncUserUpdate, delete: syncUserDelete },
+    supplierAccounts: { create: syncSupplierAccountUpsert, update: syncSupplierAccountUpsert, delete: syncSupplierAccountDelete },
+    drugs: genericHandler('drugs'),
+    drugBatches: genericHandler('drugBatches'),
+    suppliers: genericHandler('suppliers'),
+    purchaseInvoices: { ...genericHandler('purchaseInvoices'), create: syncPurchaseInvoiceCreate, update: syncPurchaseInvoiceUpdate },
+    saleInvoices: { ...genericHandler('saleInvoices'), create: syncSaleInvoiceCreate, update: syncSaleInvoiceUpdate },
+    payments: { ...genericHandler('payments'), create: syncPaymentCreate },
+    clinicServices: genericHandler('clinicServices'),
+    serviceProviders: genericHandler('serviceProviders'),
+    clinicTransactions: { ...genericHandler('clinicTransactions'), create: syncClinicTransactionCreate },
+    simpleAccountingColumns: genericHandler('simpleAccountingColumns'),
+    simpleAccountingEntries: genericHandler('simpleAccountingEntries'),
+    customers: genericHandler('customers'),
+    customerPayments: { ...genericHandler('customerPayments'), create: syncCustomerPaymentCreate },
+    prescriptions: genericHandler('prescriptions'),
+    saleReturns: { ...genericHandler('saleReturns'), create: syncSaleReturnCreate },
+    purchaseReturns: { ...genericHandler('purchaseReturns'), create: syncPurchaseReturnCreate },
+    shifts: genericHandler('shifts'),
+    insurers: genericHandler('insurers'),
+    insuranceClaims: genericHandler('insuranceClaims'),
+    stocktakes: genericHandler('stocktakes'),
+    stockMovements: genericHandler('stockMovements'),
+    stockWriteOffs: genericHandler('stockWriteOffs'),
+    purchaseOrders: genericHandler('purchaseOrders'),
+};
+
 async function handleSyncItem(item: SyncQueueItem): Promise<boolean> {
     const { table, action, recordId } = item;
     
     console.log(`[Sync] Processing: ${action.toUpperCase()} on table '${table}' with local ID ${recordId}`);
 
-    try {
-        if (action === 'create' && table === 'saleInvoices') {
-            const localInvoice = await db.saleInvoices.get(recordId as number);
-            if (!localInvoice) {
-                console.warn(`[Sync] SaleInvoice with local ID ${recordId} not found. Assuming already processed. Skipping.`);
-                return true; 
-            }
-            if (localInvoice.remoteId) {
-                console.log(`[Sync] SaleInvoice with local ID ${recordId} is already synced. Skipping.`);
-                return true;
-            }
-            
-            // Construct payload for the atomic RPC function
-            const rpcPayloadItems = [];
-            for (const localItem of localInvoice.items) {
-                const drug = await db.drugs.get(localItem.drugId);
-                if (!drug || !drug.remoteId) {
-                    throw new Error(`Cannot sync sale: Drug "${localItem.name}" with local ID ${localItem.drugId} has no remoteId.`);
-                }
-                rpcPayloadItems.push({
-                    drug_id: drug.remoteId,
-                    name: localItem.name, // FIX: Added missing 'name' field required by the RPC function.
-                    quantity: localItem.quantity,
-                    unit_price: localItem.unitPrice,
-                });
-            }
+    if (!isSyncedTable(table)) {
+        // Keep unknown items in the queue instead of silently dropping local changes.
+        throw new Error(`No sync handler registered for table '${table}'.`);
+    }
 
-            const rpcPayload = {
-                p_items: rpcPayloadItems,
-                p_total_amount: localInvoice.totalAmount,
-                p_date: localInvoice.date, // Pass the original date from the offline invoice
-            };
+    return TABLE_HANDLERS[table][action](item);
+}
 
-            // FIX: The RPC function expects a single JSONB argument named 'p_payload'.
-            // The entire payload must be wrapped in an object with that key.
-            const { data, error } = await supabase.rpc('create_sale_invoice_transaction', { p_payload: rpcPayload });
+// ============================================================================
+// Conflict resolution
+// ============================================================================
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
 
+/**
+ * Resolves a conflict from the inbox.
+ * - mine: re-queues the local change against the server's current version (overwrites the server).
+ * - theirs: applies the server record locally and drops the local change.
+ * - merge: `fieldChoices` picks per field which side wins; the merged record is applied locally and pushed.
+ */
+export async function resolveConflict(conflictId: number, resolution: ConflictResolution, fieldChoices: Record<string, 'mine' | 'theirs'> = {}) {
+    const conflict = await db.syncConflicts.get(conflictId);
+    if (!conflict || !isSyncedTable(conflict.table)) return;
+    const table = conflict.table;
+    const { id: _remoteLocalId, remoteId: _remoteId, updatedAt: _updatedAt, ...remoteFields } = conflict.remoteData ?? {};
 
-            if (error) {
-                console.error(`[Sync Error] RPC call for SaleInvoice ${recordId} failed:`, error);
-                return false; // Keep item in queue
-            }
-            
-            if (data && data.success) {
-                // Update local record with its new remote ID to prevent re-syncing
-                await db.saleInvoices.update(recordId as number, { remoteId: data.new_invoice_id });
-                console.log(`[Sync] Successfully synced SaleInvoice ${recordId} via RPC. New remote ID: ${data.new_invoice_id}`);
-                return true; // Success, item will be removed from queue
-            } else {
-                console.error(`[Sync Error] RPC call for SaleInvoice ${recordId} returned failure:`, data?.message);
-                return false; // Keep item in queue
+    await db.transaction('rw', db.table(table), db.syncQueue, db.syncConflicts, async () => {
+        if (resolution === 'theirs') {
+            await db.table(table).update(conflict.recordId, { ...remoteFields, updatedAt: conflict.remoteVersion });
+        } else {
+            let changes = conflict.localData;
+            if (resolution === 'merge') {
+                changes = { ...conflict.localData };
+                for (const [field, choice] of Object.entries(fieldChoices)) {
+                    if (choice === 'theirs') changes[field] = remoteFields[field];
+                }
+                await db.table(table).update(conflict.recordId, changes);
             }
+            await db.table(table).update(conflict.recordId, { updatedAt: conflict.remoteVersion });
+            const { id: _queueId, ...queueItem } = conflict.queueItem;
+            // Invoice RPC handlers push the whole local record, so only generic tables take a field payload.
+            const payload = table === 'saleInvoices' || table === 'purchaseInvoices' || table === 'users' ? queueItem.payload : changes;
+            await db.syncQueue.add({ ...queueItem, payload, baseVersion: conflict.remoteVersion, timestamp: Date.now() });
         }
-        // Other sync actions for other tables would go here...
-
-    } catch (e) {
-        console.error(`[Sync] Unhandled exception in handleSyncItem for item ${item.id}:`, e);
-        return false;
-    }
-    
-    // If the item type is not handled, consider it successful to prevent getting stuck
-    console.warn(`[Sync] Unhandled sync item type: ${table}. Marking as successful.`);
-    return true;
-}
\ No newline at end of file
+        await db.syncConflicts.delete(conflictId);
+    });
+}
@@ -0,0 +1,115 @@
+import { SaleInvoice, SaleReturn, Tender, TenderType } from '../types';
+
+// ============================================================================
+// Tenders: how a sale was settled at the counter.
+// Amounts are what each tender contributed to the invoice total, so they always
+// add up to it. Cash handed over beyond that is the change and is kept apart.
+// 'credit' goes to the customer's debt; 'insurance' is the share the insurer owes.
+// ============================================================================
+
+export const TENDER_TYPES: TenderType[] = ['cash', 'card', 'mobile', 'credit', 'insurance'];
+
+export const TENDER_LABELS: Record<TenderType, string> = {
+    cash: 'نقد',
+    card: 'کارت بانکی',
+    mobile: 'کیف پول موبایلی',
+    credit: 'نسیه (حساب مشتری)',
+    insurance: 'سهم بیمه',
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface Settlement {
+    tenders: Tender[];
+    changeDue: number;
+    remaining: number; // Still to be paid; negative when non-cash tenders exceed the total
+}
+
+/**
+ * Turns what was handed over into the tenders stored on the invoice. Only cash can
+ * be overpaid; the excess becomes the change due.
+ */
+export function settle(totalAmount: number, tendered: Tender[]): Settlement {
+    const lines = tendered.filter(t => t.amount > 0);
+    const nonCash = lines.filter(t => t.type !== 'cash').reduce((sum, t) => sum + t.amount, 0);
+    const cash = lines.filter(t => t.type === 'cash').reduce((sum, t) => sum + t.amount, 0);
+    const cashApplied = Math.min(cash, Math.max(totalAmount - nonCash, 0));
+
+    const tenders: Tender[] = lines.filter(t => t.type !== 'cash').map(t => ({ ...t, amount: round(t.amount) }));
+    if (cashApplied > 0) tenders.unshift({ type: 'cash', amount: round(cashApplied) });
+    return {
+        tenders,
+        changeDue: round(cash - cashApplied),
+        remaining: round(totalAmount - nonCash - cashApplied),
+    };
+}
+
+/** The part of the invoice that was not put on the customer's account. */
+export const amountPaidFromTenders = (totalAmount: number, tenders: Tender[]) =>
+    round(totalAmount - tenders.filter(t => t.type === 'credit').reduce((sum, t) => sum + t.amount, 0));
+
+/** Tenders of an invoice. Invoices from before split payments count as cash plus credit. */
+export function invoiceTenders(invoice: Pick<SaleInvoice, 'totalAmount' | 'amountPaid' | 'tenders'>): Tender[] {
+    if (invoice.tenders) return invoice.tenders;
+    const paid = invoice.amountPaid ?? invoice.totalAmount;
+    const tenders: Tender[] = [];
+    if (paid > 0) tenders.push({ type: 'cash', amount: paid });
+    if (invoice.totalAmount - paid > 0) tenders.push({ type: 'credit', amount: round(invoice.totalAmount - paid) });
+    return tenders;
+}
+
+/**
+ * Fits the tenders to an edited total. What was paid at the counter stays the same,
+ * so the difference moves the credit; if the total drops below the amount paid, the
+ * surplus is taken off cash first and then off the other tenders.
+ */
+export function rebalanceTenders(invoice: Pick<SaleInvoice, 'totalAmount' | 'amountPaid' | 'tenders'>, newTotal: number): Tender[] {
+    const paid = invoice.amountPaid ?? invoice.totalAmount;
+    const credit = round(Math.max(newTotal - paid, 0));
+    let surplus = round(Math.max(paid - newTotal, 0));
+    const paidTenders = invoiceTenders(invoice)
+        .filter(t => t.type !== 'credit')
+        .sort((a, b) => Number(b.type === 'cash') - Number(a.type === 'cash'))
+        .map(t => {
+            const cut = Math.min(t.amount, surplus);
+            surplus = round(surplus - cut);
+            return { ...t, amount: round(t.amount - cut) };
+        })
+        .filter(t => t.amount > 0);
+    return credit > 0 ? [...paidTenders, { type: 'credit', amount: credit }] : paidTenders;
+}
+
+export interface DailyTenderTotals {
+    day: string; // yyyy-mm-dd, local time
+    totals: Record<TenderType, number>;
+    cashRefunds: number;
+    netCash: number; // Cash that should be in the drawer for the day
+}
+
+const dayKey = (date: string) => {
+    const d = new Date(date);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+/** Per-day totals of every tender, newest day first. Cash refunds of sale returns come out of the drawer. */
+export function dailyTenderTotals(invoices: SaleInvoice[], returns: SaleReturn[], range: { start: Date; end: Date }): DailyTenderTotals[] {
+    const inRange = (date: string) => new Date(date) >= range.start && new Date(date) <= range.end;
+    const days = new Map<string, DailyTenderTotals>();
+    const getDay = (date: string) => {
+        const key = dayKey(date);
+        if (!days.has(key)) {
+            days.set(key, { day: key, totals: { cash: 0, card: 0, mobile: 0, credit: 0, insurance: 0 }, cashRefunds: 0, netCash: 0 });
+        }
+        return days.get(key)!;
+    };
+
+    for (const invoice of invoices.filter(inv => inRange(inv.date))) {
+        const day = getDay(invoice.date);
+        for (const tender of invoiceTenders(invoice)) day.totals[tender.type] += Number(tender.amount) || 0;
+    }
+    for (const saleReturn of returns.filter(r => inRange(r.date) && r.refundMethod === 'cash')) {
+        getDay(saleReturn.date).cashRefunds += Number(saleReturn.totalAmount) || 0;
+    }
+    for (const day of days.values()) day.netCash = day.totals.cash - day.cashRefunds;
+    return [...days.values()].sort((a, b) => b.day.localeCompare(a.day));
+}
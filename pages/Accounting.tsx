@@ -1,19 +1,30 @@
 import React, { useState, useMemo, FormEvent, useEffect, useCallback } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { Supplier, Payment, PurchaseInvoice, ClinicService, ServiceProvider, ClinicTransaction, SimpleAccountingColumn, SimpleAccountingEntry } from '../types';
+import { Supplier, Payment, PurchaseInvoice, ClinicService, ServiceProvider, ClinicTransaction, SimpleAccountingColumn, SimpleAccountingEntry, Customer, CustomerPayment, Insurer, InsuranceClaim } from '../types';
 import Modal from '../components/Modal';
-import { Plus, Printer, Eye, Truck, Stethoscope, BookOpen, Edit, Trash2, Columns, FilePlus, Users, Save, Filter, XCircle } from 'lucide-react';
+import { Plus, Printer, Eye, Truck, Stethoscope, BookOpen, Edit, Trash2, Columns, FilePlus, Users, Save, Filter, XCircle, Contact, History, ShieldCheck, FileText, Download, CheckCircle } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { useCurrentShift } from '../hooks/useCurrentShift';
 import PrintablePaymentReceipt from '../components/PrintablePaymentReceipt';
 import PrintableSupplierLedger, { Transaction } from '../components/PrintableSupplierLedger';
 import PrintableClinicTicket from '../components/PrintableClinicTicket';
 import EditClinicTransactionModal from '../components/EditClinicTransactionModal';
+import PrintableCustomerLedger from '../components/PrintableCustomerLedger';
+import PrintableCustomerPaymentReceipt from '../components/PrintableCustomerPaymentReceipt';
+import CustomerFormModal from '../components/CustomerFormModal';
+import CustomerPicker from '../components/CustomerPicker';
+import InsurerFormModal from '../components/InsurerFormModal';
+import PrintableInsuranceClaim from '../components/PrintableInsuranceClaim';
+import { toRemoteRecord } from '../lib/syncMappers';
+import { buildClaimLines, claimToCsv, insurerBalances, InsurerBalance, periodOf } from '../lib/insurance';
 import { parseJalaliDate } from '../lib/dateConverter';
+import { DEFAULT_LEAD_TIME_DAYS } from '../lib/reorder';
 
 
 const TabButton: React.FC<{ active: boolean; onClick: () => void; icon: React.ReactNode; text: string }> = ({ active, onClick, icon, text }) => (
@@ -28,17 +39,21 @@ const TabButton: React.FC<{ active: boolean; onClick: () => void; icon: React.Re
     </button>
 );
 
+type AccountingTab = 'suppliers' | 'customers' | 'insurers' | 'clinic' | 'simple';
+
 const Accounting: React.FC = () => {
     const { hasPermission } = useAuth();
     const availableTabs = useMemo(() => {
-        const tabs: ('suppliers' | 'clinic' | 'simple')[] = [];
+        const tabs: AccountingTab[] = [];
         if (hasPermission('accounting:suppliers:manage')) tabs.push('suppliers');
+        if (hasPermission('accounting:customers:manage')) tabs.push('customers');
+        if (hasPermission('accounting:insurers:manage')) tabs.push('insurers');
         if (hasPermission('accounting:clinic:manage')) tabs.push('clinic');
         if (hasPermission('accounting:simple:manage')) tabs.push('simple');
         return tabs;
     }, [hasPermission]);
 
-    const [activeTab, setActiveTab] = useState<('suppliers' | 'clinic' | 'simple') | null>(availableTabs[0] || null);
+    const [activeTab, setActiveTab] = useState<AccountingTab | null>(availableTabs[0] || null);
 
     return (
         <div className="space-y-6">
@@ -46,11 +61,15 @@ const Accounting: React.FC = () => {
                 <h2 className="text-3xl font-bold text-white">حسابداری</h2>
                 <div className="flex items-center gap-3 p-1 bg-gray-800 rounded-lg">
                     {availableTabs.includes('suppliers') && <TabButton active={activeTab === 'suppliers'} onClick={() => setActiveTab('suppliers')} icon={<Truck size={18} />} text="حسابات تامین‌کنندگان" />}
+                    {availableTabs.includes('customers') && <TabButton active={activeTab === 'customers'} onClick={() => setActiveTab('customers')} icon={<Contact size={18} />} text="حسابات مشتریان" />}
+                    {availableTabs.includes('insurers') && <TabButton active={activeTab === 'insurers'} onClick={() => setActiveTab('insurers')} icon={<ShieldCheck size={18} />} text="بیمه‌ها" />}
                     {availableTabs.includes('clinic') && <TabButton active={activeTab === 'clinic'} onClick={() => setActiveTab('clinic')} icon={<Stethoscope size={18} />} text="صندوق کلینیک" />}
                     {availableTabs.includes('simple') && <TabButton active={activeTab === 'simple'} onClick={() => setActiveTab('simple')} icon={<BookOpen size={18} />} text="حسابداری ساده" />}
                 </div>
             </div>
             {activeTab === 'suppliers' && <SupplierAccounts />}
+            {activeTab === 'customers' && <CustomerAccounts />}
+            {activeTab === 'insurers' && <InsurerAccounts />}
             {activeTab === 'clinic' && <ClinicFund />}
             {activeTab === 'simple' && <SimpleAccountingView />}
             {activeTab === null && <div className="text-center text-gray-500 py-10">شما به هیچ بخشی از حسابداری دسترسی ندارید.</div>}
@@ -65,6 +84,7 @@ const SupplierFormModal: React.FC<{ supplier: Supplier | null; onClose: () => vo
     const [name, setName] = useState(supplier?.name || '');
     const [contactPerson, setContactPerson] = useState(supplier?.contactPerson || '');
     const [phone, setPhone] = useState(supplier?.phone || '');
+    const [leadTimeDays, setLeadTimeDays] = useState<number | ''>(supplier?.leadTimeDays ?? '');
     const [isSaving, setIsSaving] = useState(false);
     const { showNotification } = useNotification();
     const isEditing = !!supplier;
@@ -81,18 +101,19 @@ const SupplierFormModal: React.FC<{ supplier: Supplier | null; onClose: () => vo
                 name: name.trim(),
                 contact_person: contactPerson.trim() || null,
                 phone: phone.trim() || null,
+                lead_time_days: leadTimeDays === '' ? null : Number(leadTimeDays),
             };
 
             if (isEditing && supplier?.id) {
-                const { error } = await supabase.from('suppliers').update(dataToSave).eq('id', supplier.remoteId);
+                const { error } = await backend.from('suppliers').update(dataToSave).eq('id', supplier.remoteId);
                 if (error) throw error;
-                await db.suppliers.update(supplier.id, { name: dataToSave.name, contactPerson: dataToSave.contact_person, phone: dataToSave.phone });
+                await db.suppliers.update(supplier.id, { name: dataToSave.name, contactPerson: dataToSave.contact_person, phone: dataToSave.phone, leadTimeDays: dataToSave.lead_time_days ?? undefined });
                 await logActivity('UPDATE', 'Supplier', supplier.remoteId!, { old: supplier, new: dataToSave });
                 showNotification('اطلاعات تامین‌کننده با موفقیت ویرایش شد.', 'success');
             } else {
-                const { data, error } = await supabase.from('suppliers').insert({ ...dataToSave, total_debt: 0 }).select().single();
+                const { data, error } = await backend.from('suppliers').insert({ ...dataToSave, total_debt: 0 }).select().single();
                 if (error) throw error;
-                const newSupplier: Supplier = { remoteId: data.id, name: data.name, contactPerson: data.contact_person, phone: data.phone, totalDebt: 0 };
+                const newSupplier: Supplier = { remoteId: data.id, name: data.name, contactPerson: data.contact_person, phone: data.phone, leadTimeDays: data.lead_time_days ?? undefined, totalDebt: 0 };
                 await db.suppliers.add(newSupplier);
                 await logActivity('CREATE', 'Supplier', newSupplier.remoteId!, { newSupplier: data });
                 showNotification('تامین‌کننده جدید با موفقیت ثبت شد.', 'success');
@@ -112,6 +133,7 @@ const SupplierFormModal: React.FC<{ supplier: Supplier | null; onClose: () => vo
                 <input value={name} onChange={e => setName(e.target.value)} placeholder="نام تامین‌کننده" required autoFocus className="input-style" />
                 <input value={contactPerson} onChange={e => setContactPerson(e.target.value)} placeholder="شخص مسئول (اختیاری)" className="input-style" />
                 <input value={phone} onChange={e => setPhone(e.target.value)} placeholder="شماره تماس (اختیاری)" className="input-style" />
+                <input type="number" min="0" step="1" value={leadTimeDays} onChange={e => setLeadTimeDays(e.target.value === '' ? '' : Number(e.target.value))} placeholder={`زمان تحویل به روز (اختیاری، پیش‌فرض ${DEFAULT_LEAD_TIME_DAYS} روز)`} className="input-style" />
                 <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
                     <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
                     <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : (isEditing ? 'ذخیره تغییرات' : 'ثبت')}</button>
@@ -166,7 +188,7 @@ const SupplierAccounts: React.FC = () => {
 
         if (window.confirm(`آیا از حذف تامین‌کننده "${supplier.name}" مطمئن هستید؟`)) {
             try {
-                const { error } = await supabase.from('suppliers').delete().eq('id', supplier.remoteId);
+                const { error } = await backend.from('suppliers').delete().eq('id', supplier.remoteId);
                 if (error) throw error;
                 await db.suppliers.delete(supplier.id);
                 await logActivity('DELETE', 'Supplier', supplier.remoteId!, { deletedSupplier: supplier });
@@ -218,7 +240,7 @@ const SupplierAccounts: React.FC = () => {
                                 </td>
                                 <td className="px-6 py-4 flex items-center justify-center gap-4">
                                     <button onClick={() => openLedgerModal(supplier)} disabled={!isOnline} className="flex items-center gap-2 text-sm text-gray-300 hover:text-white disabled:text-gray-600 disabled:cursor-not-allowed" title="مشاهده دفتر کل"><Eye size={16} /> </button>
-                                    <button onClick={() => openPaymentModal(supplier)} disabled={!isOnline} className="flex items-center gap-2 text-sm text-green-400 hover:text-green-300 disabled:text-gray-600 disabled:cursor-not-allowed" title="ثبت پرداخت"><Plus size={14} /> </button>
+                                    <button onClick={() => openPaymentModal(supplier)} className="flex items-center gap-2 text-sm text-green-400 hover:text-green-300 disabled:text-gray-600 disabled:cursor-not-allowed" title="ثبت پرداخت"><Plus size={14} /> </button>
                                     <button onClick={() => openSupplierModalForEdit(supplier)} disabled={!isOnline} className="text-blue-400 hover:text-blue-300 disabled:text-gray-600 disabled:cursor-not-allowed" title="ویرایش"><Edit size={16} /></button>
                                     <button onClick={() => handleDeleteSupplier(supplier)} disabled={!isOnline} className="text-red-400 hover:text-red-300 disabled:text-gray-600 disabled:cursor-not-allowed" title="حذف"><Trash2 size={16} /></button>
                                 </td>
@@ -241,6 +263,7 @@ const PaymentModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ s
     const [isSaving, setIsSaving] = useState(false);
     const { showNotification } = useNotification();
     const [paymentToPrint, setPaymentToPrint] = useState<Payment | null>(null);
+    const currentShift = useCurrentShift();
 
     const handleSubmit = async (e: FormEvent) => {
         e.preventDefault();
@@ -259,15 +282,46 @@ const PaymentModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ s
         }
 
         setIsSaving(true);
+
+        if (!navigator.onLine || !supplier.remoteId || (currentShift && !currentShift.remoteId)) {
+            // Offline (or supplier/shift not synced yet): record locally and let the sync queue send it.
+            try {
+                const newPayment: Payment = {
+                    supplierId: supplier.id!,
+                    amount: Number(amount),
+                    date: new Date().toISOString(),
+                    recipientName,
+                    description,
+                    shiftId: currentShift?.id,
+                };
+                await db.transaction('rw', [db.payments, db.suppliers, db.shifts, db.syncQueue], async () => {
+                    newPayment.id = await db.payments.add(newPayment);
+                    await db.suppliers.where('id').equals(supplier.id!).modify(s => {
+                        s.totalDebt -= newPayment.amount;
+                    });
+                    await enqueueSyncItem('payments', 'create', newPayment.id);
+                });
+                showNotification('پرداخت به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+                setPaymentToPrint(newPayment);
+            } catch (error: any) {
+                console.error("Failed to save payment offline:", error);
+                showNotification(`خطا در ثبت پرداخت: ${error.message}`, 'error');
+                setIsSaving(false);
+            }
+            return;
+        }
+
         try {
             const paymentData = {
                 p_supplier_id_remote: supplier.remoteId!,
                 p_amount: Number(amount),
                 p_recipient_name: recipientName,
                 p_description: description,
+                p_shift_id: currentShift?.remoteId ?? null,
             };
 
-            const { data, error } = await supabase.rpc('create_supplier_payment_transaction', paymentData);
+            const { data, error } = await backend.rpc('create_supplier_payment_transaction', paymentData);
 
             if (error || !data.success) {
                 throw new Error(data?.message || error?.message);
@@ -285,6 +339,7 @@ const PaymentModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ s
                 date: newPaymentRemote.date,
                 recipientName: newPaymentRemote.recipient_name,
                 description: newPaymentRemote.description,
+                shiftId: currentShift?.id,
             };
             await db.payments.add(newPayment);
 
@@ -377,15 +432,17 @@ const LedgerModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ su
 
             try {
                 // JIT Sync: Fetch latest data from Supabase before displaying.
-                const [supplierRes, purchasesRes, paymentsRes] = await Promise.all([
-                    supabase.from('suppliers').select('total_debt').eq('id', supplier.remoteId).single(),
-                    supabase.from('purchase_invoices').select('*').eq('supplier_id', supplier.remoteId),
-                    supabase.from('payments').select('*').eq('supplier_id', supplier.remoteId)
+                const [supplierRes, purchasesRes, paymentsRes, returnsRes] = await Promise.all([
+                    backend.from('suppliers').select('total_debt').eq('id', supplier.remoteId).single(),
+                    backend.from('purchase_invoices').select('*').eq('supplier_id', supplier.remoteId),
+                    backend.from('payments').select('*').eq('supplier_id', supplier.remoteId),
+                    backend.from('purchase_returns').select('*').eq('supplier_id', supplier.remoteId)
                 ]);
 
                 if (supplierRes.error) throw supplierRes.error;
                 if (purchasesRes.error) throw purchasesRes.error;
                 if (paymentsRes.error) throw paymentsRes.error;
+                if (returnsRes.error) throw returnsRes.error;
 
                 const remoteTotalDebt = supplierRes.data.total_debt;
                 await db.suppliers.update(supplier.id!, { totalDebt: remoteTotalDebt });
@@ -397,10 +454,17 @@ const LedgerModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ su
                     date: p.date, amount: p.amount, recipientName: p.recipient_name, description: p.description, id: p.id, supplierId: supplier.id!
                 }));
 
+                const invoiceNumbers = new Map(remotePurchases.map(p => [p.id, p.invoiceNumber]));
+                // Returned goods reduce the debt like a payment does.
+                const remoteReturns: Payment[] = returnsRes.data.map((r: any) => ({
+                    date: r.date, amount: r.total_amount, description: `مرجوعی خرید (فاکتور #${invoiceNumbers.get(r.purchase_invoice_id) || ''})`, recipientName: r.reason ?? undefined, id: r.id, supplierId: supplier.id!
+                }));
+
                 // Combine and sort all transactions by date
                 const allCombined = [
                     ...remotePurchases.map(p => ({ type: 'purchase' as const, date: p.date, data: p })),
                     ...remotePayments.map(p => ({ type: 'payment' as const, date: p.date, data: p })),
+                    ...remoteReturns.map(p => ({ type: 'return' as const, date: p.date, data: p })),
                 ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
                 
                 // Filter based on date range before processing balances
@@ -437,6 +501,10 @@ const LedgerModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ su
                         const p = item.data;
                         runningBalance += p.totalAmount;
                         processedTransactions.push({ date: p.date, description: `فاکتور خرید #${p.invoiceNumber || ''}`, debit: p.totalAmount, credit: 0, balance: runningBalance });
+                    } else if (item.type === 'return') {
+                        const r = item.data;
+                        runningBalance -= r.amount;
+                        processedTransactions.push({ date: r.date, description: r.description!, detail: r.recipientName, debit: 0, credit: r.amount, balance: runningBalance });
                     } else {
                         const p = item.data;
                         runningBalance -= p.amount;
@@ -494,6 +562,704 @@ const LedgerModal: React.FC<{ supplier: Supplier; onClose: () => void }> = ({ su
 };
 
 
+// ============================================================================
+// Customer Accounts Section
+// ============================================================================
+const unpaidAmount = (invoice: { totalAmount: number; amountPaid?: number }) =>
+    Math.max(invoice.totalAmount - (invoice.amountPaid ?? invoice.totalAmount), 0);
+
+const CustomerAccounts: React.FC = () => {
+    const customers = useLiveQuery(() => db.customers.orderBy('name').toArray());
+    const [searchTerm, setSearchTerm] = useState('');
+    const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
+    const [openModal, setOpenModal] = useState<'form' | 'payment' | 'ledger' | 'history' | null>(null);
+
+    const filteredCustomers = useMemo(() => {
+        const term = searchTerm.trim().toLowerCase();
+        if (!term) return customers;
+        return customers?.filter(c => c.name.toLowerCase().includes(term) || c.phone?.includes(term) || c.nationalId?.includes(term));
+    }, [customers, searchTerm]);
+
+    const totalReceivable = useMemo(() => customers?.reduce((sum, c) => sum + Math.max(c.totalDebt, 0), 0) || 0, [customers]);
+
+    const open = (modal: 'form' | 'payment' | 'ledger' | 'history', customer: Customer | null) => {
+        setSelectedCustomer(customer);
+        setOpenModal(modal);
+    };
+
+    const closeModal = () => {
+        setSelectedCustomer(null);
+        setOpenModal(null);
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg shadow-lg border border-gray-700">
+            <div className="p-4 flex flex-wrap justify-between items-center gap-4 border-b border-gray-700">
+                <div>
+                    <h3 className="text-xl font-bold text-white">لیست مشتریان</h3>
+                    <p className="text-sm text-gray-400 mt-1">مجموع طلب از مشتریان: <span className="font-bold text-yellow-400">${totalReceivable.toFixed(2)}</span></p>
+                </div>
+                <div className="flex items-center gap-3">
+                    <input type="text" value={searchTerm} onChange={e => setSearchTerm(e.target.value)} placeholder="جستجو (نام، تلفن یا کد ملی)..." className="bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-sm text-white focus:outline-none focus:border-blue-500" />
+                    <button onClick={() => open('form', null)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                        <Plus size={20} />
+                        <span>ثبت مشتری جدید</span>
+                    </button>
+                </div>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-right text-gray-300">
+                    <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                        <tr>
+                            <th className="px-6 py-3">نام مشتری</th>
+                            <th className="px-6 py-3">شماره تماس</th>
+                            <th className="px-6 py-3">کد ملی</th>
+                            <th className="px-6 py-3">بدهی کل</th>
+                            <th className="px-6 py-3 text-center">عملیات</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {filteredCustomers?.map(customer => (
+                            <tr key={customer.id}>
+                                <td className="px-6 py-4 font-medium text-white">{customer.name}</td>
+                                <td className="px-6 py-4">{customer.phone || '-'}</td>
+                                <td className="px-6 py-4">{customer.nationalId || '-'}</td>
+                                <td className={`px-6 py-4 font-bold ${customer.totalDebt > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                                    ${customer.totalDebt.toFixed(2)}
+                                </td>
+                                <td className="px-6 py-4 flex items-center justify-center gap-4">
+                                    <button onClick={() => open('ledger', customer)} className="text-gray-300 hover:text-white" title="مشاهده دفتر کل"><Eye size={16} /></button>
+                                    <button onClick={() => open('payment', customer)} className="text-green-400 hover:text-green-300" title="دریافت وجه"><Plus size={14} /></button>
+                                    <button onClick={() => open('history', customer)} className="text-purple-400 hover:text-purple-300" title="سابقه خرید"><History size={16} /></button>
+                                    <button onClick={() => open('form', customer)} className="text-blue-400 hover:text-blue-300" title="ویرایش"><Edit size={16} /></button>
+                                </td>
+                            </tr>
+                        ))}
+                        {filteredCustomers?.length === 0 && (
+                            <tr><td colSpan={5} className="text-center py-8 text-gray-500">هیچ مشتری یافت نشد.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            {openModal === 'form' && <CustomerFormModal customer={selectedCustomer} onClose={closeModal} />}
+            {openModal === 'payment' && selectedCustomer && <CustomerPaymentModal customer={selectedCustomer} onClose={closeModal} />}
+            {openModal === 'ledger' && selectedCustomer && <CustomerLedgerModal customer={selectedCustomer} onClose={closeModal} />}
+            {openModal === 'history' && selectedCustomer && <CustomerHistoryModal customer={selectedCustomer} onClose={closeModal} />}
+        </div>
+    );
+};
+
+const CustomerPaymentModal: React.FC<{ customer: Customer; onClose: () => void }> = ({ customer, onClose }) => {
+    const currentShift = useCurrentShift();
+    const [amount, setAmount] = useState<number | ''>('');
+    const [description, setDescription] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const { showNotification } = useNotification();
+    const [paymentToPrint, setPaymentToPrint] = useState<{ payment: CustomerPayment; remainingDebt: number } | null>(null);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (!amount || amount <= 0) {
+            showNotification('لطفاً مبلغ دریافتی را وارد کنید.', 'error');
+            return;
+        }
+
+        if (Number(amount) > customer.totalDebt) {
+            const confirmed = window.confirm(
+                `مبلغ وارد شده (${Number(amount).toFixed(2)}$) از بدهی فعلی مشتری (${customer.totalDebt.toFixed(2)}$) بیشتر است. آیا از ثبت این دریافت و بستانکار شدن مشتری اطمینان دارید؟`
+            );
+            if (!confirmed) {
+                return;
+            }
+        }
+
+        setIsSaving(true);
+
+        if (!navigator.onLine || !customer.remoteId || (currentShift && !currentShift.remoteId)) {
+            // Offline (or customer/shift not synced yet): record locally and let the sync queue send it.
+            try {
+                const newPayment: CustomerPayment = {
+                    customerId: customer.id!,
+                    amount: Number(amount),
+                    date: new Date().toISOString(),
+                    description,
+                    shiftId: currentShift?.id,
+                };
+                await db.transaction('rw', [db.customerPayments, db.customers, db.shifts, db.syncQueue], async () => {
+                    newPayment.id = await db.customerPayments.add(newPayment);
+                    await db.customers.where('id').equals(customer.id!).modify(c => {
+                        c.totalDebt -= newPayment.amount;
+                    });
+                    await enqueueSyncItem('customerPayments', 'create', newPayment.id);
+                });
+                showNotification('دریافت وجه به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+                setPaymentToPrint({ payment: newPayment, remainingDebt: customer.totalDebt - newPayment.amount });
+            } catch (error: any) {
+                console.error("Failed to save customer payment offline:", error);
+                showNotification(`خطا در ثبت دریافت وجه: ${error.message}`, 'error');
+                setIsSaving(false);
+            }
+            return;
+        }
+
+        try {
+            const { data, error } = await backend.rpc('create_customer_payment_transaction', {
+                p_customer_id_remote: customer.remoteId,
+                p_amount: Number(amount),
+                p_description: description,
+                p_shift_id: currentShift?.remoteId ?? null,
+            });
+
+            if (error || !data.success) {
+                throw new Error(data?.message || error?.message);
+            }
+
+            const updatedCustomer = data.updated_customer;
+            await db.customers.update(customer.id!, { totalDebt: updatedCustomer.total_debt });
+
+            const newPaymentRemote = data.new_payment;
+            const newPayment: CustomerPayment = {
+                remoteId: newPaymentRemote.id,
+                customerId: customer.id!,
+                amount: newPaymentRemote.amount,
+                date: newPaymentRemote.date,
+                description: newPaymentRemote.description,
+                shiftId: currentShift?.id,
+            };
+            await db.customerPayments.add(newPayment);
+
+            await logActivity('CREATE', 'CustomerPayment', newPayment.remoteId!, { payment: newPayment, customer: customer.name });
+            showNotification('دریافت وجه با موفقیت ثبت شد.', 'success');
+            setPaymentToPrint({ payment: newPayment, remainingDebt: updatedCustomer.total_debt });
+        } catch (error: any) {
+            console.error("Failed to save customer payment:", error);
+            showNotification(`خطا در ثبت دریافت وجه: ${error.message}`, 'error');
+            setIsSaving(false);
+        }
+    };
+
+    if (paymentToPrint) {
+        return (
+             <Modal title="چاپ رسید دریافت" onClose={onClose}>
+                <PrintableCustomerPaymentReceipt payment={paymentToPrint.payment} customer={customer} remainingDebt={paymentToPrint.remainingDebt} />
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                    <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700"><Printer size={18}/>چاپ</button>
+                </div>
+            </Modal>
+        )
+    }
+
+    return (
+        <Modal title={`دریافت وجه از: ${customer.name}`} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-gray-400">بدهی فعلی: <span className="font-bold text-yellow-400">${customer.totalDebt.toFixed(2)}</span></p>
+                <input type="number" value={amount} onChange={e => setAmount(Number(e.target.value))} placeholder="مبلغ دریافتی" required className="input-style" autoFocus />
+                <input type="text" value={description} onChange={e => setDescription(e.target.value)} placeholder="شرح (اختیاری)" className="input-style" />
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : 'ثبت دریافت'}</button>
+                </div>
+                <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }`}</style>
+            </form>
+        </Modal>
+    );
+};
+
+// Built from the local copies of the customer's invoices and payments, so it is available offline too.
+const CustomerLedgerModal: React.FC<{ customer: Customer; onClose: () => void }> = ({ customer, onClose }) => {
+    const { showNotification } = useNotification();
+
+    // --- Date Filtering State ---
+    const [filterPeriod, setFilterPeriod] = useState<'all' | 'today' | 'week' | 'month' | 'custom'>('all');
+    const [customDateInputs, setCustomDateInputs] = useState({ start: '', end: '' });
+
+    const dateRange = useMemo(() => {
+        const end = new Date();
+        const start = new Date();
+        end.setHours(23, 59, 59, 999);
+        start.setHours(0, 0, 0, 0);
+
+        switch(filterPeriod) {
+            case 'today':
+                return { start, end };
+            case 'week':
+                start.setDate(start.getDate() - 7);
+                return { start, end };
+            case 'month':
+                start.setMonth(start.getMonth() - 1);
+                return { start, end };
+            case 'custom': {
+                const customStart = customDateInputs.start ? parseJalaliDate(customDateInputs.start) : null;
+                const customEnd = customDateInputs.end ? parseJalaliDate(customDateInputs.end) : null;
+                if (customStart && customEnd && customStart > customEnd) {
+                    showNotification('تاریخ شروع نمی‌تواند بعد از تاریخ پایان باشد.', 'error');
+                    return null;
+                }
+                if (customEnd) customEnd.setHours(23, 59, 59, 999);
+                return { start: customStart, end: customEnd };
+            }
+            case 'all':
+            default:
+                return { start: null, end: null };
+        }
+    }, [filterPeriod, customDateInputs, showNotification]);
+
+    const ledger = useLiveQuery(async () => {
+        const [current, invoices, payments, returns] = await Promise.all([
+            db.customers.get(customer.id!),
+            db.saleInvoices.where('customerId').equals(customer.id!).toArray(),
+            db.customerPayments.where('customerId').equals(customer.id!).toArray(),
+            db.saleReturns.where('customerId').equals(customer.id!).toArray(),
+        ]);
+
+        // Only the unpaid part of a sale goes on the customer's account.
+        const allCombined = [
+            ...invoices.filter(inv => unpaidAmount(inv) > 0).map(inv => ({ date: inv.date, description: `فاکتور فروش نسیه #${inv.remoteId || inv.id}`, detail: `کل: $${inv.totalAmount.toFixed(2)}`, debit: unpaidAmount(inv), credit: 0 })),
+            ...payments.map(p => ({ date: p.date, description: 'دریافت وجه', detail: p.description, debit: 0, credit: p.amount })),
+            ...returns.filter(r => r.refundMethod === 'account').map(r => ({ date: r.date, description: `مرجوعی فروش #${r.remoteId || r.id}`, detail: r.reason, debit: 0, credit: r.totalAmount })),
+        ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+        const filteredCombined = dateRange && (dateRange.start || dateRange.end)
+            ? allCombined.filter(item => {
+                const itemDate = new Date(item.date);
+                const startOk = !dateRange.start || itemDate >= dateRange.start;
+                const endOk = !dateRange.end || itemDate <= dateRange.end;
+                return startOk && endOk;
+            })
+            : allCombined;
+
+        // Calculate opening balance for the filtered period
+        const totalDebt = current?.totalDebt ?? customer.totalDebt;
+        let openingBalance = totalDebt;
+        allCombined.forEach(item => {
+            if (new Date(item.date) >= (dateRange?.start || new Date(0))) {
+                openingBalance += item.credit - item.debit;
+            }
+        });
+
+        let runningBalance = openingBalance;
+        const processedTransactions: Transaction[] = [];
+        if (Math.abs(openingBalance) > 0.001 || filteredCombined.length > 0) {
+            processedTransactions.push({
+                date: filteredCombined.length > 0 ? new Date(new Date(filteredCombined[0].date).getTime() - 1).toISOString() : new Date().toISOString(),
+                description: 'مانده از قبل', debit: 0, credit: 0, balance: openingBalance, isOpeningBalance: true
+            });
+        }
+        filteredCombined.forEach(item => {
+            runningBalance += item.debit - item.credit;
+            processedTransactions.push({ ...item, balance: runningBalance });
+        });
+        return { customer: current || customer, transactions: processedTransactions };
+    }, [customer, dateRange]);
+
+    return (
+        <Modal title={`دفتر کل حساب: ${customer.name}`} onClose={onClose}>
+            <div className="p-4 bg-gray-700/50 rounded-lg mb-4 print-hidden">
+                 <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold">فیلتر زمانی:</span>
+                    <button onClick={() => setFilterPeriod('all')} className={`btn-filter ${filterPeriod === 'all' && 'active'}`}>همه</button>
+                    <button onClick={() => setFilterPeriod('today')} className={`btn-filter ${filterPeriod === 'today' && 'active'}`}>امروز</button>
+                    <button onClick={() => setFilterPeriod('week')} className={`btn-filter ${filterPeriod === 'week' && 'active'}`}>این هفته</button>
+                    <button onClick={() => setFilterPeriod('month')} className={`btn-filter ${filterPeriod === 'month' && 'active'}`}>این ماه</button>
+                    <div className="flex items-center gap-1">
+                        <input type="text" placeholder="از: ۱۴۰۳/۰۱/۰۱" value={customDateInputs.start} onChange={e => setCustomDateInputs(p => ({...p, start: e.target.value}))} className="input-date"/>
+                        <input type="text" placeholder="تا: ۱۴۰۳/۱۲/۲۹" value={customDateInputs.end} onChange={e => setCustomDateInputs(p => ({...p, end: e.target.value}))} className="input-date"/>
+                        <button onClick={() => setFilterPeriod('custom')} className="btn-filter-apply">اعمال</button>
+                    </div>
+                </div>
+            </div>
+            {!ledger ? <div className="text-center p-8">در حال بارگذاری...</div> : <PrintableCustomerLedger customer={ledger.customer} transactions={ledger.transactions} />}
+            <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                <button onClick={() => window.print()} disabled={!ledger} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"><Printer size={18}/>چاپ</button>
+            </div>
+             <style>{`
+                .btn-filter { font-size: 0.8rem; padding: 0.3rem 0.8rem; border-radius: 0.5rem; background-color: #374151; color: #d1d5db; transition: background-color 0.2s; }
+                .btn-filter:hover { background-color: #4b5563; }
+                .btn-filter.active { background-color: #2563eb; color: white; }
+                .btn-filter-apply { font-size: 0.8rem; padding: 0.3rem 0.8rem; border-radius: 0.5rem; background-color: #16a34a; color: white; }
+                .input-date { background-color: #374151; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.25rem; font-size: 0.8rem; width: 110px; text-align: center; }
+            `}</style>
+        </Modal>
+    )
+};
+
+const CustomerHistoryModal: React.FC<{ customer: Customer; onClose: () => void }> = ({ customer, onClose }) => {
+    const invoices = useLiveQuery(() => db.saleInvoices.where('customerId').equals(customer.id!).reverse().sortBy('date'), [customer.id]);
+    const clinicTransactions = useLiveQuery(() => db.clinicTransactions.where('customerId').equals(customer.id!).reverse().sortBy('date'), [customer.id]);
+    const services = useLiveQuery(() => db.clinicServices.toArray());
+    const serviceMap = useMemo<Map<number, string>>(() => new Map(services?.map(s => [s.id!, s.name]) || []), [services]);
+    const totalPurchases = useMemo(() => invoices?.reduce((sum, inv) => sum + inv.totalAmount, 0) || 0, [invoices]);
+
+    return (
+        <Modal title={`سابقه خرید: ${customer.name}`} onClose={onClose}>
+            <div className="space-y-6 max-h-[70vh] overflow-y-auto">
+                {customer.notes && <p className="p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg text-sm text-yellow-200">{customer.notes}</p>}
+                <div>
+                    <div className="flex justify-between items-center mb-2">
+                        <h4 className="font-bold text-white">فاکتورهای فروش ({invoices?.length || 0})</h4>
+                        <span className="text-sm text-gray-400">مجموع خرید: <span className="font-bold text-green-400">${totalPurchases.toFixed(2)}</span></span>
+                    </div>
+                    <div className="space-y-2">
+                        {invoices?.map(inv => (
+                            <div key={inv.id} className="p-3 bg-gray-700/50 rounded-lg text-sm">
+                                <div className="flex justify-between text-gray-300">
+                                    <span className="font-semibold">#{inv.remoteId || inv.id} - {new Date(inv.date).toLocaleDateString('fa-IR')}</span>
+                                    <span>
+                                        ${inv.totalAmount.toFixed(2)}
+                                        {unpaidAmount(inv) > 0 && <span className="text-yellow-400 mr-2">(نسیه: ${unpaidAmount(inv).toFixed(2)})</span>}
+                                    </span>
+                                </div>
+                                <p className="text-xs text-gray-400 mt-1">{inv.items.map(item => `${item.name} × ${item.quantity}`).join('، ')}</p>
+                            </div>
+                        ))}
+                        {invoices?.length === 0 && <p className="text-center py-4 text-gray-500">هیچ فاکتوری برای این مشتری ثبت نشده است.</p>}
+                    </div>
+                </div>
+                <div>
+                    <h4 className="font-bold text-white mb-2">خدمات کلینیک ({clinicTransactions?.length || 0})</h4>
+                    <div className="space-y-2">
+                        {clinicTransactions?.map(t => (
+                            <div key={t.id} className="flex justify-between p-3 bg-gray-700/50 rounded-lg text-sm text-gray-300">
+                                <span>{serviceMap.get(t.serviceId) || 'سرویس نامشخص'} - نوبت {t.ticketNumber} - {new Date(t.date).toLocaleDateString('fa-IR')}</span>
+                                <span>${t.amount.toFixed(2)}</span>
+                            </div>
+                        ))}
+                        {clinicTransactions?.length === 0 && <p className="text-center py-4 text-gray-500">هیچ خدمتی برای این مشتری ثبت نشده است.</p>}
+                    </div>
+                </div>
+            </div>
+            <div className="flex justify-end pt-4 border-t border-gray-700">
+                <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+            </div>
+        </Modal>
+    );
+};
+
+
+// ============================================================================
+// Insurers Section
+// ============================================================================
+const InsurerAccounts: React.FC = () => {
+    const insurers = useLiveQuery(() => db.insurers.orderBy('name').toArray());
+    // Recomputed whenever an insured sale, a return or a claim changes.
+    const balances = useLiveQuery(() => insurerBalances(), []);
+    const [selectedInsurer, setSelectedInsurer] = useState<Insurer | null>(null);
+    const [openModal, setOpenModal] = useState<'form' | 'claims' | null>(null);
+
+    const totalOutstanding = useMemo(() => Array.from(balances?.values() ?? []).reduce((sum, b) => sum + b.outstanding, 0), [balances]);
+
+    const open = (modal: 'form' | 'claims', insurer: Insurer | null) => {
+        setSelectedInsurer(insurer);
+        setOpenModal(modal);
+    };
+
+    const closeModal = () => {
+        setSelectedInsurer(null);
+        setOpenModal(null);
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg shadow-lg border border-gray-700">
+            <div className="p-4 flex flex-wrap justify-between items-center gap-4 border-b border-gray-700">
+                <div>
+                    <h3 className="text-xl font-bold text-white">بیمه‌ها</h3>
+                    <p className="text-sm text-gray-400 mt-1">مجموع طلب از بیمه‌ها: <span className="font-bold text-yellow-400">${totalOutstanding.toFixed(2)}</span></p>
+                </div>
+                <button onClick={() => open('form', null)} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors">
+                    <Plus size={20} />
+                    <span>ثبت بیمه جدید</span>
+                </button>
+            </div>
+            <div className="overflow-x-auto">
+                <table className="w-full text-sm text-right text-gray-300">
+                    <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                        <tr>
+                            <th className="px-6 py-3">نام بیمه</th>
+                            <th className="px-6 py-3">کد قرارداد</th>
+                            <th className="px-6 py-3">قواعد پوشش</th>
+                            <th className="px-6 py-3">صورتحساب‌نشده</th>
+                            <th className="px-6 py-3">طلب کل</th>
+                            <th className="px-6 py-3 text-center">عملیات</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {insurers?.map(insurer => {
+                            const balance = balances?.get(insurer.id!);
+                            return (
+                                <tr key={insurer.id} className={insurer.active ? '' : 'opacity-50'}>
+                                    <td className="px-6 py-4 font-medium text-white">
+                                        {insurer.name}
+                                        {!insurer.active && <span className="mr-2 text-xs text-gray-400">(غیرفعال)</span>}
+                                    </td>
+                                    <td className="px-6 py-4">{insurer.code || '-'}</td>
+                                    <td className="px-6 py-4">{insurer.rules.length}</td>
+                                    <td className="px-6 py-4">${(balance?.unclaimed ?? 0).toFixed(2)}</td>
+                                    <td className={`px-6 py-4 font-bold ${(balance?.outstanding ?? 0) > 0 ? 'text-yellow-400' : 'text-green-400'}`}>
+                                        ${(balance?.outstanding ?? 0).toFixed(2)}
+                                    </td>
+                                    <td className="px-6 py-4 flex items-center justify-center gap-4">
+                                        <button onClick={() => open('claims', insurer)} className="text-gray-300 hover:text-white" title="صورتحساب‌های ماهانه"><FileText size={16} /></button>
+                                        <button onClick={() => open('form', insurer)} className="text-blue-400 hover:text-blue-300" title="ویرایش"><Edit size={16} /></button>
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                        {insurers?.length === 0 && (
+                            <tr><td colSpan={6} className="text-center py-8 text-gray-500">هیچ بیمه‌ای ثبت نشده است.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+            {openModal === 'form' && <InsurerFormModal insurer={selectedInsurer} onClose={closeModal} />}
+            {openModal === 'claims' && selectedInsurer && <InsuranceClaimsModal insurer={selectedInsurer} balance={balances?.get(selectedInsurer.id!)} onClose={closeModal} />}
+        </div>
+    );
+};
+
+const previousPeriod = () => {
+    const date = new Date();
+    date.setDate(1);
+    date.setMonth(date.getMonth() - 1);
+    return periodOf(date);
+};
+
+const InsuranceClaimsModal: React.FC<{ insurer: Insurer; balance?: InsurerBalance; onClose: () => void }> = ({ insurer, balance, onClose }) => {
+    const claims = useLiveQuery(() => db.insuranceClaims.where('insurerId').equals(insurer.id!).reverse().sortBy('period'), [insurer.id]);
+    const invoices = useLiveQuery(() => db.saleInvoices.where('insurerId').equals(insurer.id!).toArray(), [insurer.id]);
+    const [period, setPeriod] = useState(previousPeriod);
+    const [isSaving, setIsSaving] = useState(false);
+    const [claimToPrint, setClaimToPrint] = useState<InsuranceClaim | null>(null);
+    const [claimToReconcile, setClaimToReconcile] = useState<InsuranceClaim | null>(null);
+    const { showNotification } = useNotification();
+
+    const invoiceNumbers = useMemo(() => new Map<number, string | number>(invoices?.map(inv => [inv.id!, inv.remoteId || inv.id!]) ?? []), [invoices]);
+
+    const handleCreateClaim = async () => {
+        if (!period) return;
+        const lines = await buildClaimLines(insurer.id!, period);
+        if (lines.length === 0) {
+            showNotification('فروش بیمه‌ای صورتحساب‌نشده‌ای برای این ماه وجود ندارد.', 'info');
+            return;
+        }
+        const claim: InsuranceClaim = {
+            insurerId: insurer.id!,
+            period,
+            createdAt: new Date().toISOString(),
+            lines,
+            claimedAmount: Math.round(lines.reduce((sum, line) => sum + line.claimedAmount, 0) * 100) / 100,
+            status: 'submitted',
+        };
+
+        setIsSaving(true);
+        try {
+            const isSynced = !!insurer.remoteId && lines.every(line => invoices?.find(inv => inv.id === line.saleInvoiceId)?.remoteId);
+            if (!navigator.onLine || !isSynced) {
+                await db.transaction('rw', [db.insuranceClaims, db.insurers, db.saleInvoices, db.syncQueue], async () => {
+                    claim.id = await db.insuranceClaims.add(claim);
+                    await enqueueSyncItem('insuranceClaims', 'create', claim.id);
+                });
+                showNotification('صورتحساب بیمه به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } else {
+                const { data, error } = await backend.from('insurance_claims').insert(await toRemoteRecord('insuranceClaims', claim)).select().single();
+                if (error) throw error;
+                claim.remoteId = data.id;
+                claim.updatedAt = data.updated_at;
+                claim.id = await db.insuranceClaims.add(claim);
+                await logActivity('CREATE', 'InsuranceClaim', data.id, { insurer: insurer.name, period, lines: lines.length, claimedAmount: claim.claimedAmount });
+                showNotification('صورتحساب بیمه با موفقیت صادر شد.', 'success');
+            }
+            setClaimToPrint(claim);
+        } catch (error: any) {
+            console.error("Failed to create insurance claim:", error);
+            showNotification(`خطا در صدور صورتحساب بیمه: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleDownloadCsv = (claim: InsuranceClaim) => {
+        const blob = new Blob([claimToCsv(claim, insurer, invoiceNumbers)], { type: 'text/csv;charset=utf-8' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `claim-${insurer.code || insurer.id}-${claim.period}.csv`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    };
+
+    if (claimToPrint) {
+        return (
+            <Modal title={`صورتحساب ${insurer.name} - ${claimToPrint.period}`} onClose={() => setClaimToPrint(null)}>
+                <PrintableInsuranceClaim claim={claimToPrint} insurer={insurer} invoiceNumbers={invoiceNumbers} />
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                    <button onClick={() => setClaimToPrint(null)} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بازگشت</button>
+                    <button onClick={() => handleDownloadCsv(claimToPrint)} className="flex items-center gap-2 px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500"><Download size={18}/>فایل CSV</button>
+                    <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700"><Printer size={18}/>چاپ</button>
+                </div>
+            </Modal>
+        );
+    }
+
+    if (claimToReconcile) {
+        return <ClaimReconcileModal claim={claimToReconcile} insurer={insurer} invoiceNumbers={invoiceNumbers} onClose={() => setClaimToReconcile(null)} />;
+    }
+
+    return (
+        <Modal title={`صورتحساب‌های بیمه: ${insurer.name}`} onClose={onClose}>
+            <div className="space-y-4">
+                {balance && (
+                    <div className="grid grid-cols-3 gap-3 text-sm">
+                        <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">صورتحساب‌نشده</p><p className="font-bold text-white">${balance.unclaimed.toFixed(2)}</p></div>
+                        <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">دریافت‌شده / کسورات</p><p className="font-bold text-white">${balance.paid.toFixed(2)} / <span className="text-red-400">${balance.rejected.toFixed(2)}</span></p></div>
+                        <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">طلب کل</p><p className="font-bold text-yellow-400">${balance.outstanding.toFixed(2)}</p></div>
+                    </div>
+                )}
+                <div className="flex items-center gap-3 p-3 bg-gray-900/50 rounded-lg">
+                    <label className="text-sm text-gray-300 whitespace-nowrap">ماه صورتحساب:</label>
+                    <input type="month" value={period} onChange={e => setPeriod(e.target.value)} className="input-style" />
+                    <button onClick={handleCreateClaim} disabled={isSaving || !period} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-500 whitespace-nowrap">
+                        <FilePlus size={18} />
+                        {isSaving ? 'در حال صدور...' : 'صدور صورتحساب'}
+                    </button>
+                </div>
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                    {claims?.map(claim => (
+                        <div key={claim.id} className="p-3 bg-gray-700/60 rounded-lg flex items-center justify-between gap-3 text-sm">
+                            <div>
+                                <p className="font-semibold text-white">
+                                    ماه {claim.period}
+                                    <span className={`mr-2 text-xs px-2 py-0.5 rounded-full ${claim.status === 'reconciled' ? 'bg-green-500/20 text-green-300' : 'bg-yellow-500/20 text-yellow-300'}`}>
+                                        {claim.status === 'reconciled' ? 'تسویه‌شده' : 'ارسال‌شده'}
+                                    </span>
+                                </p>
+                                <p className="text-xs text-gray-400">
+                                    {new Date(claim.createdAt).toLocaleDateString('fa-IR')} | {claim.lines.length} فاکتور | درخواستی: ${claim.claimedAmount.toFixed(2)}
+                                    {claim.status === 'reconciled' && ` | پرداختی: $${(claim.paidAmount ?? 0).toFixed(2)}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <button onClick={() => setClaimToPrint(claim)} className="text-gray-300 hover:text-white" title="چاپ"><Printer size={16} /></button>
+                                <button onClick={() => handleDownloadCsv(claim)} className="text-gray-300 hover:text-white" title="دانلود CSV"><Download size={16} /></button>
+                                {claim.status === 'submitted' && (
+                                    <button onClick={() => setClaimToReconcile(claim)} className="flex items-center gap-1 px-3 py-1.5 bg-green-600 text-white rounded-lg hover:bg-green-700">
+                                        <CheckCircle size={14} />
+                                        <span>تطبیق پرداخت</span>
+                                    </button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                    {claims?.length === 0 && <p className="text-center py-6 text-gray-500">هنوز صورتحسابی برای این بیمه صادر نشده است.</p>}
+                </div>
+                <div className="flex justify-end pt-4 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                </div>
+                <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }`}</style>
+            </div>
+        </Modal>
+    );
+};
+
+// Records what the insurer actually paid on each line; the unpaid rest is written off as rejected.
+const ClaimReconcileModal: React.FC<{ claim: InsuranceClaim; insurer: Insurer; invoiceNumbers: Map<number, string | number>; onClose: () => void }> = ({ claim, insurer, invoiceNumbers, onClose }) => {
+    const [paid, setPaid] = useState<(number | '')[]>(() => claim.lines.map(line => line.claimedAmount));
+    const [notes, setNotes] = useState(claim.notes || '');
+    const [isSaving, setIsSaving] = useState(false);
+    const { showNotification } = useNotification();
+
+    const totalPaid = paid.reduce<number>((sum, amount) => sum + Number(amount || 0), 0);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        if (paid.some((amount, index) => amount === '' || amount < 0 || amount > claim.lines[index].claimedAmount)) {
+            showNotification('مبلغ پرداختی هر فاکتور باید بین صفر و مبلغ درخواستی آن باشد.', 'error');
+            return;
+        }
+        const changes: Partial<InsuranceClaim> = {
+            lines: claim.lines.map((line, index) => ({ ...line, paidAmount: Number(paid[index]) })),
+            paidAmount: Math.round(totalPaid * 100) / 100,
+            status: 'reconciled',
+            reconciledAt: new Date().toISOString(),
+            notes: notes.trim() || undefined,
+        };
+
+        setIsSaving(true);
+        try {
+            if (!navigator.onLine || !claim.remoteId) {
+                await db.transaction('rw', [db.insuranceClaims, db.insurers, db.saleInvoices, db.syncQueue], async () => {
+                    await db.insuranceClaims.update(claim.id!, changes);
+                    await enqueueSyncItem('insuranceClaims', 'update', claim.id!, changes);
+                });
+                showNotification('تطبیق پرداخت به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } else {
+                const { data, error } = await backend.from('insurance_claims').update(await toRemoteRecord('insuranceClaims', changes)).eq('id', claim.remoteId).select().single();
+                if (error) throw error;
+                await db.insuranceClaims.update(claim.id!, { ...changes, updatedAt: data.updated_at });
+                await logActivity('UPDATE', 'InsuranceClaim', claim.remoteId, { insurer: insurer.name, period: claim.period, claimedAmount: claim.claimedAmount, paidAmount: changes.paidAmount });
+                showNotification('پرداخت بیمه با موفقیت تطبیق داده شد.', 'success');
+            }
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to reconcile insurance claim:", error);
+            showNotification(`خطا در تطبیق پرداخت بیمه: ${error.message}`, 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal title={`تطبیق پرداخت ${insurer.name} - ${claim.period}`} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-gray-400">مبلغی را که بیمه برای هر فاکتور واقعاً پرداخت کرده وارد کنید. مابقی به عنوان کسورات بیمه ثبت می‌شود.</p>
+                <div className="max-h-[50vh] overflow-y-auto">
+                    <table className="w-full text-sm text-right text-gray-300">
+                        <thead className="text-xs text-gray-400 bg-gray-700/50">
+                            <tr>
+                                <th className="px-3 py-2">فاکتور</th>
+                                <th className="px-3 py-2">تاریخ</th>
+                                <th className="px-3 py-2">شماره بیمه‌شده</th>
+                                <th className="px-3 py-2">درخواستی</th>
+                                <th className="px-3 py-2">پرداختی</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {claim.lines.map((line, index) => (
+                                <tr key={line.saleInvoiceId}>
+                                    <td className="px-3 py-2">#{invoiceNumbers.get(line.saleInvoiceId) ?? line.saleInvoiceId}</td>
+                                    <td className="px-3 py-2">{new Date(line.date).toLocaleDateString('fa-IR')}</td>
+                                    <td className="px-3 py-2">{line.memberId || '-'}</td>
+                                    <td className="px-3 py-2">${line.claimedAmount.toFixed(2)}</td>
+                                    <td className="px-3 py-2 w-32">
+                                        <input type="number" min="0" max={line.claimedAmount} step="0.01" value={paid[index]} onChange={e => setPaid(prev => prev.map((amount, i) => (i === index ? (e.target.value === '' ? '' : Number(e.target.value)) : amount)))} className="input-style" />
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-between text-sm p-3 bg-gray-900/50 rounded-lg">
+                    <span>درخواستی: <span className="font-bold text-white">${claim.claimedAmount.toFixed(2)}</span></span>
+                    <span>پرداختی: <span className="font-bold text-green-400">${totalPaid.toFixed(2)}</span></span>
+                    <span>کسورات: <span className="font-bold text-red-400">${Math.max(claim.claimedAmount - totalPaid, 0).toFixed(2)}</span></span>
+                </div>
+                <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="توضیحات (شماره سند پرداخت، دلیل کسورات و...)" className="input-style" />
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-500">{isSaving ? 'در حال ذخیره...' : 'ثبت تطبیق'}</button>
+                </div>
+                <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.5rem; width: 100%; }`}</style>
+            </form>
+        </Modal>
+    );
+};
+
 // ============================================================================
 // Clinic Fund Section
 // ============================================================================
@@ -505,12 +1271,14 @@ const ClinicFund: React.FC = () => {
     const [serviceId, setServiceId] = useState<number | ''>('');
     const [providerId, setProviderId] = useState<number | ''>('');
     const [patientName, setPatientName] = useState('');
+    const [customer, setCustomer] = useState<Customer | null>(null);
     const [ticketToPrint, setTicketToPrint] = useState<ClinicTransaction | null>(null);
     const [transactionToEdit, setTransactionToEdit] = useState<ClinicTransaction | null>(null);
     const [isServiceModalOpen, setIsServiceModalOpen] = useState(false);
     const [isProviderModalOpen, setIsProviderModalOpen] = useState(false);
     const { showNotification } = useNotification();
     const isOnline = useOnlineStatus();
+    const currentShift = useCurrentShift();
 
     // --- Date Filtering State ---
     const [filter, setFilter] = useState<FilterType>('today');
@@ -591,6 +1359,48 @@ const ClinicFund: React.FC = () => {
         }
 
         setIsSaving(true);
+
+        if (!navigator.onLine || (currentShift && !currentShift.remoteId)) {
+            // Offline the ticket gets a provisional number (next one for today on this terminal);
+            // the server assigns the final number when the sync queue sends the transaction.
+            try {
+                const newId = await db.transaction('rw', [db.clinicTransactions, db.clinicServices, db.serviceProviders, db.customers, db.shifts, db.syncQueue], async () => {
+                    const startOfDay = new Date();
+                    startOfDay.setHours(0, 0, 0, 0);
+                    const todaysTransactions = await db.clinicTransactions.where('date').aboveOrEqual(startOfDay.toISOString()).toArray();
+                    const provisionalTicketNumber = todaysTransactions.reduce((max, t) => Math.max(max, t.ticketNumber), 0) + 1;
+
+                    const createdId = await db.clinicTransactions.add({
+                        serviceId: selectedService.id!,
+                        providerId: providerId ? Number(providerId) : undefined,
+                        patientName: patientName.trim(),
+                        amount: selectedService.price,
+                        date: new Date().toISOString(),
+                        ticketNumber: provisionalTicketNumber,
+                        customerId: customer?.id,
+                        shiftId: currentShift?.id,
+                    });
+                    await enqueueSyncItem('clinicTransactions', 'create', createdId);
+                    return createdId;
+                });
+
+                const finalTransactionForPrint = await db.clinicTransactions.get(newId);
+                setTicketToPrint(finalTransactionForPrint!);
+                setServiceId('');
+                setProviderId('');
+                setPatientName('');
+                setCustomer(null);
+                showNotification('نوبت به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } catch (err: any) {
+                console.error("Error creating clinic transaction offline:", err);
+                showNotification(err.message || 'خطا در ثبت تراکنش.', 'error');
+            } finally {
+                setIsSaving(false);
+            }
+            return;
+        }
+
         try {
             const service = services?.find(s => s.id === serviceId);
             const provider = providers?.find(p => p.id === providerId);
@@ -598,15 +1408,20 @@ const ClinicFund: React.FC = () => {
             if (!service?.remoteId) {
                 throw new Error("سرویس انتخاب شده معتبر نیست یا هنوز همگام‌سازی نشده است.");
             }
+            if (customer && !customer.remoteId) {
+                throw new Error("مشتری انتخاب شده هنوز همگام‌سازی نشده است. لطفاً چند لحظه بعد دوباره تلاش کنید.");
+            }
 
             const payload = {
                 p_service_id_remote: service.remoteId,
                 p_provider_id_remote: providerId ? provider?.remoteId : null,
                 p_patient_name: patientName.trim(),
                 p_amount: service.price,
+                p_customer_id_remote: customer?.remoteId ?? null,
+                p_shift_id: currentShift?.remoteId ?? null,
             };
 
-            const { data, error } = await supabase.rpc('create_clinic_transaction', payload);
+            const { data, error } = await backend.rpc('create_clinic_transaction', payload);
 
             if (error) throw error;
             
@@ -621,6 +1436,8 @@ const ClinicFund: React.FC = () => {
                     amount: newRemoteTransaction.amount,
                     date: newRemoteTransaction.date,
                     ticketNumber: newRemoteTransaction.ticket_number,
+                    customerId: customer?.id,
+                    shiftId: currentShift?.id,
                 };
 
                 const newId = await db.clinicTransactions.add(newLocalTransaction);
@@ -630,6 +1447,7 @@ const ClinicFund: React.FC = () => {
                 setServiceId('');
                 setProviderId('');
                 setPatientName('');
+                setCustomer(null);
                 showNotification(data.message, 'success');
                 await logActivity('CREATE', 'ClinicTransaction', newLocalTransaction.remoteId!, { newTransaction: newLocalTransaction });
             } else {
@@ -674,11 +1492,15 @@ const ClinicFund: React.FC = () => {
                              {providers?.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
                         </select>
                     )}
+                    <CustomerPicker customerId={customer?.id} onChange={c => {
+                        setCustomer(c);
+                        if (c && !patientName.trim()) setPatientName(c.name);
+                    }} />
                     <input type="text" value={patientName} onChange={e => setPatientName(e.target.value)} placeholder="نام بیمار (اختیاری)" className="input-style" />
-                    <button type="submit" disabled={isSaving || !isOnline} className="w-full py-2.5 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
+                    <button type="submit" disabled={isSaving} className="w-full py-2.5 bg-blue-600 text-white font-bold rounded-lg hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
                         {isSaving ? 'در حال ثبت...' : 'ثبت و دریافت نوبت'}
                     </button>
-                     {!isOnline && <p className="text-xs text-center text-yellow-400">ثبت تراکنش فقط در حالت آنلاین امکان‌پذیر است.</p>}
+                     {!isOnline && <p className="text-xs text-center text-yellow-400">حالت آفلاین: شماره نوبت موقت است و پس از همگام‌سازی نهایی می‌شود.</p>}
                 </form>
                  <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-3">
                     <h3 className="text-xl font-bold text-white mb-2">مدیریت</h3>
@@ -783,8 +1605,8 @@ const SimpleAccountingView: React.FC = () => {
         setError(null);
         try {
             const [cols, ents] = await Promise.all([
-                supabase.from('simple_accounting_columns').select('*').order('order', { ascending: true }),
-                supabase.from('simple_accounting_entries').select('*').order('date', { ascending: false }).limit(1000) // Fetch more for client-side filtering
+                backend.from('simple_accounting_columns').select('*').order('order', { ascending: true }),
+                backend.from('simple_accounting_entries').select('*').order('date', { ascending: false }).limit(1000) // Fetch more for client-side filtering
             ]);
             if (cols.error) throw cols.error;
             if (ents.error) throw ents.error;
@@ -851,7 +1673,7 @@ const SimpleAccountingView: React.FC = () => {
 
     const handleUpdateEntry = async (entryId: number, updatedData: Partial<SimpleAccountingEntry>) => {
         try {
-            const { error } = await supabase.from('simple_accounting_entries').update({
+            const { error } = await backend.from('simple_accounting_entries').update({
                 date: updatedData.date,
                 patient_name: updatedData.patientName,
                 description: updatedData.description,
@@ -869,7 +1691,7 @@ const SimpleAccountingView: React.FC = () => {
     const handleDeleteEntry = async (entryId: number) => {
         if (!window.confirm("آیا از حذف این رکورد مطمئن هستید؟")) return;
         try {
-            const { error } = await supabase.from('simple_accounting_entries').delete().eq('id', entryId);
+            const { error } = await backend.from('simple_accounting_entries').delete().eq('id', entryId);
             if (error) throw error;
             showNotification("رکورد با موفقیت حذف شد.", "success");
             fetchData(); // Full refresh after delete
@@ -1071,7 +1893,7 @@ const NewEntryRow: React.FC<{ columns: SimpleAccountingColumn[], onSave: () => v
         };
 
         try {
-            const { data, error } = await supabase.from('simple_accounting_entries').insert(dataToSave).select().single();
+            const { data, error } = await backend.from('simple_accounting_entries').insert(dataToSave).select().single();
             if (error) throw error;
             await logActivity('CREATE', 'SimpleAccountingEntry', data.id, { newEntry: data });
             showNotification("رکورد جدید ثبت شد.", "success");
@@ -1108,13 +1930,13 @@ const ServiceManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
             if (id) { // Editing
                 const oldService = await db.clinicServices.get(id);
                 const remoteId = oldService?.remoteId;
-                const { error } = await supabase.from('clinic_services').update({ name: serviceData.name, price: serviceData.price, requires_provider: serviceData.requiresProvider }).eq('id', remoteId);
+                const { error } = await backend.from('clinic_services').update({ name: serviceData.name, price: serviceData.price, requires_provider: serviceData.requiresProvider }).eq('id', remoteId);
                 if (error) throw error;
                 await db.clinicServices.update(id, serviceData);
                 await logActivity('UPDATE', 'ClinicService', remoteId!, { old: oldService, new: serviceData });
                 showNotification('خدمت با موفقیت ویرایش شد.', 'success');
             } else { // Adding
-                const { data, error } = await supabase.from('clinic_services').insert({ name: serviceData.name, price: serviceData.price, requires_provider: serviceData.requiresProvider }).select().single();
+                const { data, error } = await backend.from('clinic_services').insert({ name: serviceData.name, price: serviceData.price, requires_provider: serviceData.requiresProvider }).select().single();
                 if (error) throw error;
                 await db.clinicServices.add({ ...serviceData, remoteId: data.id });
                 await logActivity('CREATE', 'ClinicService', data.id, { newService: data });
@@ -1130,7 +1952,7 @@ const ServiceManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
         if (!window.confirm('آیا از حذف این خدمت مطمئن هستید؟')) return;
         try {
             const serviceToDelete = await db.clinicServices.get(id);
-            const { error } = await supabase.from('clinic_services').delete().eq('id', serviceToDelete?.remoteId);
+            const { error } = await backend.from('clinic_services').delete().eq('id', serviceToDelete?.remoteId);
             if (error) throw error;
             await db.clinicServices.delete(id);
             await logActivity('DELETE', 'ClinicService', serviceToDelete!.remoteId!, { deletedService: serviceToDelete });
@@ -1219,13 +2041,13 @@ const ProviderManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
             if (id) { // Editing
                 const oldProvider = await db.serviceProviders.get(id);
                 const remoteId = oldProvider?.remoteId;
-                const { error } = await supabase.from('service_providers').update({ name: providerData.name, specialty: providerData.specialty }).eq('id', remoteId);
+                const { error } = await backend.from('service_providers').update({ name: providerData.name, specialty: providerData.specialty }).eq('id', remoteId);
                 if (error) throw error;
                 await db.serviceProviders.update(id, providerData);
                 await logActivity('UPDATE', 'ServiceProvider', remoteId!, { old: oldProvider, new: providerData });
                 showNotification('متخصص با موفقیت ویرایش شد.', 'success');
             } else { // Adding
-                const { data, error } = await supabase.from('service_providers').insert({ name: providerData.name, specialty: providerData.specialty }).select().single();
+                const { data, error } = await backend.from('service_providers').insert({ name: providerData.name, specialty: providerData.specialty }).select().single();
                 if (error) throw error;
                 await db.serviceProviders.add({ ...providerData, remoteId: data.id });
                 await logActivity('CREATE', 'ServiceProvider', data.id, { newProvider: data });
@@ -1241,7 +2063,7 @@ const ProviderManagerModal: React.FC<{ onClose: () => void }> = ({ onClose }) =>
         if (!window.confirm('آیا از حذف این متخصص مطمئن هستید؟')) return;
         try {
             const providerToDelete = await db.serviceProviders.get(id);
-            const { error } = await supabase.from('service_providers').delete().eq('id', providerToDelete?.remoteId);
+            const { error } = await backend.from('service_providers').delete().eq('id', providerToDelete?.remoteId);
             if (error) throw error;
             await db.serviceProviders.delete(id);
              await logActivity('DELETE', 'ServiceProvider', providerToDelete!.remoteId!, { deletedProvider: providerToDelete });
@@ -1321,12 +2143,12 @@ const ColumnManagerModal: React.FC<{ columns: SimpleAccountingColumn[], onClose:
     const handleSave = async (colData: { name: string, type: 'income' | 'expense' }, id?: number) => {
         try {
             if (id) {
-                const { error } = await supabase.from('simple_accounting_columns').update({ name: colData.name }).eq('id', id);
+                const { error } = await backend.from('simple_accounting_columns').update({ name: colData.name }).eq('id', id);
                 if (error) throw error;
                 showNotification("ستون ویرایش شد.", "success");
             } else {
                 const maxOrder = columns.reduce((max, c) => Math.max(max, c.order), 0);
-                const { error } = await supabase.from('simple_accounting_columns').insert({ ...colData, order: maxOrder + 1 });
+                const { error } = await backend.from('simple_accounting_columns').insert({ ...colData, order: maxOrder + 1 });
                 if (error) throw error;
                 showNotification("ستون جدید اضافه شد.", "success");
             }
@@ -1340,7 +2162,7 @@ const ColumnManagerModal: React.FC<{ columns: SimpleAccountingColumn[], onClose:
     const handleDelete = async (id: number) => {
         if (!window.confirm("آیا از حذف این ستون مطمئن هستید؟ رکوردهای مالی مرتبط با این ستون باقی خواهند ماند اما نمایش داده نخواهند شد.")) return;
         try {
-            const { error } = await supabase.from('simple_accounting_columns').delete().eq('id', id);
+            const { error } = await backend.from('simple_accounting_columns').delete().eq('id', id);
             if (error) throw error;
             showNotification("ستون حذف شد.", "success");
             onSave();
@@ -5,7 +5,7 @@ import { db } from '../db';
 import { ExpiryThreshold, Drug, ActivityLog, SaleInvoice, PurchaseInvoice, Payment, ClinicTransaction, User, Role } from '../types';
 import Modal from '../components/Modal';
 import { parseJalaliDate } from '../lib/dateConverter';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
 
 
@@ -37,7 +37,7 @@ const AlertsSection: React.FC<{
             lowStockDrugs.map(drug => (
               <div key={drug.id} className="flex justify-between items-center bg-gray-700/50 p-3 rounded-lg">
                 <span className="text-white font-medium">{drug.name}</span>
-                <span className="text-yellow-400 font-bold">{drug.totalStock} عدد</span>
+                <span className="text-yellow-400 font-bold">{drug.totalStock} عدد{drug.minStock !== undefined && <span className="text-xs text-gray-400 font-normal"> / حداقل {drug.minStock}</span>}</span>
               </div>
             ))
           ) : (
@@ -128,7 +128,7 @@ const ActivityLogSection: React.FC = () => {
             setIsLoading(true);
             setError(null);
             try {
-                const { data, error: supabaseError } = await supabase
+                const { data, error: supabaseError } = await backend
                     .from('activity_log')
                     .select('*')
                     .gte('timestamp', dateRange.start)
@@ -396,7 +396,8 @@ const Dashboard: React.FC = () => {
   [settings]);
 
   // --- Live Queries based on Settings ---
-  const lowStockDrugs = useLiveQuery(() => db.drugs.where('totalStock').below(lowStockThreshold).toArray(), [lowStockThreshold]);
+  // A drug's own minimum wins over the global threshold.
+  const lowStockDrugs = useLiveQuery(() => db.drugs.filter(drug => drug.totalStock < (drug.minStock ?? lowStockThreshold)).toArray(), [lowStockThreshold]);
 
   const expiringDrugs = useLiveQuery(async () => {
     const { value, unit } = expiryAlertThreshold;
@@ -1,22 +1,33 @@
 import React, { useState, FormEvent, useRef, useEffect, useMemo } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { Drug, DrugBatch, DrugType, ExpiryThreshold } from '../types';
+import { Drug, DrugBatch, DrugType, ControlledSchedule, ExpiryThreshold, Stocktake, StocktakeScope, StockAdjustmentReason, StockWriteOff, PurchaseReturn } from '../types';
 import Modal from '../components/Modal';
-import { Plus, Edit, Trash2, Sparkles, PackageOpen } from 'lucide-react';
+import { Plus, Edit, Trash2, Sparkles, PackageOpen, ClipboardList, ScanLine, CheckCircle, XCircle, History, SlidersHorizontal, CalendarX, Printer, Undo2 } from 'lucide-react';
 import { useVoiceInput } from '../hooks/useVoiceInput';
 import VoiceControlHeader from '../components/VoiceControlHeader';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
+import { enqueueSyncItem, processSyncQueue } from '../lib/syncService';
+import { markOwnStockWrite } from '../lib/realtimeSync';
+import { toRemoteRecord } from '../lib/syncMappers';
+import { ADJUSTMENT_REASONS, adjustmentError, movementHistory, STOCK_MOVEMENT_LABELS } from '../lib/stockMovements';
+import { buildExpiredStockWorklist, ExpiredStockLine, isExpired } from '../lib/expiredStock';
+import { applyRemoteRow } from '../lib/deltaSync';
+import PrintableStockWriteOff from '../components/PrintableStockWriteOff';
+import PrintablePurchaseReturn from '../components/PrintablePurchaseReturn';
+import { buildStocktakeLines, lineVariance, scopeLabel, summarizeStocktake } from '../lib/stocktake';
 
 const Inventory: React.FC = () => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [isBatchModalOpen, setIsBatchModalOpen] = useState(false);
   const [selectedDrugForBatches, setSelectedDrugForBatches] = useState<Drug | null>(null);
   const [editingDrug, setEditingDrug] = useState<Drug | null>(null);
+  const [isStocktakeOpen, setIsStocktakeOpen] = useState(false);
+  const [isExpiredStockOpen, setIsExpiredStockOpen] = useState(false);
   const { hasPermission } = useAuth();
   const { showNotification } = useNotification();
   const isOnline = useOnlineStatus();
@@ -45,6 +56,10 @@ const Inventory: React.FC = () => {
     return expiryMap;
   }, [drugBatches]);
   
+  // Batches waiting to be quarantined or disposed of.
+  const expiredBatchCount = useMemo(() => drugBatches?.filter(batch =>
+    (batch.quantityInStock > 0 && isExpired(batch.expiryDate)) || (batch.quarantinedQuantity || 0) > 0).length ?? 0, [drugBatches]);
+
   const getExpiryTargetDate = useMemo(() => {
     const { value, unit } = expiryAlertThreshold;
     const targetDate = new Date();
@@ -90,10 +105,11 @@ const Inventory: React.FC = () => {
         }
 
         // --- ONLINE-FIRST: Delete from Supabase first ---
-        const { error: batchError } = await supabase.from('drug_batches').delete().eq('drug_id', drugToDelete.remoteId);
+        markOwnStockWrite([id]);
+        const { error: batchError } = await backend.from('drug_batches').delete().eq('drug_id', drugToDelete.remoteId);
         if (batchError) throw batchError;
 
-        const { error: drugError } = await supabase.from('drugs').delete().eq('id', drugToDelete.remoteId);
+        const { error: drugError } = await backend.from('drugs').delete().eq('id', drugToDelete.remoteId);
         if (drugError) throw drugError;
 
         // --- On success, delete from local cache ---
@@ -115,6 +131,24 @@ const Inventory: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-3xl font-bold text-white">مدیریت انبار</h2>
+        <div className="flex items-center gap-3">
+        <button
+            onClick={() => setIsExpiredStockOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+        >
+            <CalendarX size={20} />
+            <span>کالای تاریخ‌گذشته</span>
+            {expiredBatchCount > 0 && <span className="text-xs px-2 py-0.5 rounded-full bg-red-500 text-white">{expiredBatchCount}</span>}
+        </button>
+        {hasPermission('inventory:stocktake') && (
+            <button
+            onClick={() => setIsStocktakeOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+            >
+            <ClipboardList size={20} />
+            <span>شمارش انبار</span>
+            </button>
+        )}
         {hasPermission('inventory:create') && (
             <button
             onClick={openModalForNew}
@@ -126,6 +160,7 @@ const Inventory: React.FC = () => {
             <span>افزودن داروی جدید</span>
             </button>
         )}
+        </div>
       </div>
       <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden border border-gray-700">
         <div className="overflow-x-auto">
@@ -134,6 +169,7 @@ const Inventory: React.FC = () => {
               <tr>
                 <th scope="col" className="px-6 py-3">نام دارو</th>
                 <th scope="col" className="px-6 py-3">شرکت</th>
+                <th scope="col" className="px-6 py-3">قفسه</th>
                 <th scope="col" className="px-6 py-3">موجودی کل</th>
                 <th scope="col" className="px-6 py-3">قیمت فروش</th>
                 <th scope="col" className="px-6 py-3">عملیات</th>
@@ -147,13 +183,17 @@ const Inventory: React.FC = () => {
 
                 return (
                     <tr key={drug.id} className="bg-gray-800 border-b border-gray-700 hover:bg-gray-700/50">
-                        <td className={`px-6 py-4 font-medium whitespace-nowrap ${isSoonToExpire ? 'text-yellow-400' : 'text-white'}`}>{drug.name}</td>
+                        <td className={`px-6 py-4 font-medium whitespace-nowrap ${isSoonToExpire ? 'text-yellow-400' : 'text-white'}`}>
+                            {drug.name}
+                            {drug.controlled && <span className="mr-2 text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300">{drug.controlled}</span>}
+                        </td>
                         <td className="px-6 py-4">{drug.company}</td>
+                        <td className="px-6 py-4">{drug.shelf || '-'}</td>
                         <td className="px-6 py-4">{drug.totalStock}</td>
                         <td className="px-6 py-4">${drug.salePrice.toFixed(2)}</td>
                         <td className="px-6 py-4 flex items-center gap-4">
                             <button onClick={() => openBatchModal(drug)} className="text-gray-400 hover:text-white" title="مشاهده بچ‌ها"><PackageOpen size={18} /></button>
-                            {hasPermission('inventory:edit') && <button onClick={() => openModalForEdit(drug)} disabled={!isOnline} className="text-blue-400 hover:text-blue-300 disabled:text-gray-500 disabled:cursor-not-allowed" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "ویرایش"}><Edit size={18} /></button>}
+                            {hasPermission('inventory:edit') && <button onClick={() => openModalForEdit(drug)} className="text-blue-400 hover:text-blue-300" title="ویرایش"><Edit size={18} /></button>}
                             {hasPermission('inventory:delete') && <button onClick={() => handleDelete(drug.id)} disabled={!isOnline} className="text-red-400 hover:text-red-300 disabled:text-gray-500 disabled:cursor-not-allowed" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "حذف"}><Trash2 size={18} /></button>}
                         </td>
                     </tr>
@@ -169,15 +209,39 @@ const Inventory: React.FC = () => {
       {isBatchModalOpen && selectedDrugForBatches && (
         <BatchDetailsModal drug={selectedDrugForBatches} onClose={closeModal} />
       )}
+      {isStocktakeOpen && <StocktakeListModal onClose={() => setIsStocktakeOpen(false)} />}
+      {isExpiredStockOpen && <ExpiredStockModal onClose={() => setIsExpiredStockOpen(false)} />}
     </div>
   );
 };
 
 const BatchDetailsModal: React.FC<{ drug: Drug; onClose: () => void }> = ({ drug, onClose }) => {
-    const batches = useLiveQuery(() => db.drugBatches.where('drugId').equals(drug.id!).filter(b => b.quantityInStock > 0).toArray(), [drug.id]);
+    const batches = useLiveQuery(() => db.drugBatches.where('drugId').equals(drug.id!).filter(b => b.quantityInStock > 0 || (b.quarantinedQuantity || 0) > 0).toArray(), [drug.id]);
+    const allBatches = useLiveQuery(() => db.drugBatches.where('drugId').equals(drug.id!).toArray(), [drug.id]);
+    const movements = useLiveQuery(() => db.stockMovements.where('drugId').equals(drug.id!).toArray(), [drug.id]);
+    const [view, setView] = useState<'batches' | 'history'>('batches');
+    const [batchToAdjust, setBatchToAdjust] = useState<DrugBatch | null>(null);
+    const { hasPermission } = useAuth();
+    const isOnline = useOnlineStatus();
+
+    const currentStock = useMemo(() => allBatches?.reduce((sum, b) => sum + b.quantityInStock, 0) ?? 0, [allBatches]);
+    const history = useMemo(() => movementHistory(movements ?? [], currentStock), [movements, currentStock]);
+    const lotNumbers = useMemo(() => new Map(allBatches?.map(b => [b.id!, b.lotNumber]) ?? []), [allBatches]);
+
+    if (batchToAdjust) {
+        return <StockAdjustmentModal drug={drug} batch={batchToAdjust} onClose={() => setBatchToAdjust(null)} />;
+    }
 
     return (
         <Modal title={`بچ‌های موجود برای: ${drug.name}`} onClose={onClose}>
+            <div className="flex items-center gap-2 mb-4">
+                <button onClick={() => setView('batches')} className={`px-3 py-1.5 text-sm rounded-md ${view === 'batches' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>بچ‌ها</button>
+                <button onClick={() => setView('history')} className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-md ${view === 'history' ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+                    <History size={14} />
+                    گردش موجودی
+                </button>
+            </div>
+            {view === 'batches' ? (
             <div className="max-h-96 overflow-y-auto">
                 {batches && batches.length > 0 ? (
                     <table className="w-full text-sm text-right text-gray-300">
@@ -185,8 +249,10 @@ const BatchDetailsModal: React.FC<{ drug: Drug; onClose: () => void }> = ({ drug
                             <tr>
                                 <th scope="col" className="px-4 py-2">شماره لات</th>
                                 <th scope="col" className="px-4 py-2">تعداد موجود</th>
+                                <th scope="col" className="px-4 py-2">قرنطینه</th>
                                 <th scope="col" className="px-4 py-2">تاریخ انقضا</th>
                                 <th scope="col" className="px-4 py-2">قیمت خرید</th>
+                                {hasPermission('inventory:adjust') && <th scope="col" className="px-4 py-2"></th>}
                             </tr>
                         </thead>
                         <tbody className="divide-y divide-gray-700">
@@ -194,8 +260,16 @@ const BatchDetailsModal: React.FC<{ drug: Drug; onClose: () => void }> = ({ drug
                                 <tr key={batch.id}>
                                     <td className="px-4 py-3 font-medium text-white">{batch.lotNumber}</td>
                                     <td className="px-4 py-3">{batch.quantityInStock}</td>
+                                    <td className="px-4 py-3 text-red-400">{batch.quarantinedQuantity || '-'}</td>
                                     <td className="px-4 py-3">{new Date(batch.expiryDate).toLocaleDateString('fa-IR')}</td>
                                     <td className="px-4 py-3">${batch.purchasePrice.toFixed(2)}</td>
+                                    {hasPermission('inventory:adjust') && (
+                                        <td className="px-4 py-3">
+                                            <button onClick={() => setBatchToAdjust(batch)} disabled={!isOnline} className="flex items-center gap-1 text-blue-400 hover:text-blue-300 disabled:text-gray-600 disabled:cursor-not-allowed" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "اصلاح موجودی"}>
+                                                <SlidersHorizontal size={16} />
+                                            </button>
+                                        </td>
+                                    )}
                                 </tr>
                             ))}
                         </tbody>
@@ -204,6 +278,52 @@ const BatchDetailsModal: React.FC<{ drug: Drug; onClose: () => void }> = ({ drug
                     <p className="text-center text-gray-500 py-8">هیچ بچ با موجودی برای این دارو یافت نشد.</p>
                 )}
             </div>
+            ) : (
+            <div className="max-h-96 overflow-y-auto">
+                <table className="w-full text-sm text-right text-gray-300">
+                    <thead className="text-xs text-gray-400 uppercase bg-gray-700/50 sticky top-0">
+                        <tr>
+                            <th scope="col" className="px-4 py-2">تاریخ</th>
+                            <th scope="col" className="px-4 py-2">نوع</th>
+                            <th scope="col" className="px-4 py-2">لات</th>
+                            <th scope="col" className="px-4 py-2">شرح</th>
+                            <th scope="col" className="px-4 py-2">تغییر</th>
+                            <th scope="col" className="px-4 py-2">مانده</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {history.untracked !== 0 && (
+                            <tr className="text-gray-400">
+                                <td className="px-4 py-2" colSpan={4}>موجودی پیش از شروع دفتر گردش یا تغییرات همگام‌سازی‌نشده</td>
+                                <td className="px-4 py-2">{history.untracked > 0 ? `+${history.untracked}` : history.untracked}</td>
+                                <td className="px-4 py-2">{history.untracked}</td>
+                            </tr>
+                        )}
+                        {history.rows.map(({ movement, balance }) => (
+                            <tr key={movement.id}>
+                                <td className="px-4 py-2 whitespace-nowrap">{new Date(movement.date).toLocaleString('fa-IR')}</td>
+                                <td className="px-4 py-2">{STOCK_MOVEMENT_LABELS[movement.type]}</td>
+                                <td className="px-4 py-2">{lotNumbers.get(movement.batchId) ?? '-'}</td>
+                                <td className="px-4 py-2 text-xs text-gray-400">
+                                    {[
+                                        movement.referenceId && `#${movement.referenceId}`,
+                                        movement.reason && ADJUSTMENT_REASONS[movement.reason].label,
+                                        movement.note,
+                                        movement.username,
+                                    ].filter(Boolean).join(' - ') || '-'}
+                                </td>
+                                <td className={`px-4 py-2 font-semibold ${movement.quantity < 0 ? 'text-red-400' : 'text-green-400'}`}>{movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}</td>
+                                <td className="px-4 py-2">{balance}</td>
+                            </tr>
+                        ))}
+                        {history.rows.length === 0 && history.untracked === 0 && (
+                            <tr><td colSpan={6} className="text-center py-8 text-gray-500">هیچ گردشی برای این دارو ثبت نشده است.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+                <p className="text-xs text-gray-400 mt-3">موجودی فعلی (جمع بچ‌ها): <span className="font-bold text-white">{currentStock}</span></p>
+            </div>
+            )}
              <div className="flex justify-end pt-4 mt-4 border-t border-gray-600">
                 <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
             </div>
@@ -211,8 +331,675 @@ const BatchDetailsModal: React.FC<{ drug: Drug; onClose: () => void }> = ({ drug
     );
 };
 
+// Manual changes to a batch; the reason decides the movement type and direction.
+const StockAdjustmentModal: React.FC<{ drug: Drug; batch: DrugBatch; onClose: () => void }> = ({ drug, batch, onClose }) => {
+    const [reason, setReason] = useState<StockAdjustmentReason | ''>('');
+    const [quantity, setQuantity] = useState<number | ''>('');
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+
+    const rule = reason ? ADJUSTMENT_REASONS[reason] : undefined;
+    // Directional reasons take a plain amount; the sign comes from the reason.
+    const change = quantity === '' ? 0 : rule?.direction === 'out' ? -Math.abs(quantity) : rule?.direction === 'in' ? Math.abs(quantity) : quantity;
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const error = adjustmentError(reason || undefined, change, batch.quantityInStock, note);
+        if (error) {
+            showNotification(error, 'error');
+            return;
+        }
+        if (!batch.remoteId) {
+            showNotification('این بچ هنوز همگام‌سازی نشده است.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            markOwnStockWrite([batch.drugId]);
+            const { data, error: rpcError } = await backend.rpc('create_stock_adjustment_transaction', {
+                p_batch_id: batch.remoteId,
+                p_quantity: change,
+                p_reason: reason,
+                p_note: note.trim() || null,
+                p_username: currentUser?.username ?? null,
+            });
+            if (rpcError) throw rpcError;
+            if (!data.success) throw new Error(data.message);
+
+            // The batch, drug and movement arrive through the realtime subscription.
+            await logActivity('UPDATE', 'StockMovement', String(batch.remoteId), {
+                drug: drug.name, lotNumber: batch.lotNumber, reason, quantity: change, note: note.trim() || undefined,
+            });
+            showNotification(data.message, 'success');
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to adjust stock:", error);
+            showNotification(error.message || 'خطا در اصلاح موجودی.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal title={`اصلاح موجودی: ${drug.name} - لات ${batch.lotNumber}`} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <p className="text-sm text-gray-400">موجودی فعلی این بچ: <span className="font-bold text-white">{batch.quantityInStock}</span></p>
+                <select value={reason} onChange={e => setReason(e.target.value as StockAdjustmentReason | '')} required className="input-style">
+                    <option value="">دلیل اصلاح را انتخاب کنید...</option>
+                    {(Object.entries(ADJUSTMENT_REASONS) as [StockAdjustmentReason, typeof ADJUSTMENT_REASONS[StockAdjustmentReason]][]).map(([key, r]) => (
+                        <option key={key} value={key}>{r.label}</option>
+                    ))}
+                </select>
+                <input
+                    type="number"
+                    step="1"
+                    value={quantity}
+                    onChange={e => setQuantity(e.target.value === '' ? '' : Number(e.target.value))}
+                    placeholder={rule?.direction === 'either' ? 'مقدار تغییر (منفی برای کاهش)' : rule?.direction === 'out' ? 'تعداد کسرشونده' : 'تعداد افزوده‌شونده'}
+                    required
+                    className="input-style"
+                />
+                <input value={note} onChange={e => setNote(e.target.value)} placeholder={rule?.requiresNote ? 'توضیح (الزامی)' : 'توضیح (اختیاری)'} required={rule?.requiresNote} className="input-style" />
+                {change !== 0 && (
+                    <p className="text-sm text-gray-300">
+                        {rule && STOCK_MOVEMENT_LABELS[rule.type]}: <span className={change < 0 ? 'text-red-400' : 'text-green-400'}>{change > 0 ? `+${change}` : change}</span>
+                        {' '}| موجودی پس از اصلاح: <span className="font-bold">{batch.quantityInStock + change}</span>
+                        {' '}| ارزش: ${(change * batch.purchasePrice).toFixed(2)}
+                    </p>
+                )}
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-600">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                    <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">{isSaving ? 'در حال ثبت...' : 'ثبت اصلاح'}</button>
+                </div>
+            </form>
+            <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; font-size: 0.875rem; }`}</style>
+        </Modal>
+    );
+};
+
+// Expired batches and quarantined units, with their value, until they are written off or sent back.
+const ExpiredStockModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const batches = useLiveQuery(() => db.drugBatches.toArray(), []);
+    const drugs = useLiveQuery(() => db.drugs.toArray(), []);
+    const suppliers = useLiveQuery(() => db.suppliers.toArray(), []);
+    const purchaseInvoices = useLiveQuery(() => db.purchaseInvoices.toArray(), []);
+    const purchaseReturns = useLiveQuery(() => db.purchaseReturns.toArray(), []);
+    const [selected, setSelected] = useState<Set<number>>(new Set());
+    const [notes, setNotes] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [completedWriteOff, setCompletedWriteOff] = useState<StockWriteOff | null>(null);
+    const [completedReturn, setCompletedReturn] = useState<{ purchaseReturn: PurchaseReturn; supplierName: string; invoiceNumber: string } | null>(null);
+    const { currentUser, hasPermission } = useAuth();
+    const { showNotification } = useNotification();
+    const isOnline = useOnlineStatus();
+    const canDispose = hasPermission('inventory:adjust');
+
+    const lines = useMemo(() => {
+        if (!batches || !drugs || !purchaseInvoices || !purchaseReturns) return [];
+        return buildExpiredStockWorklist(batches, drugs, purchaseInvoices, purchaseReturns);
+    }, [batches, drugs, purchaseInvoices, purchaseReturns]);
+    const supplierNames = useMemo(() => new Map(suppliers?.map(s => [s.id!, s.name]) ?? []), [suppliers]);
+
+    const totalValue = lines.reduce((sum, line) => sum + line.value, 0);
+    const awaitingQuarantine = lines.filter(line => line.awaitingQuarantine > 0).length;
+    const selectedLines = lines.filter(line => selected.has(line.batch.id!) && line.quarantined > 0);
+    const selectedValue = selectedLines.reduce((sum, line) => sum + line.quarantined * line.batch.purchasePrice, 0);
+
+    const toggle = (batchId: number) => setSelected(prev => {
+        const next = new Set(prev);
+        if (next.has(batchId)) next.delete(batchId);
+        else next.add(batchId);
+        return next;
+    });
+
+    const handleQuarantineNow = async () => {
+        setIsSaving(true);
+        try {
+            markOwnStockWrite(lines.filter(line => line.awaitingQuarantine > 0).map(line => line.batch.drugId));
+            const { data, error } = await backend.rpc('quarantine_expired_stock_transaction', {});
+            if (error) throw error;
+            if (!data.success) throw new Error(data.message);
+            // The batches arrive through the realtime subscription.
+            showNotification(data.message, 'success');
+        } catch (error: any) {
+            console.error("Failed to quarantine expired stock:", error);
+            showNotification(error.message || 'خطا در انتقال به قرنطینه.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleWriteOff = async () => {
+        if (selectedLines.length === 0) {
+            showNotification('حداقل یک بچ قرنطینه‌شده را برای امحا انتخاب کنید.', 'error');
+            return;
+        }
+        if (selectedLines.some(line => !line.batch.remoteId)) {
+            showNotification('بعضی از بچ‌های انتخاب‌شده هنوز همگام‌سازی نشده‌اند.', 'error');
+            return;
+        }
+        if (!window.confirm(`${selectedLines.length} بچ به ارزش $${selectedValue.toFixed(2)} امحا و به عنوان زیان ثبت می‌شود. ادامه می‌دهید؟`)) return;
+
+        setIsSaving(true);
+        try {
+            markOwnStockWrite(selectedLines.map(line => line.batch.drugId));
+            const { data, error } = await backend.rpc('create_stock_write_off_transaction', {
+                p_items: selectedLines.map(line => ({ batch_id: line.batch.remoteId, quantity: line.quarantined })),
+                p_notes: notes.trim() || null,
+                p_username: currentUser?.username ?? null,
+            });
+            if (error) throw error;
+            if (!data.success) throw new Error(data.message);
+
+            const writeOff = await applyRemoteRow('stockWriteOffs', data.write_off) as StockWriteOff | null;
+            await logActivity('CREATE', 'StockWriteOff', String(data.write_off.id), {
+                items: selectedLines.map(line => ({ drug: line.drugName, lotNumber: line.batch.lotNumber, quantity: line.quarantined })),
+                totalValue: data.write_off.total_value,
+            });
+            setSelected(new Set());
+            setNotes('');
+            if (writeOff) setCompletedWriteOff(writeOff);
+            showNotification(data.message, 'success');
+        } catch (error: any) {
+            console.error("Failed to write off stock:", error);
+            showNotification(error.message || 'خطا در ثبت سند امحا.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleSupplierReturn = async (line: ExpiredStockLine) => {
+        const { invoice, returnable } = line.source!;
+        const quantity = Math.min(line.quarantined, returnable);
+        const supplierName = supplierNames.get(invoice.supplierId) ?? '';
+        const drug = drugs?.find(d => d.id === line.batch.drugId);
+        if (!invoice.remoteId || !drug?.remoteId) {
+            showNotification('فاکتور خرید یا داروی این بچ هنوز همگام‌سازی نشده است.', 'error');
+            return;
+        }
+        if (!window.confirm(`${quantity} عدد از "${line.drugName}" (لات ${line.batch.lotNumber}) به ${supplierName} مرجوع و $${(quantity * line.batch.purchasePrice).toFixed(2)} از بدهی کسر می‌شود. ادامه می‌دهید؟`)) return;
+
+        const date = new Date().toISOString();
+        const reason = line.expired ? 'تاریخ‌گذشته' : 'آسیب‌دیده';
+        setIsSaving(true);
+        try {
+            const payload = {
+                p_purchase_invoice_id: invoice.remoteId,
+                p_items: [{
+                    drug_id: drug.remoteId, name: line.drugName, quantity, purchase_price: line.batch.purchasePrice,
+                    lot_number: line.batch.lotNumber, expiry_date: line.batch.expiryDate,
+                }],
+                p_date: date,
+                p_reason: reason,
+                p_from_quarantine: true,
+            };
+            markOwnStockWrite([line.batch.drugId]);
+            const { data, error } = await backend.rpc('create_purchase_return_transaction', { p_payload: payload });
+            if (error) throw error;
+            if (!data.success) throw new Error(data.message);
+
+            await logActivity('CREATE', 'PurchaseReturn', data.new_return_id, { purchaseReturn: payload });
+            // The batch and supplier debt arrive through the realtime subscription.
+            const purchaseReturn: PurchaseReturn = {
+                remoteId: data.new_return_id, purchaseInvoiceId: invoice.id!, supplierId: invoice.supplierId, date,
+                items: [{ drugId: line.batch.drugId, name: line.drugName, lotNumber: line.batch.lotNumber, expiryDate: line.batch.expiryDate, quantity, purchasePrice: line.batch.purchasePrice }],
+                totalAmount: quantity * line.batch.purchasePrice, reason, fromQuarantine: true,
+            };
+            purchaseReturn.id = await db.purchaseReturns.add(purchaseReturn);
+            setCompletedReturn({ purchaseReturn, supplierName, invoiceNumber: invoice.invoiceNumber });
+            showNotification(data.message, 'success');
+        } catch (error: any) {
+            console.error("Failed to return quarantined stock:", error);
+            showNotification(error.message || 'خطا در ثبت مرجوعی. لطفاً دوباره تلاش کنید.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (completedWriteOff || completedReturn) {
+        const close = () => { setCompletedWriteOff(null); setCompletedReturn(null); };
+        return (
+            <Modal title={completedWriteOff ? 'صورتجلسه امحا' : 'برگه مرجوعی به تامین‌کننده'} onClose={close}>
+                <div className="space-y-4">
+                    {completedWriteOff && <PrintableStockWriteOff writeOff={completedWriteOff} />}
+                    {completedReturn && <PrintablePurchaseReturn {...completedReturn} />}
+                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                        <button onClick={close} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بازگشت به فهرست</button>
+                        <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700">
+                            <Printer size={18} />
+                            <span>چاپ</span>
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        );
+    }
+
+    return (
+        <Modal title="کالای تاریخ‌گذشته و قرنطینه" onClose={onClose}>
+            <div className="space-y-4">
+                <div className="flex flex-wrap items-center justify-between gap-3 p-3 bg-gray-900/50 rounded-lg text-sm">
+                    <p className="text-gray-300">
+                        {lines.length} بچ | ارزش کل: <span className="font-bold text-red-400">${totalValue.toFixed(2)}</span>
+                        {awaitingQuarantine > 0 && <span className="text-yellow-300"> | {awaitingQuarantine} بچ در انتظار انتقال به قرنطینه</span>}
+                    </p>
+                    {awaitingQuarantine > 0 && (
+                        <button onClick={handleQuarantineNow} disabled={!isOnline || isSaving} className="px-3 py-1.5 bg-yellow-600 text-white rounded-lg hover:bg-yellow-700 disabled:bg-gray-500" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : undefined}>
+                            انتقال به قرنطینه
+                        </button>
+                    )}
+                </div>
+                <div className="max-h-[50vh] overflow-y-auto">
+                    <table className="w-full text-sm text-right text-gray-300">
+                        <thead className="text-xs text-gray-400 bg-gray-700/50 sticky top-0">
+                            <tr>
+                                {canDispose && <th className="px-3 py-2"></th>}
+                                <th className="px-3 py-2">دارو</th>
+                                <th className="px-3 py-2">لات</th>
+                                <th className="px-3 py-2">انقضا</th>
+                                <th className="px-3 py-2">قرنطینه</th>
+                                <th className="px-3 py-2">ارزش</th>
+                                <th className="px-3 py-2">تامین‌کننده</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {lines.map(line => {
+                                const canReturn = canDispose && line.quarantined > 0 && (line.source?.returnable ?? 0) > 0;
+                                return (
+                                    <tr key={line.batch.id}>
+                                        {canDispose && (
+                                            <td className="px-3 py-2">
+                                                <input type="checkbox" checked={selected.has(line.batch.id!)} disabled={line.quarantined === 0} onChange={() => toggle(line.batch.id!)} />
+                                            </td>
+                                        )}
+                                        <td className="px-3 py-2 text-white">{line.drugName}</td>
+                                        <td className="px-3 py-2">{line.batch.lotNumber}</td>
+                                        <td className={`px-3 py-2 ${line.expired ? 'text-red-400' : ''}`}>
+                                            {new Date(line.batch.expiryDate).toLocaleDateString('fa-IR')}
+                                            {!line.expired && <span className="mr-1 text-xs text-gray-400">(آسیب‌دیده)</span>}
+                                        </td>
+                                        <td className="px-3 py-2">
+                                            {line.quarantined}
+                                            {line.awaitingQuarantine > 0 && <span className="mr-1 text-xs text-yellow-300">+{line.awaitingQuarantine} در انتظار</span>}
+                                        </td>
+                                        <td className="px-3 py-2">${line.value.toFixed(2)}</td>
+                                        <td className="px-3 py-2">
+                                            {line.source ? (
+                                                <div className="flex items-center gap-2">
+                                                    <span className="text-xs">{supplierNames.get(line.source.invoice.supplierId) ?? '-'} (#{line.source.invoice.invoiceNumber})</span>
+                                                    {canReturn && (
+                                                        <button onClick={() => handleSupplierReturn(line)} disabled={!isOnline || isSaving} className="text-blue-400 hover:text-blue-300 disabled:text-gray-600" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "مرجوعی به تامین‌کننده"}>
+                                                            <Undo2 size={16} />
+                                                        </button>
+                                                    )}
+                                                </div>
+                                            ) : <span className="text-xs text-gray-500">بدون فاکتور خرید</span>}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                            {lines.length === 0 && (
+                                <tr><td colSpan={7} className="text-center py-8 text-gray-500">هیچ کالای تاریخ‌گذشته یا قرنطینه‌شده‌ای وجود ندارد.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                {canDispose && (
+                    <div className="flex flex-wrap items-center gap-3 pt-4 border-t border-gray-700">
+                        <input value={notes} onChange={e => setNotes(e.target.value)} placeholder="توضیحات امحا (روش، محل، شاهد)" className="input-style flex-1" />
+                        <button onClick={handleWriteOff} disabled={!isOnline || isSaving || selectedLines.length === 0} className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-500 whitespace-nowrap" title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : undefined}>
+                            <Trash2 size={18} />
+                            ثبت سند امحا {selectedLines.length > 0 && `($${selectedValue.toFixed(2)})`}
+                        </button>
+                    </div>
+                )}
+                <div className="flex justify-end pt-4 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                </div>
+            </div>
+            <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.5rem 0.75rem; width: 100%; font-size: 0.875rem; }`}</style>
+        </Modal>
+    );
+};
+
+const StocktakeListModal: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+    const stocktakes = useLiveQuery(() => db.stocktakes.orderBy('startedAt').reverse().toArray(), []);
+    const shelves = useLiveQuery(async () => [...new Set((await db.drugs.toArray()).map(d => d.shelf).filter((shelf): shelf is string => !!shelf))].sort(), []);
+    const [scope, setScope] = useState<StocktakeScope>({});
+    const [openStocktakeId, setOpenStocktakeId] = useState<number | null>(null);
+    const [isStarting, setIsStarting] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+
+    const handleStart = async () => {
+        const lines = await buildStocktakeLines(scope);
+        if (lines.length === 0) {
+            showNotification('هیچ بچ دارای موجودی در این محدوده یافت نشد.', 'info');
+            return;
+        }
+        const stocktake: Stocktake = {
+            startedAt: new Date().toISOString(),
+            startedBy: currentUser?.username ?? '',
+            scope,
+            lines,
+            status: 'counting',
+        };
+
+        setIsStarting(true);
+        try {
+            const batches = await db.drugBatches.bulkGet(lines.map(line => line.batchId));
+            if (!navigator.onLine || batches.some(batch => !batch?.remoteId)) {
+                await db.transaction('rw', [db.stocktakes, db.drugBatches, db.drugs, db.syncQueue], async () => {
+                    stocktake.id = await db.stocktakes.add(stocktake);
+                    await enqueueSyncItem('stocktakes', 'create', stocktake.id);
+                });
+                showNotification('جلسه شمارش به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } else {
+                const { data, error } = await backend.from('stocktakes').insert(await toRemoteRecord('stocktakes', stocktake)).select().single();
+                if (error) throw error;
+                stocktake.id = await db.stocktakes.add({ ...stocktake, remoteId: data.id, updatedAt: data.updated_at });
+                await logActivity('CREATE', 'Stocktake', data.id, { scope: scopeLabel(scope), batches: lines.length });
+            }
+            setOpenStocktakeId(stocktake.id!);
+        } catch (error: any) {
+            console.error("Failed to start stocktake:", error);
+            showNotification(`خطا در شروع شمارش انبار: ${error.message}`, 'error');
+        } finally {
+            setIsStarting(false);
+        }
+    };
+
+    if (openStocktakeId !== null) {
+        return <StocktakeSheetModal stocktakeId={openStocktakeId} onClose={() => setOpenStocktakeId(null)} />;
+    }
+
+    const statusLabels: Record<Stocktake['status'], { text: string; className: string }> = {
+        counting: { text: 'در حال شمارش', className: 'bg-yellow-500/20 text-yellow-300' },
+        posted: { text: 'ثبت‌شده', className: 'bg-green-500/20 text-green-300' },
+        cancelled: { text: 'لغوشده', className: 'bg-gray-500/20 text-gray-300' },
+    };
+
+    return (
+        <Modal title="شمارش انبار" onClose={onClose}>
+            <div className="space-y-4">
+                <div className="p-3 bg-gray-900/50 rounded-lg space-y-3">
+                    <p className="text-sm text-gray-300">محدوده شمارش جدید را انتخاب کنید. بدون انتخاب قفسه یا نوع، کل انبار شمارش می‌شود.</p>
+                    <div className="flex flex-wrap items-center gap-3">
+                        <select value={scope.shelf ?? ''} onChange={e => setScope(prev => ({ ...prev, shelf: e.target.value || undefined }))} className="input-style flex-1">
+                            <option value="">همه قفسه‌ها</option>
+                            {shelves?.map(shelf => <option key={shelf} value={shelf}>قفسه {shelf}</option>)}
+                        </select>
+                        <select value={scope.drugType ?? ''} onChange={e => setScope(prev => ({ ...prev, drugType: (e.target.value || undefined) as DrugType | undefined }))} className="input-style flex-1">
+                            <option value="">همه انواع</option>
+                            {Object.values(DrugType).map(type => <option key={type} value={type}>{type}</option>)}
+                        </select>
+                        <button onClick={handleStart} disabled={isStarting} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-500 whitespace-nowrap">
+                            <ClipboardList size={18} />
+                            {isStarting ? 'در حال آماده‌سازی...' : 'شروع شمارش'}
+                        </button>
+                    </div>
+                </div>
+                <div className="space-y-2 max-h-[50vh] overflow-y-auto">
+                    {stocktakes?.map(stocktake => {
+                        const summary = summarizeStocktake(stocktake.lines);
+                        const status = statusLabels[stocktake.status];
+                        return (
+                            <div key={stocktake.id} className="p-3 bg-gray-700/60 rounded-lg flex items-center justify-between gap-3 text-sm">
+                                <div>
+                                    <p className="font-semibold text-white">
+                                        {scopeLabel(stocktake.scope)}
+                                        <span className={`mr-2 text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.text}</span>
+                                    </p>
+                                    <p className="text-xs text-gray-400">
+                                        {new Date(stocktake.startedAt).toLocaleString('fa-IR')} | {stocktake.startedBy} | {summary.counted} از {stocktake.lines.length} بچ شمارش شده
+                                        {summary.varianceLines > 0 && ` | مغایرت خالص: $${summary.netValue.toFixed(2)}`}
+                                    </p>
+                                </div>
+                                <button onClick={() => setOpenStocktakeId(stocktake.id!)} className={`px-3 py-1.5 text-white rounded-lg ${stocktake.status === 'counting' ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-500'}`}>
+                                    {stocktake.status === 'counting' ? 'ادامه شمارش' : 'مشاهده'}
+                                </button>
+                            </div>
+                        );
+                    })}
+                    {stocktakes?.length === 0 && <p className="text-center py-6 text-gray-500">هنوز شمارشی انجام نشده است.</p>}
+                </div>
+                <div className="flex justify-end pt-4 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                </div>
+            </div>
+            <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.5rem 0.75rem; width: 100%; font-size: 0.875rem; }`}</style>
+        </Modal>
+    );
+};
+
+// Counts are saved on this device as they are typed; the server only receives the
+// final counts when the session is posted, together with the stock adjustments.
+const StocktakeSheetModal: React.FC<{ stocktakeId: number; onClose: () => void }> = ({ stocktakeId, onClose }) => {
+    const stocktake = useLiveQuery(() => db.stocktakes.get(stocktakeId), [stocktakeId]);
+    const [scanTerm, setScanTerm] = useState('');
+    const [filter, setFilter] = useState('');
+    const [onlyVariances, setOnlyVariances] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+    const isOnline = useOnlineStatus();
+
+    const isCounting = stocktake?.status === 'counting';
+    const summary = useMemo(() => summarizeStocktake(stocktake?.lines ?? []), [stocktake]);
+
+    const visibleLines = useMemo(() => {
+        const term = filter.trim().toLowerCase();
+        return (stocktake?.lines ?? [])
+            .map((line, index) => ({ line, index }))
+            .filter(({ line }) => !term || line.name.toLowerCase().includes(term) || line.lotNumber.toLowerCase().includes(term))
+            .filter(({ line }) => !onlyVariances || lineVariance(line) !== 0);
+    }, [stocktake, filter, onlyVariances]);
+
+    const setCounted = (index: number, countedQuantity: number | undefined) => {
+        if (!stocktake) return;
+        const lines = stocktake.lines.map((line, i) => (i === index ? { ...line, countedQuantity } : line));
+        db.stocktakes.update(stocktakeId, { lines });
+    };
+
+    // A scanned code counts one unit when the drug has a single batch in the session;
+    // otherwise the sheet is narrowed to that drug so the right lot can be chosen.
+    const handleScan = async (e: FormEvent) => {
+        e.preventDefault();
+        const code = scanTerm.trim();
+        if (!code || !stocktake) return;
+        const drug = await db.drugs.where('barcode').equals(code).first()
+            ?? await db.drugs.where('internalBarcode').equals(code).first()
+            ?? await db.drugs.where('name').equals(code).first();
+        const indexes = stocktake.lines.map((line, index) => (line.drugId === drug?.id ? index : -1)).filter(index => index >= 0);
+        setScanTerm('');
+        if (!drug || indexes.length === 0) {
+            showNotification(`کالایی با کد "${code}" در این شمارش یافت نشد.`, 'error');
+            return;
+        }
+        if (indexes.length === 1) {
+            setCounted(indexes[0], (stocktake.lines[indexes[0]].countedQuantity ?? 0) + 1);
+            setFilter('');
+        } else {
+            setFilter(drug.name);
+            showNotification(`"${drug.name}" چند بچ دارد؛ تعداد هر لات را وارد کنید.`, 'info');
+        }
+    };
+
+    const handleCancel = async () => {
+        if (!stocktake || !window.confirm('آیا از لغو این جلسه شمارش مطمئن هستید؟ هیچ مغایرتی ثبت نخواهد شد.')) return;
+        const changes = { status: 'cancelled' as const };
+        try {
+            if (!navigator.onLine || !stocktake.remoteId) {
+                await db.transaction('rw', [db.stocktakes, db.drugBatches, db.drugs, db.syncQueue], async () => {
+                    await db.stocktakes.update(stocktakeId, changes);
+                    await enqueueSyncItem('stocktakes', 'update', stocktakeId, changes);
+                });
+                processSyncQueue();
+            } else {
+                const { error } = await backend.from('stocktakes').update(changes).eq('id', stocktake.remoteId);
+                if (error) throw error;
+                await db.stocktakes.update(stocktakeId, changes);
+                await logActivity('UPDATE', 'Stocktake', stocktake.remoteId, { status: 'cancelled', scope: scopeLabel(stocktake.scope) });
+            }
+            showNotification('جلسه شمارش لغو شد.', 'success');
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to cancel stocktake:", error);
+            showNotification(`خطا در لغو شمارش: ${error.message}`, 'error');
+        }
+    };
+
+    const handlePost = async () => {
+        if (!stocktake) return;
+        if (!stocktake.remoteId) {
+            showNotification('این جلسه شمارش هنوز همگام‌سازی نشده است. پس از همگام‌سازی دوباره تلاش کنید.', 'error');
+            return;
+        }
+        const message = summary.uncounted > 0
+            ? `${summary.uncounted} بچ شمارش نشده است و موجودی آن‌ها تغییر نمی‌کند. مغایرت ${summary.varianceLines} بچ ثبت شود؟`
+            : `مغایرت ${summary.varianceLines} بچ در موجودی ثبت شود؟`;
+        if (!window.confirm(message)) return;
+
+        setIsSaving(true);
+        try {
+            const { lines } = await toRemoteRecord('stocktakes', { lines: stocktake.lines });
+            const postedBy = currentUser?.username ?? '';
+            markOwnStockWrite(stocktake.lines.map(line => line.drugId));
+            const { data, error } = await backend.rpc('post_stocktake_transaction', { p_stocktake_id: stocktake.remoteId, p_lines: lines, p_posted_by: postedBy });
+            if (error) throw error;
+            if (!data.success) throw new Error(data.message);
+
+            // Batch and drug stock arrive through the realtime subscription.
+            await db.stocktakes.update(stocktakeId, { status: 'posted', postedAt: new Date().toISOString(), postedBy });
+            await logActivity('UPDATE', 'Stocktake', stocktake.remoteId, {
+                status: 'posted',
+                scope: scopeLabel(stocktake.scope),
+                adjustedBatches: data.adjusted_batches,
+                shortageValue: summary.shortageValue,
+                surplusValue: summary.surplusValue,
+                netValue: summary.netValue,
+            });
+            showNotification(data.message, 'success');
+        } catch (error: any) {
+            console.error("Failed to post stocktake:", error);
+            showNotification(error.message || 'خطا در ثبت مغایرت‌های شمارش.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (!stocktake) return null;
+
+    return (
+        <Modal title={`شمارش انبار: ${scopeLabel(stocktake.scope)}`} onClose={onClose}>
+            <div className="space-y-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                    <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">شمارش‌شده</p><p className="font-bold text-white">{summary.counted} / {stocktake.lines.length}</p></div>
+                    <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">کسری</p><p className="font-bold text-red-400">${summary.shortageValue.toFixed(2)}</p></div>
+                    <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">مازاد</p><p className="font-bold text-green-400">${summary.surplusValue.toFixed(2)}</p></div>
+                    <div className="p-3 bg-gray-700/50 rounded-lg"><p className="text-gray-400">مغایرت خالص</p><p className={`font-bold ${summary.netValue < 0 ? 'text-red-400' : 'text-white'}`}>${summary.netValue.toFixed(2)}</p></div>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                    {isCounting && (
+                        <form onSubmit={handleScan} className="relative flex-1 min-w-[12rem]">
+                            <ScanLine size={16} className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400" />
+                            <input value={scanTerm} onChange={e => setScanTerm(e.target.value)} placeholder="اسکن بارکد (هر اسکن یک عدد)" autoFocus className="input-style pr-9" />
+                        </form>
+                    )}
+                    <input value={filter} onChange={e => setFilter(e.target.value)} placeholder="جستجوی نام یا لات..." className="input-style flex-1 min-w-[12rem]" />
+                    <label className="flex items-center gap-2 text-sm text-gray-300 whitespace-nowrap">
+                        <input type="checkbox" checked={onlyVariances} onChange={e => setOnlyVariances(e.target.checked)} className="form-checkbox h-4 w-4 bg-gray-800 border-gray-600 text-blue-500 rounded" />
+                        فقط مغایرت‌ها
+                    </label>
+                </div>
+
+                <div className="max-h-[45vh] overflow-y-auto">
+                    <table className="w-full text-sm text-right text-gray-300">
+                        <thead className="text-xs text-gray-400 uppercase bg-gray-700/50 sticky top-0">
+                            <tr>
+                                <th className="px-3 py-2">دارو</th>
+                                <th className="px-3 py-2">لات</th>
+                                <th className="px-3 py-2">انقضا</th>
+                                <th className="px-3 py-2">موجودی سیستم</th>
+                                <th className="px-3 py-2">شمارش‌شده</th>
+                                <th className="px-3 py-2">مغایرت</th>
+                                <th className="px-3 py-2">ارزش مغایرت</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {visibleLines.map(({ line, index }) => {
+                                const variance = lineVariance(line);
+                                return (
+                                    <tr key={line.batchId}>
+                                        <td className="px-3 py-2 font-medium text-white">{line.name}</td>
+                                        <td className="px-3 py-2">{line.lotNumber}</td>
+                                        <td className="px-3 py-2">{new Date(line.expiryDate).toLocaleDateString('fa-IR')}</td>
+                                        <td className="px-3 py-2">{line.systemQuantity}</td>
+                                        <td className="px-3 py-2 w-28">
+                                            {isCounting ? (
+                                                <input
+                                                    type="number"
+                                                    min="0"
+                                                    value={line.countedQuantity ?? ''}
+                                                    onChange={e => setCounted(index, e.target.value === '' ? undefined : Math.max(Math.floor(Number(e.target.value)), 0))}
+                                                    className="input-style"
+                                                />
+                                            ) : (line.countedQuantity ?? '-')}
+                                        </td>
+                                        <td className={`px-3 py-2 font-semibold ${variance < 0 ? 'text-red-400' : variance > 0 ? 'text-green-400' : 'text-gray-500'}`}>
+                                            {line.countedQuantity === undefined ? '-' : variance > 0 ? `+${variance}` : variance}
+                                        </td>
+                                        <td className="px-3 py-2">{variance !== 0 ? `$${(variance * line.purchasePrice).toFixed(2)}` : '-'}</td>
+                                    </tr>
+                                );
+                            })}
+                            {visibleLines.length === 0 && (
+                                <tr><td colSpan={7} className="text-center py-6 text-gray-500">موردی برای نمایش وجود ندارد.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+
+                {stocktake.status === 'posted' && (
+                    <p className="text-sm text-gray-400">ثبت‌شده توسط {stocktake.postedBy || '-'} در {stocktake.postedAt && new Date(stocktake.postedAt).toLocaleString('fa-IR')}</p>
+                )}
+
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                    {isCounting && (
+                        <>
+                            <button onClick={handleCancel} className="flex items-center gap-2 px-4 py-2 bg-red-600/80 text-white rounded-lg hover:bg-red-700">
+                                <XCircle size={18} />
+                                لغو شمارش
+                            </button>
+                            <button
+                                onClick={handlePost}
+                                disabled={isSaving || !isOnline || summary.counted === 0}
+                                title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : undefined}
+                                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed"
+                            >
+                                <CheckCircle size={18} />
+                                {isSaving ? 'در حال ثبت...' : 'تایید و ثبت مغایرت‌ها'}
+                            </button>
+                        </>
+                    )}
+                </div>
+            </div>
+            <style>{`.input-style { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.5rem 0.75rem; width: 100%; font-size: 0.875rem; }`}</style>
+        </Modal>
+    );
+};
+
 // This form now handles the definition of a drug AND its initial batch.
-type DrugFormData = Omit<Drug, 'id' | 'purchasePrice' | 'salePrice' | 'totalStock'> & {
+type DrugFormData = Omit<Drug, 'id' | 'purchasePrice' | 'salePrice' | 'totalStock' | 'controlled' | 'minStock' | 'maxStock' | 'preferredSupplierId'> & {
+  controlled: ControlledSchedule | '';
+  minStock: number | '';
+  maxStock: number | '';
+  preferredSupplierId: number | '';
   purchasePrice: number | '';
   salePrice: number | '';
   totalStock: number | ''; // Represents the stock of the initial batch
@@ -231,6 +1018,11 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
     salePrice: drug?.salePrice ?? '',
     totalStock: '', // Always empty for editing, only for new
     type: drug?.type || DrugType.TABLET,
+    controlled: drug?.controlled || '',
+    shelf: drug?.shelf || '',
+    minStock: drug?.minStock ?? '',
+    maxStock: drug?.maxStock ?? '',
+    preferredSupplierId: drug?.preferredSupplierId ?? '',
     barcode: drug?.barcode || undefined,
     internalBarcode: drug?.internalBarcode || undefined,
     // Batch-specific info for the *first* batch
@@ -239,6 +1031,8 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
   });
 
   const [isExpiryDateValid, setIsExpiryDateValid] = useState(true);
+  const shelves = useLiveQuery(async () => [...new Set((await db.drugs.toArray()).map(d => d.shelf).filter((shelf): shelf is string => !!shelf))].sort(), []);
+  const suppliers = useLiveQuery(() => db.suppliers.orderBy('name').toArray(), []);
   const formRef = useRef<HTMLFormElement>(null);
   
   const focusOrder = [
@@ -448,6 +1242,20 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
         setIsSaving(false);
         return;
     }
+
+    const minStock = formData.minStock === '' ? undefined : Number(formData.minStock);
+    const maxStock = formData.maxStock === '' ? undefined : Number(formData.maxStock);
+    const preferredSupplier = formData.preferredSupplierId === '' ? undefined : suppliers?.find(s => s.id === Number(formData.preferredSupplierId));
+    if (minStock !== undefined && maxStock !== undefined && maxStock < minStock) {
+        showNotification('حداکثر موجودی نمی‌تواند کمتر از حداقل موجودی باشد.', 'error');
+        setIsSaving(false);
+        return;
+    }
+    if (preferredSupplier && !preferredSupplier.remoteId && navigator.onLine) {
+        showNotification('تامین‌کننده ترجیحی هنوز همگام‌سازی نشده است.', 'error');
+        setIsSaving(false);
+        return;
+    }
     
     try {
       if (drug && drug.id) { // --- EDITING LOGIC ---
@@ -459,19 +1267,59 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
           type: formData.type,
           barcode: formData.barcode || null,
           internal_barcode: formData.internalBarcode || null,
+          controlled: formData.controlled || null,
+          shelf: formData.shelf?.trim() || null,
+          min_stock: minStock ?? null,
+          max_stock: maxStock ?? null,
+          preferred_supplier_id: preferredSupplier?.remoteId ?? null,
         };
         const oldDrug = await db.drugs.get(drug.id);
 
+        if (!navigator.onLine) {
+          // OFFLINE: Update local cache and queue the change. The queue item records the version
+          // this edit was based on, so a concurrent edit from another terminal surfaces as a conflict.
+          const localChanges = {
+            name: dataToUpdate.name,
+            company: dataToUpdate.company,
+            salePrice: dataToUpdate.sale_price,
+            purchasePrice: dataToUpdate.purchase_price,
+            type: dataToUpdate.type,
+            barcode: dataToUpdate.barcode || undefined,
+            internalBarcode: dataToUpdate.internal_barcode || undefined,
+            controlled: dataToUpdate.controlled || undefined,
+            shelf: dataToUpdate.shelf || undefined,
+            minStock,
+            maxStock,
+            preferredSupplierId: preferredSupplier?.id,
+          };
+          await db.transaction('rw', db.drugs, db.suppliers, db.syncQueue, async () => {
+            await enqueueSyncItem('drugs', 'update', drug.id!, localChanges);
+            await db.drugs.update(drug.id!, localChanges);
+          });
+          showNotification('تغییرات به صورت آفلاین ذخیره شد و پس از اتصال همگام‌سازی می‌شود.', 'info');
+          onClose();
+          return;
+        }
+
         // ONLINE-FIRST: Update Supabase
-        const { error } = await supabase.from('drugs').update(dataToUpdate).eq('id', drug.remoteId);
+        markOwnStockWrite([drug.id]);
+        const { error } = await backend.from('drugs').update(dataToUpdate).eq('id', drug.remoteId);
         if (error) throw error;
 
         // On success, update local cache
         await db.drugs.update(drug.id, {
-            ...dataToUpdate,
+            name: dataToUpdate.name,
+            company: dataToUpdate.company,
+            type: dataToUpdate.type,
+            barcode: dataToUpdate.barcode || undefined,
             salePrice: dataToUpdate.sale_price,
             purchasePrice: dataToUpdate.purchase_price,
-            internalBarcode: dataToUpdate.internal_barcode
+            internalBarcode: dataToUpdate.internal_barcode || undefined,
+            controlled: dataToUpdate.controlled || undefined,
+            shelf: dataToUpdate.shelf || undefined,
+            minStock,
+            maxStock,
+            preferredSupplierId: preferredSupplier?.id,
         });
 
         await logActivity('UPDATE', 'Drug', String(drug.remoteId), { old: oldDrug, new: dataToUpdate });
@@ -487,10 +1335,15 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
             type: formData.type,
             barcode: formData.barcode || null,
             internal_barcode: formData.internalBarcode || null,
+            controlled: formData.controlled || null,
+            shelf: formData.shelf?.trim() || null,
+            min_stock: minStock ?? null,
+            max_stock: maxStock ?? null,
+            preferred_supplier_id: preferredSupplier?.remoteId ?? null,
         };
 
         // ONLINE-FIRST: Insert into Supabase and get the new record
-        const { data: newDrugData, error: drugError } = await supabase.from('drugs').insert(drugToSave).select().single();
+        const { data: newDrugData, error: drugError } = await backend.from('drugs').insert(drugToSave).select().single();
         if (drugError) throw drugError;
 
         const batchToSave = {
@@ -501,14 +1354,23 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
             purchase_price: Number(formData.purchasePrice) || 0,
         };
 
-        const { data: newBatchData, error: batchError } = await supabase.from('drug_batches').insert(batchToSave).select().single();
+        const { data: newBatchData, error: batchError } = await backend.from('drug_batches').insert(batchToSave).select().single();
         
         if (batchError) {
             // Rollback: delete the drug that was just created
-            await supabase.from('drugs').delete().eq('id', newDrugData.id);
+            await backend.from('drugs').delete().eq('id', newDrugData.id);
             throw batchError;
         }
 
+        const { error: movementError } = await backend.from('stock_movements').insert({
+            drug_id: newDrugData.id,
+            batch_id: newBatchData.id,
+            type: 'opening',
+            quantity: newBatchData.quantity_in_stock,
+            date: new Date().toISOString(),
+        });
+        if (movementError) console.error("Failed to record the opening stock movement:", movementError);
+
         // The local cache will be updated by the real-time subscription in App.tsx.
         // No local writes are needed here.
 
@@ -541,8 +1403,22 @@ const DrugFormModal: React.FC<{ drug: Drug | null; onClose: () => void; }> = ({
           <select name="type" value={formData.type} onChange={handleChange} className="input-style">
             {Object.values(DrugType).map(type => <option key={type} value={type}>{type}</option>)}
           </select>
+          <select name="controlled" value={formData.controlled} onChange={handleChange} className="input-style">
+            <option value="">داروی عادی (غیر کنترل‌شده)</option>
+            {Object.values(ControlledSchedule).map(schedule => <option key={schedule} value={schedule}>کنترل‌شده: {schedule}</option>)}
+          </select>
+          <input name="shelf" value={formData.shelf} onChange={handleChange} placeholder="محل نگهداری / قفسه (مثال: A-3)" list="drug-shelves" className="input-style" />
+          <datalist id="drug-shelves">
+            {shelves?.map(shelf => <option key={shelf} value={shelf} />)}
+          </datalist>
           <input name="purchasePrice" value={formData.purchasePrice} onChange={handleChange} type="text" placeholder="قیمت خرید پیش‌فرض" required className="input-style" />
           <input name="salePrice" value={formData.salePrice} onChange={handleChange} type="text" placeholder="قیمت فروش" required className="input-style" />
+          <input name="minStock" value={formData.minStock} onChange={handleChange} type="number" min="0" step="1" placeholder="حداقل موجودی (نقطه سفارش)" className="input-style" />
+          <input name="maxStock" value={formData.maxStock} onChange={handleChange} type="number" min="0" step="1" placeholder="حداکثر موجودی" className="input-style" />
+          <select name="preferredSupplierId" value={formData.preferredSupplierId} onChange={handleChange} className="input-style">
+            <option value="">تامین‌کننده ترجیحی (اختیاری)</option>
+            {suppliers?.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          </select>
           
            <div className="lg:col-span-3 border-t border-gray-600 pt-4 mt-2">
              <h3 className="text-sm font-semibold text-gray-400 mb-2">{isEditing ? 'کدهای شناسایی' : 'اطلاعات اولین بچ و موجودی اولیه'}</h3>
@@ -1,35 +1,53 @@
 import React, { useState, useMemo, FormEvent, useEffect, useCallback } from 'react';
 import { db } from '../db';
-import { Plus, Search, Trash2, Edit, Printer } from 'lucide-react';
+import { Plus, Search, Trash2, Edit, Printer, Undo2, ClipboardList, PackageCheck, Send, XCircle } from 'lucide-react';
 import Modal from '../components/Modal';
-import { PurchaseInvoice, PurchaseInvoiceItem, Supplier, Drug } from '../types';
+import { PurchaseInvoice, PurchaseInvoiceItem, PurchaseReturn, PurchaseReturnItem, Supplier, Drug, PurchaseOrder, PurchaseOrderItem, PurchaseOrderStatus } from '../types';
 import PrintablePurchaseInvoice from '../components/PrintablePurchaseInvoice';
+import PrintablePurchaseReturn from '../components/PrintablePurchaseReturn';
+import PrintablePurchaseOrder from '../components/PrintablePurchaseOrder';
 import { useVoiceInput } from '../hooks/useVoiceInput';
 import VoiceControlHeader from '../components/VoiceControlHeader';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { markOwnStockWrite } from '../lib/realtimeSync';
 import { useLiveQuery } from 'dexie-react-hooks';
+import { toRemoteRecord } from '../lib/syncMappers';
+import { buildReorderSuggestions, draftOrdersBySupplier, VELOCITY_WINDOW_DAYS } from '../lib/reorder';
+import { applyReceipt, checkReceipt, describeReceiptIssue, outstandingQuantity, ReceiptLine } from '../lib/goodsReceipt';
+import { isExpired } from '../lib/expiredStock';
 
 const Purchases: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
     const [editingInvoice, setEditingInvoice] = useState<PurchaseInvoice | null>(null);
     const [invoiceToPrint, setInvoiceToPrint] = useState<PurchaseInvoice | null>(null);
+    const [returningInvoice, setReturningInvoice] = useState<PurchaseInvoice | null>(null);
     const [purchaseInvoices, setPurchaseInvoices] = useState<PurchaseInvoice[]>([]);
     const [suppliers, setSuppliers] = useState<Supplier[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [view, setView] = useState<'invoices' | 'orders'>('invoices');
+    const [isReorderOpen, setIsReorderOpen] = useState(false);
+    const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+    const [orderToPrint, setOrderToPrint] = useState<PurchaseOrder | null>(null);
+    const [isOrderFormOpen, setIsOrderFormOpen] = useState(false);
 
     const { hasPermission } = useAuth();
     const isOnline = useOnlineStatus();
 
     const fetchData = useCallback(async () => {
         if (!isOnline) {
+            // Offline, the local cache is shown, including invoices still waiting in the sync queue.
+            const [localInvoices, localSuppliers] = await Promise.all([
+                db.purchaseInvoices.orderBy('date').reverse().toArray(),
+                db.suppliers.toArray(),
+            ]);
+            setPurchaseInvoices(localInvoices);
+            setSuppliers(localSuppliers);
             setIsLoading(false);
-            // Clear data when offline to avoid showing stale information
-            setPurchaseInvoices([]);
-            setSuppliers([]);
             return;
         }
         setIsLoading(true);
@@ -43,7 +61,7 @@ const Purchases: React.FC = () => {
                 }
             });
             
-            const { data: invoicesData, error: invoicesError } = await supabase
+            const { data: invoicesData, error: invoicesError } = await backend
                 .from('purchase_invoices')
                 .select('*, purchase_invoice_items(*)')
                 .order('date', { ascending: false });
@@ -73,7 +91,7 @@ const Purchases: React.FC = () => {
             }));
             setPurchaseInvoices(formattedInvoices);
 
-            const { data: suppliersData, error: suppliersError } = await supabase
+            const { data: suppliersData, error: suppliersError } = await backend
                 .from('suppliers')
                 .select('*');
             
@@ -108,18 +126,51 @@ const Purchases: React.FC = () => {
         <div className="space-y-6">
             <div className="flex justify-between items-center">
                 <h2 className="text-3xl font-bold text-white">مدیریت خریدها</h2>
+                <div className="flex items-center gap-3">
+                {hasPermission('purchases:orders') && (
+                    <button
+                        onClick={() => setIsOrderFormOpen(true)}
+                        title="سفارش خرید جدید"
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        <Plus size={20} />
+                        <span>سفارش جدید</span>
+                    </button>
+                )}
+                {hasPermission('purchases:orders') && (
+                    <button
+                        onClick={() => setIsReorderOpen(true)}
+                        title="پیشنهاد سفارش بر اساس موجودی و سرعت فروش"
+                        className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition-colors"
+                    >
+                        <ClipboardList size={20} />
+                        <span>پیشنهاد سفارش</span>
+                    </button>
+                )}
                 {hasPermission('purchases:create') && (
                     <button
                         onClick={openModalForNew}
-                        disabled={!isOnline}
-                        title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "ثبت فاکتور جدید"}
+                        title="ثبت فاکتور جدید"
                         className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-500 disabled:cursor-not-allowed"
                     >
                         <Plus size={20} />
                         <span>ثبت فاکتور جدید</span>
                     </button>
                 )}
+                </div>
             </div>
+            <div className="flex items-center gap-3 p-1 bg-gray-800 rounded-lg w-fit">
+                {(['invoices', 'orders'] as const).map(tab => (
+                    <button
+                        key={tab}
+                        onClick={() => setView(tab)}
+                        className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors ${view === tab ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                    >
+                        {tab === 'invoices' ? 'فاکتورهای خرید' : 'سفارش‌های خرید'}
+                    </button>
+                ))}
+            </div>
+            {view === 'orders' ? <PurchaseOrdersTable onReceive={setReceivingOrder} onPrint={setOrderToPrint} /> : (
             <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden border border-gray-700">
                 <table className="w-full text-sm text-right text-gray-300">
                     <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
@@ -134,19 +185,23 @@ const Purchases: React.FC = () => {
                     <tbody>
                         {isLoading ? (
                             <tr><td colSpan={5} className="text-center py-10 text-gray-500">در حال بارگذاری...</td></tr>
-                        ) : !isOnline ? (
-                             <tr><td colSpan={5} className="text-center py-10 text-yellow-400">این بخش در حالت آفلاین در دسترس نیست.</td></tr>
                         ) : purchaseInvoices?.length === 0 ? (
                             <tr><td colSpan={5} className="text-center py-10 text-gray-500">هنوز فاکتور خریدی ثبت نشده است.</td></tr>
                         ) : (
                             purchaseInvoices?.map(invoice => (
                                 <tr key={invoice.id} className="bg-gray-800 border-b border-gray-700 hover:bg-gray-700/50">
-                                    <td className="px-6 py-4 font-medium text-white">{invoice.invoiceNumber}</td>
+                                    <td className="px-6 py-4 font-medium text-white">
+                                        {invoice.invoiceNumber}
+                                        {!invoice.remoteId && <span className="mr-2 text-xs text-yellow-400">(در صف همگام‌سازی)</span>}
+                                    </td>
                                     <td className="px-6 py-4">{getSupplierName(invoice.supplierId)}</td>
                                     <td className="px-6 py-4">{new Date(invoice.date).toLocaleDateString('fa-IR')}</td>
                                     <td className="px-6 py-4">${invoice.totalAmount.toFixed(2)}</td>
                                     <td className="px-6 py-4 flex items-center gap-4">
                                         <button onClick={() => setInvoiceToPrint(invoice)} className="text-gray-400 hover:text-white" title="چاپ فاکتور"><Printer size={18} /></button>
+                                        {hasPermission('purchases:returns:create') && (
+                                            <button onClick={() => setReturningInvoice(invoice)} className="text-red-400 hover:text-red-300" title="مرجوعی به تامین‌کننده"><Undo2 size={18} /></button>
+                                        )}
                                         {hasPermission('purchases:edit') && (
                                             <button 
                                                 onClick={() => setEditingInvoice(invoice)} 
@@ -164,7 +219,12 @@ const Purchases: React.FC = () => {
                     </tbody>
                 </table>
             </div>
+            )}
             {isModalOpen && <PurchaseFormModal onClose={() => setIsModalOpen(false)} onSaveSuccess={handleSaveSuccess} />}
+            {receivingOrder && <ReceiveOrderModal order={receivingOrder} onClose={() => setReceivingOrder(null)} onSaveSuccess={handleSaveSuccess} />}
+            {orderToPrint && <PurchaseOrderPrintModal order={orderToPrint} onClose={() => setOrderToPrint(null)} />}
+            {isOrderFormOpen && <PurchaseOrderFormModal onClose={() => setIsOrderFormOpen(false)} onCreated={() => setView('orders')} />}
+            {isReorderOpen && <ReorderSuggestionsModal onClose={() => setIsReorderOpen(false)} onCreated={() => setView('orders')} />}
             {invoiceToPrint && (
                 <PrintModal
                     invoice={invoiceToPrint}
@@ -172,6 +232,14 @@ const Purchases: React.FC = () => {
                     onClose={() => setInvoiceToPrint(null)}
                 />
             )}
+            {returningInvoice && (
+                <PurchaseReturnModal
+                    invoice={returningInvoice}
+                    supplierName={getSupplierName(returningInvoice.supplierId)}
+                    onClose={() => setReturningInvoice(null)}
+                    onSaveSuccess={handleSaveSuccess}
+                />
+            )}
             {editingInvoice && (
                 <EditPurchaseInvoiceModal 
                     invoice={editingInvoice} 
@@ -183,6 +251,660 @@ const Purchases: React.FC = () => {
     );
 };
 
+// ============================================================================
+// Reorder Suggestions Modal
+// ============================================================================
+const ReorderSuggestionsModal: React.FC<{ onClose: () => void; onCreated: () => void }> = ({ onClose, onCreated }) => {
+    const drugs = useLiveQuery(() => db.drugs.toArray(), []);
+    const suppliers = useLiveQuery(() => db.suppliers.orderBy('name').toArray(), []);
+    const saleInvoices = useLiveQuery(() => db.saleInvoices.toArray(), []);
+    const saleReturns = useLiveQuery(() => db.saleReturns.toArray(), []);
+    const purchaseInvoices = useLiveQuery(() => db.purchaseInvoices.toArray(), []);
+    const purchaseOrders = useLiveQuery(() => db.purchaseOrders.toArray(), []);
+    const lowStockThreshold = useLiveQuery(async () => ((await db.settings.get('lowStockThreshold'))?.value as number | undefined) ?? 10, []);
+    // Edits to the suggested lines, by drug id.
+    const [overrides, setOverrides] = useState<Record<number, { include?: boolean; quantity?: number; supplierId?: number }>>({});
+    const [isSaving, setIsSaving] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+
+    const suggestions = useMemo(() => {
+        if (!drugs || !suppliers || !saleInvoices || !saleReturns || !purchaseInvoices || !purchaseOrders || lowStockThreshold === undefined) return undefined;
+        return buildReorderSuggestions({ drugs, suppliers, saleInvoices, saleReturns, purchaseInvoices, purchaseOrders, lowStockThreshold });
+    }, [drugs, suppliers, saleInvoices, saleReturns, purchaseInvoices, purchaseOrders, lowStockThreshold]);
+
+    const lines = useMemo(() => (suggestions ?? []).map(suggestion => {
+        const override = overrides[suggestion.drug.id!] ?? {};
+        return {
+            suggestion,
+            include: override.include ?? true,
+            quantity: override.quantity ?? suggestion.quantity,
+            supplierId: override.supplierId ?? suggestion.supplierId,
+        };
+    }), [suggestions, overrides]);
+
+    const setOverride = (drugId: number, change: { include?: boolean; quantity?: number; supplierId?: number }) =>
+        setOverrides(prev => ({ ...prev, [drugId]: { ...prev[drugId], ...change } }));
+
+    const chosen = lines.filter(line => line.include && line.quantity > 0);
+    const supplierCount = new Set(chosen.map(line => line.supplierId).filter(id => id !== undefined)).size;
+
+    const handleCreate = async () => {
+        if (chosen.length === 0) {
+            showNotification('هیچ قلمی برای سفارش انتخاب نشده است.', 'error');
+            return;
+        }
+        if (chosen.some(line => line.supplierId === undefined)) {
+            showNotification('برای همه اقلام انتخاب‌شده تامین‌کننده را مشخص کنید.', 'error');
+            return;
+        }
+        const orders = draftOrdersBySupplier(
+            chosen.map(line => ({ drug: line.suggestion.drug, supplierId: line.supplierId!, quantity: line.quantity })),
+            currentUser?.username,
+        );
+
+        setIsSaving(true);
+        try {
+            let queued = 0;
+            for (const order of orders) {
+                if (await createPurchaseOrder(order)) queued++;
+            }
+            if (queued > 0) {
+                showNotification(`${queued} سفارش به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.`, 'success');
+                processSyncQueue();
+            }
+            if (queued < orders.length) showNotification(`${orders.length - queued} سفارش پیش‌نویس با موفقیت ایجاد شد.`, 'success');
+            onCreated();
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to create purchase orders:", error);
+            showNotification(error.message || 'خطا در ایجاد سفارش‌های خرید.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal title="پیشنهاد سفارش خرید" onClose={onClose}>
+            <div className="space-y-4">
+                <p className="text-sm text-gray-400">
+                    بر اساس فروش {VELOCITY_WINDOW_DAYS} روز گذشته و زمان تحویل هر تامین‌کننده. داروهایی که موجودی به‌علاوه سفارش‌های باز آن‌ها به نقطه سفارش نرسیده است، تا سقف موجودی پیشنهاد می‌شوند.
+                </p>
+                <div className="max-h-[55vh] overflow-y-auto">
+                    <table className="w-full text-sm text-right text-gray-300">
+                        <thead className="text-xs text-gray-400 bg-gray-700/50 sticky top-0">
+                            <tr>
+                                <th className="px-2 py-2"></th>
+                                <th className="px-2 py-2">دارو</th>
+                                <th className="px-2 py-2">موجودی</th>
+                                <th className="px-2 py-2">در راه</th>
+                                <th className="px-2 py-2">فروش روزانه</th>
+                                <th className="px-2 py-2">نقطه سفارش / سقف</th>
+                                <th className="px-2 py-2">تامین‌کننده</th>
+                                <th className="px-2 py-2">تعداد سفارش</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {lines.map(({ suggestion, include, quantity, supplierId }) => (
+                                <tr key={suggestion.drug.id} className={include ? '' : 'opacity-50'}>
+                                    <td className="px-2 py-2">
+                                        <input type="checkbox" checked={include} onChange={e => setOverride(suggestion.drug.id!, { include: e.target.checked })} />
+                                    </td>
+                                    <td className="px-2 py-2 text-white">{suggestion.drug.name}</td>
+                                    <td className={`px-2 py-2 ${suggestion.onHand < suggestion.minStock ? 'text-yellow-400' : ''}`}>{suggestion.onHand}</td>
+                                    <td className="px-2 py-2">{suggestion.onOrder || '-'}</td>
+                                    <td className="px-2 py-2" title={`زمان تحویل: ${suggestion.leadTimeDays} روز`}>{suggestion.velocity}</td>
+                                    <td className="px-2 py-2">{suggestion.reorderPoint} / {suggestion.targetStock}</td>
+                                    <td className="px-2 py-2">
+                                        <select value={supplierId ?? ''} onChange={e => setOverride(suggestion.drug.id!, { supplierId: e.target.value ? Number(e.target.value) : undefined })} className={`input-style-small ${include && supplierId === undefined ? '!border-red-500' : ''}`}>
+                                            <option value="">-- انتخاب --</option>
+                                            {suppliers?.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                        </select>
+                                    </td>
+                                    <td className="px-2 py-2">
+                                        <input type="number" min="0" step="1" value={quantity} onChange={e => setOverride(suggestion.drug.id!, { quantity: Math.max(0, Math.floor(Number(e.target.value) || 0)) })} className="input-style-small w-24" />
+                                    </td>
+                                </tr>
+                            ))}
+                            {suggestions && lines.length === 0 && (
+                                <tr><td colSpan={8} className="text-center py-8 text-gray-500">در حال حاضر هیچ دارویی نیاز به سفارش ندارد.</td></tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+                <div className="flex justify-between items-center pt-4 border-t border-gray-600">
+                    <p className="text-sm text-gray-300">{chosen.length} قلم برای {supplierCount} تامین‌کننده</p>
+                    <div className="flex gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                        <button onClick={handleCreate} disabled={isSaving || chosen.length === 0} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">
+                            <ClipboardList size={18} />
+                            {isSaving ? 'در حال ایجاد...' : 'ایجاد سفارش‌های پیش‌نویس'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+            <style>{`
+                .input-style-small { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.375rem; padding: 0.375rem 0.5rem; width: 100%; font-size: 0.875rem; }
+            `}</style>
+        </Modal>
+    );
+};
+
+// ============================================================================
+// Purchase Orders
+// ============================================================================
+
+// Saves a new order; it is queued instead when offline or when its supplier or drugs are not synced yet.
+// Returns true when the order was queued.
+const createPurchaseOrder = async (order: PurchaseOrder): Promise<boolean> => {
+    const supplier = await db.suppliers.get(order.supplierId);
+    const drugs = await db.drugs.bulkGet(order.items.map(item => item.drugId));
+    const isSynced = !!supplier?.remoteId && drugs.every(drug => drug?.remoteId);
+    if (!navigator.onLine || !isSynced) {
+        await db.transaction('rw', [db.purchaseOrders, db.suppliers, db.drugs, db.syncQueue], async () => {
+            const id = await db.purchaseOrders.add(order);
+            await enqueueSyncItem('purchaseOrders', 'create', id);
+        });
+        return true;
+    }
+    const { data, error } = await backend.from('purchase_orders').insert(await toRemoteRecord('purchaseOrders', order)).select().single();
+    if (error) throw error;
+    await db.purchaseOrders.add({ ...order, remoteId: data.id, updatedAt: data.updated_at });
+    await logActivity('CREATE', 'PurchaseOrder', data.id, { supplier: supplier?.name, items: order.items.length, totalAmount: order.totalAmount });
+    return false;
+};
+
+const updatePurchaseOrder = async (order: PurchaseOrder, changes: Partial<PurchaseOrder>) => {
+    if (!navigator.onLine || !order.remoteId) {
+        await db.transaction('rw', [db.purchaseOrders, db.suppliers, db.drugs, db.syncQueue], async () => {
+            await db.purchaseOrders.update(order.id!, changes);
+            await enqueueSyncItem('purchaseOrders', 'update', order.id!, changes);
+        });
+        processSyncQueue();
+        return;
+    }
+    const { error } = await backend.from('purchase_orders').update(await toRemoteRecord('purchaseOrders', changes)).eq('id', order.remoteId);
+    if (error) throw error;
+    await db.purchaseOrders.update(order.id!, changes);
+    await logActivity('UPDATE', 'PurchaseOrder', order.remoteId, { status: changes.status ?? order.status, changes });
+};
+
+const ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, { text: string; className: string }> = {
+    draft: { text: 'پیش‌نویس', className: 'bg-gray-500/20 text-gray-300' },
+    sent: { text: 'ارسال‌شده', className: 'bg-blue-500/20 text-blue-300' },
+    partial: { text: 'دریافت ناقص', className: 'bg-yellow-500/20 text-yellow-300' },
+    closed: { text: 'بسته', className: 'bg-green-500/20 text-green-300' },
+};
+
+const PurchaseOrdersTable: React.FC<{ onReceive: (order: PurchaseOrder) => void; onPrint: (order: PurchaseOrder) => void }> = ({ onReceive, onPrint }) => {
+    const orders = useLiveQuery(() => db.purchaseOrders.orderBy('createdAt').reverse().toArray(), []);
+    const suppliers = useLiveQuery(() => db.suppliers.toArray(), []);
+    const [expandedId, setExpandedId] = useState<number | null>(null);
+    const { hasPermission } = useAuth();
+    const { showNotification } = useNotification();
+
+    const supplierName = (id: number) => suppliers?.find(s => s.id === id)?.name || 'ناشناخته';
+
+    const handleSend = async (order: PurchaseOrder) => {
+        try {
+            await updatePurchaseOrder(order, { status: 'sent', sentAt: new Date().toISOString() });
+            showNotification('سفارش به وضعیت «ارسال‌شده» رفت.', 'success');
+            onPrint({ ...order, status: 'sent' });
+        } catch (error: any) {
+            console.error("Failed to send purchase order:", error);
+            showNotification(`خطا در ارسال سفارش: ${error.message}`, 'error');
+        }
+    };
+
+    const handleClose = async (order: PurchaseOrder) => {
+        if (!window.confirm(`سفارش ${supplierName(order.supplierId)} بسته شود؟ اقلام باقیمانده دیگر در راه حساب نمی‌شوند.`)) return;
+        try {
+            await updatePurchaseOrder(order, { status: 'closed' });
+            showNotification('سفارش بسته شد.', 'success');
+        } catch (error: any) {
+            console.error("Failed to close purchase order:", error);
+            showNotification(`خطا در بستن سفارش: ${error.message}`, 'error');
+        }
+    };
+
+    const handleDelete = async (order: PurchaseOrder) => {
+        if (!window.confirm(`سفارش پیش‌نویس ${supplierName(order.supplierId)} حذف شود؟`)) return;
+        try {
+            if (!navigator.onLine || !order.remoteId) {
+                await db.transaction('rw', [db.purchaseOrders, db.suppliers, db.drugs, db.syncQueue], async () => {
+                    await enqueueSyncItem('purchaseOrders', 'delete', order.id!, { remoteId: order.remoteId });
+                    await db.purchaseOrders.delete(order.id!);
+                });
+                processSyncQueue();
+            } else {
+                const { error } = await backend.from('purchase_orders').delete().eq('id', order.remoteId);
+                if (error) throw error;
+                await db.purchaseOrders.delete(order.id!);
+                await logActivity('DELETE', 'PurchaseOrder', order.remoteId, { supplier: supplierName(order.supplierId), items: order.items });
+            }
+            showNotification('سفارش پیش‌نویس حذف شد.', 'success');
+        } catch (error: any) {
+            console.error("Failed to delete purchase order:", error);
+            showNotification(`خطا در حذف سفارش: ${error.message}`, 'error');
+        }
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg shadow-lg overflow-hidden border border-gray-700">
+            <table className="w-full text-sm text-right text-gray-300">
+                <thead className="text-xs text-gray-400 uppercase bg-gray-700/50">
+                    <tr>
+                        <th scope="col" className="px-6 py-3">شماره</th>
+                        <th scope="col" className="px-6 py-3">تامین‌کننده</th>
+                        <th scope="col" className="px-6 py-3">تاریخ</th>
+                        <th scope="col" className="px-6 py-3">دریافت‌شده</th>
+                        <th scope="col" className="px-6 py-3">مبلغ تخمینی</th>
+                        <th scope="col" className="px-6 py-3">وضعیت</th>
+                        <th scope="col" className="px-6 py-3">عملیات</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {orders?.map(order => {
+                        const status = ORDER_STATUS_LABELS[order.status];
+                        const ordered = order.items.reduce((sum, item) => sum + item.quantity, 0);
+                        const received = order.items.reduce((sum, item) => sum + (item.receivedQuantity ?? 0), 0);
+                        const issueCount = (order.receipts ?? []).reduce((sum, receipt) => sum + receipt.issues.length, 0);
+                        const isExpanded = expandedId === order.id;
+                        return (
+                            <React.Fragment key={order.id}>
+                                <tr className="bg-gray-800 border-b border-gray-700 hover:bg-gray-700/50">
+                                    <td className="px-6 py-4 font-medium text-white">
+                                        #{order.remoteId || order.id}
+                                        {!order.remoteId && <span className="mr-2 text-xs text-yellow-400">(در صف همگام‌سازی)</span>}
+                                    </td>
+                                    <td className="px-6 py-4">{supplierName(order.supplierId)}</td>
+                                    <td className="px-6 py-4">{new Date(order.createdAt).toLocaleDateString('fa-IR')}</td>
+                                    <td className="px-6 py-4 text-xs" title={order.items.map(item => `${item.name}: ${item.receivedQuantity ?? 0} از ${item.quantity}`).join('\n')}>
+                                        {received} از {ordered} ({order.items.length} قلم)
+                                    </td>
+                                    <td className="px-6 py-4">${order.totalAmount.toFixed(2)}</td>
+                                    <td className="px-6 py-4">
+                                        <span className={`text-xs px-2 py-0.5 rounded-full ${status.className}`}>{status.text}</span>
+                                        {(order.receipts?.length ?? 0) > 0 && (
+                                            <button onClick={() => setExpandedId(isExpanded ? null : order.id!)} className={`mr-2 text-xs ${issueCount > 0 ? 'text-orange-400' : 'text-gray-400'} hover:underline`}>
+                                                {order.receipts!.length} تحویل{issueCount > 0 ? `، ${issueCount} مغایرت` : ''}
+                                            </button>
+                                        )}
+                                    </td>
+                                    <td className="px-6 py-4 flex items-center gap-4">
+                                        <button onClick={() => onPrint(order)} className="text-gray-400 hover:text-white" title="چاپ سفارش"><Printer size={18} /></button>
+                                        {order.status === 'draft' && hasPermission('purchases:orders') && (
+                                            <button onClick={() => handleSend(order)} className="text-blue-400 hover:text-blue-300" title="ارسال به تامین‌کننده"><Send size={18} /></button>
+                                        )}
+                                        {(order.status === 'sent' || order.status === 'partial') && hasPermission('purchases:create') && (
+                                            <button onClick={() => onReceive(order)} className="text-green-400 hover:text-green-300" title="دریافت کالا"><PackageCheck size={18} /></button>
+                                        )}
+                                        {(order.status === 'sent' || order.status === 'partial') && hasPermission('purchases:orders') && (
+                                            <button onClick={() => handleClose(order)} className="text-yellow-400 hover:text-yellow-300" title="بستن سفارش"><XCircle size={18} /></button>
+                                        )}
+                                        {order.status === 'draft' && hasPermission('purchases:orders') && (
+                                            <button onClick={() => handleDelete(order)} className="text-red-400 hover:text-red-300" title="حذف پیش‌نویس"><Trash2 size={18} /></button>
+                                        )}
+                                    </td>
+                                </tr>
+                                {isExpanded && (
+                                    <tr className="bg-gray-900/40 border-b border-gray-700">
+                                        <td colSpan={7} className="px-6 py-3 space-y-2">
+                                            {order.receipts!.map((receipt, index) => (
+                                                <div key={index} className="text-xs">
+                                                    <p className="text-gray-300">
+                                                        فاکتور {receipt.invoiceNumber} - {new Date(receipt.date).toLocaleDateString('fa-IR')}
+                                                        {receipt.receivedBy && <span className="text-gray-500"> ({receipt.receivedBy})</span>}
+                                                    </p>
+                                                    {receipt.issues.length === 0
+                                                        ? <p className="text-green-400 mr-4">مطابق سفارش</p>
+                                                        : receipt.issues.map((issue, i) => <p key={i} className="text-orange-300 mr-4">{describeReceiptIssue(issue)}</p>)}
+                                                </div>
+                                            ))}
+                                        </td>
+                                    </tr>
+                                )}
+                            </React.Fragment>
+                        );
+                    })}
+                    {orders?.length === 0 && (
+                        <tr><td colSpan={7} className="text-center py-10 text-gray-500">هنوز سفارش خریدی ثبت نشده است.</td></tr>
+                    )}
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+type OrderItemData = Omit<PurchaseOrderItem, 'quantity' | 'purchasePrice'> & { quantity: number | ''; purchasePrice: number | '' };
+
+const PurchaseOrderFormModal: React.FC<{ onClose: () => void; onCreated: () => void }> = ({ onClose, onCreated }) => {
+    const [supplierId, setSupplierId] = useState<number | undefined>(undefined);
+    const [items, setItems] = useState<OrderItemData[]>([]);
+    const [notes, setNotes] = useState('');
+    const [searchTerm, setSearchTerm] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+
+    const suppliers = useLiveQuery(() => db.suppliers.orderBy('name').toArray(), []);
+    const drugs = useLiveQuery(() => db.drugs.toArray(), []);
+
+    const searchResults = useMemo(() => {
+        if (!searchTerm || !drugs) return [];
+        return drugs.filter(drug => drug.name.toLowerCase().includes(searchTerm.toLowerCase())).slice(0, 5);
+    }, [searchTerm, drugs]);
+
+    const addItem = (drug: Drug) => {
+        if (!items.some(item => item.drugId === drug.id)) {
+            setItems([...items, { drugId: drug.id!, name: drug.name, quantity: '', purchasePrice: drug.purchasePrice }]);
+        }
+        setSearchTerm('');
+    };
+
+    const updateItem = (index: number, field: 'quantity' | 'purchasePrice', value: string) =>
+        setItems(items.map((item, i) => i === index ? { ...item, [field]: value === '' ? '' : Number(value) } : item));
+
+    const totalAmount = items.reduce((sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.purchasePrice) || 0), 0);
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const orderItems: PurchaseOrderItem[] = items.map(item => ({
+            drugId: item.drugId, name: item.name, quantity: Number(item.quantity) || 0, purchasePrice: Number(item.purchasePrice) || 0,
+        }));
+        if (!supplierId || orderItems.length === 0 || orderItems.some(item => item.quantity <= 0 || item.purchasePrice < 0)) {
+            showNotification('تامین‌کننده و تعداد همه اقلام سفارش را وارد کنید.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const queued = await createPurchaseOrder({
+                supplierId,
+                createdAt: new Date().toISOString(),
+                createdBy: currentUser?.username,
+                items: orderItems,
+                totalAmount: Math.round(totalAmount * 100) / 100,
+                status: 'draft',
+                notes: notes.trim() || undefined,
+            });
+            if (queued) {
+                showNotification('سفارش به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } else {
+                showNotification('سفارش پیش‌نویس ثبت شد.', 'success');
+            }
+            onCreated();
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to create purchase order:", error);
+            showNotification(error.message || 'خطا در ثبت سفارش خرید.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal title="سفارش خرید جدید" onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-700/50 rounded-lg">
+                    <select value={supplierId ?? ''} onChange={e => setSupplierId(Number(e.target.value))} required className="input-style">
+                        <option value="" disabled>-- انتخاب تامین‌کننده --</option>
+                        {suppliers?.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                    </select>
+                    <input type="text" value={notes} onChange={e => setNotes(e.target.value)} placeholder="توضیحات (اختیاری)" className="input-style" />
+                </div>
+                <div className="relative">
+                    <Search className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-400" size={18} />
+                    <input
+                        type="text"
+                        placeholder="جستجوی دارو برای افزودن به سفارش..."
+                        className="w-full bg-gray-700 border border-gray-600 rounded-lg py-2 pr-10 pl-4 text-white focus:outline-none focus:border-blue-500"
+                        value={searchTerm}
+                        onChange={e => setSearchTerm(e.target.value)}
+                    />
+                    {searchResults.length > 0 && (
+                        <div className="absolute z-10 w-full mt-1 bg-gray-600 border border-gray-500 rounded-lg shadow-lg">
+                            {searchResults.map(drug => (
+                                <div key={drug.id} onClick={() => addItem(drug)} className="p-3 cursor-pointer hover:bg-blue-500">
+                                    {drug.name}
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+                <div className="space-y-2 max-h-64 overflow-y-auto pr-2 -mr-2">
+                    {items.map((item, index) => (
+                        <div key={item.drugId} className="grid grid-cols-12 gap-2 items-center bg-gray-700/50 p-2 rounded-md">
+                            <span className="col-span-5 text-sm truncate">{item.name}</span>
+                            <input type="number" min="1" value={item.quantity} onChange={e => updateItem(index, 'quantity', e.target.value)} placeholder="تعداد" className="input-style-small col-span-3" />
+                            <input type="number" step="0.01" value={item.purchasePrice} onChange={e => updateItem(index, 'purchasePrice', e.target.value)} placeholder="قیمت تخمینی" className="input-style-small col-span-3" />
+                            <button type="button" onClick={() => setItems(items.filter((_, i) => i !== index))} className="text-red-400 hover:text-red-300 col-span-1 flex justify-center"><Trash2 size={16} /></button>
+                        </div>
+                    ))}
+                </div>
+                <div className="flex justify-between items-center pt-4 border-t border-gray-600">
+                    <p className="text-lg font-bold">مبلغ تخمینی: <span className="text-green-400">${totalAmount.toFixed(2)}</span></p>
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                        <button type="submit" disabled={isSaving} className="px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700 disabled:bg-gray-500">
+                            {isSaving ? 'در حال ذخیره...' : 'ثبت پیش‌نویس'}
+                        </button>
+                    </div>
+                </div>
+            </form>
+            <style>{`
+                .input-style { background-color: #374151; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }
+                .input-style::placeholder { color: #9ca3af; }
+                .input-style-small { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.375rem; padding: 0.5rem; width: 100%; font-size: 0.875rem; }
+                .input-style-small::placeholder { color: #6b7280; }
+            `}</style>
+        </Modal>
+    );
+};
+
+const PurchaseOrderPrintModal: React.FC<{ order: PurchaseOrder; onClose: () => void }> = ({ order, onClose }) => {
+    const supplier = useLiveQuery(() => db.suppliers.get(order.supplierId), [order.supplierId]);
+    return (
+        <Modal title={`سفارش خرید #${order.remoteId || order.id}`} onClose={onClose}>
+            <div className="space-y-4">
+                <PrintablePurchaseOrder order={order} supplierName={supplier?.name || 'ناشناخته'} />
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                    <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                    <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700">
+                        <Printer size={18} />
+                        <span>چاپ</span>
+                    </button>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
+type ReceiveLineData = Omit<ReceiptLine, 'quantity' | 'purchasePrice'> & {
+    key: number;
+    quantity: number | '';
+    purchasePrice: number | '';
+    isExpiryDateValid: boolean;
+};
+
+// Receiving screen: the delivery is entered per lot against the order's outstanding lines,
+// checked, then booked as a purchase invoice.
+const ReceiveOrderModal: React.FC<{ order: PurchaseOrder; onClose: () => void; onSaveSuccess: () => void }> = ({ order, onClose, onSaveSuccess }) => {
+    const [invoiceNumber, setInvoiceNumber] = useState('');
+    const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
+    const [lines, setLines] = useState<ReceiveLineData[]>(() => order.items
+        .filter(item => outstandingQuantity(item) > 0)
+        .map((item, index) => ({
+            key: index, drugId: item.drugId, name: item.name, quantity: outstandingQuantity(item), purchasePrice: item.purchasePrice,
+            lotNumber: '', expiryDate: '', isExpiryDateValid: true,
+        })));
+    const [closeShort, setCloseShort] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const { currentUser } = useAuth();
+    const { showNotification } = useNotification();
+
+    const drugIds = useMemo(() => order.items.map(item => item.drugId), [order]);
+    const supplier = useLiveQuery(() => db.suppliers.get(order.supplierId), [order.supplierId]);
+    const drugs = useLiveQuery(() => db.drugs.bulkGet(drugIds), [drugIds]);
+    const batches = useLiveQuery(() => db.drugBatches.where('drugId').anyOf(drugIds).toArray(), [drugIds]);
+
+    const receiptLines: ReceiptLine[] = useMemo(() => lines.map(line => ({
+        drugId: line.drugId, name: line.name, lotNumber: line.lotNumber.trim(), expiryDate: line.expiryDate,
+        quantity: Number(line.quantity) || 0, purchasePrice: Number(line.purchasePrice) || 0,
+    })), [lines]);
+    const check = useMemo(
+        () => checkReceipt(order, receiptLines, (drugs ?? []).filter((drug): drug is Drug => !!drug), batches ?? []),
+        [order, receiptLines, drugs, batches],
+    );
+    const hasShort = check.issues.some(issue => issue.kind === 'short');
+    const totalAmount = receiptLines.reduce((sum, line) => sum + line.quantity * line.purchasePrice, 0);
+
+    const updateLine = (key: number, field: 'quantity' | 'purchasePrice' | 'lotNumber' | 'expiryDate', value: string) => {
+        setLines(lines.map(line => {
+            if (line.key !== key) return line;
+            if (field === 'quantity' || field === 'purchasePrice') return { ...line, [field]: value === '' ? '' : Number(value) };
+            if (field === 'expiryDate') return { ...line, expiryDate: value, isExpiryDateValid: validateExpiry(value) };
+            return { ...line, [field]: value };
+        }));
+    };
+
+    const handleExpiryBlur = (key: number, value: string) => {
+        const formatted = normalizeExpiry(value);
+        if (formatted) updateLine(key, 'expiryDate', formatted);
+    };
+
+    // Another lot of the same drug in this delivery.
+    const splitLine = (line: ReceiveLineData) => {
+        const index = lines.indexOf(line);
+        const newLine = { ...line, key: Math.max(...lines.map(l => l.key)) + 1, quantity: '' as const, lotNumber: '', expiryDate: '', isExpiryDateValid: true };
+        setLines([...lines.slice(0, index + 1), newLine, ...lines.slice(index + 1)]);
+    };
+
+    const handleSubmit = async (e: FormEvent) => {
+        e.preventDefault();
+        const delivered = receiptLines.filter(line => line.quantity > 0);
+        if (!invoiceNumber.trim() || delivered.length === 0) {
+            showNotification('شماره فاکتور و حداقل یک قلم تحویلی را وارد کنید.', 'error');
+            return;
+        }
+        if (lines.some(line => Number(line.quantity) > 0 && !line.isExpiryDateValid)) {
+            showNotification('فرمت تاریخ انقضا در یک یا چند قلم نامعتبر است.', 'error');
+            return;
+        }
+        if (delivered.some(line => line.purchasePrice < 0 || !line.lotNumber || !line.expiryDate)) {
+            showNotification('شماره لات، تاریخ انقضا و قیمت همه اقلام تحویلی را وارد کنید.', 'error');
+            return;
+        }
+        const expiredLine = delivered.find(line => isExpired(line.expiryDate));
+        if (expiredLine) {
+            showNotification(`لات ${expiredLine.lotNumber} از «${expiredLine.name}» تاریخ‌گذشته است و قابل دریافت نیست.`, 'error');
+            return;
+        }
+        if (check.issues.length > 0 && !window.confirm(`این تحویل ${check.issues.length} مغایرت با سفارش دارد:\n${check.issues.map(describeReceiptIssue).join('\n')}\n\nفاکتور با همین مقادیر ثبت شود؟`)) {
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const receipt = { invoiceNumber: invoiceNumber.trim(), date, receivedBy: currentUser?.username, issues: check.issues };
+            const { message, offline } = await receivePurchaseOrder(order, {
+                invoiceNumber: invoiceNumber.trim(), supplierId: order.supplierId, date, items: delivered,
+                totalAmount: Math.round(totalAmount * 100) / 100,
+            }, applyReceipt(order, delivered, receipt, closeShort));
+            showNotification(message, 'success');
+            if (offline) processSyncQueue();
+            onSaveSuccess();
+            onClose();
+        } catch (error: any) {
+            console.error("Failed to receive purchase order:", error);
+            showNotification(error.message || 'خطا در ثبت دریافت کالا. لطفاً دوباره تلاش کنید.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <Modal title={`دریافت کالا - سفارش #${order.remoteId || order.id} (${supplier?.name ?? ''})`} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 bg-gray-700/50 rounded-lg">
+                    <input type="text" value={invoiceNumber} onChange={e => setInvoiceNumber(e.target.value)} placeholder="شماره فاکتور تامین‌کننده" required className="input-style" />
+                    <input type="date" value={date} onChange={e => setDate(e.target.value)} required className="input-style" />
+                </div>
+                <table className="w-full text-sm text-right text-gray-300">
+                    <thead className="text-xs text-gray-400 bg-gray-700/50">
+                        <tr>
+                            <th className="px-2 py-2">دارو</th>
+                            <th className="px-2 py-2">سفارش</th>
+                            <th className="px-2 py-2">قبلاً دریافت</th>
+                            <th className="px-2 py-2">باقیمانده</th>
+                            <th className="px-2 py-2">این تحویل</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {check.rows.map(row => (
+                            <tr key={row.item.drugId}>
+                                <td className="px-2 py-1.5 text-white">{row.item.name}</td>
+                                <td className="px-2 py-1.5">{row.item.quantity}</td>
+                                <td className="px-2 py-1.5">{row.item.receivedQuantity ?? 0}</td>
+                                <td className="px-2 py-1.5">{row.outstanding}</td>
+                                <td className={`px-2 py-1.5 font-semibold ${row.delivered < row.outstanding ? 'text-yellow-400' : row.delivered > row.outstanding ? 'text-orange-400' : 'text-green-400'}`}>
+                                    {row.delivered}
+                                    {row.delivered < row.outstanding && <span className="mr-1 text-xs font-normal">(کسری {row.outstanding - row.delivered})</span>}
+                                    {row.delivered > row.outstanding && <span className="mr-1 text-xs font-normal">(اضافه {row.delivered - row.outstanding})</span>}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="space-y-2 max-h-64 overflow-y-auto pr-2 -mr-2">
+                    {lines.map(line => {
+                        const listPrice = drugs?.find(drug => drug?.id === line.drugId)?.purchasePrice;
+                        const priceChanged = listPrice !== undefined && line.purchasePrice !== '' && Math.abs(Number(line.purchasePrice) - listPrice) >= 0.005;
+                        return (
+                            <div key={line.key} className="grid grid-cols-12 gap-2 items-center bg-gray-700/50 p-2 rounded-md">
+                                <span className="col-span-3 text-sm truncate">{line.name}</span>
+                                <input type="number" min="0" value={line.quantity} onChange={e => updateLine(line.key, 'quantity', e.target.value)} placeholder="تعداد" className="input-style-small col-span-2" />
+                                <input type="number" step="0.01" value={line.purchasePrice} onChange={e => updateLine(line.key, 'purchasePrice', e.target.value)} placeholder="قیمت خرید" title={listPrice !== undefined ? `قیمت خرید فعلی: $${listPrice.toFixed(2)}` : undefined} className={`input-style-small col-span-2 ${priceChanged ? '!border-orange-500' : ''}`} />
+                                <input type="text" value={line.lotNumber} onChange={e => updateLine(line.key, 'lotNumber', e.target.value)} placeholder="شماره لات" className="input-style-small col-span-2" />
+                                <input type="text" value={line.expiryDate} onChange={e => updateLine(line.key, 'expiryDate', e.target.value)} onBlur={e => handleExpiryBlur(line.key, e.target.value)} placeholder="انقضا (مثال: ۱۲-۲۰۲۷)" className={`input-style-small col-span-2 ${!line.isExpiryDateValid ? '!border-red-500' : ''}`} />
+                                <button type="button" onClick={() => splitLine(line)} className="text-blue-400 hover:text-blue-300 col-span-1 flex justify-center" title="لات دیگر از همین دارو"><Plus size={16} /></button>
+                            </div>
+                        );
+                    })}
+                </div>
+                {check.issues.length > 0 && (
+                    <div className="p-3 bg-orange-500/10 border border-orange-500/30 rounded-lg text-sm text-orange-300 space-y-1">
+                        {check.issues.map((issue, index) => <p key={index}>{describeReceiptIssue(issue)}</p>)}
+                    </div>
+                )}
+                {hasShort && (
+                    <label className="flex items-center gap-2 text-sm text-gray-300">
+                        <input type="checkbox" checked={closeShort} onChange={e => setCloseShort(e.target.checked)} />
+                        باقیمانده ارسال نمی‌شود؛ سفارش پس از این تحویل بسته شود
+                    </label>
+                )}
+                <div className="flex justify-between items-center pt-4 border-t border-gray-600">
+                    <p className="text-lg font-bold">مجموع فاکتور: <span className="text-green-400">${totalAmount.toFixed(2)}</span></p>
+                    <div className="flex justify-end gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                        <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-4 py-2 bg-green-600 rounded-lg hover:bg-green-700 disabled:bg-gray-500">
+                            <PackageCheck size={18} />
+                            {isSaving ? 'در حال ثبت...' : 'ثبت دریافت و فاکتور خرید'}
+                        </button>
+                    </div>
+                </div>
+            </form>
+            <style>{`
+                .input-style { background-color: #374151; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }
+                .input-style::placeholder { color: #9ca3af; }
+                .input-style-small { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.375rem; padding: 0.5rem; width: 100%; font-size: 0.875rem; }
+                .input-style-small::placeholder { color: #6b7280; }
+                .input-style-small:focus { outline: none; border-color: #3b82f6; box-shadow: 0 0 0 1px #3b82f6; }
+            `}</style>
+        </Modal>
+    );
+};
+
 const PrintModal: React.FC<{ invoice: PurchaseInvoice, supplierName: string, onClose: () => void }> = ({ invoice, supplierName, onClose }) => {
     const handlePrint = () => window.print();
     return (
@@ -241,6 +963,143 @@ const validateExpiry = (value: string): boolean => {
     return false;
 };
 
+// Turns an accepted expiry entry (e.g. "12-2027") into the last day of that month, as stored on batches.
+const normalizeExpiry = (value: string): string | undefined => {
+    const trimmed = value.trim();
+    const match = trimmed.match(/^(?:(\d{1,2})[\s\/-]?)(\d{4})$|^(\d{4})[\s\/-]?(\d{1,2})$/);
+    const monthStr = match ? match[1] || match[4] : /^\d{5,6}$/.test(trimmed) ? trimmed.slice(0, -4) : undefined;
+    const yearStr = match ? match[2] || match[3] : trimmed.slice(-4);
+    if (!monthStr || !validateExpiry(trimmed)) return undefined;
+    const year = parseInt(yearStr);
+    const month = parseInt(monthStr);
+    const lastDay = new Date(year, month, 0).getDate();
+    return `${year}-${String(month).padStart(2, '0')}-${String(lastDay).padStart(2, '0')}`;
+};
+
+type NewPurchaseInvoice = Omit<PurchaseInvoice, 'id' | 'amountPaid'>;
+
+// Local side of a purchase invoice: batches, stock and supplier debt are updated and the invoice
+// is queued for sync. Runs inside the caller's transaction.
+const bookPurchaseInvoiceLocally = async (invoice: NewPurchaseInvoice) => {
+    for (const item of invoice.items) {
+        // Same lot of the same drug tops up the existing batch, like the server RPC does.
+        const existingBatch = await db.drugBatches.where('[drugId+lotNumber]').equals([item.drugId, item.lotNumber]).first();
+        if (existingBatch) {
+            await db.drugBatches.update(existingBatch.id!, {
+                quantityInStock: existingBatch.quantityInStock + item.quantity,
+                purchasePrice: item.purchasePrice,
+                expiryDate: item.expiryDate,
+            });
+        } else {
+            await db.drugBatches.add({
+                drugId: item.drugId,
+                lotNumber: item.lotNumber,
+                expiryDate: item.expiryDate,
+                quantityInStock: item.quantity,
+                purchasePrice: item.purchasePrice,
+            });
+        }
+        await db.drugs.where('id').equals(item.drugId).modify(drug => {
+            drug.totalStock += item.quantity;
+        });
+    }
+
+    await db.suppliers.where('id').equals(invoice.supplierId).modify(s => {
+        s.totalDebt += invoice.totalAmount;
+    });
+
+    const createdInvoiceId = await db.purchaseInvoices.add({ ...invoice, amountPaid: 0 });
+
+    // The batches are created on the server by the invoice RPC, so only the invoice is queued.
+    await enqueueSyncItem('purchaseInvoices', 'create', createdInvoiceId);
+};
+
+const OFFLINE_INVOICE_MESSAGE = 'فاکتور خرید به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.';
+
+// The payload of the invoice RPCs, with the supplier and drugs translated to their remote ids.
+const toPurchaseInvoicePayload = async (invoice: NewPurchaseInvoice) => {
+    const supplier = await db.suppliers.get(invoice.supplierId);
+    if (!supplier || !supplier.remoteId) {
+        throw new Error("تامین‌کننده انتخاب شده معتبر نیست یا هنوز همگام‌سازی نشده است.");
+    }
+
+    const payloadItems = [];
+    for (const item of invoice.items) {
+        const drug = await db.drugs.get(item.drugId);
+        if (!drug || !drug.remoteId) {
+            throw new Error(`داروی "${item.name}" معتبر نیست یا هنوز همگام‌سازی نشده است.`);
+        }
+        payloadItems.push({
+            drug_id: drug.remoteId,
+            name: item.name,
+            quantity: item.quantity,
+            purchase_price: item.purchasePrice,
+            lot_number: item.lotNumber,
+            expiry_date: item.expiryDate,
+        });
+    }
+
+    return {
+        invoice_number: invoice.invoiceNumber,
+        supplier_id: supplier.remoteId,
+        date: invoice.date,
+        total_amount: invoice.totalAmount,
+        items: payloadItems,
+    };
+};
+
+// Books a purchase invoice: through the invoice RPC when online, otherwise into the local
+// cache (batches, stock and supplier debt) with the invoice queued for sync.
+const savePurchaseInvoice = async (invoice: NewPurchaseInvoice): Promise<{ message: string; offline: boolean }> => {
+    if (!navigator.onLine) {
+        console.log("[Purchase] Offline mode. Using local DB transaction.");
+        await db.transaction('rw', [db.purchaseInvoices, db.drugBatches, db.drugs, db.suppliers, db.syncQueue], async () => {
+            await bookPurchaseInvoiceLocally(invoice);
+        });
+        return { message: OFFLINE_INVOICE_MESSAGE, offline: true };
+    }
+
+    const payload = await toPurchaseInvoicePayload(invoice);
+    markOwnStockWrite(invoice.items.map(item => item.drugId));
+    const { data, error } = await backend.rpc('create_purchase_invoice_transaction', { p_payload: payload });
+    if (error) throw error;
+    if (!data.success) throw new Error(data.message);
+
+    await logActivity('CREATE', 'PurchaseInvoice', data.new_invoice_id, { invoice: payload });
+    return { message: data.message, offline: false };
+};
+
+// Books a delivery against an order. The invoice and the order's received quantities are
+// written together: in one RPC online, or in one local transaction when offline or while
+// the order itself has not reached the server yet.
+const receivePurchaseOrder = async (
+    order: PurchaseOrder, invoice: NewPurchaseInvoice, changes: Partial<PurchaseOrder>,
+): Promise<{ message: string; offline: boolean }> => {
+    if (!navigator.onLine || !order.remoteId) {
+        await db.transaction('rw', [db.purchaseInvoices, db.purchaseOrders, db.drugBatches, db.drugs, db.suppliers, db.syncQueue], async () => {
+            await bookPurchaseInvoiceLocally(invoice);
+            await db.purchaseOrders.update(order.id!, changes);
+            await enqueueSyncItem('purchaseOrders', 'update', order.id!, changes);
+        });
+        return { message: OFFLINE_INVOICE_MESSAGE, offline: true };
+    }
+
+    const payload = await toPurchaseInvoicePayload(invoice);
+    markOwnStockWrite(invoice.items.map(item => item.drugId));
+    const { data, error } = await backend.rpc('receive_purchase_order_transaction', {
+        p_order_id: order.remoteId,
+        p_payload: payload,
+        p_order_changes: await toRemoteRecord('purchaseOrders', changes),
+    });
+    if (error) throw error;
+    if (!data.success) throw new Error(data.message);
+
+    await db.purchaseOrders.update(order.id!, { ...changes, updatedAt: data.purchase_order?.updated_at });
+    await logActivity('CREATE', 'PurchaseInvoice', data.new_invoice_id, { invoice: payload, purchaseOrder: order.remoteId });
+    await logActivity('UPDATE', 'PurchaseOrder', order.remoteId, { status: changes.status, changes });
+    return { message: data.message, offline: false };
+};
+
 const PurchaseFormModal: React.FC<{ onClose: () => void; onSaveSuccess: () => void; }> = ({ onClose, onSaveSuccess }) => {
     const [supplierId, setSupplierId] = useState<number | undefined>(undefined);
     const [invoiceNumber, setInvoiceNumber] = useState('');
@@ -390,50 +1249,13 @@ const PurchaseFormModal: React.FC<{ onClose: () => void; onSaveSuccess: () => vo
         }
 
         try {
-            const supplier = suppliers?.find(s => s.id === supplierId);
-            if (!supplier || !supplier.remoteId) {
-                throw new Error("تامین‌کننده انتخاب شده معتبر نیست یا هنوز همگام‌سازی نشده است.");
-            }
-
-            const payloadItems = [];
-            for (const item of finalItems) {
-                const drug = drugs?.find(d => d.id === item.drugId);
-                if (!drug || !drug.remoteId) {
-                    throw new Error(`داروی "${item.name}" معتبر نیست یا هنوز همگام‌سازی نشده است.`);
-                }
-                payloadItems.push({
-                    drug_id: drug.remoteId,
-                    name: item.name,
-                    quantity: item.quantity,
-                    purchase_price: item.purchasePrice,
-                    lot_number: item.lotNumber,
-                    expiry_date: item.expiryDate,
-                });
-            }
-            
-            const payload = {
-                invoice_number: invoiceNumber,
-                supplier_id: supplier.remoteId,
-                date: date,
-                total_amount: totalAmount,
-                items: payloadItems,
-            };
-    
-            const { data, error } = await supabase.rpc('create_purchase_invoice_transaction', { p_payload: payload });
-
-            if (error) throw error;
-
-            if (data.success) {
-                await logActivity('CREATE', 'PurchaseInvoice', data.new_invoice_id, { invoice: payload });
-                showNotification(data.message, 'success');
-                onSaveSuccess();
-                onClose();
-            } else {
-                throw new Error(data.message);
-            }
-
+            const { message, offline } = await savePurchaseInvoice({ invoiceNumber, supplierId, date, items: finalItems, totalAmount });
+            showNotification(message, 'success');
+            if (offline) processSyncQueue();
+            onSaveSuccess();
+            onClose();
         } catch (error: any) {
-            console.error("Failed to save purchase invoice via RPC:", error);
+            console.error("Failed to save purchase invoice:", error);
             showNotification(error.message || 'خطا در ثبت فاکتور. لطفاً دوباره تلاش کنید.', 'error');
         } finally {
             setIsSaving(false);
@@ -646,7 +1468,8 @@ const EditPurchaseInvoiceModal: React.FC<{ invoice: PurchaseInvoice; onClose: ()
                 p_new_items: payloadItems,
             };
 
-            const { data, error } = await supabase.rpc('update_purchase_invoice_transaction', payload);
+            markOwnStockWrite([...invoice.items, ...items].map(item => item.drugId));
+            const { data, error } = await backend.rpc('update_purchase_invoice_transaction', payload);
 
             if (error) throw error;
             if (!data.success) throw new Error(data.message);
@@ -728,4 +1551,183 @@ const EditPurchaseInvoiceModal: React.FC<{ invoice: PurchaseInvoice; onClose: ()
     );
 };
 
-export default Purchases;
\ No newline at end of file
+// Sends batches of an earlier purchase back to the supplier and credits their value against the supplier's debt.
+// Online the listed invoice carries remote ids, so the local copy is looked up for the offline path and the mirror.
+const PurchaseReturnModal: React.FC<{ invoice: PurchaseInvoice; supplierName: string; onClose: () => void; onSaveSuccess: () => void; }> = ({ invoice, supplierName, onClose, onSaveSuccess }) => {
+    const [quantities, setQuantities] = useState<Record<number, number>>({});
+    const [reason, setReason] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [completedReturn, setCompletedReturn] = useState<PurchaseReturn | null>(null);
+    const { showNotification } = useNotification();
+    const isOnline = useOnlineStatus();
+
+    const localInvoice = useLiveQuery(
+        () => invoice.remoteId ? db.purchaseInvoices.where('remoteId').equals(invoice.remoteId).first() : db.purchaseInvoices.get(invoice.id!),
+        [invoice.id, invoice.remoteId]
+    );
+    const previousReturns = useLiveQuery(
+        async () => localInvoice ? db.purchaseReturns.where('purchaseInvoiceId').equals(localInvoice.id!).toArray() : [],
+        [localInvoice?.id]
+    );
+    const batches = useLiveQuery(() => db.drugBatches.where('drugId').anyOf(invoice.items.map(i => i.drugId)).toArray(), [invoice]);
+
+    const returnableQuantity = (item: PurchaseInvoiceItem) => {
+        const returned = (previousReturns ?? []).flatMap(r => r.items)
+            .filter(i => i.drugId === item.drugId && i.lotNumber === item.lotNumber)
+            .reduce((sum, i) => sum + i.quantity, 0);
+        const inStock = batches?.find(b => b.drugId === item.drugId && b.lotNumber === item.lotNumber)?.quantityInStock ?? 0;
+        return Math.max(Math.min(item.quantity - returned, inStock), 0);
+    };
+
+    const returnItems: PurchaseReturnItem[] = invoice.items
+        .map((item, index) => ({ item, quantity: quantities[index] || 0 }))
+        .filter(({ quantity }) => quantity > 0)
+        .map(({ item, quantity }) => ({
+            drugId: item.drugId, name: item.name, lotNumber: item.lotNumber, expiryDate: item.expiryDate, quantity, purchasePrice: item.purchasePrice,
+        }));
+    const totalAmount = returnItems.reduce((sum, item) => sum + item.quantity * item.purchasePrice, 0);
+
+    const handleSubmit = async () => {
+        if (returnItems.length === 0) {
+            showNotification('حداقل یک بچ را برای مرجوعی مشخص کنید.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        const date = new Date().toISOString();
+        try {
+            if (!isOnline || !invoice.remoteId) {
+                if (!localInvoice) throw new Error('فاکتور خرید در حافظه محلی یافت نشد.');
+                const purchaseReturn: PurchaseReturn = {
+                    purchaseInvoiceId: localInvoice.id!, supplierId: localInvoice.supplierId, date, items: returnItems, totalAmount, reason: reason.trim() || undefined,
+                };
+                const newId = await db.transaction('rw', [db.purchaseReturns, db.purchaseInvoices, db.drugBatches, db.drugs, db.suppliers, db.syncQueue], async () => {
+                    for (const item of returnItems) {
+                        const batch = await db.drugBatches.where('[drugId+lotNumber]').equals([item.drugId, item.lotNumber]).first();
+                        if (!batch || batch.quantityInStock < item.quantity) {
+                            throw new Error(`موجودی بچ ${item.lotNumber} از "${item.name}" کافی نیست.`);
+                        }
+                        await db.drugBatches.update(batch.id!, { quantityInStock: batch.quantityInStock - item.quantity });
+                        await db.drugs.where('id').equals(item.drugId).modify(drug => {
+                            drug.totalStock -= item.quantity;
+                        });
+                    }
+                    await db.suppliers.where('id').equals(localInvoice.supplierId).modify(s => {
+                        s.totalDebt -= totalAmount;
+                    });
+                    const id = await db.purchaseReturns.add(purchaseReturn);
+                    // Stock and debt are changed on the server by the return RPC, so only the return is queued.
+                    await enqueueSyncItem('purchaseReturns', 'create', id);
+                    return id;
+                });
+                setCompletedReturn({ ...purchaseReturn, id: newId });
+                showNotification('مرجوعی خرید به صورت آفلاین ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
+                processSyncQueue();
+            } else {
+                const payloadItems = [];
+                for (const item of returnItems) {
+                    const drug = await db.drugs.get(item.drugId);
+                    if (!drug?.remoteId) throw new Error(`داروی "${item.name}" هنوز همگام‌سازی نشده است.`);
+                    payloadItems.push({
+                        drug_id: drug.remoteId, name: item.name, quantity: item.quantity, purchase_price: item.purchasePrice, lot_number: item.lotNumber, expiry_date: item.expiryDate,
+                    });
+                }
+                const payload = { p_purchase_invoice_id: invoice.remoteId, p_items: payloadItems, p_date: date, p_reason: reason.trim() || null };
+                markOwnStockWrite(returnItems.map(item => item.drugId));
+                const { data, error } = await backend.rpc('create_purchase_return_transaction', { p_payload: payload });
+                if (error) throw error;
+                if (!data.success) throw new Error(data.message);
+
+                await logActivity('CREATE', 'PurchaseReturn', data.new_return_id, { purchaseReturn: payload });
+                // Stock and supplier debt arrive through the realtime subscription.
+                const purchaseReturn: PurchaseReturn = {
+                    remoteId: data.new_return_id, purchaseInvoiceId: localInvoice?.id ?? invoice.id!, supplierId: localInvoice?.supplierId ?? invoice.supplierId,
+                    date, items: returnItems, totalAmount, reason: reason.trim() || undefined,
+                };
+                if (localInvoice) purchaseReturn.id = await db.purchaseReturns.add(purchaseReturn);
+                setCompletedReturn(purchaseReturn);
+                showNotification(data.message, 'success');
+            }
+            onSaveSuccess();
+        } catch (error: any) {
+            console.error("Failed to save purchase return:", error);
+            showNotification(error.message || 'خطا در ثبت مرجوعی. لطفاً دوباره تلاش کنید.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    if (completedReturn) {
+        return (
+            <Modal title={`برگه مرجوعی فاکتور #${invoice.invoiceNumber}`} onClose={onClose}>
+                <div className="space-y-4">
+                    <PrintablePurchaseReturn purchaseReturn={completedReturn} supplierName={supplierName} invoiceNumber={invoice.invoiceNumber} />
+                    <div className="flex justify-end gap-3 pt-4 border-t border-gray-700 print-hidden">
+                        <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                        <button onClick={() => window.print()} className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-lg hover:bg-blue-700">
+                            <Printer size={18} />
+                            <span>چاپ</span>
+                        </button>
+                    </div>
+                </div>
+            </Modal>
+        );
+    }
+
+    return (
+        <Modal title={`مرجوعی فاکتور خرید #${invoice.invoiceNumber} - ${supplierName}`} onClose={onClose}>
+            <div className="space-y-4">
+                <table className="w-full text-sm text-right text-gray-300">
+                    <thead className="text-xs text-gray-400 bg-gray-700/50">
+                        <tr>
+                            <th className="px-3 py-2">دارو</th>
+                            <th className="px-3 py-2">شماره لات</th>
+                            <th className="px-3 py-2">تاریخ انقضا</th>
+                            <th className="px-3 py-2 text-center">خریداری شده</th>
+                            <th className="px-3 py-2 text-center">قابل برگشت</th>
+                            <th className="px-3 py-2 text-center">تعداد مرجوعی</th>
+                        </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-700">
+                        {invoice.items.map((item, index) => {
+                            const returnable = returnableQuantity(item);
+                            return (
+                                <tr key={index}>
+                                    <td className="px-3 py-2 text-white">{item.name}</td>
+                                    <td className="px-3 py-2">{item.lotNumber}</td>
+                                    <td className="px-3 py-2">{new Date(item.expiryDate).toLocaleDateString('fa-IR')}</td>
+                                    <td className="px-3 py-2 text-center">{item.quantity}</td>
+                                    <td className="px-3 py-2 text-center">{returnable}</td>
+                                    <td className="px-3 py-2 text-center">
+                                        <input
+                                            type="number" min={0} max={returnable} disabled={returnable === 0}
+                                            value={quantities[index] || ''}
+                                            onChange={e => setQuantities(prev => ({ ...prev, [index]: Math.max(0, Math.min(Math.floor(Number(e.target.value)) || 0, returnable)) }))}
+                                            className="w-20 input-style-small text-center disabled:opacity-50"
+                                        />
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+                <input type="text" value={reason} onChange={e => setReason(e.target.value)} placeholder="علت مرجوعی (مثلاً تاریخ گذشته یا آسیب‌دیده)" className="input-style" />
+                <div className="flex justify-between items-center pt-4 border-t border-gray-700">
+                    <p className="text-lg font-bold text-white">کسر از بدهی تامین‌کننده: <span className="text-green-400">${totalAmount.toFixed(2)}</span></p>
+                    <div className="flex gap-3">
+                        <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                        <button type="button" onClick={handleSubmit} disabled={isSaving || returnItems.length === 0} className="px-4 py-2 bg-red-600 rounded-lg hover:bg-red-700 disabled:bg-gray-500">
+                            {isSaving ? 'در حال ثبت...' : 'ثبت مرجوعی'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+            <style>{`
+                .input-style { background-color: #374151; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.5rem; padding: 0.75rem; width: 100%; }
+                .input-style::placeholder { color: #9ca3af; }
+                .input-style-small { background-color: #1f2937; border: 1px solid #4b5563; color: #d1d5db; border-radius: 0.375rem; padding: 0.5rem; font-size: 0.875rem; }
+            `}</style>
+        </Modal>
+    );
+};
+
+export default Purchases;
@@ -1,14 +1,19 @@
 import React, { useState, useMemo, useCallback, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { SaleInvoice, PurchaseInvoice, Drug, Supplier, Payment, DrugBatch } from '../types';
-import { TrendingUp, DollarSign, Archive, Printer, ListOrdered, ChevronLeft, Package, Users, PackageOpen, FileText, Banknote, ChevronsDown, Barcode } from 'lucide-react';
+import { SaleInvoice, PurchaseInvoice, Drug, Supplier, Payment, DrugBatch, PurchaseReturn, StockWriteOff } from '../types';
+import { TrendingUp, DollarSign, Archive, Printer, ListOrdered, ChevronLeft, Package, Users, PackageOpen, FileText, Banknote, ChevronsDown, Barcode, ShieldAlert, Undo2, Wallet, CalendarX } from 'lucide-react';
 import Modal from '../components/Modal';
 import { parseJalaliDate } from '../lib/dateConverter';
 import PrintablePurchaseInvoice from '../components/PrintablePurchaseInvoice';
 import PrintableSupplierLedger, { Transaction } from '../components/PrintableSupplierLedger';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import PrintableBarcodeLabels from '../components/PrintableBarcodeLabels';
+import PrintableControlledRegister from '../components/PrintableControlledRegister';
+import { buildControlledRegisters } from '../lib/controlledRegister';
+import { dailyTenderTotals, TENDER_LABELS, TENDER_TYPES } from '../lib/tenders';
+import { summarizeExpiryLoss } from '../lib/expiredStock';
+import PrintableStockWriteOff from '../components/PrintableStockWriteOff';
 
 
 // ============================================================================
@@ -35,10 +40,13 @@ const Reports: React.FC = () => {
             <div id="main-reports-content" className="space-y-8">
                 <DateFilter onDateChange={setDateRange} />
                 <KPIs dateRange={dateRange} />
+                <TenderTotalsReport dateRange={dateRange} />
+                <ExpiryLossReport dateRange={dateRange} />
                 <div className="grid grid-cols-1 xl:grid-cols-2 gap-8 items-start">
                     <SupplierReports dateRange={dateRange} />
                     <InventoryStockReport />
                 </div>
+                <ControlledRegisterReport dateRange={dateRange} />
                 
                 <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4 print-hidden">
                     <h3 className="text-xl font-bold text-white flex items-center gap-2">
@@ -149,6 +157,8 @@ const DateFilter: React.FC<{ onDateChange: (range: { start: Date, end: Date }) =
 const KPIs: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }) => {
     const allDrugs = useLiveQuery(() => db.drugs.toArray(), []);
     const allSaleInvoices = useLiveQuery(() => db.saleInvoices.toArray(), []);
+    const allSaleReturns = useLiveQuery(() => db.saleReturns.toArray(), []);
+    const allWriteOffs = useLiveQuery(() => db.stockWriteOffs.toArray(), []);
     
     const inventoryValue = useMemo(() => {
         if (!allDrugs) return 0;
@@ -156,14 +166,12 @@ const KPIs: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }
     }, [allDrugs]);
 
     const salesAndProfit = useMemo(() => {
-        if (!allSaleInvoices || !allDrugs) return { totalSales: 0, netProfit: 0 };
+        if (!allSaleInvoices || !allSaleReturns || !allDrugs || !allWriteOffs) return { totalSales: 0, totalReturns: 0, netProfit: 0 };
         
         const drugCosts = new Map(allDrugs.map(d => [d.id!, Number(d.purchasePrice) || 0]));
+        const inRange = (date: string) => new Date(date) >= dateRange.start && new Date(date) <= dateRange.end;
         
-        const filteredInvoices = allSaleInvoices.filter(inv => {
-            const invDate = new Date(inv.date);
-            return invDate >= dateRange.start && invDate <= dateRange.end;
-        });
+        const filteredInvoices = allSaleInvoices.filter(inv => inRange(inv.date));
 
         let totalSales = 0;
         let totalCost = 0;
@@ -178,12 +186,26 @@ const KPIs: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }
             }
         }
         
+        // Returns count as negative revenue in the period they were taken back. Restocked units
+        // also give their cost back; damaged ones stay a loss.
+        let totalReturns = 0;
+        for (const saleReturn of allSaleReturns.filter(r => inRange(r.date))) {
+            totalReturns += Number(saleReturn.totalAmount) || 0;
+            for (const item of saleReturn.items) {
+                if (item.condition === 'restock') totalCost -= (Number(item.quantity) || 0) * (drugCosts.get(item.drugId) || 0);
+            }
+        }
+        totalSales -= totalReturns;
+
+        // Written-off stock is a loss of the period it was destroyed in.
+        totalCost += allWriteOffs.filter(w => inRange(w.date)).reduce((sum, w) => sum + (Number(w.totalValue) || 0), 0);
+        
         const netProfit = totalSales - totalCost;
-        return { totalSales, netProfit };
-    }, [dateRange, allSaleInvoices, allDrugs]);
+        return { totalSales, totalReturns, netProfit };
+    }, [dateRange, allSaleInvoices, allSaleReturns, allDrugs, allWriteOffs]);
 
     return (
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-6">
             <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex items-center gap-4">
                 <div className="p-3 bg-purple-500/20 rounded-full"><Archive size={28} className="text-purple-400"/></div>
                 <div>
@@ -194,10 +216,17 @@ const KPIs: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }
              <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex items-center gap-4">
                 <div className="p-3 bg-blue-500/20 rounded-full"><Banknote size={28} className="text-blue-300"/></div>
                 <div>
-                    <p className="text-sm text-gray-400">مجموع فروش (در بازه)</p>
+                    <p className="text-sm text-gray-400">فروش خالص (در بازه)</p>
                     <p className="text-2xl font-bold text-white">${salesAndProfit.totalSales.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
                 </div>
             </div>
+            <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex items-center gap-4">
+                <div className="p-3 bg-red-500/20 rounded-full"><Undo2 size={28} className="text-red-400"/></div>
+                <div>
+                    <p className="text-sm text-gray-400">مرجوعی فروش (در بازه)</p>
+                    <p className="text-2xl font-bold text-red-400">-${salesAndProfit.totalReturns.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}</p>
+                </div>
+            </div>
             <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex items-center gap-4">
                 <div className="p-3 bg-green-500/20 rounded-full"><TrendingUp size={28} className="text-green-400"/></div>
                 <div>
@@ -209,6 +238,124 @@ const KPIs: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }
     );
 };
 
+// ============================================================================
+// Daily Tender Totals Section
+// ============================================================================
+const TenderTotalsReport: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }) => {
+    const allSaleInvoices = useLiveQuery(() => db.saleInvoices.toArray(), []);
+    const allSaleReturns = useLiveQuery(() => db.saleReturns.toArray(), []);
+
+    const days = useMemo(() => {
+        if (!allSaleInvoices || !allSaleReturns) return [];
+        return dailyTenderTotals(allSaleInvoices, allSaleReturns, dateRange);
+    }, [allSaleInvoices, allSaleReturns, dateRange]);
+
+    const format = (amount: number) => `$${amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4">
+            <h3 className="text-xl font-bold text-white flex items-center gap-2"><Wallet size={20}/> جمع روزانه به تفکیک روش پرداخت</h3>
+            {days.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center p-4">هیچ فروشی در این بازه زمانی ثبت نشده است.</p>
+            ) : (
+                <div className="overflow-x-auto max-h-96 overflow-y-auto">
+                    <table className="w-full text-sm text-right">
+                        <thead className="text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th className="p-2">تاریخ</th>
+                                {TENDER_TYPES.map(type => <th key={type} className="p-2 text-center">{TENDER_LABELS[type]}</th>)}
+                                <th className="p-2 text-center">بازپرداخت نقدی</th>
+                                <th className="p-2 text-center">نقد در صندوق</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {days.map(day => (
+                                <tr key={day.day} className="border-b border-gray-700/50 text-gray-200">
+                                    <td className="p-2">{new Date(`${day.day}T00:00:00`).toLocaleDateString('fa-IR')}</td>
+                                    {TENDER_TYPES.map(type => <td key={type} className="p-2 text-center">{format(day.totals[type])}</td>)}
+                                    <td className="p-2 text-center text-red-400">{format(day.cashRefunds)}</td>
+                                    <td className="p-2 text-center font-bold text-green-400">{format(day.netCash)}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// ============================================================================
+// Expired / Quarantined Stock Loss Section
+// ============================================================================
+const ExpiryLossReport: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }) => {
+    const writeOffs = useLiveQuery(() => db.stockWriteOffs.toArray(), []);
+    const purchaseReturns = useLiveQuery(() => db.purchaseReturns.toArray(), []);
+    const batches = useLiveQuery(() => db.drugBatches.toArray(), []);
+    const [writeOffToView, setWriteOffToView] = useState<StockWriteOff | null>(null);
+
+    const summary = useMemo(() => summarizeExpiryLoss(writeOffs ?? [], purchaseReturns ?? [], dateRange), [writeOffs, purchaseReturns, dateRange]);
+    // Not a loss yet: still waiting to be written off or returned.
+    const quarantinedValue = useMemo(() => (batches ?? []).reduce((sum, batch) => sum + (batch.quarantinedQuantity || 0) * batch.purchasePrice, 0), [batches]);
+
+    const format = (amount: number) => `$${amount.toLocaleString(undefined, {minimumFractionDigits: 2, maximumFractionDigits: 2})}`;
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4">
+            <h3 className="text-xl font-bold text-white flex items-center gap-2"><CalendarX size={20}/> زیان کالای تاریخ‌گذشته و آسیب‌دیده</h3>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-gray-400">امحا شده (زیان در بازه)</p>
+                    <p className="text-xl font-bold text-red-400">{format(summary.writtenOffValue)}</p>
+                </div>
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-gray-400">مرجوع به تامین‌کننده (در بازه)</p>
+                    <p className="text-xl font-bold text-green-400">{format(summary.returnedValue)}</p>
+                </div>
+                <div className="p-3 bg-gray-900/50 rounded-lg">
+                    <p className="text-gray-400">در قرنطینه (در انتظار تعیین تکلیف)</p>
+                    <p className="text-xl font-bold text-yellow-300">{format(quarantinedValue)}</p>
+                </div>
+            </div>
+            {summary.writeOffs.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center p-4">هیچ سند امحایی در این بازه زمانی ثبت نشده است.</p>
+            ) : (
+                <div className="overflow-x-auto max-h-72 overflow-y-auto">
+                    <table className="w-full text-sm text-right">
+                        <thead className="text-gray-400 border-b border-gray-700">
+                            <tr>
+                                <th className="p-2">شماره سند</th>
+                                <th className="p-2">تاریخ</th>
+                                <th className="p-2">اقلام</th>
+                                <th className="p-2">ثبت‌کننده</th>
+                                <th className="p-2 text-center">زیان</th>
+                                <th className="p-2"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {summary.writeOffs.map(writeOff => (
+                                <tr key={writeOff.id} className="border-b border-gray-700/50 text-gray-200">
+                                    <td className="p-2">#{writeOff.remoteId || writeOff.id}</td>
+                                    <td className="p-2">{new Date(writeOff.date).toLocaleDateString('fa-IR')}</td>
+                                    <td className="p-2 text-xs">{writeOff.items.map(item => `${item.name} (${item.quantity})`).join('، ')}</td>
+                                    <td className="p-2">{writeOff.username || '-'}</td>
+                                    <td className="p-2 text-center text-red-400">{format(writeOff.totalValue)}</td>
+                                    <td className="p-2"><button onClick={() => setWriteOffToView(writeOff)} className="text-blue-400 hover:text-blue-300" title="مشاهده و چاپ"><Printer size={16}/></button></td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+            {writeOffToView && (
+                <PrintPreviewModal title={`صورتجلسه امحا #${writeOffToView.remoteId || writeOffToView.id}`} onClose={() => setWriteOffToView(null)}>
+                    <PrintableStockWriteOff writeOff={writeOffToView} />
+                </PrintPreviewModal>
+            )}
+        </div>
+    );
+};
+
 // ============================================================================
 // Inventory Stock Report Section
 // ============================================================================
@@ -308,7 +455,7 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
     const [invoiceToView, setInvoiceToView] = useState<PurchaseInvoice | null>(null);
     const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
     
-    const [supplierTransactions, setSupplierTransactions] = useState<{purchases: PurchaseInvoice[], payments: Payment[]}>({purchases: [], payments: []});
+    const [supplierTransactions, setSupplierTransactions] = useState<{purchases: PurchaseInvoice[], payments: Payment[], returns: PurchaseReturn[]}>({purchases: [], payments: [], returns: []});
     const [isFetching, setIsFetching] = useState(false);
 
     const suppliers = useLiveQuery(() => db.suppliers.orderBy('name').toArray(), []);
@@ -317,18 +464,20 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
     useEffect(() => {
         const fetchSupplierData = async () => {
             if (!selectedSupplier?.remoteId) {
-                setSupplierTransactions({purchases: [], payments: []});
+                setSupplierTransactions({purchases: [], payments: [], returns: []});
                 return;
             }
             setIsFetching(true);
             try {
-                const [purchasesRes, paymentsRes] = await Promise.all([
-                    supabase.from('purchase_invoices').select('*, purchase_invoice_items(*)').eq('supplier_id', selectedSupplier.remoteId),
-                    supabase.from('payments').select('*').eq('supplier_id', selectedSupplier.remoteId)
+                const [purchasesRes, paymentsRes, returnsRes] = await Promise.all([
+                    backend.from('purchase_invoices').select('*, purchase_invoice_items(*)').eq('supplier_id', selectedSupplier.remoteId),
+                    backend.from('payments').select('*').eq('supplier_id', selectedSupplier.remoteId),
+                    backend.from('purchase_returns').select('*').eq('supplier_id', selectedSupplier.remoteId)
                 ]);
 
                 if (purchasesRes.error) throw purchasesRes.error;
                 if (paymentsRes.error) throw paymentsRes.error;
+                if (returnsRes.error) throw returnsRes.error;
 
                 const purchases: PurchaseInvoice[] = purchasesRes.data.map((inv: any) => ({
                     ...inv, id: inv.id, remoteId: inv.id, invoiceNumber: inv.invoice_number, supplierId: selectedSupplier.id!, totalAmount: inv.total_amount, amountPaid: inv.amount_paid,
@@ -340,12 +489,16 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
                 const payments: Payment[] = paymentsRes.data.map((p: any) => ({
                     ...p, id: p.id, remoteId: p.id, supplierId: selectedSupplier.id!, recipientName: p.recipient_name
                 }));
+
+                const returns: PurchaseReturn[] = returnsRes.data.map((r: any) => ({
+                    id: r.id, remoteId: r.id, purchaseInvoiceId: r.purchase_invoice_id, supplierId: selectedSupplier.id!, date: r.date, items: r.items || [], totalAmount: r.total_amount, reason: r.reason ?? undefined
+                }));
                 
-                setSupplierTransactions({ purchases, payments });
+                setSupplierTransactions({ purchases, payments, returns });
 
             } catch (error) {
                 console.error("Error fetching supplier data:", error);
-                setSupplierTransactions({purchases: [], payments: []});
+                setSupplierTransactions({purchases: [], payments: [], returns: []});
             } finally {
                 setIsFetching(false);
             }
@@ -365,13 +518,16 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
 
         const totalPurchases = supplierTransactions.purchases.reduce((sum, p) => sum + p.totalAmount, 0);
         const totalPayments = supplierTransactions.payments.reduce((sum, p) => sum + p.amount, 0);
+        const totalReturns = supplierTransactions.returns.reduce((sum, r) => sum + r.totalAmount, 0);
+        const invoiceNumbers = new Map(supplierTransactions.purchases.map(p => [p.id, p.invoiceNumber]));
 
-        const combined: { date: string; type: 'purchase' | 'payment'; data: PurchaseInvoice | Payment }[] = [
+        const combined: { date: string; type: 'purchase' | 'payment' | 'return'; data: PurchaseInvoice | Payment | PurchaseReturn }[] = [
             ...supplierTransactions.purchases.map(p => ({ date: p.date, type: 'purchase' as const, data: p })),
-            ...supplierTransactions.payments.map(p => ({ date: p.date, type: 'payment' as const, data: p }))
+            ...supplierTransactions.payments.map(p => ({ date: p.date, type: 'payment' as const, data: p })),
+            ...supplierTransactions.returns.map(r => ({ date: r.date, type: 'return' as const, data: r }))
         ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
         
-        let openingBalance = selectedSupplier.totalDebt - (totalPurchases - totalPayments);
+        let openingBalance = selectedSupplier.totalDebt - (totalPurchases - totalPayments - totalReturns);
         let runningBalance = openingBalance;
         
         const allTransactions: Transaction[] = [];
@@ -392,6 +548,10 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
                 const purchase = item.data as PurchaseInvoice;
                 runningBalance += purchase.totalAmount;
                 allTransactions.push({ date: purchase.date, description: `فاکتور خرید #${purchase.invoiceNumber}`, debit: purchase.totalAmount, credit: 0, balance: runningBalance });
+            } else if (item.type === 'return') {
+                const purchaseReturn = item.data as PurchaseReturn;
+                runningBalance -= purchaseReturn.totalAmount;
+                allTransactions.push({ date: purchaseReturn.date, description: `مرجوعی کالا (فاکتور #${invoiceNumbers.get(purchaseReturn.purchaseInvoiceId) || ''})`, detail: purchaseReturn.reason, debit: 0, credit: purchaseReturn.totalAmount, balance: runningBalance });
             } else {
                 const payment = item.data as Payment;
                 runningBalance -= payment.amount;
@@ -460,6 +620,45 @@ const SupplierReports: React.FC<{ dateRange: { start: Date, end: Date } }> = ({
     );
 };
 
+// ============================================================================
+// Controlled-Substance Register Section
+// ============================================================================
+const ControlledRegisterReport: React.FC<{ dateRange: { start: Date, end: Date } }> = ({ dateRange }) => {
+    const [selectedDrugId, setSelectedDrugId] = useState<number | 'all'>('all');
+    const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
+    const registers = useLiveQuery(() => buildControlledRegisters(dateRange), [dateRange]);
+
+    const visibleRegisters = useMemo(() => {
+        if (!registers) return [];
+        return selectedDrugId === 'all' ? registers : registers.filter(r => r.drug.id === selectedDrugId);
+    }, [registers, selectedDrugId]);
+
+    return (
+        <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 space-y-4">
+            <div className="flex justify-between items-center">
+                 <h3 className="text-xl font-bold text-white flex items-center gap-2"><ShieldAlert size={20}/> دفتر داروهای کنترل‌شده</h3>
+                 <button onClick={() => setIsPrintModalOpen(true)} disabled={visibleRegisters.length === 0} className="btn-secondary print-hidden disabled:opacity-50 disabled:cursor-not-allowed"><Printer size={16}/> چاپ</button>
+            </div>
+            <select value={selectedDrugId} onChange={e => setSelectedDrugId(e.target.value === 'all' ? 'all' : Number(e.target.value))} className="input-style w-full print-hidden">
+                <option value="all">همه داروهای کنترل‌شده</option>
+                {registers?.map(r => <option key={r.drug.id} value={r.drug.id}>{r.drug.name} ({r.drug.controlled})</option>)}
+            </select>
+            {!registers ? (
+                <div className="text-center text-gray-500 py-10">در حال بارگذاری اطلاعات...</div>
+            ) : (
+                <div className="max-h-[70vh] overflow-y-auto report-content-wrapper">
+                    <PrintableControlledRegister registers={visibleRegisters} dateRange={dateRange} />
+                </div>
+            )}
+            {isPrintModalOpen && (
+                <PrintPreviewModal title="پیش‌نمایش دفتر داروهای کنترل‌شده" onClose={() => setIsPrintModalOpen(false)}>
+                    <PrintableControlledRegister registers={visibleRegisters} dateRange={dateRange} />
+                </PrintPreviewModal>
+            )}
+        </div>
+    );
+};
+
 // ============================================================================
 // Shared Modals (Print, Purchase Details)
 // ============================================================================
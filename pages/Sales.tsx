@@ -1,39 +1,85 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { Drug, SaleItem, SaleInvoice } from '../types';
-import { Search, X, Plus, Minus, Printer, Edit, History, Filter, XCircle, Barcode } from 'lucide-react';
+import { Drug, SaleItem, SaleInvoice, Customer, Prescription, ControlledDispensing, DiscountInput, DiscountKind, HeldCart, Insurer } from '../types';
+import { Search, X, Plus, Minus, Printer, Edit, History, Filter, XCircle, Barcode, AlertTriangle, ClipboardList, ShieldAlert, Undo2, Percent, PauseCircle, Inbox } from 'lucide-react';
 import Modal from '../components/Modal';
 import PrintableInvoice from '../components/PrintableInvoice';
+import CustomerPicker from '../components/CustomerPicker';
+import PrescriptionsModal from '../components/PrescriptionsModal';
+import SaleReturnModal from '../components/SaleReturnModal';
+import PaymentModal from '../components/PaymentModal';
+import DiscountApprovalModal from '../components/DiscountApprovalModal';
+import HeldCartsModal from '../components/HeldCartsModal';
 import { useVoiceInput } from '../hooks/useVoiceInput';
 import VoiceControlHeader from '../components/VoiceControlHeader';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
-import { processSyncQueue } from '../lib/syncService';
-import { supabase } from '../lib/supabaseClient';
+import { useCurrentShift } from '../hooks/useCurrentShift';
+import { processSyncQueue, enqueueSyncItem } from '../lib/syncService';
+import { backend } from '../lib/dataBackend';
 import { parseJalaliDate } from '../lib/dateConverter';
+import { REMOTE_CHANGES_CHANNEL, RemoteStockChangeMessage, markOwnStockWrite } from '../lib/realtimeSync';
+import { applyPrescriptionFill, remainingQuantity, remainingRefills } from '../lib/prescriptions';
+import { amountPaidFromTenders, rebalanceTenders, Settlement } from '../lib/tenders';
+import { DEFAULT_MAX_DISCOUNT_PERCENT, discountAmount, discountPercent, priceLine } from '../lib/discounts';
+import { splitInsurance } from '../lib/insurance';
+import { isExpired } from '../lib/expiredStock';
 
 // Helper to get ISO date strings for filtering
 const getISODateForFilter = (date: Date) => {
     return date.toISOString();
 };
 
+// The cart being worked on lives in the page state; the other tabs keep a draft of theirs.
+type CartDraft = Omit<HeldCart, 'id' | 'name' | 'heldAt'>;
+
+interface CartTab {
+    key: number;
+    name: string;
+    draft?: CartDraft;
+}
+
+const tabName = (key: number) => `سبد ${key.toLocaleString('fa-IR')}`;
+
 const Sales: React.FC = () => {
     const [searchTerm, setSearchTerm] = useState('');
     const [cart, setCart] = useState<Omit<SaleItem, 'deductions'>[]>([]);
     const [invoiceToPrint, setInvoiceToPrint] = useState<SaleInvoice | null>(null);
     const [editingInvoice, setEditingInvoice] = useState<SaleInvoice | null>(null);
+    const [returningInvoice, setReturningInvoice] = useState<SaleInvoice | null>(null);
     const [dateFilter, setDateFilter] = useState<{ start: string | null, end: string | null }>({ start: null, end: null });
     const [customDateInputs, setCustomDateInputs] = useState({ start: '', end: '' });
     const [isScanModeActive, setIsScanModeActive] = useState(false);
+    const [remotelyChangedDrugIds, setRemotelyChangedDrugIds] = useState<Set<number>>(new Set());
+    const [customer, setCustomer] = useState<Customer | null>(null);
+    const [prescription, setPrescription] = useState<Prescription | null>(null);
+    const [insurer, setInsurer] = useState<Insurer | null>(null);
+    const [insuranceMemberId, setInsuranceMemberId] = useState('');
+    const [isPrescriptionsOpen, setIsPrescriptionsOpen] = useState(false);
+    const [isDispensingPromptOpen, setIsDispensingPromptOpen] = useState(false);
+    const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+    const [pendingDispensing, setPendingDispensing] = useState<ControlledDispensing | undefined>(undefined);
+    const [lineDiscounts, setLineDiscounts] = useState<Record<number, DiscountInput>>({});
+    const [invoiceDiscountInput, setInvoiceDiscountInput] = useState<DiscountInput>({ kind: 'percent', value: 0 });
+    const [pricingItem, setPricingItem] = useState<Omit<SaleItem, 'deductions'> | null>(null);
+    const [isApprovalOpen, setIsApprovalOpen] = useState(false);
+    const [discountApproval, setDiscountApproval] = useState<{ username: string; percent: number } | null>(null);
+    const [tabs, setTabs] = useState<CartTab[]>([{ key: 1, name: tabName(1) }]);
+    const [activeTabKey, setActiveTabKey] = useState(1);
+    const [isHeldCartsOpen, setIsHeldCartsOpen] = useState(false);
+    const currentShift = useCurrentShift();
 
-    const { hasPermission } = useAuth();
+    const { hasPermission, currentUser } = useAuth();
     const { showNotification } = useNotification();
     const isOnline = useOnlineStatus();
 
     const drugs = useLiveQuery(() => db.drugs.toArray(), []);
+    const heldCartsCount = useLiveQuery(() => db.heldCarts.count(), []);
+    const insurers = useLiveQuery(() => db.insurers.orderBy('name').filter(i => i.active).toArray(), []);
+    const maxDiscountPercent = useLiveQuery(async () => (await db.settings.get('maxDiscountPercent'))?.value as number | undefined, []) ?? DEFAULT_MAX_DISCOUNT_PERCENT;
     
     const recentInvoices = useLiveQuery(async () => {
         if (dateFilter.start && dateFilter.end) {
@@ -53,6 +99,8 @@ const Sales: React.FC = () => {
         }
     }, [dateFilter]);
 
+    const invoiceIdsWithReturns = useLiveQuery(async () => new Set((await db.saleReturns.toArray()).map(r => r.saleInvoiceId)), []);
+
 
     const handleVoiceTranscript = (transcript: string) => {
         setSearchTerm(transcript);
@@ -108,6 +156,27 @@ const Sales: React.FC = () => {
         }
     }, [searchTerm, isScanModeActive, drugs]); // This will run whenever searchTerm changes in scan mode
 
+    // Flag cart items whose stock was changed by another terminal while they are in the cart.
+    const cartRef = useRef(cart);
+    cartRef.current = cart;
+    useEffect(() => {
+        const channel = new BroadcastChannel(REMOTE_CHANGES_CHANNEL);
+        channel.onmessage = (event: MessageEvent<RemoteStockChangeMessage>) => {
+            const affected = event.data.drugIds.filter(id => cartRef.current.some(item => item.drugId === id));
+            if (affected.length === 0) return;
+            setRemotelyChangedDrugIds(prev => new Set([...prev, ...affected]));
+        };
+        return () => channel.close();
+    }, []);
+
+    const dismissStockNotice = (drugId: number) => {
+        setRemotelyChangedDrugIds(prev => {
+            const next = new Set(prev);
+            next.delete(drugId);
+            return next;
+        });
+    };
+
     const updateQuantity = (drugId: number, quantity: number) => {
         const drugInStock = drugs?.find(d => d.id === drugId);
         if (!drugInStock) return;
@@ -120,45 +189,290 @@ const Sales: React.FC = () => {
 
         setCart(cart.map(item =>
             item.drugId === drugId
-                ? { ...item, quantity: newQuantity, totalPrice: item.unitPrice * newQuantity }
+                ? priceLine({ ...item, quantity: newQuantity }, lineDiscounts[drugId])
                 : item
         ));
     };
 
     const removeFromCart = (drugId: number) => {
         setCart(cart.filter(item => item.drugId !== drugId));
+        const { [drugId]: _removed, ...rest } = lineDiscounts;
+        setLineDiscounts(rest);
+        dismissStockNotice(drugId);
+    };
+
+    // Applies a price override and/or discount from the line pricing editor.
+    const applyLinePricing = (drugId: number, unitPrice: number, discount?: DiscountInput) => {
+        const catalogPrice = drugs?.find(d => d.id === drugId)?.salePrice;
+        setCart(cart.map(item =>
+            item.drugId === drugId
+                ? priceLine({ ...item, unitPrice, listPrice: catalogPrice !== undefined && unitPrice !== catalogPrice ? catalogPrice : undefined }, discount ?? { kind: 'fixed', value: 0 })
+                : item
+        ));
+        const { [drugId]: _previous, ...rest } = lineDiscounts;
+        setLineDiscounts(discount ? { ...rest, [drugId]: discount } : rest);
+        setPricingItem(null);
     };
 
-    const totalAmount = useMemo(() => {
+    const linesTotal = useMemo(() => {
         return cart.reduce((sum, item) => sum + item.totalPrice, 0);
     }, [cart]);
+    const invoiceDiscount = discountAmount(invoiceDiscountInput, linesTotal);
+    const totalAmount = Math.round((linesTotal - invoiceDiscount) * 100) / 100;
+
+    // Discounts above the limit need a manager's sign-off, unless the cashier may approve them already.
+    const cartDiscountPercent = discountPercent(cart, invoiceDiscount);
+    const isOverDiscountLimit = cartDiscountPercent > maxDiscountPercent + 0.005;
+    const needsDiscountApproval = isOverDiscountLimit
+        && !hasPermission('sales:discount:approve')
+        && !(discountApproval && discountApproval.percent + 0.005 >= cartDiscountPercent);
+
+    // The insurer's share of each line, after discounts.
+    const insuranceSplit = useMemo(() => splitInsurance(insurer ?? undefined, cart, invoiceDiscount, drugs ?? []), [insurer, cart, invoiceDiscount, drugs]);
+    const insurerShare = insuranceSplit.insurerShare;
+
+    const resetCart = () => {
+        setCart([]);
+        setRemotelyChangedDrugIds(new Set());
+        setCustomer(null);
+        setPrescription(null);
+        setInsurer(null);
+        setInsuranceMemberId('');
+        setPendingDispensing(undefined);
+        setLineDiscounts({});
+        setInvoiceDiscountInput({ kind: 'percent', value: 0 });
+        setDiscountApproval(null);
+    };
+
+    // Fills the cart with what is left of the prescription's current fill, as far as stock allows.
+    const loadPrescription = async (selected: Prescription) => {
+        const shortages: string[] = [];
+        const items: Omit<SaleItem, 'deductions'>[] = [];
+        for (const line of selected.items) {
+            const drug = drugs?.find(d => d.id === line.drugId);
+            const wanted = remainingQuantity(line);
+            if (wanted === 0) continue;
+            const quantity = Math.min(wanted, drug?.totalStock ?? 0);
+            if (quantity < wanted) shortages.push(line.name);
+            if (!drug || quantity === 0) continue;
+            items.push({
+                drugId: drug.id!,
+                name: drug.name,
+                quantity,
+                unitPrice: drug.salePrice,
+                totalPrice: drug.salePrice * quantity,
+                directions: [line.dose, line.directions].filter(Boolean).join(' - ') || undefined,
+            });
+        }
+        setCart(items);
+        setLineDiscounts({});
+        setRemotelyChangedDrugIds(new Set());
+        setPrescription(selected);
+        setIsPrescriptionsOpen(false);
+        if (selected.customerId) {
+            setCustomer(await db.customers.get(selected.customerId) ?? null);
+        }
+        if (shortages.length > 0) {
+            showNotification(`موجودی کافی برای این اقلام نسخه نیست و به صورت ناقص پیچیده می‌شوند: ${shortages.join('، ')}`, 'info');
+        }
+    };
+
+    const currentDraft = (): CartDraft => ({
+        items: cart,
+        lineDiscounts,
+        invoiceDiscount: invoiceDiscountInput.value > 0 ? invoiceDiscountInput : undefined,
+        customerId: customer?.id,
+        prescriptionId: prescription?.id,
+        insurerId: insurer?.id,
+        insuranceMemberId: insuranceMemberId.trim() || undefined,
+    });
+
+    // Puts a draft back into the working cart. Quantities are cut back to what is in stock now.
+    const loadDraft = async (draft?: CartDraft) => {
+        resetCart();
+        if (!draft) return;
+        const shortages: string[] = [];
+        const items: Omit<SaleItem, 'deductions'>[] = [];
+        for (const item of draft.items) {
+            const quantity = Math.min(item.quantity, drugs?.find(d => d.id === item.drugId)?.totalStock ?? 0);
+            if (quantity < item.quantity) shortages.push(item.name);
+            if (quantity > 0) items.push(priceLine({ ...item, quantity }, draft.lineDiscounts?.[item.drugId]));
+        }
+        setCart(items);
+        setLineDiscounts(draft.lineDiscounts ?? {});
+        setInvoiceDiscountInput(draft.invoiceDiscount ?? { kind: 'percent', value: 0 });
+        setCustomer(draft.customerId ? await db.customers.get(draft.customerId) ?? null : null);
+        setPrescription(draft.prescriptionId ? await db.prescriptions.get(draft.prescriptionId) ?? null : null);
+        setInsurer(draft.insurerId ? await db.insurers.get(draft.insurerId) ?? null : null);
+        setInsuranceMemberId(draft.insuranceMemberId ?? '');
+        if (shortages.length > 0) {
+            showNotification(`موجودی این اقلام کمتر از سبد است و تعداد آنها کاهش یافت: ${shortages.join('، ')}`, 'info');
+        }
+    };
+
+    const tabsWithCurrentDraft = () => tabs.map(t => (t.key === activeTabKey ? { ...t, draft: currentDraft() } : t));
+
+    const switchTab = (key: number) => {
+        if (key === activeTabKey) return;
+        const target = tabs.find(t => t.key === key);
+        setTabs(tabsWithCurrentDraft());
+        setActiveTabKey(key);
+        loadDraft(target?.draft);
+    };
+
+    // Opens an empty tab next to the others and makes it the working cart.
+    const openTab = (name?: string) => {
+        const key = Math.max(...tabs.map(t => t.key)) + 1;
+        setTabs([...tabsWithCurrentDraft(), { key, name: name || tabName(key) }]);
+        setActiveTabKey(key);
+        resetCart();
+    };
+
+    const closeTab = (key: number) => {
+        const tab = tabs.find(t => t.key === key);
+        const hasItems = key === activeTabKey ? cart.length > 0 : !!tab?.draft?.items.length;
+        if (hasItems && !window.confirm(`سبد "${tab?.name}" خالی نیست. آیا از بستن آن مطمئن هستید؟`)) return;
+        if (tabs.length === 1) {
+            resetCart();
+            return;
+        }
+        const remaining = tabs.filter(t => t.key !== key);
+        setTabs(remaining);
+        if (key === activeTabKey) {
+            const next = remaining[Math.max(tabs.findIndex(t => t.key === key) - 1, 0)];
+            setActiveTabKey(next.key);
+            loadDraft(next.draft);
+        }
+    };
+
+    const renameTab = (key: number) => {
+        const tab = tabs.find(t => t.key === key);
+        const name = window.prompt('نام سبد:', tab?.name)?.trim();
+        if (name) setTabs(tabs.map(t => (t.key === key ? { ...t, name } : t)));
+    };
 
-    const handleCheckout = async () => {
+    // Parks the working cart in Dexie so the counter is free for the next customer.
+    const holdCart = async () => {
         if (cart.length === 0) return;
+        try {
+            await db.heldCarts.add({
+                ...currentDraft(),
+                name: tabs.find(t => t.key === activeTabKey)?.name ?? tabName(activeTabKey),
+                heldAt: new Date().toISOString(),
+            });
+            resetCart();
+            showNotification('سبد خرید نگه داشته شد.', 'success');
+        } catch (error) {
+            console.error("Failed to hold cart:", error);
+            showNotification('خطا در نگه داشتن سبد خرید.', 'error');
+        }
+    };
+
+    // A resumed cart never replaces one in progress; it gets a tab of its own.
+    const resumeHeldCart = async (heldCart: HeldCart) => {
+        setIsHeldCartsOpen(false);
+        if (cart.length > 0) {
+            openTab(heldCart.name);
+        } else {
+            setTabs(tabs.map(t => (t.key === activeTabKey ? { ...t, name: heldCart.name } : t)));
+        }
+        await db.heldCarts.delete(heldCart.id!);
+        await loadDraft(heldCart);
+    };
+
+    const controlledCartItems = useMemo(() => cart.filter(item => drugs?.find(d => d.id === item.drugId)?.controlled), [cart, drugs]);
 
-        if (isOnline) {
+    const handleCheckout = async (controlledDispensing?: ControlledDispensing, settlement?: Settlement) => {
+        if (cart.length === 0) return;
+        // Controlled drugs cannot leave the counter without the patient and prescription details for the register.
+        if (controlledCartItems.length > 0 && !controlledDispensing) {
+            setIsDispensingPromptOpen(true);
+            return;
+        }
+        setIsDispensingPromptOpen(false);
+        if (!settlement) {
+            setPendingDispensing(controlledDispensing);
+            if (needsDiscountApproval) {
+                setIsApprovalOpen(true);
+                return;
+            }
+            setIsPaymentOpen(true);
+            return;
+        }
+        setIsPaymentOpen(false);
+        if (needsDiscountApproval) {
+            showNotification('تخفیف این فاکتور بیش از سقف مجاز است و به تایید مدیر نیاز دارد.', 'error');
+            return;
+        }
+        const discountApprovedBy = isOverDiscountLimit ? (discountApproval?.username ?? currentUser?.username) : undefined;
+        if (insurer && !insuranceMemberId.trim()) {
+            showNotification('شماره بیمه بیمار را وارد کنید.', 'error');
+            return;
+        }
+        const saleItems = insuranceSplit.items;
+        const insuranceFields = insurer ? { insurerId: insurer.id, insuranceMemberId: insuranceMemberId.trim(), insurerShare } : {};
+
+        const { tenders, changeDue } = settlement;
+        const amountPaid = amountPaidFromTenders(totalAmount, tenders);
+        const unpaidAmount = totalAmount - amountPaid;
+        if (unpaidAmount > 0 && !customer) {
+            showNotification('برای فروش نسیه ابتدا مشتری را انتخاب کنید.', 'error');
+            return;
+        }
+
+        // A shift opened offline has to reach the server first; until then sales go through the queue behind it.
+        if (isOnline && (!currentShift || currentShift.remoteId)) {
             console.log("[Checkout] Online mode. Using RPC for atomic transaction.");
             try {
                 const rpcPayload = {
-                    p_items: cart.map(item => {
+                    p_items: saleItems.map(item => {
                         const drug = drugs?.find(d => d.id === item.drugId);
                         return {
                             drug_id: drug?.remoteId,
                             name: item.name, // FIX: Added missing 'name' field
                             quantity: item.quantity,
                             unit_price: item.unitPrice,
+                            list_price: item.listPrice ?? null,
+                            discount: item.discount ?? 0,
+                            insured_amount: item.insuredAmount ?? 0,
+                            directions: item.directions ?? null,
                         };
                     }),
                     p_total_amount: totalAmount,
+                    p_discount: invoiceDiscount,
+                    p_discount_approved_by: discountApprovedBy ?? null,
+                    p_insurer_id: insurer?.remoteId ?? null,
+                    p_insurance_member_id: insurer ? insuranceMemberId.trim() : null,
+                    p_insurer_share: insurerShare,
                     p_date: new Date().toISOString(),
+                    p_customer_id: customer?.remoteId ?? null,
+                    p_amount_paid: amountPaid,
+                    p_prescription_id: prescription?.remoteId ?? null,
+                    p_controlled_dispensing: controlledDispensing ?? null,
+                    p_tenders: tenders,
+                    p_change_due: changeDue,
+                    p_shift_id: currentShift?.remoteId ?? null,
                 };
                 
                 if (rpcPayload.p_items.some(item => !item.drug_id)) {
                     showNotification('برخی داروها هنوز با سرور همگام‌سازی نشده‌اند. لطفاً لحظه‌ای صبر کرده و دوباره تلاش کنید.', 'error');
                     return;
                 }
+                if (customer && !customer.remoteId) {
+                    showNotification('مشتری انتخاب شده هنوز با سرور همگام‌سازی نشده است. لطفاً لحظه‌ای صبر کرده و دوباره تلاش کنید.', 'error');
+                    return;
+                }
+                if (insurer && !insurer.remoteId) {
+                    showNotification('بیمه انتخاب شده هنوز با سرور همگام‌سازی نشده است. لطفاً لحظه‌ای صبر کرده و دوباره تلاش کنید.', 'error');
+                    return;
+                }
+                if (prescription && !prescription.remoteId) {
+                    showNotification('نسخه انتخاب شده هنوز با سرور همگام‌سازی نشده است. لطفاً لحظه‌ای صبر کرده و دوباره تلاش کنید.', 'error');
+                    return;
+                }
 
-                const { data, error } = await supabase.rpc('create_sale_invoice_transaction', { p_payload: rpcPayload });
+                markOwnStockWrite(saleItems.map(item => item.drugId));
+                const { data, error } = await backend.rpc('create_sale_invoice_transaction', { p_payload: rpcPayload });
 
                 if (error) throw error;
                 
@@ -166,16 +480,38 @@ const Sales: React.FC = () => {
                     const newInvoiceForPrint: SaleInvoice = {
                         remoteId: data.new_invoice_id,
                         date: rpcPayload.p_date,
-                        items: cart.map(c => ({ ...c, deductions: [] })),
+                        items: saleItems.map(c => ({ ...c, deductions: [] })),
                         totalAmount: totalAmount,
+                        discount: invoiceDiscount || undefined,
+                        discountApprovedBy,
+                        customerId: customer?.id,
+                        amountPaid,
+                        prescriptionId: prescription?.id,
+                        controlledDispensing,
+                        tenders,
+                        changeDue,
+                        shiftId: currentShift?.id,
+                        ...insuranceFields,
                     };
                     
                     // Add a minimal version to Dexie for "Recent Invoices" list.
                     // The real-time subscription will update the stock levels automatically.
                     await db.saleInvoices.add(newInvoiceForPrint);
+                    if (discountApprovedBy) {
+                        await logActivity('CREATE', 'SaleInvoice', data.new_invoice_id, { discountApprovedBy, discountPercent: cartDiscountPercent, maxDiscountPercent });
+                    }
+                    if (customer && unpaidAmount > 0) {
+                        await db.customers.where('id').equals(customer.id!).modify(c => {
+                            c.totalDebt += unpaidAmount;
+                        });
+                    }
+                    if (prescription) {
+                        const current = await db.prescriptions.get(prescription.id!);
+                        if (current) await db.prescriptions.update(current.id!, applyPrescriptionFill(current, cart));
+                    }
 
                     setInvoiceToPrint(newInvoiceForPrint);
-                    setCart([]);
+                    resetCart();
                     showNotification(data.message, 'success');
                 } else {
                     throw new Error(data.message);
@@ -188,15 +524,16 @@ const Sales: React.FC = () => {
         } else {
             console.log("[Checkout] Offline mode. Using local DB transaction.");
             try {
-                const newInvoiceId = await db.transaction('rw', db.saleInvoices, db.drugs, db.drugBatches, db.syncQueue, async () => {
+                const newInvoiceId = await db.transaction('rw', [db.saleInvoices, db.drugs, db.drugBatches, db.customers, db.prescriptions, db.shifts, db.insurers, db.syncQueue], async () => {
                     const itemsWithDeductions: SaleItem[] = [];
-                    for (const item of cart) {
+                    for (const item of saleItems) {
                         let quantityToDeduct = item.quantity;
                         const itemDeductions: { batchId: number; quantity: number }[] = [];
 
+                        // Expired batches wait for quarantine on the server and are never sold.
                         const batches = await db.drugBatches
                             .where('drugId').equals(item.drugId)
-                            .and(batch => batch.quantityInStock > 0)
+                            .and(batch => batch.quantityInStock > 0 && !isExpired(batch.expiryDate))
                             .sortBy('expiryDate');
 
                         for (const batch of batches) {
@@ -225,24 +562,41 @@ const Sales: React.FC = () => {
                         date: new Date().toISOString(),
                         items: itemsWithDeductions,
                         totalAmount: totalAmount,
+                        discount: invoiceDiscount || undefined,
+                        discountApprovedBy,
+                        customerId: customer?.id,
+                        amountPaid,
+                        prescriptionId: prescription?.id,
+                        controlledDispensing,
+                        tenders,
+                        changeDue,
+                        shiftId: currentShift?.id,
+                        ...insuranceFields,
                     };
                     
                     const createdInvoiceId = await db.saleInvoices.add(invoice as SaleInvoice);
+                    if (customer && unpaidAmount > 0) {
+                        await db.customers.where('id').equals(customer.id!).modify(c => {
+                            c.totalDebt += unpaidAmount;
+                        });
+                    }
+                    // The server records the fill itself when the invoice is synced; this keeps the local copy in step.
+                    if (prescription) {
+                        const current = await db.prescriptions.get(prescription.id!);
+                        if (current) await db.prescriptions.update(current.id!, applyPrescriptionFill(current, cart));
+                    }
 
-                    await db.syncQueue.add({
-                        table: 'saleInvoices',
-                        action: 'create',
-                        recordId: createdInvoiceId,
-                        payload: {},
-                        timestamp: Date.now(),
-                    });
+                    await enqueueSyncItem('saleInvoices', 'create', createdInvoiceId);
 
                     return createdInvoiceId;
                 });
 
                 const finalInvoice = await db.saleInvoices.get(newInvoiceId);
+                if (discountApprovedBy) {
+                    await logActivity('CREATE', 'SaleInvoice', newInvoiceId, { discountApprovedBy, discountPercent: cartDiscountPercent, maxDiscountPercent });
+                }
                 setInvoiceToPrint(finalInvoice!);
-                setCart([]);
+                resetCart();
                 showNotification('فاکتور با موفقیت ثبت و در صف همگام‌سازی قرار گرفت.', 'success');
                 
                 // Immediately attempt to process queue, just in case connection comes back
@@ -350,7 +704,10 @@ const Sales: React.FC = () => {
                         {recentInvoices?.map(inv => (
                             <div key={inv.id} className="p-3 bg-gray-700/60 rounded-lg flex justify-between items-center">
                                 <div>
-                                    <p className="font-semibold text-white">فاکتور #{inv.remoteId || inv.id}</p>
+                                    <p className="font-semibold text-white">
+                                        فاکتور #{inv.remoteId || inv.id}
+                                        {invoiceIdsWithReturns?.has(inv.id!) && <span className="mr-2 text-xs px-2 py-0.5 rounded-full bg-red-500/20 text-red-300">دارای مرجوعی</span>}
+                                    </p>
                                     <p className="text-sm text-gray-400">{new Date(inv.date).toLocaleString('fa-IR')} - ${inv.totalAmount.toFixed(2)}</p>
                                 </div>
                                 <div className="flex items-center gap-2">
@@ -358,11 +715,17 @@ const Sales: React.FC = () => {
                                         <Printer size={14} />
                                         <span>چاپ</span>
                                     </button>
+                                    {hasPermission('sales:returns:create') && (
+                                        <button onClick={() => setReturningInvoice(inv)} className="flex items-center gap-2 text-sm px-3 py-1.5 bg-red-600 text-white rounded-md hover:bg-red-700">
+                                            <Undo2 size={14} />
+                                            <span>مرجوعی</span>
+                                        </button>
+                                    )}
                                     {hasPermission('sales:edit') && (
                                         <button 
                                             onClick={() => handleOpenEditModal(inv)} 
-                                            disabled={!isOnline}
-                                            title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : "ویرایش"}
+                                            disabled={!isOnline || invoiceIdsWithReturns?.has(inv.id!) || !!inv.insurerId}
+                                            title={!isOnline ? "این عملیات در حالت آفلاین در دسترس نیست" : invoiceIdsWithReturns?.has(inv.id!) ? "فاکتور دارای مرجوعی قابل ویرایش نیست؛ از مرجوعی استفاده کنید" : inv.insurerId ? "فاکتور بیمه‌ای قابل ویرایش نیست؛ از مرجوعی استفاده کنید" : "ویرایش"}
                                             className="flex items-center gap-2 text-sm px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-not-allowed">
                                             <Edit size={14} />
                                             <span>ویرایش</span>
@@ -380,9 +743,48 @@ const Sales: React.FC = () => {
 
             {/* Cart */}
             <div className="bg-gray-800 p-6 rounded-lg border border-gray-700 flex flex-col">
+                <div className="flex items-center gap-1 mb-3 overflow-x-auto">
+                    {tabs.map(tab => (
+                        <div
+                            key={tab.key}
+                            onClick={() => switchTab(tab.key)}
+                            onDoubleClick={() => renameTab(tab.key)}
+                            title="برای تغییر نام دوبار کلیک کنید"
+                            className={`flex items-center gap-2 px-3 py-1 rounded-lg text-sm whitespace-nowrap cursor-pointer transition-colors ${tab.key === activeTabKey ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        >
+                            <span>{tab.name}</span>
+                            {tab.key !== activeTabKey && !!tab.draft?.items.length && <span className="text-xs">({tab.draft.items.length})</span>}
+                            <button onClick={e => { e.stopPropagation(); closeTab(tab.key); }} className="hover:text-red-300"><X size={12} /></button>
+                        </div>
+                    ))}
+                    <button onClick={() => openTab()} title="سبد جدید" className="p-1.5 rounded-lg bg-gray-700 text-gray-300 hover:bg-gray-600"><Plus size={14} /></button>
+                </div>
                 <div className="flex justify-between items-center mb-4 border-b border-gray-600 pb-3">
                     <h3 className="text-xl font-bold text-white">سبد خرید</h3>
                     <div className="flex items-center gap-2">
+                        <button
+                            onClick={holdCart}
+                            disabled={cart.length === 0}
+                            title="نگه داشتن سبد"
+                            className="p-2 rounded-full bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            <PauseCircle size={20} />
+                        </button>
+                        <button
+                            onClick={() => setIsHeldCartsOpen(true)}
+                            title="سبدهای نگه‌داشته‌شده"
+                            className="relative p-2 rounded-full bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors"
+                        >
+                            <Inbox size={20} />
+                            {!!heldCartsCount && <span className="absolute -top-1 -left-1 bg-yellow-500 text-black text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center">{heldCartsCount}</span>}
+                        </button>
+                        <button
+                            onClick={() => setIsPrescriptionsOpen(true)}
+                            title="نسخه‌ها"
+                            className="p-2 rounded-full bg-gray-600 text-gray-300 hover:bg-gray-500 transition-colors"
+                        >
+                            <ClipboardList size={20} />
+                        </button>
                          <button 
                             onClick={() => setIsScanModeActive(prev => !prev)}
                             title={isScanModeActive ? 'غیرفعال کردن حالت اسکن' : 'فعال کردن حالت اسکن برای فروش'}
@@ -393,42 +795,169 @@ const Sales: React.FC = () => {
                         <VoiceControlHeader {...voiceControls} />
                     </div>
                 </div>
+                {prescription && (
+                    <div className="flex items-start justify-between gap-2 mb-3 p-2 bg-purple-900/30 border border-purple-700 rounded-lg text-sm">
+                        <div>
+                            <p className="font-semibold text-white">نسخه #{prescription.remoteId || prescription.id}: {prescription.patientName}</p>
+                            <p className="text-xs text-gray-400">دکتر {prescription.prescriberName} | تکرار باقی‌مانده: {remainingRefills(prescription)}</p>
+                        </div>
+                        <button onClick={() => setPrescription(null)} className="text-gray-400 hover:text-white" title="جدا کردن نسخه از فاکتور"><X size={16} /></button>
+                    </div>
+                )}
                 <div className="flex-grow space-y-3 overflow-y-auto pr-2 -mr-2">
                     {cart.length === 0 && <p className="text-gray-500 text-center mt-8">سبد خرید خالی است.</p>}
-                    {cart.map(item => (
-                        <div key={item.drugId} className="p-3 bg-gray-700/60 rounded-lg flex items-center justify-between">
-                             <div>
-                                <p className="font-semibold text-white text-sm">{item.name}</p>
-                                <p className="text-xs text-gray-400">${item.unitPrice.toFixed(2)} x {item.quantity}</p>
-                            </div>
-                            <div className="flex items-center gap-3">
-                                <div className="flex items-center gap-2 bg-gray-800 rounded-full p-1">
-                                    <button onClick={() => updateQuantity(item.drugId, item.quantity + 1)} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-600"><Plus size={14} /></button>
-                                    <span className="w-5 text-center text-sm">{item.quantity}</span>
-                                    <button onClick={() => updateQuantity(item.drugId, item.quantity - 1)} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-600"><Minus size={14} /></button>
+                    {cart.map(item => {
+                        const currentStock = drugs?.find(d => d.id === item.drugId)?.totalStock ?? 0;
+                        return (
+                            <div key={item.drugId} className="p-3 bg-gray-700/60 rounded-lg space-y-2">
+                                {remotelyChangedDrugIds.has(item.drugId) && (
+                                    <div className={`flex items-center justify-between gap-2 text-xs p-2 rounded-md ${currentStock < item.quantity ? 'bg-red-500/20 text-red-300' : 'bg-yellow-500/10 text-yellow-300'}`}>
+                                        <span className="flex items-center gap-1">
+                                            <AlertTriangle size={14} />
+                                            موجودی توسط ترمینال دیگری تغییر کرد (موجودی فعلی: {currentStock})
+                                        </span>
+                                        <button onClick={() => dismissStockNotice(item.drugId)} className="hover:text-white"><X size={12} /></button>
+                                    </div>
+                                )}
+                                <div className="flex items-center justify-between">
+                                     <div>
+                                        <p className="font-semibold text-white text-sm">{item.name}</p>
+                                        <p className="text-xs text-gray-400">
+                                            {item.listPrice !== undefined && <span className="line-through ml-1">${item.listPrice.toFixed(2)}</span>}
+                                            ${item.unitPrice.toFixed(2)} x {item.quantity}
+                                        </p>
+                                        {item.discount ? <p className="text-xs text-green-400">تخفیف: ${item.discount.toFixed(2)} | مبلغ: ${item.totalPrice.toFixed(2)}</p> : null}
+                                        {item.directions && <p className="text-xs text-purple-300">{item.directions}</p>}
+                                    </div>
+                                    <div className="flex items-center gap-3">
+                                        <div className="flex items-center gap-2 bg-gray-800 rounded-full p-1">
+                                            <button onClick={() => updateQuantity(item.drugId, item.quantity + 1)} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-600"><Plus size={14} /></button>
+                                            <span className="w-5 text-center text-sm">{item.quantity}</span>
+                                            <button onClick={() => updateQuantity(item.drugId, item.quantity - 1)} className="w-6 h-6 flex items-center justify-center rounded-full hover:bg-gray-600"><Minus size={14} /></button>
+                                        </div>
+                                        {hasPermission('sales:discount') && (
+                                            <button onClick={() => setPricingItem(item)} title="تخفیف و تغییر قیمت" className="text-green-400 hover:text-green-300"><Percent size={16} /></button>
+                                        )}
+                                        <button onClick={() => removeFromCart(item.drugId)} className="text-red-400 hover:text-red-300"><X size={16} /></button>
+                                    </div>
                                 </div>
-                                <button onClick={() => removeFromCart(item.drugId)} className="text-red-400 hover:text-red-300"><X size={16} /></button>
                             </div>
-                        </div>
-                    ))}
+                        );
+                    })}
                 </div>
-                <div className="border-t border-gray-600 pt-4 mt-4">
-                    <div className="flex justify-between items-center text-lg font-bold text-white mb-4">
+                <div className="border-t border-gray-600 pt-4 mt-4 space-y-3">
+                    <CustomerPicker customerId={customer?.id} onChange={setCustomer} />
+                    {hasPermission('sales:discount') && cart.length > 0 && (
+                        <div className="flex items-center justify-between gap-2 text-sm text-gray-300">
+                            <span>تخفیف فاکتور:</span>
+                            <div className="flex items-center gap-2">
+                                <select value={invoiceDiscountInput.kind} onChange={e => setInvoiceDiscountInput({ ...invoiceDiscountInput, kind: e.target.value as DiscountKind })} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-white">
+                                    <option value="percent">درصد</option>
+                                    <option value="fixed">مبلغ</option>
+                                </select>
+                                <input type="number" min={0} step="0.01" value={invoiceDiscountInput.value || ''} onChange={e => setInvoiceDiscountInput({ ...invoiceDiscountInput, value: Math.max(Number(e.target.value) || 0, 0) })} placeholder="0" className="w-20 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1 text-white text-left focus:outline-none focus:border-blue-500" />
+                            </div>
+                        </div>
+                    )}
+                    {invoiceDiscount > 0 && (
+                        <div className="flex justify-between items-center text-sm text-gray-400">
+                            <span>جمع اقلام / تخفیف فاکتور:</span>
+                            <span>${linesTotal.toFixed(2)} / -${invoiceDiscount.toFixed(2)}</span>
+                        </div>
+                    )}
+                    {isOverDiscountLimit && (
+                        <p className={`text-xs ${needsDiscountApproval ? 'text-yellow-400' : 'text-green-400'}`}>
+                            تخفیف {cartDiscountPercent.toFixed(1)}٪ از سقف {maxDiscountPercent}٪ بیشتر است{discountApproval && !needsDiscountApproval ? ` (تایید شده توسط ${discountApproval.username})` : needsDiscountApproval ? ' و هنگام پرداخت به تایید مدیر نیاز دارد.' : ''}
+                        </p>
+                    )}
+                    {!!insurers?.length && (
+                        <div className="flex items-center gap-2 text-sm">
+                            <select
+                                value={insurer?.id ?? ''}
+                                onChange={e => setInsurer(insurers.find(i => i.id === Number(e.target.value)) ?? null)}
+                                className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-white"
+                            >
+                                <option value="">بدون بیمه</option>
+                                {insurers.map(i => <option key={i.id} value={i.id}>{i.name}</option>)}
+                            </select>
+                            {insurer && (
+                                <input type="text" value={insuranceMemberId} onChange={e => setInsuranceMemberId(e.target.value)} placeholder="شماره بیمه بیمار" className="flex-1 bg-gray-700 border border-gray-600 rounded-lg px-2 py-1.5 text-white focus:outline-none focus:border-blue-500" />
+                            )}
+                        </div>
+                    )}
+                    <div className="flex justify-between items-center text-lg font-bold text-white">
                         <span>مجموع:</span>
                         <span>${totalAmount.toFixed(2)}</span>
                     </div>
+                    {insurer && (
+                        <div className="flex justify-between items-center text-sm text-gray-300">
+                            <span>سهم بیمه / سهم بیمار:</span>
+                            <span>${insurerShare.toFixed(2)} / ${(totalAmount - insurerShare).toFixed(2)}</span>
+                        </div>
+                    )}
                     <button
-                        onClick={handleCheckout}
+                        onClick={() => handleCheckout()}
                         disabled={cart.length === 0 || !hasPermission('sales:create')}
                         title={!hasPermission('sales:create') ? "شما دسترسی لازم برای ثبت فاکتور را ندارید." : ""}
                         className="w-full py-3 bg-green-600 text-white font-bold rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition-colors">
-                        ثبت فاکتور
+                        پرداخت و ثبت فاکتور
                     </button>
                 </div>
             </div>
+            {isHeldCartsOpen && (
+                <HeldCartsModal onClose={() => setIsHeldCartsOpen(false)} onResume={resumeHeldCart} />
+            )}
+            {isPrescriptionsOpen && (
+                <PrescriptionsModal onClose={() => setIsPrescriptionsOpen(false)} onDispense={loadPrescription} />
+            )}
+            {isDispensingPromptOpen && (
+                <ControlledDispensingModal
+                    drugNames={controlledCartItems.map(item => item.name)}
+                    initial={{
+                        patientName: prescription?.patientName || customer?.name || '',
+                        patientIdNumber: customer?.nationalId || '',
+                        prescriptionNumber: prescription ? String(prescription.remoteId || prescription.id) : '',
+                    }}
+                    onClose={() => setIsDispensingPromptOpen(false)}
+                    onConfirm={details => handleCheckout(details)}
+                />
+            )}
+            {pricingItem && (
+                <LinePricingModal
+                    item={pricingItem}
+                    catalogPrice={drugs?.find(d => d.id === pricingItem.drugId)?.salePrice ?? pricingItem.unitPrice}
+                    discount={lineDiscounts[pricingItem.drugId]}
+                    onClose={() => setPricingItem(null)}
+                    onConfirm={(unitPrice, discount) => applyLinePricing(pricingItem.drugId, unitPrice, discount)}
+                />
+            )}
+            {isApprovalOpen && (
+                <DiscountApprovalModal
+                    discountPercent={cartDiscountPercent}
+                    maxPercent={maxDiscountPercent}
+                    onClose={() => setIsApprovalOpen(false)}
+                    onApproved={username => {
+                        setDiscountApproval({ username, percent: cartDiscountPercent });
+                        setIsApprovalOpen(false);
+                        setIsPaymentOpen(true);
+                    }}
+                />
+            )}
+            {isPaymentOpen && (
+                <PaymentModal
+                    totalAmount={totalAmount}
+                    insurerShare={insurerShare}
+                    customer={customer}
+                    onClose={() => setIsPaymentOpen(false)}
+                    onConfirm={settlement => handleCheckout(pendingDispensing, settlement)}
+                />
+            )}
             {invoiceToPrint && (
                 <InvoiceModal invoice={invoiceToPrint} onClose={() => setInvoiceToPrint(null)} />
             )}
+            {returningInvoice && (
+                <SaleReturnModal invoice={returningInvoice} onClose={() => setReturningInvoice(null)} />
+            )}
             {editingInvoice && (
                 <EditInvoiceModal 
                     invoice={editingInvoice} 
@@ -448,6 +977,104 @@ const Sales: React.FC = () => {
     );
 };
 
+const ControlledDispensingModal: React.FC<{
+    drugNames: string[];
+    initial: ControlledDispensing;
+    onClose: () => void;
+    onConfirm: (details: ControlledDispensing) => void;
+}> = ({ drugNames, initial, onClose, onConfirm }) => {
+    const [details, setDetails] = useState(initial);
+    const isComplete = [details.patientName, details.patientIdNumber, details.prescriptionNumber].every(value => value.trim() !== '');
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!isComplete) return;
+        onConfirm({
+            patientName: details.patientName.trim(),
+            patientIdNumber: details.patientIdNumber.trim(),
+            prescriptionNumber: details.prescriptionNumber.trim(),
+        });
+    };
+
+    return (
+        <Modal title="مشخصات تحویل داروی کنترل‌شده" onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="flex items-start gap-3 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-200">
+                    <ShieldAlert size={20} className="flex-shrink-0 mt-0.5" />
+                    <p>این فاکتور شامل داروهای کنترل‌شده است ({drugNames.join('، ')}). برای ثبت در دفتر داروهای کنترل‌شده، تکمیل مشخصات زیر الزامی است.</p>
+                </div>
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">نام بیمار</label>
+                    <input type="text" value={details.patientName} onChange={e => setDetails({ ...details, patientName: e.target.value })} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required autoFocus />
+                </div>
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">کد ملی / تذکره</label>
+                    <input type="text" value={details.patientIdNumber} onChange={e => setDetails({ ...details, patientIdNumber: e.target.value })} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required />
+                </div>
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">شماره نسخه</label>
+                    <input type="text" value={details.prescriptionNumber} onChange={e => setDetails({ ...details, prescriptionNumber: e.target.value })} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required />
+                </div>
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                    <button type="submit" disabled={!isComplete} className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-500 disabled:cursor-not-allowed">ادامه به پرداخت</button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
+const LinePricingModal: React.FC<{
+    item: Omit<SaleItem, 'deductions'>;
+    catalogPrice: number;
+    discount?: DiscountInput;
+    onClose: () => void;
+    onConfirm: (unitPrice: number, discount?: DiscountInput) => void;
+}> = ({ item, catalogPrice, discount, onClose, onConfirm }) => {
+    const [unitPrice, setUnitPrice] = useState<number | ''>(item.unitPrice);
+    const [kind, setKind] = useState<DiscountKind>(discount?.kind ?? 'percent');
+    const [value, setValue] = useState<number | ''>(discount?.value ?? '');
+
+    const price = Number(unitPrice) || 0;
+    const preview = priceLine({ ...item, unitPrice: price }, { kind, value: Number(value) || 0 });
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (unitPrice === '' || price < 0) return;
+        onConfirm(price, Number(value) > 0 ? { kind, value: Number(value) } : undefined);
+    };
+
+    return (
+        <Modal title={`تخفیف و قیمت: ${item.name}`} onClose={onClose}>
+            <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">قیمت واحد (قیمت فهرست: ${catalogPrice.toFixed(2)})</label>
+                    <input type="number" min={0} step="0.01" value={unitPrice} onChange={e => setUnitPrice(e.target.value === '' ? '' : Number(e.target.value))} className="w-full bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" required autoFocus />
+                </div>
+                <div>
+                    <label className="block text-sm text-gray-400 mb-1">تخفیف ردیف</label>
+                    <div className="flex gap-2">
+                        <select value={kind} onChange={e => setKind(e.target.value as DiscountKind)} className="bg-gray-700 border border-gray-600 rounded-lg px-2 py-2 text-white">
+                            <option value="percent">درصد</option>
+                            <option value="fixed">مبلغ</option>
+                        </select>
+                        <input type="number" min={0} step="0.01" value={value} onChange={e => setValue(e.target.value === '' ? '' : Math.max(Number(e.target.value), 0))} placeholder="0" className="flex-grow bg-gray-700 border border-gray-600 rounded-lg px-3 py-2 text-white focus:outline-none focus:border-blue-500" />
+                    </div>
+                </div>
+                <div className="p-3 bg-gray-700/60 rounded-lg text-sm space-y-1 text-gray-300">
+                    <p className="flex justify-between"><span>مبلغ ناخالص ({item.quantity} عدد):</span><span>${(price * item.quantity).toFixed(2)}</span></p>
+                    <p className="flex justify-between"><span>تخفیف:</span><span>${(preview.discount || 0).toFixed(2)}</span></p>
+                    <p className="flex justify-between font-bold text-white"><span>مبلغ ردیف:</span><span>${preview.totalPrice.toFixed(2)}</span></p>
+                </div>
+                <div className="flex justify-end gap-3 pt-4 border-t border-gray-700">
+                    <button type="button" onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">لغو</button>
+                    <button type="submit" className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700">اعمال</button>
+                </div>
+            </form>
+        </Modal>
+    );
+};
+
 const InvoiceModal: React.FC<{invoice: SaleInvoice, onClose: () => void}> = ({invoice, onClose}) => {
     const handlePrint = () => {
         // This is a browser-native function to open the print dialog
@@ -490,16 +1117,20 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
             return;
         }
 
+        // A fixed line discount is kept as it was given, but never more than the line itself.
         setItems(items.map(item =>
             item.drugId === drugId
-                ? { ...item, quantity: newQuantity, totalPrice: item.unitPrice * newQuantity }
+                ? priceLine({ ...item, quantity: newQuantity })
                 : item
         ));
     };
     
     const removeItem = (drugId: number) => setItems(items.filter(item => item.drugId !== drugId));
 
-    const totalAmount = useMemo(() => items.reduce((sum, item) => sum + item.totalPrice, 0), [items]);
+    // The invoice discount stays as given, capped at the new lines total.
+    const linesTotal = useMemo(() => items.reduce((sum, item) => sum + item.totalPrice, 0), [items]);
+    const invoiceDiscount = Math.min(invoice.discount || 0, linesTotal);
+    const totalAmount = Math.round((linesTotal - invoiceDiscount) * 100) / 100;
 
     const handleUpdate = async () => {
         if (!isOnline || !invoice.remoteId) {
@@ -520,6 +1151,8 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
                     name: item.name,
                     quantity: item.quantity,
                     unit_price: item.unitPrice,
+                    list_price: item.listPrice ?? null,
+                    discount: item.discount ?? 0,
                     total_price: item.totalPrice,
                 });
             }
@@ -527,9 +1160,11 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
             const rpcPayload = {
                 p_invoice_id: invoice.remoteId,
                 p_new_items: newItemsPayload,
+                p_discount: invoiceDiscount,
             };
 
-            const { data, error } = await supabase.rpc('update_sale_invoice_transaction', rpcPayload);
+            markOwnStockWrite([...invoice.items, ...items].map(item => item.drugId));
+            const { data, error } = await backend.rpc('update_sale_invoice_transaction', rpcPayload);
 
             if (error) throw error;
             // The function returns a TABLE, so data is an array.
@@ -538,7 +1173,7 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
             }
 
             // On successful RPC, update local DB transactionally for instant UI feedback
-            await db.transaction('rw', db.saleInvoices, db.drugs, async () => {
+            await db.transaction('rw', [db.saleInvoices, db.drugs, db.customers], async () => {
                 const stockChanges = new Map<number, number>();
                 
                 // Calculate stock changes: + for old items, - for new items
@@ -560,10 +1195,23 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
                 await db.saleInvoices.update(invoice.id!, {
                     items: items,
                     totalAmount: totalAmount,
+                    discount: invoiceDiscount || undefined,
+                    tenders: rebalanceTenders(invoice, totalAmount),
                 });
+
+                // The amount paid at the counter stays the same, so any change in the total moves the customer's debt.
+                if (invoice.customerId) {
+                    const unpaid = (total: number) => Math.max(total - (invoice.amountPaid ?? total), 0);
+                    const debtChange = unpaid(totalAmount) - unpaid(invoice.totalAmount);
+                    if (debtChange !== 0) {
+                        await db.customers.where('id').equals(invoice.customerId).modify(c => {
+                            c.totalDebt += debtChange;
+                        });
+                    }
+                }
             });
 
-            await logActivity('UPDATE', 'SaleInvoice', invoice.remoteId, { old: invoice, new: { ...invoice, items, totalAmount } });
+            await logActivity('UPDATE', 'SaleInvoice', invoice.remoteId, { old: invoice, new: { ...invoice, items, totalAmount, discount: invoiceDiscount || undefined } });
             showNotification(data[0].message, 'success');
             onSave();
         } catch (error: any) {
@@ -583,7 +1231,7 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
                         <div key={item.drugId} className="p-3 bg-gray-700/60 rounded-lg flex items-center justify-between">
                             <div>
                                 <p className="font-semibold text-white text-sm">{item.name}</p>
-                                <p className="text-xs text-gray-400">${item.unitPrice.toFixed(2)} x {item.quantity}</p>
+                                <p className="text-xs text-gray-400">${item.unitPrice.toFixed(2)} x {item.quantity}{item.discount ? ` - $${item.discount.toFixed(2)}` : ''}</p>
                             </div>
                             <div className="flex items-center gap-3">
                                 <div className="flex items-center gap-2 bg-gray-800 rounded-full p-1">
@@ -598,7 +1246,7 @@ const EditInvoiceModal: React.FC<{ invoice: SaleInvoice; onClose: () => void; on
                 </div>
                  <div className="border-t border-gray-600 pt-4 mt-4">
                     <div className="flex justify-between items-center text-lg font-bold text-white mb-4">
-                        <span>مجموع جدید:</span>
+                        <span>مجموع جدید{invoiceDiscount > 0 ? ` (پس از تخفیف $${invoiceDiscount.toFixed(2)})` : ''}:</span>
                         <span>${totalAmount.toFixed(2)}</span>
                     </div>
                      <div className="flex justify-end gap-3">
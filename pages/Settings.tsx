@@ -1,14 +1,17 @@
 import React, { useState, useMemo, FormEvent, useCallback, useRef, useEffect } from 'react';
 import { useLiveQuery } from 'dexie-react-hooks';
 import { db } from '../db';
-import { User, Role, Permission, PERMISSIONS, Supplier, SupplierAccount, ExpiryThreshold, AppSetting } from '../types';
+import { User, Role, Permission, PERMISSIONS, Supplier, SupplierAccount, ExpiryThreshold, AppSetting, AutoBackupSettings, AutoBackupDestination, BackupSnapshot } from '../types';
 import Modal from '../components/Modal';
-import { Plus, Edit, Trash2, Users, Shield, BookHeart, DatabaseBackup, UploadCloud, AlertTriangle, Bell, Save, Store, Image, Trash } from 'lucide-react';
+import { Plus, Edit, Trash2, Users, Shield, BookHeart, DatabaseBackup, UploadCloud, AlertTriangle, Bell, Save, Store, Image, Trash, Download } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useNotification } from '../contexts/NotificationContext';
 import { logActivity } from '../lib/activityLogger';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import { useOnlineStatus } from '../hooks/useOnlineStatus';
+import { DEFAULT_AUTO_BACKUP_SETTINGS, SNAPSHOT_TRIGGER_LABELS, takeSnapshot, readSnapshot, deleteSnapshot, chooseBackupFolder, getBackupFolderName, isFolderBackupSupported } from '../lib/autoBackup';
+import { createBackup, parseBackupFile, previewRestore, restoreBackup, BackupFile, TableRestorePreview, RestoreReport } from '../lib/backupRestore';
+import { DEFAULT_MAX_DISCOUNT_PERCENT } from '../lib/discounts';
 
 const TabButton: React.FC<{ active: boolean; onClick: () => void; icon: React.ReactNode; text: string }> = ({ active, onClick, icon, text }) => (
     <button
@@ -80,6 +83,7 @@ const PharmacyProfileManagement: React.FC = () => {
 
     const [pharmacyName, setPharmacyName] = useState('');
     const [pharmacyLogo, setPharmacyLogo] = useState<string | null>(null);
+    const [maxDiscountPercent, setMaxDiscountPercent] = useState<number>(DEFAULT_MAX_DISCOUNT_PERCENT);
     const [isSaving, setIsSaving] = useState(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -90,6 +94,9 @@ const PharmacyProfileManagement: React.FC = () => {
             
             const logoSetting = dbSettings.find(s => s.key === 'pharmacyLogo');
             if (logoSetting) setPharmacyLogo(logoSetting.value as string);
+
+            const discountSetting = dbSettings.find(s => s.key === 'maxDiscountPercent');
+            if (discountSetting) setMaxDiscountPercent(discountSetting.value as number);
         }
     }, [dbSettings]);
 
@@ -113,7 +120,8 @@ const PharmacyProfileManagement: React.FC = () => {
         try {
             const settingsToSave: AppSetting[] = [
                 { key: 'pharmacyName', value: pharmacyName.trim() || 'شفا-یار' },
-                { key: 'pharmacyLogo', value: pharmacyLogo || '' }
+                { key: 'pharmacyLogo', value: pharmacyLogo || '' },
+                { key: 'maxDiscountPercent', value: Math.min(Math.max(maxDiscountPercent, 0), 100) }
             ];
             await db.settings.bulkPut(settingsToSave);
             showNotification('مشخصات داروخانه با موفقیت ذخیره شد.', 'success');
@@ -163,6 +171,25 @@ const PharmacyProfileManagement: React.FC = () => {
                 </div>
             </div>
 
+            <div className="border-t border-gray-700 pt-8">
+                <h3 className="text-xl font-bold text-white mb-2">سقف تخفیف فروش</h3>
+                <p className="text-gray-400 text-sm mb-4">
+                    تخفیف بیشتر از این درصد (شامل تغییر قیمت، تخفیف ردیف و تخفیف فاکتور) فقط با تایید مدیر ثبت می‌شود.
+                </p>
+                <div className="flex items-center gap-3">
+                    <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        step="0.5"
+                        value={maxDiscountPercent}
+                        onChange={(e) => setMaxDiscountPercent(Number(e.target.value) || 0)}
+                        className="input-style w-32"
+                    />
+                    <span className="text-gray-400">درصد</span>
+                </div>
+            </div>
+
             <div className="flex justify-end pt-6 border-t border-gray-700">
                 <button
                     type="submit"
@@ -256,7 +283,7 @@ const AlertManagement: React.FC = () => {
             <div>
                 <h3 className="text-xl font-bold text-white mb-2">هشدار کمبود موجودی</h3>
                 <p className="text-gray-400 text-sm mb-4">
-                    زمانی که موجودی کل یک دارو از عدد مشخص شده کمتر شود، در داشبورد به شما هشدار داده خواهد شد.
+                    زمانی که موجودی کل یک دارو از عدد مشخص شده کمتر شود، در داشبورد به شما هشدار داده خواهد شد. برای داروهایی که حداقل موجودی اختصاصی دارند، همان حداقل ملاک است.
                 </p>
                 <div className="flex items-center gap-4">
                     <label htmlFor="lowStock" className="text-gray-300">آستانه هشدار:</label>
@@ -319,22 +346,14 @@ const BackupRestoreSection: React.FC = () => {
     const [isLoading, setIsLoading] = useState(false);
     const [isRestoring, setIsRestoring] = useState(false);
     const [dragOver, setDragOver] = useState(false);
+    const [restorePlan, setRestorePlan] = useState<{ fileName: string; backup: BackupFile; previews: TableRestorePreview[] } | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const { showNotification } = useNotification();
-    const isOnline = useOnlineStatus();
 
     const handleBackup = async () => {
         setIsLoading(true);
         try {
-            const backupData: { [key: string]: any[] } = {};
-            const tableNames = db.tables.map(table => table.name);
-
-            await Promise.all(tableNames.map(async (name) => {
-                if (name !== 'sync_queue') { // Don't back up the sync queue
-                    const tableData = await db.table(name).toArray();
-                    backupData[name] = tableData;
-                }
-            }));
+            const backupData = await createBackup();
             
             const jsonString = JSON.stringify(backupData, null, 2);
             const blob = new Blob([jsonString], { type: 'application/json' });
@@ -359,46 +378,24 @@ const BackupRestoreSection: React.FC = () => {
         }
     };
     
-    const processRestoreFile = (file: File) => {
+    const processRestoreFile = async (file: File) => {
         if (!file || !file.type.includes('json')) {
             showNotification('لطفاً یک فایل پشتیبان با فرمت JSON انتخاب کنید.', 'error');
             return;
         }
 
-        const confirmation = window.confirm(
-            "*** هشدار بسیار مهم! ***\n\n" +
-            "آیا مطمئن هستید که می‌خواهید اطلاعات را بازیابی کنید؟\n\n" +
-            "این عمل تمام داده‌های فعلی برنامه را به طور کامل پاک کرده و با اطلاعات موجود در فایل پشتیبان جایگزین می‌کند. این عملیات غیرقابل بازگشت است!"
-        );
-
-        if (!confirmation) return;
-        
         setIsRestoring(true);
-        const reader = new FileReader();
-        reader.onload = async (event) => {
-            try {
-                const backupData = JSON.parse(event.target?.result as string);
-                
-                const requiredTables = ['drugs', 'suppliers', 'users', 'roles'];
-                if (!requiredTables.every(table => backupData.hasOwnProperty(table))) {
-                    throw new Error("فایل پشتیبان نامعتبر است یا ساختار صحیحی ندارد.");
-                }
-                
-                // In Online-First, restore is a complex operation.
-                // It would require clearing remote tables and then bulk inserting,
-                // preferably via a dedicated backend function.
-                // This client-side-only restore is now DANGEROUS as it will de-sync local and remote.
-                showNotification('بازیابی در این نسخه پشتیبانی نمی‌شود. این یک عملیات پیچیده سمت سرور است.', 'error');
-                setIsRestoring(false);
-                return;
-
-            } catch (error) {
-                console.error("Restore failed:", error);
-                showNotification(`خطا در بازیابی اطلاعات: ${error}`, 'error');
-                setIsRestoring(false);
-            }
-        };
-        reader.readAsText(file);
+        try {
+            const backup = parseBackupFile(await file.text());
+            const previews = await previewRestore(backup);
+            setRestorePlan({ fileName: file.name, backup, previews });
+        } catch (error: any) {
+            console.error("Reading backup file failed:", error);
+            showNotification(`خطا در خواندن فایل پشتیبان: ${error.message}`, 'error');
+        } finally {
+            setIsRestoring(false);
+            if (fileInputRef.current) fileInputRef.current.value = '';
+        }
     };
 
     const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -446,29 +443,339 @@ const BackupRestoreSection: React.FC = () => {
                     onDrop={handleDrop}
                     onDragOver={(e) => { e.preventDefault(); e.stopPropagation(); setDragOver(true); }}
                     onDragLeave={(e) => { e.preventDefault(); e.stopPropagation(); setDragOver(false); }}
-                    onClick={() => isOnline && fileInputRef.current?.click()}
-                    className={`w-full p-8 border-2 border-dashed rounded-lg transition-colors ${!isOnline ? 'cursor-not-allowed bg-gray-900/50' : (dragOver ? 'border-blue-400 bg-blue-900/20' : 'border-gray-600 hover:border-gray-500 cursor-pointer')}`}
+                    onClick={() => fileInputRef.current?.click()}
+                    className={`w-full p-8 border-2 border-dashed rounded-lg transition-colors cursor-pointer ${dragOver ? 'border-blue-400 bg-blue-900/20' : 'border-gray-600 hover:border-gray-500'}`}
                 >
-                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" disabled={!isOnline}/>
+                    <input type="file" ref={fileInputRef} onChange={handleFileChange} accept=".json" className="hidden" />
                     {isRestoring ? (
-                        <p>در حال بازیابی...</p>
+                        <p>در حال بررسی فایل...</p>
                     ) : (
-                         <p className={!isOnline ? 'text-gray-500' : ''}>
-                            {isOnline ? 'فایل پشتیبان را اینجا بکشید یا برای انتخاب کلیک کنید' : 'بازیابی فقط در حالت آنلاین امکان‌پذیر است'}
-                        </p>
+                        <p>فایل پشتیبان را اینجا بکشید یا برای انتخاب کلیک کنید</p>
                     )}
                 </div>
                  <div className="mt-4 p-3 bg-yellow-900/30 border border-yellow-700 rounded-lg flex items-start gap-3 text-right">
                     <AlertTriangle size={32} className="text-yellow-400 flex-shrink-0 mt-1" />
                     <p className="text-xs text-yellow-300">
-                        <span className="font-bold">هشدار:</span> عمل بازیابی تمام داده‌های فعلی شما را حذف خواهد کرد. این کار غیرقابل بازگشت است.
+                        <span className="font-bold">هشدار:</span> بازیابی، اطلاعات فعلی جداول انتخاب شده را روی سرور و در همه دستگاه‌ها جایگزین می‌کند. پیش از بازیابی واقعی، از اجرای آزمایشی استفاده کنید.
+                    </p>
+                </div>
+            </div>
+            <div className="md:col-span-2">
+                <AutoBackupSection onRestore={setRestorePlan} />
+            </div>
+            {restorePlan && <RestorePreviewModal {...restorePlan} onClose={() => setRestorePlan(null)} />}
+        </div>
+    );
+};
+
+const AutoBackupSection: React.FC<{ onRestore: (plan: { fileName: string; backup: BackupFile; previews: TableRestorePreview[] }) => void }> = ({ onRestore }) => {
+    const { showNotification } = useNotification();
+    const autoBackupSetting = useLiveQuery(() => db.settings.get('autoBackup'));
+    const snapshots = useLiveQuery(() => db.backupSnapshots.orderBy('createdAt').reverse().toArray(), []);
+    const folderName = useLiveQuery(() => getBackupFolderName(), []);
+
+    const [form, setForm] = useState<AutoBackupSettings>(DEFAULT_AUTO_BACKUP_SETTINGS);
+    const [isSaving, setIsSaving] = useState(false);
+    const [isRunning, setIsRunning] = useState(false);
+    const [busySnapshotId, setBusySnapshotId] = useState<number | null>(null);
+
+    useEffect(() => {
+        setForm({ ...DEFAULT_AUTO_BACKUP_SETTINGS, ...(autoBackupSetting?.value as AutoBackupSettings | undefined) });
+    }, [autoBackupSetting]);
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (form.destination === 'folder' && !folderName) {
+            showNotification('ابتدا پوشه ذخیره نسخه‌های پشتیبان را انتخاب کنید.', 'error');
+            return;
+        }
+        setIsSaving(true);
+        try {
+            const newSettings: AutoBackupSettings = { ...form, everySales: Math.max(0, Number(form.everySales) || 0) };
+            await db.settings.put({ key: 'autoBackup', value: newSettings });
+            if (navigator.onLine) {
+                await logActivity('UPDATE', 'Settings', 'autoBackup', { old: autoBackupSetting?.value, new: newSettings });
+            }
+            showNotification('تنظیمات پشتیبان‌گیری خودکار ذخیره شد.', 'success');
+        } catch (error) {
+            console.error("Failed to save auto backup settings:", error);
+            showNotification('خطا در ذخیره تنظیمات.', 'error');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleChooseFolder = async () => {
+        try {
+            const name = await chooseBackupFolder();
+            showNotification(`پوشه «${name}» برای نسخه‌های پشتیبان انتخاب شد.`, 'success');
+        } catch (error: any) {
+            if (error.name !== 'AbortError') {
+                console.error("Choosing backup folder failed:", error);
+                showNotification('خطا در انتخاب پوشه.', 'error');
+            }
+        }
+    };
+
+    const handleSnapshotNow = async () => {
+        setIsRunning(true);
+        try {
+            await takeSnapshot('manual');
+            showNotification('نسخه پشتیبان با موفقیت ایجاد شد.', 'success');
+        } catch (error: any) {
+            console.error("Snapshot failed:", error);
+            showNotification(`خطا در ایجاد نسخه پشتیبان: ${error.message}`, 'error');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    const handleDownload = async (snapshot: BackupSnapshot) => {
+        setBusySnapshotId(snapshot.id!);
+        try {
+            const blob = new Blob([await readSnapshot(snapshot)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const a = document.createElement('a');
+            a.href = url;
+            a.download = snapshot.fileName.replace(/\.gz$/, '');
+            document.body.appendChild(a);
+            a.click();
+            document.body.removeChild(a);
+            URL.revokeObjectURL(url);
+        } catch (error: any) {
+            showNotification(`خطا در خواندن نسخه پشتیبان: ${error.message}`, 'error');
+        } finally {
+            setBusySnapshotId(null);
+        }
+    };
+
+    const handleRestore = async (snapshot: BackupSnapshot) => {
+        setBusySnapshotId(snapshot.id!);
+        try {
+            const backup = parseBackupFile(await readSnapshot(snapshot));
+            onRestore({ fileName: snapshot.fileName, backup, previews: await previewRestore(backup) });
+        } catch (error: any) {
+            showNotification(`خطا در خواندن نسخه پشتیبان: ${error.message}`, 'error');
+        } finally {
+            setBusySnapshotId(null);
+        }
+    };
+
+    const handleDelete = async (snapshot: BackupSnapshot) => {
+        if (!window.confirm(`آیا از حذف نسخه پشتیبان «${snapshot.fileName}» اطمینان دارید؟`)) return;
+        await deleteSnapshot(snapshot);
+        showNotification('نسخه پشتیبان حذف شد.', 'success');
+    };
+
+    return (
+        <div className="bg-gray-800 rounded-lg p-6 border border-gray-700 space-y-6">
+            <div className="flex flex-wrap justify-between items-center gap-4">
+                <div>
+                    <h3 className="text-xl font-bold text-white mb-1">پشتیبان‌گیری خودکار</h3>
+                    <p className="text-gray-400 text-sm">
+                        نسخه‌های فشرده از تمام اطلاعات این دستگاه طبق زمان‌بندی گرفته می‌شوند. آخرین نسخه هر یک از ۷ روز اخیر و هر یک از ۴ هفته اخیر نگه داشته می‌شود.
                     </p>
                 </div>
+                <button onClick={handleSnapshotNow} disabled={isRunning} className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-500 disabled:cursor-wait">
+                    <DatabaseBackup size={18} />
+                    {isRunning ? 'در حال ایجاد...' : 'ایجاد نسخه اکنون'}
+                </button>
+            </div>
+
+            <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                <label className="flex items-center gap-2 md:col-span-2 cursor-pointer">
+                    <input type="checkbox" checked={form.enabled} onChange={e => setForm({ ...form, enabled: e.target.checked })} />
+                    <span className="text-gray-300">پشتیبان‌گیری خودکار فعال باشد</span>
+                </label>
+                <div>
+                    <label className="block text-gray-400 mb-1">ساعت بستن داروخانه (نسخه روزانه)</label>
+                    <input type="time" value={form.closingTime} onChange={e => setForm({ ...form, closingTime: e.target.value })} className="input-style w-full" />
+                    <p className="text-xs text-gray-500 mt-1">برای غیرفعال کردن نسخه روزانه خالی بگذارید.</p>
+                </div>
+                <div>
+                    <label className="block text-gray-400 mb-1">پس از هر چند فروش</label>
+                    <input type="number" min="0" value={form.everySales} onChange={e => setForm({ ...form, everySales: parseInt(e.target.value, 10) || 0 })} className="input-style w-full" />
+                    <p className="text-xs text-gray-500 mt-1">صفر یعنی بر اساس تعداد فروش نسخه گرفته نشود.</p>
+                </div>
+                <div>
+                    <label className="block text-gray-400 mb-1">محل ذخیره</label>
+                    <select value={form.destination} onChange={e => setForm({ ...form, destination: e.target.value as AutoBackupDestination })} className="input-style w-full">
+                        <option value="indexeddb">حافظه مرورگر</option>
+                        <option value="folder" disabled={!isFolderBackupSupported()}>پوشه‌ای در کامپیوتر</option>
+                    </select>
+                </div>
+                {form.destination === 'folder' && (
+                    <div>
+                        <label className="block text-gray-400 mb-1">پوشه پشتیبان</label>
+                        <div className="flex items-center gap-2">
+                            <span className="flex-1 truncate text-gray-300">{folderName || 'انتخاب نشده'}</span>
+                            <button type="button" onClick={handleChooseFolder} className="px-3 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">انتخاب پوشه</button>
+                        </div>
+                    </div>
+                )}
+                <div className="md:col-span-2 flex justify-end">
+                    <button type="submit" disabled={isSaving} className="flex items-center gap-2 px-6 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-500">
+                        <Save size={18} />
+                        {isSaving ? 'در حال ذخیره...' : 'ذخیره تنظیمات'}
+                    </button>
+                </div>
+            </form>
+
+            <div className="border-t border-gray-700 pt-4">
+                <h4 className="font-bold text-white mb-3">نسخه‌های موجود</h4>
+                {snapshots && snapshots.length > 0 ? (
+                    <table className="w-full text-sm text-right">
+                        <thead className="text-xs text-gray-400 border-b border-gray-600">
+                            <tr>
+                                <th className="p-2">تاریخ</th>
+                                <th className="p-2">نوع</th>
+                                <th className="p-2">محل ذخیره</th>
+                                <th className="p-2">حجم</th>
+                                <th className="p-2">عملیات</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {snapshots.map(snapshot => (
+                                <tr key={snapshot.id}>
+                                    <td className="p-2">{new Date(snapshot.createdAt).toLocaleString('fa-IR')}</td>
+                                    <td className="p-2">{SNAPSHOT_TRIGGER_LABELS[snapshot.trigger]}</td>
+                                    <td className="p-2">{snapshot.destination === 'folder' ? 'پوشه' : 'مرورگر'}</td>
+                                    <td className="p-2">{(snapshot.size / 1024).toFixed(1)} KB</td>
+                                    <td className="p-2">
+                                        <div className="flex items-center gap-3">
+                                            <button onClick={() => handleDownload(snapshot)} disabled={busySnapshotId !== null} className="text-blue-400 hover:text-blue-300 disabled:text-gray-600" title="دانلود"><Download size={18} /></button>
+                                            <button onClick={() => handleRestore(snapshot)} disabled={busySnapshotId !== null} className="text-green-400 hover:text-green-300 disabled:text-gray-600" title="بازیابی"><UploadCloud size={18} /></button>
+                                            <button onClick={() => handleDelete(snapshot)} disabled={busySnapshotId !== null} className="text-red-400 hover:text-red-300 disabled:text-gray-600" title="حذف"><Trash2 size={18} /></button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                ) : (
+                    <p className="text-sm text-gray-500">هنوز نسخه خودکاری گرفته نشده است.</p>
+                )}
             </div>
         </div>
     );
 };
 
+const RestorePreviewModal: React.FC<{ fileName: string; backup: BackupFile; previews: TableRestorePreview[]; onClose: () => void }> = ({ fileName, backup, previews, onClose }) => {
+    const [selectedTables, setSelectedTables] = useState<Set<string>>(() => new Set(previews.filter(p => p.restorable).map(p => p.table)));
+    const [dryRun, setDryRun] = useState(true);
+    const [isRunning, setIsRunning] = useState(false);
+    const [report, setReport] = useState<RestoreReport | null>(null);
+    const { showNotification } = useNotification();
+    const isOnline = useOnlineStatus();
+
+    const toggleTable = (table: string) => {
+        setSelectedTables(prev => {
+            const next = new Set(prev);
+            if (next.has(table)) next.delete(table);
+            else next.add(table);
+            return next;
+        });
+        setReport(null);
+    };
+
+    const needsServer = previews.some(p => p.requiresServer && selectedTables.has(p.table));
+
+    const handleRun = async () => {
+        if (selectedTables.size === 0) {
+            showNotification('حداقل یک جدول را برای بازیابی انتخاب کنید.', 'error');
+            return;
+        }
+        if (!dryRun && !window.confirm(
+            "*** هشدار بسیار مهم! ***\n\n" +
+            `اطلاعات ${selectedTables.size} جدول انتخاب شده با محتوای فایل پشتیبان جایگزین می‌شود و ردیف‌هایی که در فایل نیستند حذف خواهند شد. این عملیات غیرقابل بازگشت است!\n\nآیا ادامه می‌دهید؟`
+        )) return;
+
+        setIsRunning(true);
+        try {
+            const result = await restoreBackup(backup, [...selectedTables], { dryRun });
+            setReport(result);
+            if (!dryRun) {
+                await logActivity('RESTORE', 'Settings', 'database', { filename: fileName, backupCreatedAt: backup.createdAt, results: result.results });
+                showNotification('بازیابی اطلاعات با موفقیت انجام شد.', 'success');
+            }
+        } catch (error: any) {
+            console.error("Restore failed:", error);
+            showNotification(`خطا در بازیابی اطلاعات: ${error.message}`, 'error');
+        } finally {
+            setIsRunning(false);
+        }
+    };
+
+    return (
+        <Modal title={`بازیابی از: ${fileName}`} onClose={onClose}>
+            <div className="space-y-4">
+                <div className="p-3 bg-gray-700/50 rounded-lg text-sm text-gray-300 flex flex-wrap gap-x-6 gap-y-1">
+                    <span><strong>نسخه ساختار:</strong> {backup.schemaVersion} (فعلی: {db.verno})</span>
+                    <span><strong>تاریخ پشتیبان:</strong> {backup.createdAt ? new Date(backup.createdAt).toLocaleString('fa-IR') : 'نامشخص (فایل قدیمی)'}</span>
+                </div>
+                <div className="max-h-80 overflow-y-auto">
+                    <table className="w-full text-sm text-right">
+                        <thead className="text-xs text-gray-400 border-b border-gray-600">
+                            <tr>
+                                <th className="p-2"></th>
+                                <th className="p-2">جدول</th>
+                                <th className="p-2">در فایل</th>
+                                <th className="p-2">فعلی</th>
+                                <th className="p-2 text-green-400">افزوده</th>
+                                <th className="p-2 text-red-400">حذف</th>
+                                <th className="p-2 text-yellow-400">تغییر</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-700">
+                            {previews.map(p => (
+                                <tr key={p.table} className={p.restorable ? '' : 'text-gray-500'}>
+                                    <td className="p-2">
+                                        <input type="checkbox" checked={selectedTables.has(p.table)} disabled={!p.restorable} onChange={() => toggleTable(p.table)} />
+                                    </td>
+                                    <td className="p-2">
+                                        {p.label}
+                                        {p.reason && <p className="text-xs text-gray-500">{p.reason}</p>}
+                                    </td>
+                                    <td className="p-2">{p.backupCount}</td>
+                                    <td className="p-2">{p.currentCount}</td>
+                                    <td className="p-2 text-green-400">{p.added}</td>
+                                    <td className="p-2 text-red-400">{p.removed}</td>
+                                    <td className="p-2 text-yellow-400">{p.changed}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+                {report && (
+                    <div className={`p-3 rounded-lg text-sm space-y-1 ${report.dryRun ? 'bg-blue-900/30 border border-blue-700' : 'bg-green-900/30 border border-green-700'}`}>
+                        <p className="font-bold">{report.dryRun ? 'نتیجه اجرای آزمایشی (هیچ تغییری ذخیره نشد):' : 'نتیجه بازیابی:'}</p>
+                        {report.results.map(r => (
+                            <p key={r.table}>{r.label}: {r.upserted} ردیف بازنویسی، {r.deleted} حذف{r.skipped > 0 && `، ${r.skipped} ردیف همگام‌سازی نشده نادیده گرفته شد`}</p>
+                        ))}
+                    </div>
+                )}
+                <div className="flex flex-wrap justify-between items-center gap-3 pt-4 border-t border-gray-700">
+                    <label className="flex items-center gap-2 text-sm cursor-pointer">
+                        <input type="checkbox" checked={dryRun} onChange={e => { setDryRun(e.target.checked); setReport(null); }} />
+                        اجرای آزمایشی (بدون ذخیره تغییرات)
+                    </label>
+                    <div className="flex gap-3">
+                        <button onClick={onClose} className="px-4 py-2 bg-gray-600 rounded-lg hover:bg-gray-500">بستن</button>
+                        <button
+                            onClick={handleRun}
+                            disabled={isRunning || (!dryRun && needsServer && !isOnline)}
+                            title={!dryRun && needsServer && !isOnline ? 'بازیابی جداول مشترک نیاز به اتصال اینترنت دارد' : undefined}
+                            className={`px-4 py-2 rounded-lg disabled:bg-gray-500 ${dryRun ? 'bg-blue-600 hover:bg-blue-700' : 'bg-red-600 hover:bg-red-700'}`}
+                        >
+                            {isRunning ? 'در حال اجرا...' : dryRun ? 'اجرای آزمایشی' : 'بازیابی جداول انتخاب شده'}
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </Modal>
+    );
+};
+
 // Supplier Portal Management
 const SupplierPortalManagement: React.FC = () => {
     const [isModalOpen, setIsModalOpen] = useState(false);
@@ -498,7 +805,7 @@ const SupplierPortalManagement: React.FC = () => {
     const handleDeleteAccount = async (supplierId?: number) => {
         if (!supplierId || !window.confirm('آیا از حذف حساب پورتال این تامین‌کننده مطمئن هستید؟')) return;
         
-        const { error } = await supabase.rpc('delete_supplier_account', { p_supplier_id: supplierId });
+        const { error } = await backend.rpc('delete_supplier_account', { p_supplier_id: supplierId });
         
         if (error) {
             console.error("Error deleting supplier account:", error);
@@ -596,7 +903,7 @@ const UserManagement: React.FC = () => {
         }
         
         // Call RPC to delete user from Supabase auth and users table
-        const { error } = await supabase.rpc('delete_user', { p_user_id: user?.remoteId });
+        const { error } = await backend.rpc('delete_user', { p_user_id: user?.remoteId });
         if (error) {
             showNotification(`خطا در حذف کاربر: ${error.message}`, 'error');
             return;
@@ -690,7 +997,7 @@ const RoleManagement: React.FC = () => {
         
         // ONLINE-FIRST
         if (role.remoteId) {
-            const { error } = await supabase.from('roles').delete().eq('id', role.remoteId);
+            const { error } = await backend.from('roles').delete().eq('id', role.remoteId);
             if (error) {
                 showNotification(`خطا در حذف از سرور: ${error.message}`, 'error');
                 return;
@@ -757,7 +1064,7 @@ const SupplierAccountFormModal: React.FC<{ supplier: Supplier; account: Supplier
         }
 
         try {
-            const { data, error } = await supabase.rpc('create_or_update_supplier_account', {
+            const { data, error } = await backend.rpc('create_or_update_supplier_account', {
                 p_supplier_id: supplier.remoteId,
                 p_username: username.trim(),
                 p_password: password.trim() // Send empty string if not changing
@@ -832,7 +1139,7 @@ const UserFormModal: React.FC<{ user: User | null; onClose: () => void; }> = ({
         try {
             if (isEditing && user?.id) {
                 // --- UPDATE USER ---
-                const { data, error } = await supabase.rpc('admin_update_user', {
+                const { data, error } = await backend.rpc('admin_update_user', {
                     p_user_id: user.remoteId,
                     p_username: username.trim(),
                     p_role_id: Number(roleId), // This should be the role's remoteId
@@ -859,7 +1166,7 @@ const UserFormModal: React.FC<{ user: User | null; onClose: () => void; }> = ({
                     return;
                 }
 
-                const { data, error } = await supabase.rpc('create_new_user', {
+                const { data, error } = await backend.rpc('create_new_user', {
                     p_username: username.trim(),
                     p_password: password.trim(),
                     p_role_id: localRole.remoteId
@@ -941,7 +1248,7 @@ const RoleFormModal: React.FC<{ role: Role | null; onClose: () => void; }> = ({
             if (isEditing && role?.id) {
                 const oldRole = await db.roles.get(role.id);
                 // ONLINE-FIRST Update
-                const { error } = await supabase.from('roles').update(roleData).eq('id', role.remoteId);
+                const { error } = await backend.from('roles').update(roleData).eq('id', role.remoteId);
                 if (error) throw error;
                 // Update local
                 await db.roles.update(role.id, { name: roleData.name, permissions: roleData.permissions });
@@ -949,7 +1256,7 @@ const RoleFormModal: React.FC<{ role: Role | null; onClose: () => void; }> = ({
                 showNotification('نقش با موفقیت ویرایش شد.', 'success');
             } else {
                 // ONLINE-FIRST Create
-                const { data: newData, error } = await supabase.from('roles').insert(roleData).select().single();
+                const { data: newData, error } = await backend.from('roles').insert(roleData).select().single();
                 if (error) throw error;
                 // Create local
                 const newRole: Role = {
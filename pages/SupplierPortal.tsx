@@ -2,16 +2,16 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { db } from '../db';
 import Header from '../components/Header';
-import { Supplier, Payment, PurchaseInvoice } from '../types';
+import { Supplier, Payment, PurchaseInvoice, PurchaseReturn } from '../types';
 import { Printer } from 'lucide-react';
 import PrintableSupplierLedger, { Transaction } from '../components/PrintableSupplierLedger';
 import Modal from '../components/Modal';
-import { supabase } from '../lib/supabaseClient';
+import { backend } from '../lib/dataBackend';
 import { parseJalaliDate } from '../lib/dateConverter';
 import { useNotification } from '../contexts/NotificationContext';
 
 
-const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseInvoice[], allPayments: Payment[] }> = ({ supplier, allPurchases, allPayments }) => {
+const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseInvoice[], allPayments: Payment[], allReturns: PurchaseReturn[] }> = ({ supplier, allPurchases, allPayments, allReturns }) => {
     const [transactions, setTransactions] = useState<Transaction[]>([]);
     const [isPrintModalOpen, setIsPrintModalOpen] = useState(false);
     const { showNotification } = useNotification();
@@ -56,11 +56,14 @@ const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseI
         const allCombined = [
             ...allPurchases.map(p => ({ type: 'purchase' as const, date: p.date, data: p })),
             ...allPayments.map(p => ({ type: 'payment' as const, date: p.date, data: p })),
+            ...allReturns.map(r => ({ type: 'return' as const, date: r.date, data: r })),
         ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+        const invoiceNumbers = new Map(allPurchases.map(p => [p.id, p.invoiceNumber]));
         
         let openingBalance = supplier.totalDebt;
         allCombined.forEach(item => {
             if (item.type === 'purchase') openingBalance -= item.data.totalAmount;
+            else if (item.type === 'return') openingBalance += item.data.totalAmount;
             else openingBalance += item.data.amount;
         });
         
@@ -80,6 +83,10 @@ const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseI
                     const p = item.data;
                     runningBalance += p.totalAmount;
                     processed.push({ date: p.date, description: `بابت فاکتور خرید #${p.invoiceNumber || ''}`, debit: p.totalAmount, credit: 0, balance: runningBalance });
+                } else if (item.type === 'return') {
+                    const r = item.data;
+                    runningBalance -= r.totalAmount;
+                    processed.push({ date: r.date, description: `مرجوعی کالا (فاکتور #${invoiceNumbers.get(r.purchaseInvoiceId) || ''})`, detail: r.reason, debit: 0, credit: r.totalAmount, balance: runningBalance });
                 } else {
                     const p = item.data;
                     runningBalance -= p.amount;
@@ -103,6 +110,7 @@ const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseI
             [...beforePeriod, ...inPeriod].forEach(item => {
                 if (new Date(item.date) >= start) {
                      if (item.type === 'purchase') filteredOpeningBalance -= item.data.totalAmount;
+                     else if (item.type === 'return') filteredOpeningBalance += item.data.totalAmount;
                      else filteredOpeningBalance += item.data.amount;
                 }
             });
@@ -111,7 +119,7 @@ const SupplierLedgerView: React.FC<{ supplier: Supplier, allPurchases: PurchaseI
         } else {
             setTransactions(processAndSetTransactions(allCombined));
         }
-    }, [supplier.totalDebt, allPurchases, allPayments, dateRange]);
+    }, [supplier.totalDebt, allPurchases, allPayments, allReturns, dateRange]);
     
 
     const finalBalance = supplier.totalDebt;
@@ -205,6 +213,7 @@ const SupplierPortal: React.FC = () => {
   const [supplierData, setSupplierData] = useState<Supplier | null>(null);
   const [purchaseData, setPurchaseData] = useState<PurchaseInvoice[]>([]);
   const [paymentData, setPaymentData] = useState<Payment[]>([]);
+  const [returnData, setReturnData] = useState<PurchaseReturn[]>([]);
 
   
   // Just-in-Time Sync Effect: This is the core fix.
@@ -229,15 +238,17 @@ const SupplierPortal: React.FC = () => {
              const supplierId = currentUser.supplierId;
 
              // Fetch all necessary data for this supplier from Supabase
-             const [supplierRes, purchasesRes, paymentsRes] = await Promise.all([
-                 supabase.from('suppliers').select('*').eq('id', supplierId).single(),
-                 supabase.from('purchase_invoices').select('*').eq('supplier_id', supplierId),
-                 supabase.from('payments').select('*').eq('supplier_id', supplierId)
+             const [supplierRes, purchasesRes, paymentsRes, returnsRes] = await Promise.all([
+                 backend.from('suppliers').select('*').eq('id', supplierId).single(),
+                 backend.from('purchase_invoices').select('*').eq('supplier_id', supplierId),
+                 backend.from('payments').select('*').eq('supplier_id', supplierId),
+                 backend.from('purchase_returns').select('*').eq('supplier_id', supplierId)
              ]);
 
              if (supplierRes.error) throw new Error(`تامین‌کننده یافت نشد: ${supplierRes.error.message}`);
              if (purchasesRes.error) throw purchasesRes.error;
              if (paymentsRes.error) throw paymentsRes.error;
+             if (returnsRes.error) throw returnsRes.error;
              
              const liveSupplier: Supplier = {
                  id: supplierRes.data.id, remoteId: supplierRes.data.id,
@@ -254,11 +265,17 @@ const SupplierPortal: React.FC = () => {
                  id: p.id, remoteId: p.id, supplierId: liveSupplier.id!, amount: p.amount,
                  date: p.date, recipientName: p.recipient_name, description: p.description
              }));
+
+             const liveReturns: PurchaseReturn[] = returnsRes.data.map((r: any) => ({
+                 id: r.id, remoteId: r.id, purchaseInvoiceId: r.purchase_invoice_id, supplierId: liveSupplier.id!,
+                 date: r.date, items: r.items || [], totalAmount: r.total_amount, reason: r.reason ?? undefined
+             }));
              
              // Set state directly with the fresh data
              setSupplierData(liveSupplier);
              setPurchaseData(livePurchases);
              setPaymentData(livePayments);
+             setReturnData(liveReturns);
              
         } catch(err: any) {
             console.error("Failed to sync supplier portal data:", err);
@@ -305,6 +322,7 @@ const SupplierPortal: React.FC = () => {
                 supplier={supplierData} 
                 allPurchases={purchaseData}
                 allPayments={paymentData}
+                allReturns={returnData}
             />
           </main>
         </div>
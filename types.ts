@@ -7,7 +7,8 @@ export type ActivityEntityType =
   | 'Drug' | 'Supplier' | 'PurchaseInvoice' | 'SaleInvoice' | 'Payment' 
   | 'ClinicService' | 'ServiceProvider' | 'ClinicTransaction' 
   | 'SimpleAccountingColumn' | 'SimpleAccountingEntry'
-  | 'User' | 'Role' | 'SupplierAccount' | 'Settings' | 'Authentication';
+  | 'User' | 'Role' | 'SupplierAccount' | 'Settings' | 'Authentication'
+  | 'SyncQueueItem' | 'Customer' | 'CustomerPayment' | 'Prescription' | 'SaleReturn' | 'PurchaseReturn' | 'Shift' | 'Insurer' | 'InsuranceClaim' | 'Stocktake' | 'StockMovement' | 'StockWriteOff' | 'PurchaseOrder';
 
 export interface ActivityLog {
     id?: number;
@@ -35,13 +36,23 @@ export const PERMISSIONS = {
   'inventory:create': 'افزودن داروی جدید',
   'inventory:edit': 'ویرایش اطلاعات دارو',
   'inventory:delete': 'حذف دارو',
+  'inventory:stocktake': 'شمارش انبار و ثبت مغایرت‌ها',
+  'inventory:adjust': 'اصلاح دستی موجودی (ضایعات، انقضا، انتقال)',
   'sales:create': 'ثبت فاکتور فروش',
   'sales:edit': 'ویرایش فاکتور فروش',
+  'sales:prescriptions:manage': 'ثبت و ویرایش نسخه‌ها',
+  'sales:returns:create': 'ثبت مرجوعی فروش و بازپرداخت',
+  'sales:discount': 'اعمال تخفیف و تغییر قیمت در فروش',
+  'sales:discount:approve': 'تایید تخفیف بیش از سقف مجاز',
   'purchases:create': 'ثبت فاکتور خرید',
   'purchases:edit': 'ویرایش فاکتور خرید',
+  'purchases:returns:create': 'ثبت مرجوعی خرید به تامین‌کننده',
+  'purchases:orders': 'پیشنهاد، ثبت، ارسال و بستن سفارش خرید',
   'accounting:suppliers:manage': 'مدیریت تامین‌کنندگان و پرداخت‌ها',
   'accounting:clinic:manage': 'مدیریت خدمات و صندوق کلینیک',
   'accounting:simple:manage': 'مدیریت حسابداری ساده',
+  'accounting:customers:manage': 'مدیریت مشتریان و حساب‌های نسیه',
+  'accounting:insurers:manage': 'مدیریت بیمه‌ها و صورتحساب‌های بیمه',
   'settings:users:view': 'مشاهده کاربران',
   'settings:users:manage': 'مدیریت کاربران (افزودن/ویرایش/حذف)',
   'settings:roles:view': 'مشاهده نقش‌ها',
@@ -58,6 +69,7 @@ export type Permission = keyof typeof PERMISSIONS;
 export interface Role {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   permissions: Permission[];
   isEditable: boolean; // To protect the default Admin role
@@ -66,6 +78,7 @@ export interface Role {
 export interface User {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   username: string;
   roleId: number;
 }
@@ -73,6 +86,7 @@ export interface User {
 export interface SupplierAccount {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   supplierId: number;
   username: string;
 }
@@ -87,19 +101,28 @@ export enum DrugType {
   OTHER = 'غیره',
 }
 
+// Drugs under legal control; every movement of them goes into the controlled-substance register.
+export enum ControlledSchedule {
+  NARCOTIC = 'مخدر',
+  PSYCHOTROPIC = 'روانگردان',
+}
+
 export interface DrugBatch {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   drugId: number;
   lotNumber: string;
   expiryDate: string; // YYYY-MM-DD
   quantityInStock: number;
   purchasePrice: number; // Price for this specific batch
+  quarantinedQuantity?: number; // Expired, or returned as damaged; kept apart and not sellable
 }
 
 export interface Drug {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   company: string;
   // lotNumber, expiryDate, and individual stock are now in DrugBatch
@@ -109,15 +132,102 @@ export interface Drug {
   type: DrugType;
   internalBarcode?: string;
   barcode?: string; // This will store both barcode and QR code values
+  controlled?: ControlledSchedule; // Missing for ordinary drugs
+  shelf?: string; // Where the drug is kept, e.g. "A-3"; used to split stocktakes
+  minStock?: number; // Safety stock; the global low-stock threshold applies when missing
+  maxStock?: number; // Level a reorder fills up to
+  preferredSupplierId?: number;
+}
+
+export type StockMovementType =
+  | 'opening' | 'sale' | 'return' | 'purchase' | 'purchase_return'
+  | 'adjustment' | 'breakage' | 'expiry_writeoff' | 'transfer' | 'stocktake' | 'quarantine';
+
+export type StockAdjustmentReason =
+  | 'count_correction' | 'entry_error' | 'damaged' | 'expired' | 'lost' | 'found' | 'transfer_out' | 'transfer_in' | 'other';
+
+// One change to the sellable quantity of a batch. Rows are only ever appended, by the
+// server, in the same transaction that changes the batch.
+export interface StockMovement {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  drugId: number;
+  batchId: number;
+  type: StockMovementType;
+  quantity: number; // Signed change of `quantityInStock`
+  date: string;
+  referenceId?: number; // Number of the source document (invoice, return, stocktake) on the server
+  reason?: StockAdjustmentReason; // Manual adjustments only
+  note?: string;
+  username?: string;
+}
+
+export interface StockWriteOffItem {
+  drugId: number;
+  batchId: number;
+  name: string;
+  lotNumber: string;
+  expiryDate: string;
+  quantity: number;
+  purchasePrice: number;
+}
+
+// Quarantined units (expired or damaged) destroyed for good; their cost is a loss.
+export interface StockWriteOff {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  date: string;
+  items: StockWriteOffItem[];
+  totalValue: number;
+  notes?: string; // e.g. how and where the units were destroyed
+  username?: string;
+}
+
+// Part of the store a stocktake covers; an empty scope is the whole store.
+export interface StocktakeScope {
+  shelf?: string;
+  drugType?: DrugType;
+}
+
+export interface StocktakeLine {
+  batchId: number;
+  drugId: number;
+  name: string;
+  lotNumber: string;
+  expiryDate: string;
+  systemQuantity: number; // Stock of the batch when the session started
+  countedQuantity?: number; // Missing until the batch is counted; uncounted batches are not adjusted
+  purchasePrice: number;
+}
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+// A physical count of (part of) the store. Posting it adjusts every counted batch by its variance.
+export interface Stocktake {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  startedAt: string;
+  startedBy: string;
+  scope: StocktakeScope;
+  lines: StocktakeLine[];
+  status: StocktakeStatus;
+  postedAt?: string;
+  postedBy?: string;
+  notes?: string;
 }
 
 export interface Supplier {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   contactPerson?: string;
   phone?: string;
   totalDebt: number;
+  leadTimeDays?: number; // Days from ordering to delivery, used by the reorder suggestions
 }
 
 export interface PurchaseInvoiceItem {
@@ -132,6 +242,7 @@ export interface PurchaseInvoiceItem {
 export interface PurchaseInvoice {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   invoiceNumber: string;
   supplierId: number;
   date: string;
@@ -140,36 +251,279 @@ export interface PurchaseInvoice {
   amountPaid: number; // Initially 0 when creating
 }
 
+export interface PurchaseOrderItem {
+  drugId: number;
+  name: string;
+  quantity: number;
+  purchasePrice: number; // Expected unit price, from the drug's latest purchase price
+  receivedQuantity?: number; // Delivered so far, over all receipts
+}
+
+// draft -> sent -> partial (some lines still outstanding) -> closed (fully received, or closed short)
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partial' | 'closed';
+
+export type ReceiptIssueKind = 'short' | 'over' | 'priceChange' | 'lotMismatch';
+
+export interface ReceiptIssue {
+  name: string; // Drug name
+  kind: ReceiptIssueKind;
+  expected: string | number; // Outstanding quantity, current purchase price, or the lot's known expiry date
+  actual: string | number;
+}
+
+export interface PurchaseOrderReceipt {
+  invoiceNumber: string; // The purchase invoice the delivery was booked on
+  date: string;
+  receivedBy?: string;
+  issues: ReceiptIssue[];
+}
+
+export interface PurchaseOrder {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  supplierId: number;
+  createdAt: string;
+  createdBy?: string;
+  sentAt?: string;
+  items: PurchaseOrderItem[];
+  totalAmount: number;
+  status: PurchaseOrderStatus;
+  receipts?: PurchaseOrderReceipt[];
+  notes?: string;
+}
+
+export interface PurchaseReturnItem {
+  drugId: number;
+  name: string;
+  lotNumber: string; // Identifies the batch the units are taken from
+  expiryDate: string;
+  quantity: number;
+  purchasePrice: number; // As bought on the original invoice
+}
+
+export interface PurchaseReturn {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  purchaseInvoiceId: number;
+  supplierId: number;
+  date: string;
+  items: PurchaseReturnItem[];
+  totalAmount: number; // Credited against the supplier's debt
+  reason?: string;
+  fromQuarantine?: boolean; // Units sent back out of quarantine (e.g. expired) rather than sellable stock
+}
+
 export interface SaleItem {
   drugId: number;
   name: string;
   quantity: number;
-  unitPrice: number;
-  totalPrice: number;
+  unitPrice: number; // Price charged per unit, after any manual override
+  listPrice?: number; // Catalogue price, set only when the unit price was overridden
+  discount?: number; // Line discount amount
+  totalPrice: number; // unitPrice * quantity - discount
+  insuredAmount?: number; // Part of the line the insurer pays
   deductions: { batchId: number; quantity: number }[]; // CRITICAL for editing/reversals
+  directions?: string; // Dose and directions from the prescription, printed on the invoice
 }
 
 export interface SaleInvoice {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   date: string;
   items: SaleItem[];
-  totalAmount: number;
+  totalAmount: number; // Lines total minus the invoice discount
+  discount?: number; // Invoice-level discount amount
+  discountApprovedBy?: string; // Manager who approved a discount above the limit
+  customerId?: number;
+  amountPaid?: number; // Paid at the counter; the rest is added to the customer's debt. Missing means paid in full.
+  prescriptionId?: number;
+  controlledDispensing?: ControlledDispensing; // Required when the invoice contains controlled drugs
+  tenders?: Tender[]; // How the total was settled. Missing on invoices from before split payments.
+  changeDue?: number; // Cash handed back to the customer
+  shiftId?: number;
+  insurerId?: number;
+  insuranceMemberId?: string; // The patient's policy / membership number with the insurer
+  insurerShare?: number; // Part of the total billed to the insurer; settled with an 'insurance' tender
+}
+
+export type DiscountKind = 'percent' | 'fixed';
+
+export interface DiscountInput {
+  kind: DiscountKind;
+  value: number; // A percentage or an amount, depending on the kind
+}
+
+// A cart parked at the counter while its customer steps away. Kept on this device only.
+export interface HeldCart {
+  id?: number;
+  name: string;
+  heldAt: string;
+  items: Omit<SaleItem, 'deductions'>[];
+  lineDiscounts?: Record<number, DiscountInput>; // Keyed by drugId
+  invoiceDiscount?: DiscountInput;
+  customerId?: number;
+  prescriptionId?: number;
+  insurerId?: number;
+  insuranceMemberId?: string;
+}
+
+export type TenderType = 'cash' | 'card' | 'mobile' | 'credit' | 'insurance';
+
+export interface Tender {
+  type: TenderType;
+  amount: number; // Part of the invoice total settled with this tender
+  reference?: string; // Card slip or wallet transaction number
+}
+
+export interface ControlledDispensing {
+  patientName: string;
+  patientIdNumber: string;
+  prescriptionNumber: string;
+}
+
+export type SaleReturnCondition = 'restock' | 'damaged';
+
+export type RefundMethod = 'cash' | 'account'; // 'account' reduces the customer's debt instead of paying out
+
+export interface SaleReturnItem {
+  lineIndex?: number; // Position of the returned line on the invoice; a drug can be sold on several lines
+  drugId: number;
+  name: string;
+  quantity: number;
+  unitPrice: number; // As sold on the original invoice
+  totalPrice: number;
+  condition: SaleReturnCondition;
+}
+
+export interface SaleReturn {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  saleInvoiceId: number;
+  customerId?: number;
+  date: string;
+  items: SaleReturnItem[];
+  totalAmount: number; // Refunded amount
+  refundMethod: RefundMethod;
+  reason?: string;
+  shiftId?: number;
+}
+
+export interface Customer {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  name: string;
+  phone?: string;
+  nationalId?: string;
+  notes?: string;
+  totalDebt: number; // Unpaid balance of sales on account
+}
+
+export interface CustomerPayment {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  customerId: number;
+  amount: number;
+  date: string;
+  description?: string;
+  shiftId?: number; // Taken into the drawer during this shift
+}
+
+// Which part of a sale an insurer pays. A rule for a drug wins over the rule for its type.
+export interface InsuranceCoverageRule {
+  drugId?: number;
+  drugType?: DrugType;
+  percent: number; // Share of the line the insurer pays
+  maxPerUnit?: number; // Cap on the insurer's share per unit sold
+}
+
+export interface Insurer {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  name: string;
+  code?: string; // The pharmacy's contract / provider code with the insurer
+  phone?: string;
+  rules: InsuranceCoverageRule[];
+  maxPerInvoice?: number; // Cap on the insurer's share of one invoice
+  active: boolean;
+}
+
+export type InsuranceClaimStatus = 'submitted' | 'reconciled';
+
+export interface InsuranceClaimLine {
+  saleInvoiceId: number;
+  date: string;
+  memberId?: string;
+  claimedAmount: number;
+  paidAmount?: number; // Set on reconciliation
+}
+
+// A monthly batch of sales billed to one insurer.
+export interface InsuranceClaim {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  insurerId: number;
+  period: string; // YYYY-MM
+  createdAt: string;
+  lines: InsuranceClaimLine[];
+  claimedAmount: number;
+  status: InsuranceClaimStatus;
+  paidAmount?: number;
+  reconciledAt?: string;
+  notes?: string;
+}
+
+export type PrescriptionStatus = 'active' | 'completed' | 'cancelled';
+
+export interface PrescriptionItem {
+  drugId: number;
+  name: string;
+  quantity: number; // Quantity per fill
+  dose: string;
+  directions: string;
+  dispensedQuantity: number; // Dispensed so far in the current fill
+}
+
+export interface Prescription {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  customerId?: number;
+  patientName: string;
+  prescriberName: string;
+  prescriberLicense?: string;
+  issueDate: string;
+  items: PrescriptionItem[];
+  refillsAllowed: number; // Fills allowed after the original one
+  fillsCompleted: number;
+  status: PrescriptionStatus;
+  image?: string; // Scanned prescription as a data URL
+  notes?: string;
 }
 
 export interface Payment {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   supplierId: number;
   amount: number;
   date: string;
   recipientName?: string;
   description?: string;
+  shiftId?: number; // Paid out of the drawer during this shift
 }
 
 export interface ClinicService {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   price: number;
   requiresProvider: boolean;
@@ -178,6 +532,7 @@ export interface ClinicService {
 export interface ServiceProvider {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   specialty?: string;
 }
@@ -185,17 +540,54 @@ export interface ServiceProvider {
 export interface ClinicTransaction {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   serviceId: number;
   providerId?: number; // Optional, depends on the service
+  customerId?: number;
   patientName?: string;
   amount: number;
   date: string; // ISO string
   ticketNumber: number;
+  shiftId?: number;
+}
+
+export type ShiftStatus = 'open' | 'closed';
+
+// Figures of a shift's closing (Z) report. Frozen on the shift when it is closed.
+export interface ShiftReport {
+  salesCount: number;
+  salesTotal: number;
+  tenderTotals: Record<TenderType, number>;
+  returnsCount: number;
+  returnsTotal: number;
+  cashRefunds: number;
+  discountsTotal: number;
+  clinicCount: number;
+  clinicTotal: number;
+  supplierPaymentsTotal: number;
+  customerPaymentsTotal: number;
+  expectedCash: number; // Opening float + cash taken - cash paid out
+}
+
+export interface Shift {
+  id?: number;
+  remoteId?: number;
+  updatedAt?: string;
+  userId: number; // Server id of the employee, as in the activity log
+  username: string;
+  openedAt: string;
+  openingFloat: number; // Cash in the drawer at the start
+  status: ShiftStatus;
+  closedAt?: string;
+  countedCash?: number;
+  report?: ShiftReport;
+  notes?: string;
 }
 
 export interface SimpleAccountingColumn {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   name: string;
   type: 'income' | 'expense';
   order: number;
@@ -204,6 +596,7 @@ export interface SimpleAccountingColumn {
 export interface SimpleAccountingEntry {
   id?: number;
   remoteId?: number;
+  updatedAt?: string;
   date: string; // YYYY-MM-DD
   patientName: string;
   description: string;
@@ -217,6 +610,40 @@ export interface SyncQueueItem {
     recordId: number | string; // The primary key of the record in the local DB
     payload: any;
     timestamp: number;
+    baseVersion?: string; // The record's updatedAt when the change was made, used to detect conflicts
+    attempts?: number; // Failed push attempts so far
+    lastError?: string;
+    nextAttemptAt?: number; // Backoff: the item is skipped until this timestamp
+    dependsOn?: SyncDependency[]; // Unsynced parent records that must be pushed first
+}
+
+export interface SyncDependency {
+    table: string;
+    recordId: number;
+    remoteId?: number; // Filled in once the parent has been pushed
+}
+
+// A queue item that kept failing and was moved out of the queue so it no longer blocks syncing.
+export interface SyncDeadLetter extends Omit<SyncQueueItem, 'id'> {
+    id?: number;
+    failedAt: number;
+}
+
+export interface SyncConflict {
+    id?: number;
+    table: string;
+    recordId: number;
+    remoteId: number;
+    localData: any; // Fields the queued change wanted to write (local shape)
+    remoteData: any; // Current server record mapped to the local shape
+    remoteVersion?: string;
+    queueItem: SyncQueueItem;
+    detectedAt: number;
+}
+
+export interface SyncState {
+    table: string; // Local table name, or '__tombstones' for the deletion log
+    lastPulledAt: string; // High-water mark: the largest server updated_at pulled so far
 }
 
 export type ExpiryThreshold = {
@@ -224,9 +651,45 @@ export type ExpiryThreshold = {
     unit: 'days' | 'weeks' | 'months';
 }
 
-export type AppSettingKey = 'expiryAlertThreshold' | 'lowStockThreshold' | 'pharmacyName' | 'pharmacyLogo';
+export type AutoBackupDestination = 'indexeddb' | 'folder';
+
+export interface AutoBackupSettings {
+    enabled: boolean;
+    closingTime: string; // 'HH:MM'; '' disables the daily snapshot
+    everySales: number; // Take a snapshot after this many new sales; 0 disables it
+    destination: AutoBackupDestination;
+}
+
+export type AppSettingKey = 'expiryAlertThreshold' | 'lowStockThreshold' | 'pharmacyName' | 'pharmacyLogo' | 'autoBackup' | 'maxDiscountPercent';
 
 export interface AppSetting {
   key: AppSettingKey;
-  value: ExpiryThreshold | number | string;
+  value: ExpiryThreshold | AutoBackupSettings | number | string;
+}
+
+export type BackupSnapshotTrigger = 'closing' | 'sales' | 'manual';
+
+export interface BackupSnapshot {
+    id?: number;
+    createdAt: string;
+    trigger: BackupSnapshotTrigger;
+    schemaVersion: number;
+    destination: AutoBackupDestination;
+    fileName: string;
+    size: number; // Compressed size in bytes
+    data?: Blob; // gzip-compressed backup JSON; only kept when stored in IndexedDB
+}
+
+// Browser handles that cannot be serialized into a backup (e.g. the chosen backup folder).
+export interface StoredFileHandle {
+    key: string;
+    handle: FileSystemHandle;
+}
+
+// Salted hash of an employee password the backend accepted on this device; lets it check
+// credentials while the backend cannot be reached. Never backed up or synced.
+export interface CachedCredential {
+    username: string;
+    salt: string; // Hex
+    hash: string; // PBKDF2-SHA-256, hex
 }
\ No newline at end of file